@@ -3,11 +3,21 @@ import fastifyCors from '@fastify/cors';
 import fastifyRateLimit from '@fastify/rate-limit';
 import fastifySwagger from '@fastify/swagger';
 import fastifySwaggerUI from '@fastify/swagger-ui';
+import fastifyWebsocket from '@fastify/websocket';
 import envPlugin from './plugins/env';
 import dbPlugin from './plugins/db';
 import authPlugin from './plugins/auth';
+import mailerPlugin from './plugins/mailer';
+import storagePlugin from './plugins/storage';
+import videoPlugin from './plugins/video';
+import jobsPlugin from './plugins/jobs';
+import pushPlugin from './plugins/push';
+import notificationsPlugin from './plugins/notifications';
+import messagingPlugin from './plugins/messaging';
 import { sql } from 'drizzle-orm';
 import authRoutes from './routes/auth';
+import emailAuthRoutes from './routes/auth-email';
+import authLinkRoutes from './routes/auth-link';
 import userRoutes from './routes/users';
 import businessRoutes from './routes/businesses';
 import postRoutes from './routes/posts';
@@ -19,12 +29,35 @@ import newsRoutes from './routes/news';
 import searchRoutes from './routes/search';
 import analyticsRoutes from './routes/analytics';
 import mediaRoutes from './routes/media';
+import mediaFileRoutes from './routes/media-files';
+import uploadTicketRoutes from './routes/upload-tickets';
+import mediaTusRoutes from './routes/media-tus';
+import mediaVideoRoutes from './routes/media-videos';
 import adminMediaRoutes from './routes/admin/media';
+import adminRoleRoutes from './routes/admin/roles';
 import sessionRoutes from './routes/sessions';
+import connectionRoutes from './routes/connections';
+import messageRoutes from './routes/messages';
+import savedSearchRoutes from './routes/saved-searches';
+import bloodRequestRoutes from './routes/blood-requests';
+import eventRoutes from './routes/events';
+import groupRoutes from './routes/groups';
+import jobRoutes from './routes/jobs';
+import mentorshipRoutes from './routes/mentorship';
+import notificationRoutes from './routes/notifications';
 import userMediaRoutes from './routes/users-media';
 import postsMediaRoutes from './routes/posts-media';
 import businessMediaRoutes from './routes/business-media';
 import { registerGraphql } from './graphql';
+import { TokenManager } from './utils/tokenManager';
+import { setCursorSecret } from './utils/cursor';
+import { AccountDeletionService } from './services/accountDeletionService';
+import { SavedSearchService } from './services/savedSearchService';
+import { NotificationService } from './services/notificationService';
+import { EventService } from './services/eventService';
+import { UploadTicketService } from './services/uploadTicketService';
+import { ResumableUploadService } from './services/resumableUploadService';
+import { VideoService } from './services/videoService';
 
 
 
@@ -33,6 +66,18 @@ async function buildApp() {
   const fastify = Fastify({
     logger: {
       level: process.env.NODE_ENV === 'production' ? 'info' : 'debug',
+      serializers: {
+        // Calendar feeds and sockets take tokens in the query; keep them out of the logs
+        req(request) {
+          return {
+            method: request.method,
+            url: request.url.replace(/([?&](?:token|ticket)=)[^&]*/g, '$1[redacted]'),
+            hostname: request.hostname,
+            remoteAddress: request.ip,
+            ...(request.socket?.remotePort !== undefined && { remotePort: request.socket.remotePort }),
+          };
+        },
+      },
       transport: {
         target: 'pino-pretty',
         options: {
@@ -45,6 +90,7 @@ async function buildApp() {
 
   // Register env plugin first
   await fastify.register(envPlugin);
+  setCursorSecret(fastify.config.CURSOR_SECRET || fastify.config.JWT_SECRET);
 
 
   // registerGraphql(fastify, fastify.db);
@@ -66,7 +112,7 @@ async function buildApp() {
       }
     },
     credentials: true,
-    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
   });
 
   await fastify.register(fastifyRateLimit, {
@@ -105,6 +151,8 @@ async function buildApp() {
  
 
 
+  await fastify.register(fastifyWebsocket);
+
   await fastify.register(fastifySwaggerUI, {
     routePrefix: '/docs',
     uiConfig: {
@@ -118,9 +166,18 @@ async function buildApp() {
 
   await fastify.register(dbPlugin);
   await fastify.register(authPlugin);
+  await fastify.register(mailerPlugin);
+  await fastify.register(storagePlugin);
+  await fastify.register(videoPlugin);
+  await fastify.register(jobsPlugin);
+  await fastify.register(pushPlugin);
+  await fastify.register(notificationsPlugin);
+  await fastify.register(messagingPlugin);
   registerGraphql(fastify, fastify.db);
 
   await fastify.register(authRoutes, { prefix: '/api' });
+  await fastify.register(emailAuthRoutes, { prefix: '/api/auth/email' });
+  await fastify.register(authLinkRoutes, { prefix: '/api/auth/link' });
   await fastify.register(userRoutes, { prefix: '/api/users' });
   await fastify.register(businessRoutes, { prefix: '/api/businesses' });
   await fastify.register(postRoutes, { prefix: '/api/posts' });
@@ -132,12 +189,49 @@ async function buildApp() {
   await fastify.register(searchRoutes, { prefix: '/api/search' });
   await fastify.register(analyticsRoutes, { prefix: '/api/analytics' });
   await fastify.register(mediaRoutes, { prefix: '/api/media' });
+  await fastify.register(mediaFileRoutes, { prefix: '/api' });
+  await fastify.register(uploadTicketRoutes, { prefix: '/api/media' });
+  await fastify.register(mediaTusRoutes, { prefix: '/api/media' });
+  await fastify.register(mediaVideoRoutes, { prefix: '/api/media' });
   await fastify.register(adminMediaRoutes, { prefix: '/api/admin/media' });
+  await fastify.register(adminRoleRoutes, { prefix: '/api/admin/roles' });
   await fastify.register(sessionRoutes, { prefix: '/api/sessions' });
+  await fastify.register(notificationRoutes, { prefix: '/api/notifications' });
+  await fastify.register(connectionRoutes, { prefix: '/api' });
+  await fastify.register(messageRoutes, { prefix: '/api/messages' });
+  await fastify.register(savedSearchRoutes, { prefix: '/api/saved-searches' });
+  await fastify.register(bloodRequestRoutes, { prefix: '/api' });
+  await fastify.register(eventRoutes, { prefix: '/api' });
+  await fastify.register(groupRoutes, { prefix: '/api' });
+  await fastify.register(jobRoutes, { prefix: '/api' });
+  await fastify.register(mentorshipRoutes, { prefix: '/api' });
   await fastify.register(userMediaRoutes, { prefix: '/api/users/media' });
   await fastify.register(postsMediaRoutes, { prefix: '/api/posts' });
   await fastify.register(businessMediaRoutes,{prefix:'/api/business/media'})
 
+  // Background jobs
+  const tokenManager = new TokenManager(fastify);
+  const accountDeletionService = new AccountDeletionService(fastify.db, fastify);
+  const savedSearchService = new SavedSearchService(
+    fastify.db,
+    new NotificationService(fastify.db, fastify.notificationHub, fastify.push),
+    fastify.log
+  );
+  const eventService = new EventService(fastify.db, { reminderHours: fastify.config.EVENT_REMINDER_HOURS });
+  const uploadTicketService = new UploadTicketService(fastify);
+  const resumableUploadService = new ResumableUploadService(fastify);
+  const videoService = new VideoService(fastify);
+  fastify.scheduleJob('token-cleanup', 60 * 60 * 1000, () => tokenManager.cleanupExpiredTokens());
+  fastify.scheduleJob('account-erasure', 60 * 60 * 1000, () => accountDeletionService.purgeDueAccounts());
+  fastify.scheduleJob('push-delivery', 5 * 1000, () => fastify.push.sendPending());
+  fastify.scheduleJob('push-receipts', 5 * 60 * 1000, () => fastify.push.checkReceipts());
+  fastify.scheduleJob('push-cleanup', 24 * 60 * 60 * 1000, () => fastify.push.cleanupMessages());
+  fastify.scheduleJob('saved-search-alerts', 15 * 60 * 1000, () => savedSearchService.runDue());
+  fastify.scheduleJob('event-reminders', 5 * 60 * 1000, () => eventService.sendDueReminders());
+  fastify.scheduleJob('upload-ticket-cleanup', 60 * 60 * 1000, () => uploadTicketService.cleanupExpired());
+  fastify.scheduleJob('tus-upload-cleanup', 60 * 60 * 1000, () => resumableUploadService.cleanupExpired());
+  fastify.scheduleJob('video-processing-sync', 5 * 60 * 1000, () => videoService.syncProcessing());
+
   fastify.get('/', async () => {
     return {
       success: true,
@@ -0,0 +1,7 @@
+-- One-off backfill after creating auth_identities (npm run db:push).
+-- Copies the provider identity each existing Google/Apple account was created with.
+INSERT INTO auth_identities (auth_user_id, provider, provider_id, email, last_used_at)
+SELECT id, provider, provider_id, email, last_login_at
+FROM auth_users
+WHERE provider IN ('google', 'apple')
+ON CONFLICT DO NOTHING;
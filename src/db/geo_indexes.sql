@@ -0,0 +1,38 @@
+-- Indexes and backfill for /api/search/nearby (run once after npm run db:push).
+-- Nearby search uses PostGIS when it is installed and earthdistance otherwise; create
+-- the index for whichever you use. Each expression must match the rounded coordinates
+-- and distance functions in src/services/nearbySearchService.ts.
+
+-- earthdistance (bundled with Postgres)
+CREATE EXTENSION IF NOT EXISTS cube;
+CREATE EXTENSION IF NOT EXISTS earthdistance;
+
+CREATE INDEX IF NOT EXISTS idx_user_earth ON "user" USING gist (
+  ll_to_earth(round(latitude, 2)::float8, round(longitude, 2)::float8)
+) WHERE latitude IS NOT NULL AND longitude IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_business_details_earth ON business_details USING gist (
+  ll_to_earth(round(latitude, 2)::float8, round(longitude, 2)::float8)
+) WHERE latitude IS NOT NULL AND longitude IS NOT NULL;
+
+-- PostGIS: use these instead of the earthdistance indexes
+-- CREATE EXTENSION IF NOT EXISTS postgis;
+-- CREATE INDEX IF NOT EXISTS idx_user_geography ON "user" USING gist (
+--   (ST_SetSRID(ST_MakePoint(round(longitude, 2)::float8, round(latitude, 2)::float8), 4326)::geography)
+-- ) WHERE latitude IS NOT NULL AND longitude IS NOT NULL;
+-- CREATE INDEX IF NOT EXISTS idx_business_details_geography ON business_details USING gist (
+--   (ST_SetSRID(ST_MakePoint(round(longitude, 2)::float8, round(latitude, 2)::float8), 4326)::geography)
+-- ) WHERE latitude IS NOT NULL AND longitude IS NOT NULL;
+
+-- Coordinates for businesses saved before they were parsed: plain "lat,lng" geolocations only.
+-- Other formats (map links, WKT, hemispheres) are picked up the next time the business is saved.
+UPDATE business_details b
+SET latitude = p.lat, longitude = p.lng
+FROM (
+  SELECT id, m[1]::numeric AS lat, m[2]::numeric AS lng
+  FROM business_details, regexp_match(geolocation, '^\s*\(?\s*([+-]?\d{1,3}(?:\.\d+)?)\s*,\s*([+-]?\d{1,3}(?:\.\d+)?)\s*\)?\s*$') AS m
+  WHERE geolocation IS NOT NULL AND latitude IS NULL
+) p
+WHERE b.id = p.id
+  AND abs(p.lat) <= 90 AND abs(p.lng) <= 180
+  AND NOT (p.lat = 0 AND p.lng = 0);
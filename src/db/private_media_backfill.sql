@@ -0,0 +1,7 @@
+-- One-off backfill after adding media.privacy (npm run db:push).
+-- Message attachments and resumes uploaded before then become owner-only, like new ones.
+-- Then make their files private in storage with POST /api/admin/media/privatize.
+UPDATE media
+SET privacy = 'owner'
+WHERE resource_type IN ('message', 'job_application')
+  AND privacy = 'public';
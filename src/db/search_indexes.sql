@@ -0,0 +1,57 @@
+-- Full-text search indexes for /api/search (run once after npm run db:push).
+-- Drizzle can't declare expression indexes, so they live here. Each expression must
+-- stay identical to the matching *SearchVector() in src/services/searchServiceEnhanced.ts.
+
+-- Members: name (A) > organization (B) > city (C) > graduation year (D)
+CREATE INDEX IF NOT EXISTS idx_user_search ON "user" USING gin ((
+  setweight(to_tsvector('simple', coalesce(first_name, '') || ' ' || coalesce(last_name, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(organization, '')), 'B') ||
+  setweight(to_tsvector('simple', coalesce(current_city, '')), 'C') ||
+  setweight(to_tsvector('simple', coalesce(graduation_year::text, '')), 'D')
+));
+
+-- Businesses: company name (A) > category (B) > location (C) > description (D)
+CREATE INDEX IF NOT EXISTS idx_business_details_search ON business_details USING gin ((
+  setweight(to_tsvector('simple', coalesce(company_name, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce(category, '') || ' ' || coalesce(sub_category, '')), 'B') ||
+  setweight(to_tsvector('simple', coalesce(location, '')), 'C') ||
+  setweight(to_tsvector('simple', coalesce(description, '')), 'D')
+));
+
+-- Posts: content (A) > location (C)
+CREATE INDEX IF NOT EXISTS idx_post_updates_search ON post_updates USING gin ((
+  setweight(to_tsvector('english', coalesce(content, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(location, '')), 'C')
+));
+
+-- News: title (A) > summary (B) > content (C)
+CREATE INDEX IF NOT EXISTS idx_news_search ON news USING gin ((
+  setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(summary, '')), 'B') ||
+  setweight(to_tsvector('english', coalesce(content, '')), 'C')
+));
+
+-- Jobs: title (A) > city (B) > description (C)
+CREATE INDEX IF NOT EXISTS idx_job_postings_search ON job_postings USING gin ((
+  setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(city, '')), 'B') ||
+  setweight(to_tsvector('english', coalesce(description, '')), 'C')
+));
+
+-- Typo tolerance: trigram indexes for fuzzy matches, /api/search/suggestions and "did you mean".
+-- Needs the pg_trgm extension (bundled with Postgres; creating it may need a superuser).
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS idx_user_full_name_trgm ON "user" USING gin ((first_name || ' ' || last_name) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_user_first_name_trgm ON "user" USING gin (first_name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_user_last_name_trgm ON "user" USING gin (last_name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_user_organization_trgm ON "user" USING gin (organization gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_user_current_city_trgm ON "user" USING gin (current_city gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_business_details_company_name_trgm ON business_details USING gin (company_name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_business_details_category_trgm ON business_details USING gin (category gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_business_details_location_trgm ON business_details USING gin (location gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_professions_name_trgm ON professions USING gin (name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_specialization_name_trgm ON specialization USING gin (name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_cities_name_trgm ON cities USING gin (name gin_trgm_ops);
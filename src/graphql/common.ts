@@ -0,0 +1,10 @@
+import type { Role } from '../models/authUser';
+
+export interface GraphqlContext {
+  user: { userId: string; email: string; role: Role } | null;
+}
+
+export function requireUser(ctx: GraphqlContext) {
+  if (!ctx.user) throw new Error("Unauthorized");
+  return ctx.user;
+}
@@ -1,4 +1,7 @@
 import mercurius from 'mercurius';
+import { eq } from 'drizzle-orm';
+import { authUsers } from '../models/authUser';
+import { sessions } from '../models/sessions';
 import { userSchema } from './users/schema';
 import { userResolvers } from './users/resolvers';
 
@@ -11,7 +14,20 @@ export function registerGraphql(app: any, db: any) {
     context: async (request:any, reply:any) => {
     try {
       await request.jwtVerify(); 
-      return { user: request.user };
+      if (!request.user.sessionId) return { user: null };
+      // Role is read from the database so grants/revokes apply without re-login
+      const [authUser] = await app.db
+        .select({ role: authUsers.role, isActive: authUsers.isActive, session: sessions })
+        .from(authUsers)
+        .leftJoin(sessions, eq(sessions.id, request.user.sessionId))
+        .where(eq(authUsers.id, request.user.userId))
+        .limit(1);
+      if (!authUser || !authUser.isActive) return { user: null };
+      const session = authUser.session;
+      if (!session || session.authUserId !== request.user.userId || !session.isActive || session.expiresAt < new Date()) {
+        return { user: null };
+      }
+      return { user: { ...request.user, role: authUser.role } };
     } catch (err) {
       return { user: null };
     }
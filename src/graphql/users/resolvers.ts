@@ -1,5 +1,8 @@
 
 import { UserProfileServiceSimple } from "../../services/userProfileServiceSimple"
+import { requireUser, type GraphqlContext } from "../common"
+import { hasRole } from "../../utils/roles"
+import { parseCursor } from "../../utils/cursor"
 
 export const userResolvers=(db:any)=>{
      const userService=new UserProfileServiceSimple(db)
@@ -10,20 +13,25 @@ export const userResolvers=(db:any)=>{
            return userService.findById(id);
          },
          users: async (_: any, { filters }: any) => {
-           return userService.list(filters || {});
+           const { cursor, sort, ...rest } = filters || {};
+           return userService.list({
+             ...rest,
+             cursor: parseCursor(cursor),
+             sort: sort === 'RECENT' ? 'recent' : 'name',
+           });
          },
        },
        Mutation: {
-         createUser: async (_: any, { data }: any, ctx: any) => {
-           if (!ctx.user) throw new Error("Unauthorized");
-           data.userAuthId = ctx.user.userId;
+         createUser: async (_: any, { data }: any, ctx: GraphqlContext) => {
+           const user = requireUser(ctx);
+           data.userAuthId = user.userId;
            return userService.create(data);
          },
-         updateUser: async (_: any, { id, data }: any, ctx: any) => {
-           if (!ctx.user) throw new Error("Unauthorized")
+         updateUser: async (_: any, { id, data }: any, ctx: GraphqlContext) => {
+           const user = requireUser(ctx);
              const existing = await userService.findById(id);
              if (!existing) throw new Error("User not found");
-             if (existing.userAuthId !== ctx.user.userId) {
+             if (existing.userAuthId !== user.userId && !hasRole(user, 'admin')) {
                throw new Error(
                  "Forbidden: You can only update your own profile" 
                );
@@ -31,12 +39,11 @@ export const userResolvers=(db:any)=>{
            return userService.update(id, data);
          },
 
-         deleteUser: async (_: any, { id }: any, ctx: any) => {
-           if (!ctx.user) throw new Error("Unauthorized");
+         deleteUser: async (_: any, { id }: any, ctx: GraphqlContext) => {
+           const user = requireUser(ctx);
            const existing = await userService.findById(id);
-           console.log(existing, ctx.user);
            if (!existing) throw new Error("User not found");
-           if (existing.userAuthId !== ctx.user.userId) {
+           if (existing.userAuthId !== user.userId && !hasRole(user, 'admin')) {
              throw new Error("Forbidden: You can only delete your own profile");
            }
            return userService.delete(id);
@@ -21,6 +21,7 @@ export const userSchema = gql`
     email: String!
     name: String
     provider: String
+    role: String
   }
 
   type User {
@@ -47,7 +48,16 @@ export const userSchema = gql`
     data: [User!]!
     total: Int!
     limit: Int!
-    offset: Int!
+    # Only set for offset pagination
+    offset: Int
+    nextCursor: String
+    prevCursor: String
+  }
+
+  # NAME is alphabetical and offset-only; RECENT is newest first and supports cursors
+  enum UserSort {
+    NAME
+    RECENT
   }
 
     input YearRange {
@@ -63,6 +73,8 @@ export const userSchema = gql`
     yearRange: YearRange
     limit: Int
     offset: Int
+    sort: UserSort
+    cursor: String
   }
 
   
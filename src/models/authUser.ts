@@ -1,14 +1,30 @@
 import { pgTable, text, timestamp, uuid, index, boolean } from 'drizzle-orm/pg-core';
 
+export const validRoles = ['member', 'moderator', 'editor', 'admin'] as const;
+
+export type Role = typeof validRoles[number];
+
+export const authProviders = ['google', 'apple', 'email'] as const;
+
+export type AuthProvider = typeof authProviders[number];
+
 export const authUsers = pgTable('auth_users', {
   id: uuid('id').primaryKey().defaultRandom(),
   email: text('email').notNull().unique(),
   name: text('name').notNull(),
-  provider: text('provider', { enum: ['google', 'apple'] }).notNull(),
+  // Provider the account was created with. Sign-in identities live in auth_identities.
+  provider: text('provider', { enum: authProviders }).notNull(),
   providerId: text('provider_id').notNull(),
   avatar: text('avatar'),
+  // scrypt hash, only set for accounts that signed up with (or reset to) a password
+  passwordHash: text('password_hash'),
+  emailVerified: boolean('email_verified').notNull().default(false),
+  role: text('role', { enum: validRoles }).notNull().default('member'),
   isActive: boolean('is_active').notNull().default(true),
   lastLoginAt: timestamp('last_login_at', { withTimezone: true }),
+  // Set while an account deletion request is in its grace period
+  deletionRequestedAt: timestamp('deletion_requested_at', { withTimezone: true }),
+  deletionScheduledAt: timestamp('deletion_scheduled_at', { withTimezone: true }),
   createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
 }, (table) => {
@@ -16,6 +32,8 @@ export const authUsers = pgTable('auth_users', {
     emailIdx: index('auth_users_email_idx').on(table.email),
     providerIdx: index('auth_users_provider_idx').on(table.provider, table.providerId),
     isActiveIdx: index('auth_users_is_active_idx').on(table.isActive),
+    roleIdx: index('auth_users_role_idx').on(table.role),
+    deletionScheduledAtIdx: index('auth_users_deletion_scheduled_at_idx').on(table.deletionScheduledAt),
   };
 });
 
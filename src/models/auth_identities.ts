@@ -0,0 +1,24 @@
+import { pgTable, text, timestamp, uuid, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { authUsers, authProviders } from './authUser';
+
+// External login identities (Google, Apple) linked to an account. One account can hold
+// one identity per provider; an identity can only ever point at one account.
+export const authIdentities = pgTable('auth_identities', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  authUserId: uuid('auth_user_id').notNull().references(() => authUsers.id, { onDelete: 'cascade' }),
+  provider: text('provider', { enum: authProviders }).notNull(),
+  providerId: text('provider_id').notNull(),
+  // Address reported by the provider; may be an Apple private relay address
+  email: text('email'),
+  lastUsedAt: timestamp('last_used_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => {
+  return {
+    providerUnique: uniqueIndex('auth_identities_provider_unique').on(table.provider, table.providerId),
+    authUserProviderUnique: uniqueIndex('auth_identities_auth_user_provider_unique').on(table.authUserId, table.provider),
+    authUserIdIdx: index('auth_identities_auth_user_id_idx').on(table.authUserId),
+  };
+});
+
+export type AuthIdentity = typeof authIdentities.$inferSelect;
+export type NewAuthIdentity = typeof authIdentities.$inferInsert;
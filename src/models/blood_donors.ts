@@ -0,0 +1,21 @@
+import { pgTable, timestamp, uuid, boolean, uniqueIndex } from 'drizzle-orm/pg-core';
+import { user } from './user';
+
+// Opt-in donor availability; members without a row are not asked to donate.
+// The blood group itself is user.bloodGroup.
+export const bloodDonors = pgTable('blood_donors', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  available: boolean('available').notNull().default(false),
+  // Donors aren't matched again until the cooldown since this has passed
+  lastDonatedAt: timestamp('last_donated_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => {
+  return {
+    userUnique: uniqueIndex('blood_donors_user_id_unique').on(table.userId),
+  };
+});
+
+export type BloodDonor = typeof bloodDonors.$inferSelect;
+export type NewBloodDonor = typeof bloodDonors.$inferInsert;
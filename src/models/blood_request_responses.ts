@@ -0,0 +1,28 @@
+import { pgTable, text, timestamp, uuid, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { user } from './user';
+import { bloodRequests } from './blood_requests';
+
+// - notified: matched and alerted, no answer yet
+// - accepted / declined: the donor's answer
+// - donated: the requester confirmed the donation
+export const bloodResponseStatuses = ['notified', 'accepted', 'declined', 'donated'] as const;
+
+export type BloodResponseStatus = typeof bloodResponseStatuses[number];
+
+export const bloodRequestResponses = pgTable('blood_request_responses', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  requestId: uuid('request_id').notNull().references(() => bloodRequests.id, { onDelete: 'cascade' }),
+  donorId: uuid('donor_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  status: text('status', { enum: bloodResponseStatuses }).notNull().default('notified'),
+  respondedAt: timestamp('responded_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => {
+  return {
+    requestDonorUnique: uniqueIndex('blood_request_responses_request_donor_unique').on(table.requestId, table.donorId),
+    donorIdx: index('idx_blood_request_responses_donor_id').on(table.donorId, table.createdAt),
+  };
+});
+
+export type BloodRequestResponse = typeof bloodRequestResponses.$inferSelect;
+export type NewBloodRequestResponse = typeof bloodRequestResponses.$inferInsert;
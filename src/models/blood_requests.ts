@@ -0,0 +1,37 @@
+import { pgTable, text, timestamp, uuid, varchar, integer, numeric, index } from 'drizzle-orm/pg-core';
+import { user } from './user';
+
+export const bloodRequestUrgencies = ['normal', 'urgent', 'critical'] as const;
+export const bloodRequestStatuses = ['open', 'fulfilled', 'cancelled'] as const;
+
+export type BloodRequestUrgency = typeof bloodRequestUrgencies[number];
+export type BloodRequestStatus = typeof bloodRequestStatuses[number];
+
+// A member asking for blood for a patient at a hospital
+export const bloodRequests = pgTable('blood_requests', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  requesterId: uuid('requester_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  bloodGroup: varchar('blood_group', { length: 3 }).notNull(),
+  units: integer('units').notNull().default(1),
+  hospital: varchar('hospital', { length: 200 }).notNull(),
+  city: varchar('city', { length: 100 }).notNull(),
+  // Hospital position, when known; donors are then also matched by distance
+  latitude: numeric('latitude', { precision: 10, scale: 8 }),
+  longitude: numeric('longitude', { precision: 11, scale: 8 }),
+  urgency: text('urgency', { enum: bloodRequestUrgencies }).notNull().default('normal'),
+  contactPhone: varchar('contact_phone', { length: 50 }),
+  notes: text('notes'),
+  neededBy: timestamp('needed_by', { withTimezone: true }),
+  status: text('status', { enum: bloodRequestStatuses }).notNull().default('open'),
+  fulfilledAt: timestamp('fulfilled_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => {
+  return {
+    statusCreatedIdx: index('idx_blood_requests_status_created_at').on(table.status, table.createdAt),
+    requesterIdx: index('idx_blood_requests_requester_id').on(table.requesterId, table.createdAt),
+  };
+});
+
+export type BloodRequest = typeof bloodRequests.$inferSelect;
+export type NewBloodRequest = typeof bloodRequests.$inferInsert;
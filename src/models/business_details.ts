@@ -1,4 +1,4 @@
-import { pgTable, varchar, uuid, timestamp, boolean, text, jsonb, index, integer } from 'drizzle-orm/pg-core';
+import { pgTable, varchar, uuid, timestamp, boolean, text, jsonb, index, integer, numeric } from 'drizzle-orm/pg-core';
 import { user } from './user';
 
 export const businessDetails = pgTable('business_details', {
@@ -27,6 +27,9 @@ export const businessDetails = pgTable('business_details', {
   tagLine: varchar('tag_line', { length: 50 }),
   userId: uuid('user_id').references(() => user.id),
   geolocation: varchar('geolocation', { length: 200 }),
+  // Parsed from geolocation on create and update
+  latitude: numeric('latitude', { precision: 10, scale: 8 }),
+  longitude: numeric('longitude', { precision: 11, scale: 8 }),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
 }, (table) => {
@@ -13,6 +13,7 @@ export const commentReplies = pgTable('comment_replies', {
   return {
     commentsIdIdx: index('idx_comment_replies_comments_id').on(table.commentsId),
     userProfileIdIdx: index('idx_comment_replies_user_profile_id').on(table.userProfileId),
+    commentCreatedAtIdx: index('idx_comment_replies_comment_created_at').on(table.commentsId, table.createdAt, table.id),
   };
 });
 
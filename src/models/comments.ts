@@ -13,6 +13,7 @@ export const comments = pgTable('comments', {
   return {
     postUpdatesIdIdx: index('idx_comments_post_updates_id').on(table.postUpdatesId),
     userProfileIdIdx: index('idx_comments_user_profile_id').on(table.userProfileId),
+    postCreatedAtIdx: index('idx_comments_post_created_at').on(table.postUpdatesId, table.createdAt, table.id),
   };
 });
 
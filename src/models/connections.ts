@@ -0,0 +1,34 @@
+import { pgTable, text, timestamp, uuid, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { user } from './user';
+
+export const connectionTypes = ['follow', 'connection', 'block'] as const;
+export const connectionTargetTypes = ['user', 'business'] as const;
+export const connectionStatuses = ['pending', 'accepted', 'declined'] as const;
+
+export type ConnectionType = typeof connectionTypes[number];
+export type ConnectionTargetType = typeof connectionTargetTypes[number];
+export type ConnectionStatus = typeof connectionStatuses[number];
+
+// Relationships between member profiles, and from members to businesses.
+// - follow: one-way, always accepted; the target may be a user or a business
+// - connection: mutual, requested by userId and accepted or declined by the target user
+// - block: userId has blocked the target user
+export const connections = pgTable('connections', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  type: text('type', { enum: connectionTypes }).notNull(),
+  targetType: text('target_type', { enum: connectionTargetTypes }).notNull().default('user'),
+  targetId: uuid('target_id').notNull(),
+  status: text('status', { enum: connectionStatuses }).notNull().default('accepted'),
+  respondedAt: timestamp('responded_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => {
+  return {
+    uniqueEdge: uniqueIndex('connections_user_type_target_unique').on(table.userId, table.type, table.targetType, table.targetId),
+    targetIdx: index('idx_connections_target').on(table.targetType, table.targetId, table.type, table.status),
+  };
+});
+
+export type Connection = typeof connections.$inferSelect;
+export type NewConnection = typeof connections.$inferInsert;
@@ -0,0 +1,27 @@
+import { pgTable, text, timestamp, uuid, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { user } from './user';
+import { conversations } from './conversations';
+
+export const participantRoles = ['owner', 'member'] as const;
+
+export type ParticipantRole = typeof participantRoles[number];
+
+// Members of a conversation. lastReadAt is the read receipt: every message
+// created at or before it has been read by this member.
+export const conversationParticipants = pgTable('conversation_participants', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  conversationId: uuid('conversation_id').notNull().references(() => conversations.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  role: text('role', { enum: participantRoles }).notNull().default('member'),
+  lastReadMessageId: uuid('last_read_message_id'),
+  lastReadAt: timestamp('last_read_at', { withTimezone: true }),
+  joinedAt: timestamp('joined_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => {
+  return {
+    conversationUserUnique: uniqueIndex('conversation_participants_conversation_user_unique').on(table.conversationId, table.userId),
+    userIdIdx: index('idx_conversation_participants_user_id').on(table.userId),
+  };
+});
+
+export type ConversationParticipant = typeof conversationParticipants.$inferSelect;
+export type NewConversationParticipant = typeof conversationParticipants.$inferInsert;
@@ -0,0 +1,26 @@
+import { pgTable, text, timestamp, uuid, index } from 'drizzle-orm/pg-core';
+import { user } from './user';
+
+export const conversationTypes = ['direct', 'group'] as const;
+
+export type ConversationType = typeof conversationTypes[number];
+
+export const conversations = pgTable('conversations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  type: text('type', { enum: conversationTypes }).notNull(),
+  // Group name; direct conversations show the other member instead
+  title: text('title'),
+  // Sorted pair of profile IDs, so two members share one direct conversation
+  directKey: text('direct_key').unique(),
+  createdBy: uuid('created_by').references(() => user.id, { onDelete: 'set null' }),
+  lastMessageAt: timestamp('last_message_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => {
+  return {
+    lastMessageAtIdx: index('idx_conversations_last_message_at').on(table.lastMessageAt),
+  };
+});
+
+export type Conversation = typeof conversations.$inferSelect;
+export type NewConversation = typeof conversations.$inferInsert;
@@ -0,0 +1,25 @@
+import { pgTable, text, timestamp, uuid, index } from 'drizzle-orm/pg-core';
+import { authUsers } from './authUser';
+
+export const emailTokenPurposes = ['verify_email', 'password_reset', 'magic_link'] as const;
+
+export type EmailTokenPurpose = typeof emailTokenPurposes[number];
+
+// Single-use tokens sent by email. Only the sha256 hash is stored.
+export const emailTokens = pgTable('email_tokens', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  authUserId: uuid('auth_user_id').notNull().references(() => authUsers.id, { onDelete: 'cascade' }),
+  purpose: text('purpose', { enum: emailTokenPurposes }).notNull(),
+  tokenHash: text('token_hash').notNull().unique(),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  usedAt: timestamp('used_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => {
+  return {
+    authUserPurposeIdx: index('idx_email_tokens_auth_user_purpose').on(table.authUserId, table.purpose),
+    expiresAtIdx: index('idx_email_tokens_expires_at').on(table.expiresAt),
+  };
+});
+
+export type EmailToken = typeof emailTokens.$inferSelect;
+export type NewEmailToken = typeof emailTokens.$inferInsert;
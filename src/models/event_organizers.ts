@@ -0,0 +1,24 @@
+import { pgTable, timestamp, uuid, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { user } from './user';
+import { businessDetails } from './business_details';
+import { events } from './events';
+
+// Exactly one of userId / businessId is set. Member organizers can manage the event;
+// businesses are shown as hosts.
+export const eventOrganizers = pgTable('event_organizers', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  eventId: uuid('event_id').notNull().references(() => events.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').references(() => user.id, { onDelete: 'cascade' }),
+  businessId: uuid('business_id').references(() => businessDetails.id, { onDelete: 'cascade' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => {
+  return {
+    eventUserUnique: uniqueIndex('event_organizers_event_user_unique').on(table.eventId, table.userId),
+    eventBusinessUnique: uniqueIndex('event_organizers_event_business_unique').on(table.eventId, table.businessId),
+    userIdx: index('idx_event_organizers_user_id').on(table.userId),
+    businessIdx: index('idx_event_organizers_business_id').on(table.businessId),
+  };
+});
+
+export type EventOrganizer = typeof eventOrganizers.$inferSelect;
+export type NewEventOrganizer = typeof eventOrganizers.$inferInsert;
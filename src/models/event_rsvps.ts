@@ -0,0 +1,28 @@
+import { pgTable, text, timestamp, uuid, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { user } from './user';
+import { events } from './events';
+
+// 'waitlisted' is set by the server when a "going" RSVP finds the event full
+export const eventRsvpStatuses = ['going', 'maybe', 'declined', 'waitlisted'] as const;
+
+export type EventRsvpStatus = typeof eventRsvpStatuses[number];
+
+export const eventRsvps = pgTable('event_rsvps', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  eventId: uuid('event_id').notNull().references(() => events.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  status: text('status', { enum: eventRsvpStatuses }).notNull(),
+  // Waitlist order; the earliest is promoted first when a spot opens
+  waitlistedAt: timestamp('waitlisted_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => {
+  return {
+    eventUserUnique: uniqueIndex('event_rsvps_event_user_unique').on(table.eventId, table.userId),
+    eventStatusIdx: index('idx_event_rsvps_event_status').on(table.eventId, table.status),
+    userIdx: index('idx_event_rsvps_user_id').on(table.userId),
+  };
+});
+
+export type EventRsvp = typeof eventRsvps.$inferSelect;
+export type NewEventRsvp = typeof eventRsvps.$inferInsert;
@@ -0,0 +1,37 @@
+import { pgTable, text, timestamp, uuid, varchar, integer, index } from 'drizzle-orm/pg-core';
+import { user } from './user';
+import { cities } from './cities';
+
+export const eventStatuses = ['scheduled', 'cancelled'] as const;
+
+export type EventStatus = typeof eventStatuses[number];
+
+// Reunions, meetups and other gatherings. The banner is a media row with resource type 'event'.
+export const events = pgTable('events', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  createdBy: uuid('created_by').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  title: varchar('title', { length: 200 }).notNull(),
+  description: text('description'),
+  startsAt: timestamp('starts_at', { withTimezone: true }).notNull(),
+  endsAt: timestamp('ends_at', { withTimezone: true }).notNull(),
+  venue: varchar('venue', { length: 200 }),
+  address: text('address'),
+  cityId: uuid('city_id').references(() => cities.id, { onDelete: 'set null' }),
+  onlineUrl: text('online_url'),
+  // Null for no limit; further "going" RSVPs join the waitlist
+  capacity: integer('capacity'),
+  status: text('status', { enum: eventStatuses }).notNull().default('scheduled'),
+  // Set once the reminder has gone out; cleared when the start time changes
+  remindedAt: timestamp('reminded_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => {
+  return {
+    startsAtIdx: index('idx_events_starts_at').on(table.startsAt),
+    cityIdx: index('idx_events_city_id').on(table.cityId, table.startsAt),
+    createdByIdx: index('idx_events_created_by').on(table.createdBy),
+  };
+});
+
+export type Event = typeof events.$inferSelect;
+export type NewEvent = typeof events.$inferInsert;
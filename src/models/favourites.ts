@@ -1,4 +1,4 @@
-import { pgTable, varchar, uuid, timestamp } from 'drizzle-orm/pg-core';
+import { pgTable, varchar, uuid, timestamp, index } from 'drizzle-orm/pg-core';
 
 export const favourites = pgTable('favourites', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -7,6 +7,11 @@ export const favourites = pgTable('favourites', {
   likedType: varchar('liked_type', { length: 20 }).notNull(),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => {
+  return {
+    userCreatedAtIdx: index('idx_favourites_user_id_created_at').on(table.userId, table.createdAt, table.id),
+    likedCreatedAtIdx: index('idx_favourites_liked_created_at').on(table.likedType, table.likedTypeId, table.createdAt, table.id),
+  };
 });
 
 export type Favourite = typeof favourites.$inferSelect;
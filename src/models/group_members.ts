@@ -0,0 +1,34 @@
+import { pgTable, text, timestamp, uuid, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { user } from './user';
+import { groups } from './groups';
+
+export const groupRoles = ['owner', 'moderator', 'member'] as const;
+// - active: a member
+// - pending: asked to join a 'request' group
+// - invited: invited, hasn't accepted yet
+export const groupMemberStatuses = ['active', 'pending', 'invited'] as const;
+
+export type GroupRole = typeof groupRoles[number];
+export type GroupMemberStatus = typeof groupMemberStatuses[number];
+
+export const groupMembers = pgTable('group_members', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  groupId: uuid('group_id').notNull().references(() => groups.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  role: text('role', { enum: groupRoles }).notNull().default('member'),
+  status: text('status', { enum: groupMemberStatuses }).notNull().default('active'),
+  invitedBy: uuid('invited_by').references(() => user.id, { onDelete: 'set null' }),
+  // When the member became active
+  joinedAt: timestamp('joined_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => {
+  return {
+    groupUserUnique: uniqueIndex('group_members_group_user_unique').on(table.groupId, table.userId),
+    groupStatusIdx: index('idx_group_members_group_status').on(table.groupId, table.status),
+    userIdx: index('idx_group_members_user_id').on(table.userId),
+  };
+});
+
+export type GroupMember = typeof groupMembers.$inferSelect;
+export type NewGroupMember = typeof groupMembers.$inferInsert;
@@ -0,0 +1,38 @@
+import { pgTable, text, timestamp, uuid, varchar, integer, index } from 'drizzle-orm/pg-core';
+import { user } from './user';
+import { professions } from './professions';
+
+// What the group gathers around; batch, city and profession groups carry the matching
+// profile value and are suggested to members who share it
+export const groupKinds = ['batch', 'city', 'profession', 'general'] as const;
+// - open: anyone can join
+// - request: moderators approve join requests
+// - invite: only invited members can join; hidden from members outside it
+export const groupJoinPolicies = ['open', 'request', 'invite'] as const;
+
+export type GroupKind = typeof groupKinds[number];
+export type GroupJoinPolicy = typeof groupJoinPolicies[number];
+
+export const groups = pgTable('groups', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  name: varchar('name', { length: 100 }).notNull(),
+  description: text('description'),
+  kind: text('kind', { enum: groupKinds }).notNull().default('general'),
+  graduationYear: integer('graduation_year'),
+  city: varchar('city', { length: 100 }),
+  professionId: uuid('profession_id').references(() => professions.id, { onDelete: 'set null' }),
+  joinPolicy: text('join_policy', { enum: groupJoinPolicies }).notNull().default('open'),
+  createdBy: uuid('created_by').references(() => user.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => {
+  return {
+    kindIdx: index('idx_groups_kind').on(table.kind),
+    graduationYearIdx: index('idx_groups_graduation_year').on(table.graduationYear),
+    cityIdx: index('idx_groups_city').on(table.city),
+    professionIdx: index('idx_groups_profession_id').on(table.professionId),
+  };
+});
+
+export type Group = typeof groups.$inferSelect;
+export type NewGroup = typeof groups.$inferInsert;
@@ -0,0 +1,34 @@
+import { pgTable, text, timestamp, uuid, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { user } from './user';
+import { jobPostings } from './job_postings';
+
+// The applicant pipeline. Employers move applications between every status except
+// 'withdrawn', which only the applicant can set.
+export const jobApplicationStatuses = [
+  'applied', 'reviewing', 'shortlisted', 'interviewing', 'offered', 'hired', 'rejected', 'withdrawn',
+] as const;
+
+export type JobApplicationStatus = typeof jobApplicationStatuses[number];
+
+// The resume is a media row with resource type 'job_application' and tag 'attachment'
+export const jobApplications = pgTable('job_applications', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  jobId: uuid('job_id').notNull().references(() => jobPostings.id, { onDelete: 'cascade' }),
+  applicantId: uuid('applicant_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  coverLetter: text('cover_letter'),
+  status: text('status', { enum: jobApplicationStatuses }).notNull().default('applied'),
+  // Only visible to the employer
+  employerNote: text('employer_note'),
+  statusChangedAt: timestamp('status_changed_at', { withTimezone: true }).notNull().defaultNow(),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => {
+  return {
+    jobApplicantUnique: uniqueIndex('job_applications_job_applicant_unique').on(table.jobId, table.applicantId),
+    jobStatusIdx: index('idx_job_applications_job_status').on(table.jobId, table.status),
+    applicantIdx: index('idx_job_applications_applicant_id').on(table.applicantId),
+  };
+});
+
+export type JobApplication = typeof jobApplications.$inferSelect;
+export type NewJobApplication = typeof jobApplications.$inferInsert;
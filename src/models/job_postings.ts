@@ -0,0 +1,45 @@
+import { pgTable, text, timestamp, uuid, varchar, integer, boolean, index } from 'drizzle-orm/pg-core';
+import { user } from './user';
+import { businessDetails } from './business_details';
+import { professions } from './professions';
+import { specialization } from './specialization';
+
+export const jobEmploymentTypes = ['full_time', 'part_time', 'contract', 'internship'] as const;
+// Open postings stop taking applications once they expire
+export const jobStatuses = ['open', 'closed'] as const;
+
+export type JobEmploymentType = typeof jobEmploymentTypes[number];
+export type JobStatus = typeof jobStatuses[number];
+
+// Job openings posted by a business; the business owner manages them and their applicants
+export const jobPostings = pgTable('job_postings', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  businessId: uuid('business_id').notNull().references(() => businessDetails.id, { onDelete: 'cascade' }),
+  postedBy: uuid('posted_by').references(() => user.id, { onDelete: 'set null' }),
+  title: varchar('title', { length: 150 }).notNull(),
+  description: text('description'),
+  professionId: uuid('profession_id').references(() => professions.id, { onDelete: 'set null' }),
+  specializationId: uuid('specialization_id').references(() => specialization.id, { onDelete: 'set null' }),
+  // Null for remote-only roles
+  city: varchar('city', { length: 100 }),
+  remote: boolean('remote').notNull().default(false),
+  employmentType: text('employment_type', { enum: jobEmploymentTypes }).notNull().default('full_time'),
+  // Yearly amounts; either end may be left open
+  salaryMin: integer('salary_min'),
+  salaryMax: integer('salary_max'),
+  salaryCurrency: varchar('salary_currency', { length: 3 }).notNull().default('INR'),
+  status: text('status', { enum: jobStatuses }).notNull().default('open'),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => {
+  return {
+    businessIdx: index('idx_job_postings_business_id').on(table.businessId),
+    statusExpiresIdx: index('idx_job_postings_status_expires').on(table.status, table.expiresAt),
+    professionIdx: index('idx_job_postings_profession_id').on(table.professionId),
+    cityIdx: index('idx_job_postings_city').on(table.city),
+  };
+});
+
+export type JobPosting = typeof jobPostings.$inferSelect;
+export type NewJobPosting = typeof jobPostings.$inferInsert;
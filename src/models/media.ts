@@ -1,4 +1,4 @@
-import { pgTable, text, timestamp, uuid, index, integer, jsonb, pgEnum } from 'drizzle-orm/pg-core';
+import { pgTable, text, timestamp, uuid, index, integer, real, jsonb, pgEnum } from 'drizzle-orm/pg-core';
 
 // Define enums
 export const mediaResourceTypeEnum = pgEnum('media_resource_type', [
@@ -6,7 +6,11 @@ export const mediaResourceTypeEnum = pgEnum('media_resource_type', [
   'news',
   'business',
   'post',
-  'comment'
+  'comment',
+  'message',
+  'event',
+  'group',
+  'job_application'
 ]);
 
 export const mediaTagEnum = pgEnum('media_tag', [
@@ -15,12 +19,25 @@ export const mediaTagEnum = pgEnum('media_tag', [
   'logo',
   'featured_image',
   'gallery',
-  'attachment'
+  'attachment',
+  'video'
 ]);
 
+export const mediaKindEnum = pgEnum('media_kind', ['image', 'video']);
+
+// Who may see a file: anyone, any signed-in member, or the resource's owner and those it is shared with.
+// Only public media has permanent URLs; the rest is served through expiring signed URLs (services/mediaAccess.ts).
+export const mediaPrivacyEnum = pgEnum('media_privacy', ['public', 'members', 'owner']);
+
+// Videos are processed by the transcoder after upload
+export const mediaProcessingStatusEnum = pgEnum('media_processing_status', ['processing', 'ready', 'failed']);
+
 export const media = pgTable('media', {
   id: uuid('id').primaryKey().defaultRandom(),
+  // The storage provider's image ID, or the transcoder's video ID (the column predates other providers)
   cloudflareId: text('cloudflare_id').notNull().unique(),
+  kind: mediaKindEnum('kind').notNull().default('image'),
+  privacy: mediaPrivacyEnum('privacy').notNull().default('public'),
   filename: text('filename').notNull(),
   originalFilename: text('original_filename'),
   mimeType: text('mime_type').notNull(),
@@ -28,10 +45,15 @@ export const media = pgTable('media', {
   width: integer('width'),
   height: integer('height'),
   uploadedAt: timestamp('uploaded_at').notNull().defaultNow(),
-  variants: jsonb('variants').$type<Record<string, string>>(), // variant name -> URL
+  variants: jsonb('variants').$type<Record<string, string>>(), // variant or video rendition name -> URL
   metadata: jsonb('metadata').$type<Record<string, any>>(),
+  // For videos: the playback URL once processed (empty until then), and the poster frame.
+  // For media that isn't public, the unsigned URL, which storage refuses.
   url: text('url').notNull(),
   thumbnailUrl: text('thumbnail_url'),
+  // Videos only
+  processingStatus: mediaProcessingStatusEnum('processing_status'),
+  duration: real('duration'), // in seconds
   
   // New resource-based columns
   resourceType: mediaResourceTypeEnum('resource_type').notNull(),
@@ -54,5 +76,7 @@ export type Media = typeof media.$inferSelect;
 export type NewMedia = typeof media.$inferInsert;
 
 // Type definitions for better type safety
-export type MediaResourceType = 'user_profile' | 'news' | 'business' | 'post' | 'comment';
-export type MediaTag = 'profile_pic' | 'banner' | 'logo' | 'featured_image' | 'gallery' | 'attachment';
\ No newline at end of file
+export type MediaResourceType = 'user_profile' | 'news' | 'business' | 'post' | 'comment' | 'message' | 'event' | 'group' | 'job_application';
+export type MediaTag = 'profile_pic' | 'banner' | 'logo' | 'featured_image' | 'gallery' | 'attachment' | 'video';
+export type MediaKind = 'image' | 'video';
+export type MediaPrivacy = 'public' | 'members' | 'owner';
\ No newline at end of file
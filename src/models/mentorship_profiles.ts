@@ -0,0 +1,31 @@
+import { pgTable, text, timestamp, uuid, integer, boolean, uniqueIndex, index } from 'drizzle-orm/pg-core';
+import { user } from './user';
+
+export const mentorshipRoles = ['mentor', 'mentee', 'both'] as const;
+
+export type MentorshipRole = typeof mentorshipRoles[number];
+
+// Opt-in to the mentorship program; members without a row are neither suggested nor requested.
+// Profession, specialization, city and graduation year come from the member's profile.
+export const mentorshipProfiles = pgTable('mentorship_profiles', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  role: text('role', { enum: mentorshipRoles }).notNull(),
+  // Lowercased; what a mentor can help with, or what a mentee wants help with
+  topics: text('topics').$type<string[]>().array().notNull().default([]),
+  // Mentors: active mentees at a time
+  capacity: integer('capacity').notNull().default(2),
+  bio: text('bio'),
+  // Paused members keep their profile but take no new requests
+  available: boolean('available').notNull().default(true),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => {
+  return {
+    userUnique: uniqueIndex('mentorship_profiles_user_id_unique').on(table.userId),
+    roleAvailableIdx: index('idx_mentorship_profiles_role_available').on(table.role, table.available),
+  };
+});
+
+export type MentorshipProfile = typeof mentorshipProfiles.$inferSelect;
+export type NewMentorshipProfile = typeof mentorshipProfiles.$inferInsert;
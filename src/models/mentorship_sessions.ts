@@ -0,0 +1,22 @@
+import { pgTable, text, timestamp, uuid, integer, index } from 'drizzle-orm/pg-core';
+import { user } from './user';
+import { mentorships } from './mentorships';
+
+// Notes on a mentoring session, visible to both sides of the mentorship
+export const mentorshipSessions = pgTable('mentorship_sessions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  mentorshipId: uuid('mentorship_id').notNull().references(() => mentorships.id, { onDelete: 'cascade' }),
+  authorId: uuid('author_id').references(() => user.id, { onDelete: 'set null' }),
+  heldAt: timestamp('held_at', { withTimezone: true }).notNull(),
+  durationMinutes: integer('duration_minutes'),
+  notes: text('notes').notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => {
+  return {
+    mentorshipHeldIdx: index('idx_mentorship_sessions_mentorship_held_at').on(table.mentorshipId, table.heldAt),
+  };
+});
+
+export type MentorshipSession = typeof mentorshipSessions.$inferSelect;
+export type NewMentorshipSession = typeof mentorshipSessions.$inferInsert;
@@ -0,0 +1,36 @@
+import { pgTable, text, timestamp, uuid, index } from 'drizzle-orm/pg-core';
+import { user } from './user';
+
+// - requested: the mentee asked, the mentor hasn't answered
+// - active: accepted; counts against the mentor's capacity
+// - declined: the mentor said no
+// - cancelled: the mentee withdrew the request
+// - ended: either side ended an active mentorship
+export const mentorshipStatuses = ['requested', 'active', 'declined', 'cancelled', 'ended'] as const;
+
+export type MentorshipStatus = typeof mentorshipStatuses[number];
+
+// A mentee and a mentor have at most one requested or active mentorship at a time
+export const mentorships = pgTable('mentorships', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  mentorId: uuid('mentor_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  menteeId: uuid('mentee_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  status: text('status', { enum: mentorshipStatuses }).notNull().default('requested'),
+  // The mentee's introduction and what they'd like to work on
+  message: text('message'),
+  topics: text('topics').$type<string[]>().array().notNull().default([]),
+  respondedAt: timestamp('responded_at', { withTimezone: true }),
+  endedAt: timestamp('ended_at', { withTimezone: true }),
+  endedBy: uuid('ended_by').references(() => user.id, { onDelete: 'set null' }),
+  endReason: text('end_reason'),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => {
+  return {
+    mentorStatusIdx: index('idx_mentorships_mentor_status').on(table.mentorId, table.status),
+    menteeStatusIdx: index('idx_mentorships_mentee_status').on(table.menteeId, table.status),
+  };
+});
+
+export type Mentorship = typeof mentorships.$inferSelect;
+export type NewMentorship = typeof mentorships.$inferInsert;
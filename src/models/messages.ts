@@ -0,0 +1,20 @@
+import { pgTable, text, timestamp, uuid, index } from 'drizzle-orm/pg-core';
+import { user } from './user';
+import { conversations } from './conversations';
+
+// Attachments are media rows with resource type 'message'
+export const messages = pgTable('messages', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  conversationId: uuid('conversation_id').notNull().references(() => conversations.id, { onDelete: 'cascade' }),
+  senderId: uuid('sender_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  content: text('content'),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => {
+  return {
+    conversationCreatedIdx: index('idx_messages_conversation_created').on(table.conversationId, table.createdAt),
+    senderIdIdx: index('idx_messages_sender_id').on(table.senderId),
+  };
+});
+
+export type Message = typeof messages.$inferSelect;
+export type NewMessage = typeof messages.$inferInsert;
@@ -1,4 +1,4 @@
-import { pgTable, varchar, uuid, timestamp, text, boolean } from 'drizzle-orm/pg-core';
+import { pgTable, varchar, uuid, timestamp, text, boolean, index } from 'drizzle-orm/pg-core';
 
 
 export const validCategories = ['school', 'alumni', 'story', 'blog'] as const;
@@ -22,6 +22,10 @@ export const news = pgTable('news', {
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
   createdBy: uuid('created_by'),
+}, (table) => {
+  return {
+    createdAtIdIdx: index('idx_news_created_at_id').on(table.createdAt, table.id),
+  };
 });
 
 export type News = typeof news.$inferSelect;
@@ -0,0 +1,19 @@
+import { pgTable, text, timestamp, uuid, boolean, uniqueIndex } from 'drizzle-orm/pg-core';
+import { authUsers } from './authUser';
+import { notificationTypes } from './notifications';
+
+// One row per user and type; a missing row means the type is enabled
+export const notificationPreferences = pgTable('notification_preferences', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  authUserId: uuid('auth_user_id').notNull().references(() => authUsers.id, { onDelete: 'cascade' }),
+  type: text('type', { enum: notificationTypes }).notNull(),
+  enabled: boolean('enabled').notNull().default(true),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => {
+  return {
+    userTypeUnique: uniqueIndex('notification_preferences_user_type_unique').on(table.authUserId, table.type),
+  };
+});
+
+export type NotificationPreference = typeof notificationPreferences.$inferSelect;
+export type NewNotificationPreference = typeof notificationPreferences.$inferInsert;
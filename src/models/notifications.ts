@@ -0,0 +1,33 @@
+import { pgTable, text, timestamp, uuid, index, jsonb } from 'drizzle-orm/pg-core';
+import { authUsers } from './authUser';
+
+export const notificationTypes = [
+  'comment', 'reply', 'like', 'saved_search', 'blood_request', 'blood_response',
+  'event_reminder', 'event_waitlist', 'event_cancelled',
+  'group_invite', 'group_request', 'group_approved',
+  'job_application', 'job_application_status',
+  'mentorship_request', 'mentorship_response', 'mentorship_ended',
+] as const;
+
+export type NotificationType = typeof notificationTypes[number];
+
+export const notifications = pgTable('notifications', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  recipientId: uuid('recipient_id').notNull().references(() => authUsers.id, { onDelete: 'cascade' }),
+  actorId: uuid('actor_id').references(() => authUsers.id, { onDelete: 'cascade' }),
+  type: text('type', { enum: notificationTypes }).notNull(),
+  // What the notification is about, e.g. ('post', <post id>)
+  resourceType: text('resource_type').notNull(),
+  resourceId: uuid('resource_id').notNull(),
+  data: jsonb('data').$type<Record<string, any>>(),
+  readAt: timestamp('read_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => {
+  return {
+    recipientCreatedIdx: index('idx_notifications_recipient_created').on(table.recipientId, table.createdAt),
+    recipientUnreadIdx: index('idx_notifications_recipient_read_at').on(table.recipientId, table.readAt),
+  };
+});
+
+export type Notification = typeof notifications.$inferSelect;
+export type NewNotification = typeof notifications.$inferInsert;
@@ -1,6 +1,7 @@
-import { pgTable, varchar, uuid, timestamp, text, boolean } from 'drizzle-orm/pg-core';
+import { pgTable, varchar, uuid, timestamp, text, boolean, index } from 'drizzle-orm/pg-core';
 import { businessDetails } from './business_details';
 import { user } from './user';
+import { groups } from './groups';
 
 export const postUpdates = pgTable('post_updates', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -16,8 +17,16 @@ export const postUpdates = pgTable('post_updates', {
   backgroundTheme: varchar('background_theme', { length: 100 }),
   feeling: varchar('feeling', { length: 20 }),
   location: varchar('location', { length: 100 }),
+  // Set for posts made in a group; these only appear in the group's feed
+  groupId: uuid('group_id').references(() => groups.id),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => {
+  return {
+    // Keyset pagination order
+    createdAtIdIdx: index('idx_post_updates_created_at_id').on(table.createdAt, table.id),
+    groupIdx: index('idx_post_updates_group_id').on(table.groupId, table.createdAt),
+  };
 });
 
 export type PostUpdate = typeof postUpdates.$inferSelect;
@@ -0,0 +1,35 @@
+import { pgTable, text, timestamp, uuid, index, jsonb, integer } from 'drizzle-orm/pg-core';
+import { authUsers } from './authUser';
+
+export const pushMessageStatuses = ['pending', 'sending', 'sent', 'delivered', 'failed'] as const;
+
+export type PushMessageStatus = typeof pushMessageStatuses[number];
+
+// Outbox for push notifications, one row per message and device token.
+// pending -> sending (claimed by one sender until nextAttemptAt) -> sent (Expo
+// accepted it, ticketId set) -> delivered (receipt ok), or failed once retries
+// are exhausted or Expo rejects it for good.
+export const pushMessages = pgTable('push_messages', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  authUserId: uuid('auth_user_id').notNull().references(() => authUsers.id, { onDelete: 'cascade' }),
+  token: text('token').notNull(),
+  title: text('title'),
+  body: text('body').notNull(),
+  data: jsonb('data').$type<Record<string, any>>(),
+  status: text('status', { enum: pushMessageStatuses }).notNull().default('pending'),
+  attempts: integer('attempts').notNull().default(0),
+  nextAttemptAt: timestamp('next_attempt_at', { withTimezone: true }).notNull().defaultNow(),
+  ticketId: text('ticket_id'),
+  error: text('error'),
+  sentAt: timestamp('sent_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => {
+  return {
+    statusNextAttemptIdx: index('idx_push_messages_status_next_attempt').on(table.status, table.nextAttemptAt),
+    statusSentAtIdx: index('idx_push_messages_status_sent_at').on(table.status, table.sentAt),
+  };
+});
+
+export type PushMessage = typeof pushMessages.$inferSelect;
+export type NewPushMessage = typeof pushMessages.$inferInsert;
@@ -0,0 +1,21 @@
+import { pgTable, text, timestamp, uuid, index } from 'drizzle-orm/pg-core';
+import { authUsers } from './authUser';
+import { sessions } from './sessions';
+
+// Expo push token registered by the app for a login session. A device keeps its
+// token across logins, so re-registering moves the token to the new session.
+export const pushTokens = pgTable('push_tokens', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  authUserId: uuid('auth_user_id').notNull().references(() => authUsers.id, { onDelete: 'cascade' }),
+  sessionId: uuid('session_id').notNull().unique().references(() => sessions.id, { onDelete: 'cascade' }),
+  token: text('token').notNull().unique(),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => {
+  return {
+    authUserIdIdx: index('idx_push_tokens_auth_user_id').on(table.authUserId),
+  };
+});
+
+export type PushToken = typeof pushTokens.$inferSelect;
+export type NewPushToken = typeof pushTokens.$inferInsert;
@@ -0,0 +1,25 @@
+import { pgTable, text, timestamp, uuid, index } from 'drizzle-orm/pg-core';
+import { authUsers } from './authUser';
+
+// Refresh tokens are stored hashed. Every token issued from the same login shares a
+// family ID (the session ID), so presenting an already-rotated token can revoke the whole chain.
+export const refreshTokens = pgTable('refresh_tokens', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  authUserId: uuid('auth_user_id').notNull().references(() => authUsers.id, { onDelete: 'cascade' }),
+  tokenHash: text('token_hash').notNull().unique(),
+  familyId: uuid('family_id').notNull(),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  rotatedAt: timestamp('rotated_at', { withTimezone: true }),
+  replacedById: uuid('replaced_by_id'),
+  revokedAt: timestamp('revoked_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => {
+  return {
+    authUserIdIdx: index('idx_refresh_tokens_auth_user_id').on(table.authUserId),
+    familyIdIdx: index('idx_refresh_tokens_family_id').on(table.familyId),
+    expiresAtIdx: index('idx_refresh_tokens_expires_at').on(table.expiresAt),
+  };
+});
+
+export type RefreshToken = typeof refreshTokens.$inferSelect;
+export type NewRefreshToken = typeof refreshTokens.$inferInsert;
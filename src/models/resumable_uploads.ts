@@ -0,0 +1,34 @@
+import { pgTable, text, timestamp, uuid, integer, jsonb, index } from 'drizzle-orm/pg-core';
+import { user } from './user';
+import { media, mediaResourceTypeEnum, mediaTagEnum } from './media';
+
+// A tus upload. Received bytes are kept on disk in TUS_UPLOAD_DIR until the upload is complete,
+// then the file goes through the media pipeline and the media row is linked here.
+export const resumableUploads = pgTable('resumable_uploads', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  resourceType: mediaResourceTypeEnum('resource_type').notNull(),
+  resourceId: uuid('resource_id').notNull(),
+  tag: mediaTagEnum('tag').notNull(),
+  filename: text('filename').notNull(),
+  mimeType: text('mime_type').notNull(),
+  // Upload-Length and Upload-Offset, in bytes
+  length: integer('length').notNull(),
+  offset: integer('offset').notNull().default(0),
+  // Upload-Metadata as sent, returned on HEAD
+  metadata: jsonb('metadata').$type<Record<string, string>>().notNull(),
+  // Pushed back on every PATCH; abandoned uploads are removed after it
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  completedAt: timestamp('completed_at', { withTimezone: true }),
+  mediaId: uuid('media_id').references(() => media.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => {
+  return {
+    userIdx: index('idx_resumable_uploads_user_id').on(table.userId),
+    expiresAtIdx: index('idx_resumable_uploads_expires_at').on(table.expiresAt),
+  };
+});
+
+export type ResumableUpload = typeof resumableUploads.$inferSelect;
+export type NewResumableUpload = typeof resumableUploads.$inferInsert;
@@ -0,0 +1,21 @@
+import { pgTable, text, timestamp, uuid, index } from 'drizzle-orm/pg-core';
+import { authUsers, validRoles } from './authUser';
+
+// Audit trail of every role grant/revoke made through the admin API
+export const roleChanges = pgTable('role_changes', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  authUserId: uuid('auth_user_id').notNull().references(() => authUsers.id, { onDelete: 'cascade' }),
+  previousRole: text('previous_role', { enum: validRoles }).notNull(),
+  newRole: text('new_role', { enum: validRoles }).notNull(),
+  changedBy: uuid('changed_by').references(() => authUsers.id, { onDelete: 'set null' }),
+  reason: text('reason'),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => {
+  return {
+    authUserIdIdx: index('idx_role_changes_auth_user_id').on(table.authUserId),
+    changedByIdx: index('idx_role_changes_changed_by').on(table.changedBy),
+  };
+});
+
+export type RoleChange = typeof roleChanges.$inferSelect;
+export type NewRoleChange = typeof roleChanges.$inferInsert;
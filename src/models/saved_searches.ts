@@ -0,0 +1,37 @@
+import { pgTable, text, timestamp, uuid, varchar, index, jsonb } from 'drizzle-orm/pg-core';
+import { authUsers } from './authUser';
+
+// Which directory the filters apply to:
+// - members: GET /api/users
+// - doctors: GET /api/users/doctors
+// - businesses: GET /api/search/businesses
+export const savedSearchKinds = ['members', 'doctors', 'businesses'] as const;
+// How often new matches are collected into an alert; 'off' keeps the search without alerts
+export const savedSearchFrequencies = ['daily', 'weekly', 'off'] as const;
+
+export type SavedSearchKind = typeof savedSearchKinds[number];
+export type SavedSearchFrequency = typeof savedSearchFrequencies[number];
+
+export const savedSearches = pgTable('saved_searches', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  authUserId: uuid('auth_user_id').notNull().references(() => authUsers.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 100 }).notNull(),
+  kind: text('kind', { enum: savedSearchKinds }).notNull(),
+  // The directory's querystring filters, without paging
+  filters: jsonb('filters').$type<Record<string, any>>().notNull(),
+  frequency: text('frequency', { enum: savedSearchFrequencies }).notNull().default('weekly'),
+  // Records created after this are new matches for the next alert
+  lastRunAt: timestamp('last_run_at', { withTimezone: true }).notNull().defaultNow(),
+  // Null while alerts are off
+  nextRunAt: timestamp('next_run_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => {
+  return {
+    authUserIdx: index('idx_saved_searches_auth_user_id').on(table.authUserId, table.createdAt),
+    nextRunAtIdx: index('idx_saved_searches_next_run_at').on(table.nextRunAt),
+  };
+});
+
+export type SavedSearch = typeof savedSearches.$inferSelect;
+export type NewSavedSearch = typeof savedSearches.$inferInsert;
@@ -0,0 +1,28 @@
+import { pgTable, text, timestamp, uuid, index, boolean } from 'drizzle-orm/pg-core';
+import { authUsers } from './authUser';
+
+// One row per login. The session ID is embedded in every access/refresh token
+// (`sessionId` claim) and doubles as the refresh token family ID.
+export const sessions = pgTable('sessions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  authUserId: uuid('auth_user_id').notNull().references(() => authUsers.id, { onDelete: 'cascade' }),
+  deviceId: text('device_id').notNull(),
+  deviceName: text('device_name'),
+  deviceType: text('device_type'),
+  ipAddress: text('ip_address'),
+  userAgent: text('user_agent'),
+  isActive: boolean('is_active').notNull().default(true),
+  lastActivity: timestamp('last_activity', { withTimezone: true }).notNull().defaultNow(),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  revokedAt: timestamp('revoked_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => {
+  return {
+    authUserIdIdx: index('idx_sessions_auth_user_id').on(table.authUserId),
+    deviceIdx: index('idx_sessions_device').on(table.authUserId, table.deviceId),
+    expiresAtIdx: index('idx_sessions_expires_at').on(table.expiresAt),
+  };
+});
+
+export type SessionRecord = typeof sessions.$inferSelect;
+export type NewSessionRecord = typeof sessions.$inferInsert;
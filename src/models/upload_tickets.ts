@@ -0,0 +1,31 @@
+import { pgTable, text, timestamp, uuid, integer, index } from 'drizzle-orm/pg-core';
+import { user } from './user';
+import { media, mediaResourceTypeEnum, mediaTagEnum } from './media';
+
+// Permission to upload one file straight to storage for a resource. Finalizing it creates the media row.
+export const uploadTickets = pgTable('upload_tickets', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => user.id, { onDelete: 'cascade' }),
+  // The image ID reserved with the storage provider
+  storageId: text('storage_id').notNull().unique(),
+  resourceType: mediaResourceTypeEnum('resource_type').notNull(),
+  resourceId: uuid('resource_id').notNull(),
+  tag: mediaTagEnum('tag').notNull(),
+  filename: text('filename').notNull(),
+  // As declared by the client; checked against the file on finalize
+  mimeType: text('mime_type').notNull(),
+  size: integer('size').notNull(),
+  maxFileSize: integer('max_file_size').notNull(),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  completedAt: timestamp('completed_at', { withTimezone: true }),
+  mediaId: uuid('media_id').references(() => media.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => {
+  return {
+    userIdx: index('idx_upload_tickets_user_id').on(table.userId),
+    expiresAtIdx: index('idx_upload_tickets_expires_at').on(table.expiresAt),
+  };
+});
+
+export type UploadTicket = typeof uploadTickets.$inferSelect;
+export type NewUploadTicket = typeof uploadTickets.$inferInsert;
@@ -1,4 +1,4 @@
-import { pgTable, varchar, uuid, timestamp, integer, numeric, boolean, text, jsonb } from 'drizzle-orm/pg-core';
+import { pgTable, varchar, uuid, timestamp, integer, numeric, boolean, text, jsonb, index } from 'drizzle-orm/pg-core';
 import { specialization } from './specialization';
 import { professions } from './professions';
 
@@ -26,6 +26,10 @@ export const user = pgTable('user', {
   specializationId: uuid('specilizationid').references(() => specialization.id),
   professionId: uuid('professionid').references(() => professions.id),
   userAuthId: uuid('user_auth_id'),
+}, (table) => {
+  return {
+    createdAtIdIdx: index('idx_user_created_at_id').on(table.createdAt, table.id),
+  };
 });
 
 export type User = typeof user.$inferSelect;
@@ -1,16 +1,23 @@
 import fp from 'fastify-plugin';
 import { FastifyPluginAsync, FastifyRequest, FastifyReply } from 'fastify';
-import fastifyJWT from '@fastify/jwt';
+import fastifyJWT, { type FastifyJWT } from '@fastify/jwt';
 import { user } from '../models/user';
-import { authUsers } from '../models/authUser';
+import { authUsers, type Role } from '../models/authUser';
+import { sessions } from '../models/sessions';
 import { eq } from 'drizzle-orm';
+import { hasRole } from '../utils/roles';
+
+// Don't write lastActivity on every request
+const SESSION_ACTIVITY_INTERVAL_MS = 5 * 60 * 1000;
 
 declare module '@fastify/jwt' {
   interface FastifyJWT {
-    payload: { userId: string; email: string };
+    payload: { userId: string; email?: string; sessionId?: string; tokenId?: string; type?: 'refresh' | 'stream' };
     user: {
       userId: string;
       email: string;
+      sessionId?: string;
+      type?: 'refresh' | 'stream';
       authUser?: any;
       profile?: any;
     };
@@ -27,18 +34,43 @@ const authPlugin: FastifyPluginAsync = async (fastify) => {
 
   fastify.decorate('authenticate', async function (request: FastifyRequest, reply: FastifyReply) {
     try {
-      await request.jwtVerify();
+      // Routes that take stream tickets also take them as ?ticket=, for clients that can't set
+      // headers (EventSource, browser WebSockets). Only tickets: access tokens stay out of URLs.
+      const ticket = request.routeOptions.config.tokenType === 'stream' && !request.headers.authorization
+        ? (request.query as { ticket?: string } | undefined)?.ticket
+        : undefined;
+      if (ticket) {
+        request.user = fastify.jwt.verify<FastifyJWT['user']>(ticket);
+        if (request.user.type !== 'stream') {
+          return reply.code(401).send({
+            success: false,
+            error: 'Invalid token',
+          });
+        }
+      } else {
+        await request.jwtVerify();
+      }
       
-      const userId = request.user.userId;
+      const { userId, sessionId, type } = request.user;
+
+      // Refresh tokens and stream tickets only work where they are meant to
+      if (!sessionId || (type && type !== request.routeOptions.config.tokenType)) {
+        return reply.code(401).send({
+          success: false,
+          error: 'Invalid token',
+        });
+      }
       
-      // Single optimized query with left join to get both auth user and profile
+      // Single optimized query with left joins to get auth user, profile and session
       const [result] = await fastify.db
         .select({
           authUser: authUsers,
           profile: user,
+          session: sessions,
         })
         .from(authUsers)
         .leftJoin(user, eq(user.userAuthId, authUsers.id))
+        .leftJoin(sessions, eq(sessions.id, sessionId))
         .where(eq(authUsers.id, userId))
         .limit(1);
 
@@ -49,6 +81,22 @@ const authPlugin: FastifyPluginAsync = async (fastify) => {
         });
       }
 
+      const session = result.session;
+      const now = new Date();
+      if (!session || session.authUserId !== userId || !session.isActive || session.expiresAt < now) {
+        return reply.code(401).send({
+          success: false,
+          error: 'Session expired or revoked',
+        });
+      }
+
+      if (now.getTime() - session.lastActivity.getTime() > SESSION_ACTIVITY_INTERVAL_MS) {
+        await fastify.db
+          .update(sessions)
+          .set({ lastActivity: now })
+          .where(eq(sessions.id, session.id));
+      }
+
       // Store both auth and profile info
       request.user = {
         ...request.user,
@@ -62,6 +110,18 @@ const authPlugin: FastifyPluginAsync = async (fastify) => {
       });
     }
   });
+
+  // Must run after `authenticate`, which loads the auth user (and its role) onto the request
+  fastify.decorate('requireRole', function (...roles: Role[]) {
+    return async function (request: FastifyRequest, reply: FastifyReply) {
+      if (!hasRole(request.user?.authUser, ...roles)) {
+        return reply.code(403).send({
+          success: false,
+          error: `${roles.join(' or ')} access required`,
+        });
+      }
+    };
+  });
 };
 
 export default fp(authPlugin, {
@@ -16,6 +16,36 @@ import * as commentsSchema from '../models/comments';
 import * as commentRepliesSchema from '../models/comment_replies';
 import * as newsSchema from '../models/news';
 import * as favouritesSchema from '../models/favourites';
+import * as roleChangesSchema from '../models/role_changes';
+import * as refreshTokensSchema from '../models/refresh_tokens';
+import * as sessionsSchema from '../models/sessions';
+import * as emailTokensSchema from '../models/email_tokens';
+import * as authIdentitiesSchema from '../models/auth_identities';
+import * as notificationsSchema from '../models/notifications';
+import * as notificationPreferencesSchema from '../models/notification_preferences';
+import * as pushTokensSchema from '../models/push_tokens';
+import * as pushMessagesSchema from '../models/push_messages';
+import * as connectionsSchema from '../models/connections';
+import * as conversationsSchema from '../models/conversations';
+import * as conversationParticipantsSchema from '../models/conversation_participants';
+import * as messagesSchema from '../models/messages';
+import * as savedSearchesSchema from '../models/saved_searches';
+import * as bloodRequestsSchema from '../models/blood_requests';
+import * as bloodDonorsSchema from '../models/blood_donors';
+import * as bloodRequestResponsesSchema from '../models/blood_request_responses';
+import * as eventsSchema from '../models/events';
+import * as eventOrganizersSchema from '../models/event_organizers';
+import * as eventRsvpsSchema from '../models/event_rsvps';
+import * as calendarFeedsSchema from '../models/calendar_feeds';
+import * as groupsSchema from '../models/groups';
+import * as groupMembersSchema from '../models/group_members';
+import * as jobPostingsSchema from '../models/job_postings';
+import * as jobApplicationsSchema from '../models/job_applications';
+import * as mentorshipProfilesSchema from '../models/mentorship_profiles';
+import * as mentorshipsSchema from '../models/mentorships';
+import * as mentorshipSessionsSchema from '../models/mentorship_sessions';
+import * as uploadTicketsSchema from '../models/upload_tickets';
+import * as resumableUploadsSchema from '../models/resumable_uploads';
 import * as relations from '../models/relations';
 
 const schema = { 
@@ -33,6 +63,36 @@ const schema = {
   ...commentRepliesSchema,
   ...newsSchema,
   ...favouritesSchema,
+  ...roleChangesSchema,
+  ...refreshTokensSchema,
+  ...sessionsSchema,
+  ...emailTokensSchema,
+  ...authIdentitiesSchema,
+  ...notificationsSchema,
+  ...notificationPreferencesSchema,
+  ...pushTokensSchema,
+  ...pushMessagesSchema,
+  ...connectionsSchema,
+  ...conversationsSchema,
+  ...conversationParticipantsSchema,
+  ...messagesSchema,
+  ...savedSearchesSchema,
+  ...bloodRequestsSchema,
+  ...bloodDonorsSchema,
+  ...bloodRequestResponsesSchema,
+  ...eventsSchema,
+  ...eventOrganizersSchema,
+  ...eventRsvpsSchema,
+  ...calendarFeedsSchema,
+  ...groupsSchema,
+  ...groupMembersSchema,
+  ...jobPostingsSchema,
+  ...jobApplicationsSchema,
+  ...mentorshipProfilesSchema,
+  ...mentorshipsSchema,
+  ...mentorshipSessionsSchema,
+  ...uploadTicketsSchema,
+  ...resumableUploadsSchema,
   ...relations,
 };
 
@@ -68,6 +68,133 @@ const envSchema = {
       type: 'string',
       default: '',
     },
+    CLOUDFLARE_IMAGES_SIGNING_KEY: {
+      type: 'string',
+      default: '',
+    },
+    STORAGE_PROVIDER: {
+      type: 'string',
+      enum: ['cloudflare', 's3', 'local'],
+      default: 'cloudflare',
+    },
+    S3_ENDPOINT: {
+      type: 'string',
+      default: '',
+    },
+    S3_REGION: {
+      type: 'string',
+      default: 'us-east-1',
+    },
+    S3_BUCKET: {
+      type: 'string',
+      default: '',
+    },
+    S3_ACCESS_KEY_ID: {
+      type: 'string',
+      default: '',
+    },
+    S3_SECRET_ACCESS_KEY: {
+      type: 'string',
+      default: '',
+    },
+    S3_PUBLIC_URL: {
+      type: 'string',
+      default: '',
+    },
+    LOCAL_STORAGE_DIR: {
+      type: 'string',
+      default: './tmp/media',
+    },
+    LOCAL_STORAGE_URL: {
+      type: 'string',
+      default: '',
+    },
+    TUS_UPLOAD_DIR: {
+      type: 'string',
+      default: './tmp/tus',
+    },
+    VIDEO_TRANSCODER: {
+      type: 'string',
+      enum: ['cloudflare_stream', 'ffmpeg'],
+      default: 'cloudflare_stream',
+    },
+    CLOUDFLARE_STREAM_API_TOKEN: {
+      type: 'string',
+      default: '',
+    },
+    CLOUDFLARE_STREAM_WEBHOOK_SECRET: {
+      type: 'string',
+      default: '',
+    },
+    FFMPEG_PATH: {
+      type: 'string',
+      default: 'ffmpeg',
+    },
+    FFPROBE_PATH: {
+      type: 'string',
+      default: 'ffprobe',
+    },
+    VIDEO_LOCAL_DIR: {
+      type: 'string',
+      default: './tmp/videos',
+    },
+    VIDEO_LOCAL_URL: {
+      type: 'string',
+      default: '',
+    },
+    APP_LINK_URL: {
+      type: 'string',
+      default: 'sarvail://auth',
+    },
+    MAIL_TRANSPORT: {
+      type: 'string',
+      enum: ['console', 'file', 'http'],
+      default: 'console',
+    },
+    MAIL_FROM: {
+      type: 'string',
+      default: 'Sarvail <no-reply@localhost>',
+    },
+    MAIL_FILE_DIR: {
+      type: 'string',
+      default: './tmp/mail',
+    },
+    MAIL_HTTP_URL: {
+      type: 'string',
+      default: '',
+    },
+    MAIL_HTTP_API_KEY: {
+      type: 'string',
+      default: '',
+    },
+    JOBS_ENABLED: {
+      type: 'boolean',
+      default: true,
+    },
+    ACCOUNT_DELETION_GRACE_DAYS: {
+      type: 'number',
+      default: 30,
+    },
+    BLOOD_DONATION_COOLDOWN_DAYS: {
+      type: 'number',
+      default: 90,
+    },
+    EVENT_REMINDER_HOURS: {
+      type: 'number',
+      default: 24,
+    },
+    EXPO_PUSH_API_URL: {
+      type: 'string',
+      default: 'https://exp.host/--/api/v2/push',
+    },
+    EXPO_ACCESS_TOKEN: {
+      type: 'string',
+      default: '',
+    },
+    CURSOR_SECRET: {
+      type: 'string',
+      default: '',
+    },
   },
 };
 
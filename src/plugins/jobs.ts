@@ -0,0 +1,43 @@
+import fp from 'fastify-plugin';
+import { FastifyPluginAsync } from 'fastify';
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    scheduleJob: (name: string, intervalMs: number, task: () => Promise<unknown>) => void;
+  }
+}
+
+// Runs periodic maintenance tasks in-process. Disable with JOBS_ENABLED=false on
+// instances that should only serve requests.
+const jobsPlugin: FastifyPluginAsync = async (fastify) => {
+  const timers: NodeJS.Timeout[] = [];
+  const running = new Set<string>();
+
+  fastify.decorate('scheduleJob', function (name: string, intervalMs: number, task: () => Promise<unknown>) {
+    if (!fastify.config.JOBS_ENABLED) return;
+
+    const timer = setInterval(async () => {
+      // Skip a tick rather than overlap a slow run
+      if (running.has(name)) return;
+      running.add(name);
+      try {
+        await task();
+      } catch (error) {
+        fastify.log.error({ err: error, job: name }, 'Scheduled job failed');
+      } finally {
+        running.delete(name);
+      }
+    }, intervalMs);
+    timer.unref();
+    timers.push(timer);
+  });
+
+  fastify.addHook('onClose', async () => {
+    timers.forEach(timer => clearInterval(timer));
+  });
+};
+
+export default fp(jobsPlugin, {
+  name: 'jobs',
+  dependencies: ['env'],
+});
@@ -0,0 +1,49 @@
+import fp from 'fastify-plugin';
+import { FastifyPluginAsync } from 'fastify';
+import {
+  MailService,
+  ConsoleMailTransport,
+  FileMailTransport,
+  HttpMailTransport,
+  type MailTransport,
+} from '../services/mailService';
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    mailer: MailService;
+  }
+}
+
+const mailerPlugin: FastifyPluginAsync = async (fastify) => {
+  const { MAIL_TRANSPORT, MAIL_FROM, MAIL_FILE_DIR, MAIL_HTTP_URL, MAIL_HTTP_API_KEY } = fastify.config;
+
+  let transport: MailTransport;
+  switch (MAIL_TRANSPORT) {
+    case 'file':
+      transport = new FileMailTransport(MAIL_FILE_DIR);
+      break;
+    case 'http':
+      if (!MAIL_HTTP_URL || !MAIL_HTTP_API_KEY) {
+        throw new Error('MAIL_HTTP_URL and MAIL_HTTP_API_KEY are required when MAIL_TRANSPORT=http');
+      }
+      transport = new HttpMailTransport(MAIL_HTTP_URL, MAIL_HTTP_API_KEY);
+      break;
+    case 'console':
+      // Messages hold sign-in and password reset links; they must not end up in production logs
+      if (fastify.config.NODE_ENV === 'production') {
+        throw new Error('MAIL_TRANSPORT=console is not allowed in production; use http (or file)');
+      }
+      transport = new ConsoleMailTransport(fastify.log);
+      break;
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${MAIL_TRANSPORT}`);
+  }
+
+  fastify.decorate('mailer', new MailService(transport, MAIL_FROM));
+  fastify.log.info(`Mail transport: ${MAIL_TRANSPORT}`);
+};
+
+export default fp(mailerPlugin, {
+  name: 'mailer',
+  dependencies: ['env'],
+});
@@ -0,0 +1,19 @@
+import fp from 'fastify-plugin';
+import { FastifyPluginAsync } from 'fastify';
+import { NotificationHub } from '../services/notificationHub';
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    messagingHub: NotificationHub;
+  }
+}
+
+// Live messaging events (messages, read receipts, typing) for open WebSockets.
+// Kept apart from the notification hub so SSE streams don't receive chat traffic.
+const messagingPlugin: FastifyPluginAsync = async (fastify) => {
+  fastify.decorate('messagingHub', new NotificationHub());
+};
+
+export default fp(messagingPlugin, {
+  name: 'messaging',
+});
@@ -0,0 +1,61 @@
+import fp from 'fastify-plugin';
+import { FastifyPluginAsync } from 'fastify';
+import { NotificationHub } from '../services/notificationHub';
+import { NotificationService } from '../services/notificationService';
+import { appEvents } from '../utils/appEvents';
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    notificationHub: NotificationHub;
+  }
+}
+
+const notificationsPlugin: FastifyPluginAsync = async (fastify) => {
+  const hub = new NotificationHub();
+  const notificationService = new NotificationService(fastify.db, hub, fastify.push);
+  const onError = (error: unknown) => fastify.log.error({ err: error }, 'Failed to create notification');
+
+  fastify.decorate('notificationHub', hub);
+
+  const unsubscribers = [
+    appEvents.on('comment.created', ({ comment }) => notificationService.notifyComment(comment), onError),
+    appEvents.on('reply.created', ({ reply, comment }) => notificationService.notifyReply(reply, comment), onError),
+    appEvents.on('favourite.created', ({ userId, likedType, likedTypeId }) =>
+      notificationService.notifyFavourite(userId, likedType, likedTypeId), onError),
+    appEvents.on('blood_request.created', ({ request, donorIds }) =>
+      notificationService.notifyBloodRequest(request, donorIds), onError),
+    appEvents.on('blood_request.accepted', ({ request, donorId }) =>
+      notificationService.notifyBloodAccepted(request, donorId), onError),
+    appEvents.on('event.reminder', ({ event, attendeeIds }) =>
+      notificationService.notifyEventReminder(event, attendeeIds), onError),
+    appEvents.on('event.promoted', ({ event, userIds }) =>
+      notificationService.notifyEventPromoted(event, userIds), onError),
+    appEvents.on('event.cancelled', ({ event, cancelledBy, attendeeIds }) =>
+      notificationService.notifyEventCancelled(event, cancelledBy, attendeeIds), onError),
+    appEvents.on('group.invited', ({ group, userId, invitedBy }) =>
+      notificationService.notifyGroupInvite(group, userId, invitedBy), onError),
+    appEvents.on('group.requested', ({ group, userId, moderatorIds }) =>
+      notificationService.notifyGroupRequest(group, userId, moderatorIds), onError),
+    appEvents.on('group.approved', ({ group, userId, approvedBy }) =>
+      notificationService.notifyGroupApproved(group, userId, approvedBy), onError),
+    appEvents.on('job.applied', ({ job, application }) =>
+      notificationService.notifyJobApplication(job, application), onError),
+    appEvents.on('job.application_status', ({ job, application }) =>
+      notificationService.notifyJobApplicationStatus(job, application), onError),
+    appEvents.on('mentorship.requested', ({ mentorship }) =>
+      notificationService.notifyMentorshipRequest(mentorship), onError),
+    appEvents.on('mentorship.responded', ({ mentorship }) =>
+      notificationService.notifyMentorshipResponse(mentorship), onError),
+    appEvents.on('mentorship.ended', ({ mentorship, endedBy }) =>
+      notificationService.notifyMentorshipEnded(mentorship, endedBy), onError),
+  ];
+
+  fastify.addHook('onClose', async () => {
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+  });
+};
+
+export default fp(notificationsPlugin, {
+  name: 'notifications',
+  dependencies: ['db', 'push'],
+});
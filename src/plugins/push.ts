@@ -0,0 +1,30 @@
+import fp from 'fastify-plugin';
+import { FastifyPluginAsync } from 'fastify';
+import { PushService, FetchPushHttpClient, type PushHttpClient } from '../services/pushService';
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    push: PushService;
+  }
+}
+
+export interface PushPluginOptions {
+  // Replaces the fetch-based client, e.g. with a stub in tests
+  httpClient?: PushHttpClient;
+}
+
+const pushPlugin: FastifyPluginAsync<PushPluginOptions> = async (fastify, opts) => {
+  const { EXPO_PUSH_API_URL, EXPO_ACCESS_TOKEN } = fastify.config;
+
+  fastify.decorate('push', new PushService(
+    fastify.db,
+    opts.httpClient || new FetchPushHttpClient(),
+    { apiUrl: EXPO_PUSH_API_URL.replace(/\/$/, ''), accessToken: EXPO_ACCESS_TOKEN },
+    fastify.log
+  ));
+};
+
+export default fp(pushPlugin, {
+  name: 'push',
+  dependencies: ['env', 'db'],
+});
@@ -0,0 +1,69 @@
+import fp from 'fastify-plugin';
+import { FastifyPluginAsync } from 'fastify';
+import { CloudflareImagesService } from '../services/cloudflareService';
+import {
+  CloudflareStorageProvider,
+  S3StorageProvider,
+  LocalStorageProvider,
+  type MediaStorageProvider,
+} from '../services/mediaStorage';
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    mediaStorage: MediaStorageProvider;
+  }
+}
+
+const storagePlugin: FastifyPluginAsync = async (fastify) => {
+  const config = fastify.config;
+
+  let provider: MediaStorageProvider;
+  switch (config.STORAGE_PROVIDER) {
+    case 'cloudflare':
+      // The default provider; the API still starts without it, but uploads fail
+      if (!config.CLOUDFLARE_ACCOUNT_ID || !config.CLOUDFLARE_IMAGES_API_TOKEN || !config.CLOUDFLARE_IMAGES_ACCOUNT_HASH) {
+        fastify.log.warn('Cloudflare Images is not configured; set the CLOUDFLARE_* variables or another STORAGE_PROVIDER');
+      }
+      // Responses that include private media (resumes, message attachments) can't be built without it
+      if (!config.CLOUDFLARE_IMAGES_SIGNING_KEY) {
+        throw new Error('CLOUDFLARE_IMAGES_SIGNING_KEY is required when STORAGE_PROVIDER=cloudflare');
+      }
+      provider = new CloudflareStorageProvider(new CloudflareImagesService({
+        accountId: config.CLOUDFLARE_ACCOUNT_ID,
+        apiToken: config.CLOUDFLARE_IMAGES_API_TOKEN,
+        accountHash: config.CLOUDFLARE_IMAGES_ACCOUNT_HASH,
+        signingKey: config.CLOUDFLARE_IMAGES_SIGNING_KEY,
+      }));
+      break;
+    case 's3':
+      if (!config.S3_ENDPOINT || !config.S3_BUCKET || !config.S3_ACCESS_KEY_ID || !config.S3_SECRET_ACCESS_KEY) {
+        throw new Error('S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are required when STORAGE_PROVIDER=s3');
+      }
+      provider = new S3StorageProvider({
+        endpoint: config.S3_ENDPOINT,
+        region: config.S3_REGION,
+        bucket: config.S3_BUCKET,
+        accessKeyId: config.S3_ACCESS_KEY_ID,
+        secretAccessKey: config.S3_SECRET_ACCESS_KEY,
+        publicUrl: config.S3_PUBLIC_URL,
+      });
+      break;
+    case 'local':
+      provider = new LocalStorageProvider(
+        config.LOCAL_STORAGE_DIR,
+        config.LOCAL_STORAGE_URL || `${config.API_URL.replace(/\/+$/, '')}/media/files`,
+        config.JWT_SECRET
+      );
+      break;
+    default:
+      throw new Error(`Unknown STORAGE_PROVIDER: ${config.STORAGE_PROVIDER}`);
+  }
+
+  fastify.decorate('mediaStorage', provider);
+  fastify.log.info(`Media storage: ${config.STORAGE_PROVIDER}`);
+};
+
+export default fp(storagePlugin, {
+  name: 'storage',
+  dependencies: ['env'],
+});
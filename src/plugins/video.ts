@@ -0,0 +1,49 @@
+import fp from 'fastify-plugin';
+import { FastifyPluginAsync } from 'fastify';
+import { CloudflareStreamTranscoder, FfmpegTranscoder, type VideoTranscoder } from '../services/videoTranscoder';
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    videoTranscoder: VideoTranscoder;
+  }
+}
+
+const videoPlugin: FastifyPluginAsync = async (fastify) => {
+  const config = fastify.config;
+
+  let transcoder: VideoTranscoder;
+  switch (config.VIDEO_TRANSCODER) {
+    case 'cloudflare_stream':
+      // The default; the API still starts without it, but video uploads fail
+      if (!config.CLOUDFLARE_ACCOUNT_ID || !config.CLOUDFLARE_STREAM_API_TOKEN) {
+        fastify.log.warn('Cloudflare Stream is not configured; set CLOUDFLARE_STREAM_API_TOKEN or VIDEO_TRANSCODER=ffmpeg');
+      }
+      if (!config.CLOUDFLARE_STREAM_WEBHOOK_SECRET) {
+        fastify.log.warn('CLOUDFLARE_STREAM_WEBHOOK_SECRET is not set; video results will only be picked up by polling');
+      }
+      transcoder = new CloudflareStreamTranscoder({
+        accountId: config.CLOUDFLARE_ACCOUNT_ID,
+        apiToken: config.CLOUDFLARE_STREAM_API_TOKEN,
+        webhookSecret: config.CLOUDFLARE_STREAM_WEBHOOK_SECRET,
+      });
+      break;
+    case 'ffmpeg':
+      transcoder = new FfmpegTranscoder({
+        directory: config.VIDEO_LOCAL_DIR,
+        publicUrl: config.VIDEO_LOCAL_URL || `${config.API_URL.replace(/\/+$/, '')}/media/videos/files`,
+        ffmpegPath: config.FFMPEG_PATH,
+        ffprobePath: config.FFPROBE_PATH,
+      });
+      break;
+    default:
+      throw new Error(`Unknown VIDEO_TRANSCODER: ${config.VIDEO_TRANSCODER}`);
+  }
+
+  fastify.decorate('videoTranscoder', transcoder);
+  fastify.log.info(`Video transcoder: ${config.VIDEO_TRANSCODER}`);
+};
+
+export default fp(videoPlugin, {
+  name: 'video',
+  dependencies: ['env'],
+});
@@ -9,7 +9,7 @@ const adminMediaRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.get(
     '/stats',
     {
-      onRequest: [fastify.authenticate],
+      onRequest: [fastify.authenticate, fastify.requireRole('admin')],
       schema: {
         response: {
           200: Type.Object({
@@ -26,11 +26,6 @@ const adminMediaRoutes: FastifyPluginAsync = async (fastify) => {
     },
     async (request, reply) => {
       try {
-        // TODO: Add admin role check here
-        // if (!request.user?.isAdmin) {
-        //   return reply.code(403).send({ success: false, error: 'Admin access required' });
-        // }
-
         const stats = await cleanupService.getUsageStats();
 
         return reply.send({
@@ -51,7 +46,7 @@ const adminMediaRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.post<{ Body: { dryRun?: boolean } }>(
     '/cleanup/orphaned',
     {
-      onRequest: [fastify.authenticate],
+      onRequest: [fastify.authenticate, fastify.requireRole('admin')],
       schema: {
         body: Type.Object({
           dryRun: Type.Optional(Type.Boolean({ default: true })),
@@ -70,7 +65,6 @@ const adminMediaRoutes: FastifyPluginAsync = async (fastify) => {
     },
     async (request, reply) => {
       try {
-        // TODO: Add admin role check
         const { dryRun = true } = request.body;
         
         const result = await cleanupService.cleanupOrphanedImages(dryRun);
@@ -89,11 +83,52 @@ const adminMediaRoutes: FastifyPluginAsync = async (fastify) => {
     }
   );
 
+  // Store images of media that isn't public privately
+  fastify.post<{ Body: { dryRun?: boolean } }>(
+    '/privatize',
+    {
+      onRequest: [fastify.authenticate, fastify.requireRole('admin')],
+      schema: {
+        body: Type.Object({
+          dryRun: Type.Optional(Type.Boolean({ default: true })),
+        }),
+        response: {
+          200: Type.Object({
+            success: Type.Boolean(),
+            data: Type.Object({
+              found: Type.Number(),
+              updated: Type.Number(),
+              errors: Type.Array(Type.String()),
+            }),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { dryRun = true } = request.body;
+
+        const result = await cleanupService.privatizeStoredImages(dryRun);
+
+        return reply.send({
+          success: true,
+          data: result,
+        });
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.code(500).send({
+          success: false,
+          error: error instanceof Error ? error.message : 'Privatize failed',
+        });
+      }
+    }
+  );
+
   // Clean up old images
   fastify.post<{ Body: { olderThanDays: number; dryRun?: boolean } }>(
     '/cleanup/old',
     {
-      onRequest: [fastify.authenticate],
+      onRequest: [fastify.authenticate, fastify.requireRole('admin')],
       schema: {
         body: Type.Object({
           olderThanDays: Type.Number({ minimum: 1 }),
@@ -113,7 +148,6 @@ const adminMediaRoutes: FastifyPluginAsync = async (fastify) => {
     },
     async (request, reply) => {
       try {
-        // TODO: Add admin role check
         const { olderThanDays, dryRun = true } = request.body;
         
         const result = await cleanupService.cleanupOldImages(olderThanDays, dryRun);
@@ -136,7 +170,7 @@ const adminMediaRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.post<{ Body: { filters: any } }>(
     '/list-by-metadata',
     {
-      onRequest: [fastify.authenticate],
+      onRequest: [fastify.authenticate, fastify.requireRole('admin')],
       schema: {
         body: Type.Object({
           filters: Type.Object({
@@ -151,7 +185,6 @@ const adminMediaRoutes: FastifyPluginAsync = async (fastify) => {
     },
     async (request, reply) => {
       try {
-        // TODO: Add admin role check
         const { filters } = request.body;
         
         // Convert date strings to Date objects
@@ -171,9 +204,9 @@ const adminMediaRoutes: FastifyPluginAsync = async (fastify) => {
             images: images.map(img => ({
               id: img.id,
               filename: img.filename,
-              uploaded: img.uploaded,
+              uploaded: img.meta.uploadedAt,
               metadata: img.meta,
-              variants: img.variants,
+              variants: fastify.mediaStorage.getVariantUrls(img.id),
             })),
           },
         });
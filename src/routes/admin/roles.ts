@@ -0,0 +1,161 @@
+import { FastifyPluginAsync, FastifyReply } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import { RoleService, RoleError } from '../../services/roleService';
+import { validRoles, type Role } from '../../models/authUser';
+
+const RoleSchema = Type.Union(validRoles.map(role => Type.Literal(role)));
+
+const adminRoleRoutes: FastifyPluginAsync = async (fastify) => {
+  const roleService = new RoleService(fastify.db);
+
+  // Every route in this plugin is admin-only
+  fastify.addHook('onRequest', fastify.authenticate);
+  fastify.addHook('onRequest', fastify.requireRole('admin'));
+
+  const sendError = (reply: FastifyReply, error: unknown) => {
+    if (error instanceof RoleError) {
+      return reply.code(error.statusCode).send({
+        success: false,
+        error: error.message,
+      });
+    }
+    throw error;
+  };
+
+  // List users and their roles
+  fastify.get<{ Querystring: { role?: Role; limit?: number; offset?: number } }>('/', {
+    schema: {
+      querystring: Type.Object({
+        role: Type.Optional(RoleSchema),
+        limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 20 })),
+        offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 })),
+      }),
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: Type.Array(Type.Any()),
+          total: Type.Integer(),
+          limit: Type.Integer(),
+          offset: Type.Integer(),
+        }),
+      },
+    },
+  }, async (request) => {
+    const result = await roleService.listUsersByRole(request.query);
+
+    return {
+      success: true,
+      ...result,
+    };
+  });
+
+  // Grant a role
+  fastify.put<{ Params: { authUserId: string }; Body: { role: Role; reason?: string } }>('/:authUserId', {
+    schema: {
+      params: Type.Object({
+        authUserId: Type.String({ format: 'uuid' }),
+      }),
+      body: Type.Object({
+        role: RoleSchema,
+        reason: Type.Optional(Type.String({ maxLength: 500 })),
+      }),
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: Type.Any(),
+        }),
+      },
+    },
+  }, async (request, reply) => {
+    const { authUserId } = request.params;
+    const { role, reason } = request.body;
+
+    try {
+      const updated = await roleService.setRole(authUserId, role, request.user.userId, reason);
+      if (!updated) {
+        return reply.code(404).send({
+          success: false,
+          error: 'User not found',
+        });
+      }
+
+      return {
+        success: true,
+        data: {
+          id: updated.id,
+          email: updated.email,
+          name: updated.name,
+          role: updated.role,
+        },
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Revoke any elevated role (back to member)
+  fastify.delete<{ Params: { authUserId: string }; Body: { reason?: string } | undefined }>('/:authUserId', {
+    schema: {
+      params: Type.Object({
+        authUserId: Type.String({ format: 'uuid' }),
+      }),
+      body: Type.Optional(Type.Object({
+        reason: Type.Optional(Type.String({ maxLength: 500 })),
+      })),
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: Type.Any(),
+        }),
+      },
+    },
+  }, async (request, reply) => {
+    const { authUserId } = request.params;
+
+    try {
+      const updated = await roleService.setRole(authUserId, 'member', request.user.userId, request.body?.reason);
+      if (!updated) {
+        return reply.code(404).send({
+          success: false,
+          error: 'User not found',
+        });
+      }
+
+      return {
+        success: true,
+        data: {
+          id: updated.id,
+          email: updated.email,
+          name: updated.name,
+          role: updated.role,
+        },
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Role change history for a user
+  fastify.get<{ Params: { authUserId: string } }>('/:authUserId/history', {
+    schema: {
+      params: Type.Object({
+        authUserId: Type.String({ format: 'uuid' }),
+      }),
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: Type.Array(Type.Any()),
+        }),
+      },
+    },
+  }, async (request) => {
+    const history = await roleService.getHistory(request.params.authUserId);
+
+    return {
+      success: true,
+      data: history,
+    };
+  });
+};
+
+export default adminRoleRoutes;
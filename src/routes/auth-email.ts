@@ -0,0 +1,271 @@
+import { FastifyPluginAsync, FastifyReply } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import {
+  EmailRegisterBody,
+  EmailLoginBody,
+  EmailOnlyBody,
+  EmailTokenBody,
+  PasswordResetBody,
+  type EmailRegisterRequest,
+  type EmailLoginRequest,
+  type EmailOnlyRequest,
+  type EmailTokenRequest,
+  type PasswordResetRequest,
+} from '../types/auth';
+import { EmailAuthService, EmailAuthError } from '../services/emailAuthService';
+import { TokenManager } from '../utils/tokenManager';
+import { getDeviceInfo } from '../utils/deviceInfo';
+import type { AuthUser } from '../models/authUser';
+
+const AuthSuccessResponse = Type.Object({
+  success: Type.Boolean(),
+  data: Type.Object({
+    tokens: Type.Object({
+      accessToken: Type.String(),
+      refreshToken: Type.String(),
+    }),
+    user: Type.Object({
+      id: Type.String(),
+      email: Type.String(),
+      name: Type.String(),
+      avatar: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+    }),
+    isNewUser: Type.Boolean(),
+  }),
+});
+
+const MessageResponse = Type.Object({
+  success: Type.Boolean(),
+  data: Type.Object({
+    message: Type.String(),
+  }),
+});
+
+const emailAuthRoutes: FastifyPluginAsync = async (fastify) => {
+  const emailAuthService = new EmailAuthService(fastify.db, fastify.mailer, fastify.config.APP_LINK_URL);
+  const tokenManager = new TokenManager(fastify);
+
+  // Stricter limit than the global one: these endpoints send mail or check passwords
+  const rateLimit = { rateLimit: { max: 10, timeWindow: '1 minute' } };
+
+  const sendError = (reply: FastifyReply, error: unknown, fallback: string) => {
+    if (error instanceof EmailAuthError) {
+      return reply.code(error.statusCode).send({
+        success: false,
+        error: error.message,
+      });
+    }
+    fastify.log.error(error);
+    return reply.code(500).send({
+      success: false,
+      error: fallback,
+    });
+  };
+
+  const toAuthUser = (authUser: AuthUser) => ({
+    id: authUser.id,
+    email: authUser.email,
+    name: authUser.name,
+    avatar: authUser.avatar,
+  });
+
+  // Create an account; tokens are issued once the email is verified
+  fastify.post<{ Body: EmailRegisterRequest }>('/register', {
+    config: rateLimit,
+    schema: {
+      body: EmailRegisterBody,
+      response: {
+        201: MessageResponse,
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      await emailAuthService.register(request.body);
+
+      return reply.code(201).send({
+        success: true,
+        data: {
+          message: 'Account created. Check your email to verify your address.',
+        },
+      });
+    } catch (error) {
+      return sendError(reply, error, 'Registration failed');
+    }
+  });
+
+  // Confirm the address and sign in
+  fastify.post<{ Body: EmailTokenRequest }>('/verify', {
+    config: rateLimit,
+    schema: {
+      body: EmailTokenBody,
+      response: {
+        200: AuthSuccessResponse,
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const authUser = await emailAuthService.verifyEmail(request.body.token);
+      const tokens = await tokenManager.generateTokenPair(authUser.id, authUser.email, getDeviceInfo(request));
+
+      return {
+        success: true,
+        data: {
+          tokens,
+          user: toAuthUser(authUser),
+          isNewUser: true,
+        },
+      };
+    } catch (error) {
+      return sendError(reply, error, 'Email verification failed');
+    }
+  });
+
+  fastify.post<{ Body: EmailOnlyRequest }>('/resend-verification', {
+    config: rateLimit,
+    schema: {
+      body: EmailOnlyBody,
+      response: {
+        200: MessageResponse,
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      await emailAuthService.resendVerification(request.body.email);
+
+      // Same response whether or not the account exists
+      return {
+        success: true,
+        data: {
+          message: 'If the address needs verification, a new link has been sent.',
+        },
+      };
+    } catch (error) {
+      return sendError(reply, error, 'Could not send verification email');
+    }
+  });
+
+  fastify.post<{ Body: EmailLoginRequest }>('/login', {
+    config: rateLimit,
+    schema: {
+      body: EmailLoginBody,
+      response: {
+        200: AuthSuccessResponse,
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const authUser = await emailAuthService.login(request.body.email, request.body.password);
+      const tokens = await tokenManager.generateTokenPair(authUser.id, authUser.email, getDeviceInfo(request));
+
+      return {
+        success: true,
+        data: {
+          tokens,
+          user: toAuthUser(authUser),
+          isNewUser: false,
+        },
+      };
+    } catch (error) {
+      return sendError(reply, error, 'Login failed');
+    }
+  });
+
+  fastify.post<{ Body: EmailOnlyRequest }>('/password/forgot', {
+    config: rateLimit,
+    schema: {
+      body: EmailOnlyBody,
+      response: {
+        200: MessageResponse,
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      await emailAuthService.requestPasswordReset(request.body.email);
+
+      return {
+        success: true,
+        data: {
+          message: 'If an account exists for this address, a reset link has been sent.',
+        },
+      };
+    } catch (error) {
+      return sendError(reply, error, 'Could not send reset email');
+    }
+  });
+
+  // Set a new password and sign out every existing session
+  fastify.post<{ Body: PasswordResetRequest }>('/password/reset', {
+    config: rateLimit,
+    schema: {
+      body: PasswordResetBody,
+      response: {
+        200: MessageResponse,
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const authUser = await emailAuthService.resetPassword(request.body.token, request.body.password);
+      await tokenManager.revokeAllUserTokens(authUser.id);
+
+      return {
+        success: true,
+        data: {
+          message: 'Password updated. Please sign in again.',
+        },
+      };
+    } catch (error) {
+      return sendError(reply, error, 'Password reset failed');
+    }
+  });
+
+  fastify.post<{ Body: EmailOnlyRequest }>('/magic-link', {
+    config: rateLimit,
+    schema: {
+      body: EmailOnlyBody,
+      response: {
+        200: MessageResponse,
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      await emailAuthService.requestMagicLink(request.body.email);
+
+      return {
+        success: true,
+        data: {
+          message: 'If an account exists for this address, a sign-in link has been sent.',
+        },
+      };
+    } catch (error) {
+      return sendError(reply, error, 'Could not send sign-in link');
+    }
+  });
+
+  fastify.post<{ Body: EmailTokenRequest }>('/magic-link/verify', {
+    config: rateLimit,
+    schema: {
+      body: EmailTokenBody,
+      response: {
+        200: AuthSuccessResponse,
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const authUser = await emailAuthService.consumeMagicLink(request.body.token);
+      const tokens = await tokenManager.generateTokenPair(authUser.id, authUser.email, getDeviceInfo(request));
+
+      return {
+        success: true,
+        data: {
+          tokens,
+          user: toAuthUser(authUser),
+          isNewUser: false,
+        },
+      };
+    } catch (error) {
+      return sendError(reply, error, 'Sign-in failed');
+    }
+  });
+};
+
+export default emailAuthRoutes;
@@ -0,0 +1,156 @@
+import { FastifyPluginAsync, FastifyReply } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import { UserService, AccountLinkError } from '../services/userService';
+import { verifyGoogleToken, verifyAppleToken } from '../utils/tokenValidation';
+import type { AuthIdentity } from '../models/auth_identities';
+
+const IdentitySchema = Type.Object({
+  id: Type.String(),
+  provider: Type.String(),
+  email: Type.Union([Type.String(), Type.Null()]),
+  lastUsedAt: Type.Union([Type.String(), Type.Null()]),
+  createdAt: Type.String(),
+});
+
+const IdentityResponse = Type.Object({
+  success: Type.Boolean(),
+  data: IdentitySchema,
+});
+
+const authLinkRoutes: FastifyPluginAsync = async (fastify) => {
+  const userService = new UserService(fastify.db);
+
+  fastify.addHook('onRequest', fastify.authenticate);
+
+  const toIdentity = (identity: AuthIdentity) => ({
+    id: identity.id,
+    provider: identity.provider,
+    email: identity.email,
+    lastUsedAt: identity.lastUsedAt?.toISOString() || null,
+    createdAt: identity.createdAt.toISOString(),
+  });
+
+  const sendError = (reply: FastifyReply, error: unknown) => {
+    if (error instanceof AccountLinkError) {
+      return reply.code(error.statusCode).send({
+        success: false,
+        error: error.message,
+      });
+    }
+    fastify.log.error(error);
+    return reply.code(400).send({
+      success: false,
+      error: error instanceof Error ? error.message : 'Linking failed',
+    });
+  };
+
+  // List linked sign-in methods
+  fastify.get('/', {
+    schema: {
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: Type.Object({
+            identities: Type.Array(IdentitySchema),
+            hasPassword: Type.Boolean(),
+          }),
+        }),
+      },
+    },
+  }, async (request) => {
+    const identities = await userService.listIdentities(request.user.userId);
+
+    return {
+      success: true,
+      data: {
+        identities: identities.map(toIdentity),
+        hasPassword: !!request.user.authUser?.passwordHash,
+      },
+    };
+  });
+
+  fastify.post<{ Body: { idToken: string } }>('/google', {
+    schema: {
+      body: Type.Object({
+        idToken: Type.String({ minLength: 1 }),
+      }),
+      response: {
+        200: IdentityResponse,
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const payload = await verifyGoogleToken(request.body.idToken, fastify.config.GOOGLE_CLIENT_ID);
+      const identity = await userService.linkIdentity(request.user.userId, {
+        provider: 'google',
+        providerId: payload.sub,
+        email: payload.email,
+      });
+
+      return {
+        success: true,
+        data: toIdentity(identity),
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  fastify.post<{ Body: { identityToken: string } }>('/apple', {
+    schema: {
+      body: Type.Object({
+        identityToken: Type.String({ minLength: 1 }),
+      }),
+      response: {
+        200: IdentityResponse,
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const payload = await verifyAppleToken(request.body.identityToken, fastify.config.APPLE_CLIENT_ID);
+      const identity = await userService.linkIdentity(request.user.userId, {
+        provider: 'apple',
+        providerId: payload.sub,
+        email: payload.email,
+      });
+
+      return {
+        success: true,
+        data: toIdentity(identity),
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  fastify.delete<{ Params: { provider: 'google' | 'apple' } }>('/:provider', {
+    schema: {
+      params: Type.Object({
+        provider: Type.Union([Type.Literal('google'), Type.Literal('apple')]),
+      }),
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: Type.Object({
+            message: Type.String(),
+          }),
+        }),
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      await userService.unlinkIdentity(request.user.userId, request.params.provider);
+
+      return {
+        success: true,
+        data: {
+          message: `${request.params.provider} account unlinked`,
+        },
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+};
+
+export default authLinkRoutes;
@@ -3,6 +3,7 @@ import { UserService } from '../services/userService';
 import { verifyGoogleToken, verifyAppleToken } from '../utils/tokenValidation';
 import { GoogleAuthBody, AppleAuthBody, type AuthResponse } from '../types/auth';
 import { TokenManager } from '../utils/tokenManager';
+import { getDeviceInfo } from '../utils/deviceInfo';
 import { OAuth2Client } from 'google-auth-library';
 
 const authRoutes: FastifyPluginAsync = async (fastify) => {
@@ -79,7 +80,7 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
           avatar: payload.picture,
         });
 
-        const tokens = tokenManager.generateTokenPair(user.id, user.email);
+        const tokens = await tokenManager.generateTokenPair(user.id, user.email, getDeviceInfo(request));
 
         const response = {
           success: true,
@@ -190,7 +191,7 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
         });
 
         // Generate tokens
-        const tokenPair = tokenManager.generateTokenPair(user.id, user.email);
+        const tokenPair = await tokenManager.generateTokenPair(user.id, user.email, getDeviceInfo(request));
 
         // Redirect back to app with tokens
         const redirectUrl = new URL(redirectUri);
@@ -261,7 +262,7 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
           providerId: payload.sub,
         });
 
-        const tokens = tokenManager.generateTokenPair(user.id, user.email);
+        const tokens = await tokenManager.generateTokenPair(user.id, user.email, getDeviceInfo(request));
 
         const response = {
           success: true,
@@ -373,8 +374,8 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
     },
     async (request, reply) => {
       try {
-        // Revoke all refresh tokens for this user
-        tokenManager.revokeAllUserTokens(request.user.userId);
+        // End the current session; other devices stay signed in
+        await tokenManager.revokeFamily(request.user.sessionId!);
         
         return reply.code(200).send({
           success: true,
@@ -421,6 +422,7 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
                       avatar: { type: 'string', nullable: true },
                       emailVerified: { type: 'boolean' },
                       provider: { type: 'string' },
+                      role: { type: 'string' },
                       createdAt: { type: 'string' },
                       updatedAt: { type: 'string' },
                     },
@@ -451,6 +453,7 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
             avatar: authUser.avatar || undefined,
             emailVerified: authUser.emailVerified || false,
             provider: authUser.provider,
+            role: authUser.role,
             createdAt: authUser.createdAt ? new Date(authUser.createdAt).toISOString() : new Date().toISOString(),
             updatedAt: authUser.updatedAt ? new Date(authUser.updatedAt).toISOString() : new Date().toISOString(),
           },
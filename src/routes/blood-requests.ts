@@ -0,0 +1,356 @@
+import { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import { BloodRequestService, BloodRequestError } from '../services/bloodRequestService';
+import {
+  bloodRequestStatuses,
+  bloodRequestUrgencies,
+  type BloodRequestStatus,
+  type BloodRequestUrgency,
+} from '../models/blood_requests';
+import { bloodGroups } from '../utils/bloodGroups';
+
+interface Paging {
+  limit?: number;
+  offset?: number;
+}
+
+const PagingQuery = {
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 20 })),
+  offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 })),
+};
+
+const BloodGroupSchema = Type.Union(bloodGroups.map(group => Type.Literal(group)));
+const UrgencySchema = Type.Union(bloodRequestUrgencies.map(urgency => Type.Literal(urgency)));
+const StatusSchema = Type.Union(bloodRequestStatuses.map(status => Type.Literal(status)));
+
+const RequestParams = Type.Object({
+  requestId: Type.String({ format: 'uuid' }),
+});
+
+const DonorStatusResponse = Type.Object({
+  success: Type.Boolean(),
+  data: Type.Object({
+    bloodGroup: Type.Union([Type.String(), Type.Null()]),
+    available: Type.Boolean(),
+    lastDonatedAt: Type.Union([Type.String(), Type.Null()]),
+    eligibleFrom: Type.Union([Type.String(), Type.Null()]),
+  }),
+});
+
+const ListResponse = Type.Object({
+  success: Type.Boolean(),
+  data: Type.Array(Type.Any()),
+  total: Type.Integer(),
+  limit: Type.Integer(),
+  offset: Type.Integer(),
+});
+
+const MessageResponse = Type.Object({
+  success: Type.Boolean(),
+  data: Type.Object({
+    message: Type.String(),
+  }),
+});
+
+const bloodRequestRoutes: FastifyPluginAsync = async (fastify) => {
+  const bloodRequestService = new BloodRequestService(fastify.db, {
+    cooldownDays: fastify.config.BLOOD_DONATION_COOLDOWN_DAYS,
+  });
+
+  const sendError = (reply: FastifyReply, error: unknown) => {
+    if (error instanceof BloodRequestError) {
+      return reply.code(error.statusCode).send({
+        success: false,
+        error: error.message,
+      });
+    }
+    throw error;
+  };
+
+  // Requesters and donors are member profiles
+  const requireProfile = async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!request.user?.profile?.id) {
+      return reply.code(403).send({
+        success: false,
+        error: 'User profile required',
+      });
+    }
+  };
+
+  const profileId = (request: FastifyRequest): string => request.user.profile.id;
+
+  const serializeDonorStatus = (status: Awaited<ReturnType<BloodRequestService['getDonorStatus']>>) => ({
+    bloodGroup: status.bloodGroup,
+    available: status.available,
+    lastDonatedAt: status.lastDonatedAt?.toISOString() || null,
+    eligibleFrom: status.eligibleFrom?.toISOString() || null,
+  });
+
+  // Donor availability
+
+  fastify.get('/users/me/blood-donor', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      response: { 200: DonorStatusResponse },
+    },
+  }, async (request) => {
+    const status = await bloodRequestService.getDonorStatus(profileId(request));
+
+    return {
+      success: true,
+      data: serializeDonorStatus(status),
+    };
+  });
+
+  // Opt in or out as a donor, or record a donation made elsewhere
+  fastify.put<{ Body: { available?: boolean; lastDonatedAt?: string | null } }>('/users/me/blood-donor', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      body: Type.Object({
+        available: Type.Optional(Type.Boolean()),
+        lastDonatedAt: Type.Optional(Type.Union([Type.String({ format: 'date-time' }), Type.Null()])),
+      }),
+      response: { 200: DonorStatusResponse },
+    },
+  }, async (request, reply) => {
+    const { available, lastDonatedAt } = request.body;
+
+    try {
+      const status = await bloodRequestService.updateDonorStatus(profileId(request), {
+        available,
+        lastDonatedAt: lastDonatedAt === undefined ? undefined : lastDonatedAt === null ? null : new Date(lastDonatedAt),
+      });
+
+      return {
+        success: true,
+        data: serializeDonorStatus(status),
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Requests
+
+  fastify.get<{ Querystring: Paging & { status?: BloodRequestStatus; bloodGroup?: string; city?: string; mine?: boolean } }>('/blood-requests', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      querystring: Type.Object({
+        status: Type.Optional(StatusSchema),
+        bloodGroup: Type.Optional(BloodGroupSchema),
+        city: Type.Optional(Type.String()),
+        // Only the current member's own requests
+        mine: Type.Optional(Type.Boolean({ default: false })),
+        ...PagingQuery,
+      }),
+      response: { 200: ListResponse },
+    },
+  }, async (request) => {
+    const { mine, ...filters } = request.query;
+    const result = await bloodRequestService.list({
+      ...filters,
+      requesterId: mine ? profileId(request) : undefined,
+    });
+
+    return {
+      success: true,
+      ...result,
+    };
+  });
+
+  // Post a request; compatible donors nearby are alerted straight away
+  fastify.post<{
+    Body: {
+      bloodGroup: string;
+      units?: number;
+      hospital: string;
+      city: string;
+      latitude?: number;
+      longitude?: number;
+      urgency?: BloodRequestUrgency;
+      contactPhone?: string;
+      notes?: string;
+      neededBy?: string;
+    };
+  }>('/blood-requests', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      body: Type.Object({
+        bloodGroup: BloodGroupSchema,
+        units: Type.Optional(Type.Integer({ minimum: 1, maximum: 20, default: 1 })),
+        hospital: Type.String({ minLength: 1, maxLength: 200 }),
+        city: Type.String({ minLength: 1, maxLength: 100 }),
+        latitude: Type.Optional(Type.Number({ minimum: -90, maximum: 90 })),
+        longitude: Type.Optional(Type.Number({ minimum: -180, maximum: 180 })),
+        urgency: Type.Optional(UrgencySchema),
+        contactPhone: Type.Optional(Type.String({ maxLength: 50 })),
+        notes: Type.Optional(Type.String({ maxLength: 1000 })),
+        neededBy: Type.Optional(Type.String({ format: 'date-time' })),
+      }),
+      response: {
+        201: Type.Object({
+          success: Type.Boolean(),
+          data: Type.Any(),
+          matchedDonors: Type.Integer(),
+        }),
+      },
+    },
+  }, async (request, reply) => {
+    const { neededBy, ...data } = request.body;
+
+    try {
+      const result = await bloodRequestService.create(profileId(request), {
+        ...data,
+        neededBy: neededBy ? new Date(neededBy) : undefined,
+      });
+
+      return reply.code(201).send({
+        success: true,
+        data: result.request,
+        matchedDonors: result.matchedDonors,
+      });
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Requests the current member was matched to as a donor
+  fastify.get<{ Querystring: Paging }>('/blood-requests/matched', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      querystring: Type.Object(PagingQuery),
+      response: { 200: ListResponse },
+    },
+  }, async (request) => {
+    const result = await bloodRequestService.listForDonor(profileId(request), request.query);
+
+    return {
+      success: true,
+      ...result,
+    };
+  });
+
+  fastify.get<{ Params: { requestId: string } }>('/blood-requests/:requestId', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: RequestParams,
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: Type.Any(),
+        }),
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const bloodRequest = await bloodRequestService.get(profileId(request), request.params.requestId);
+
+      return {
+        success: true,
+        data: bloodRequest,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // A donor accepts or declines
+  fastify.post<{ Params: { requestId: string }; Body: { response: 'accepted' | 'declined' } }>('/blood-requests/:requestId/respond', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: RequestParams,
+      body: Type.Object({
+        response: Type.Union([Type.Literal('accepted'), Type.Literal('declined')]),
+      }),
+      response: { 200: MessageResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      await bloodRequestService.respond(profileId(request), request.params.requestId, request.body.response);
+
+      return {
+        success: true,
+        data: {
+          message: request.body.response === 'accepted' ? 'Thank you for offering to donate' : 'Response recorded',
+        },
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // The requester confirms a donor gave blood
+  fastify.post<{ Params: { requestId: string; donorId: string } }>('/blood-requests/:requestId/donations/:donorId', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: Type.Object({
+        requestId: Type.String({ format: 'uuid' }),
+        donorId: Type.String({ format: 'uuid' }),
+      }),
+      response: { 200: MessageResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      await bloodRequestService.recordDonation(profileId(request), request.params.requestId, request.params.donorId);
+
+      return {
+        success: true,
+        data: {
+          message: 'Donation recorded',
+        },
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  fastify.post<{ Params: { requestId: string } }>('/blood-requests/:requestId/fulfil', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: RequestParams,
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: Type.Any(),
+        }),
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const bloodRequest = await bloodRequestService.close(profileId(request), request.params.requestId, 'fulfilled');
+
+      return {
+        success: true,
+        data: bloodRequest,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  fastify.post<{ Params: { requestId: string } }>('/blood-requests/:requestId/cancel', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: RequestParams,
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: Type.Any(),
+        }),
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const bloodRequest = await bloodRequestService.close(profileId(request), request.params.requestId, 'cancelled');
+
+      return {
+        success: true,
+        data: bloodRequest,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+};
+
+export default bloodRequestRoutes;
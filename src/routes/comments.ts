@@ -2,7 +2,10 @@ import { FastifyPluginAsync } from 'fastify';
 import { Type } from '@sinclair/typebox';
 import { CommentService } from '../services/commentService';
 import { PostService } from '../services/postService';
+import { GroupError } from '../services/groupService';
 import { UserProfileService } from '../services/userProfileService';
+import { hasRole } from '../utils/roles';
+import { CursorPageFields, CursorQuery, parseCursor, validateCursor } from '../utils/cursor';
 
 const commentRoutes: FastifyPluginAsync = async (fastify) => {
   const commentService = new CommentService(fastify.db);
@@ -12,9 +15,9 @@ const commentRoutes: FastifyPluginAsync = async (fastify) => {
   // Get comments for a post
   fastify.get<{
     Params: { postId: string };
-    Querystring: { limit?: number; offset?: number };
+    Querystring: { limit?: number; offset?: number; cursor?: string };
   }>('/posts/:postId/comments', {
-    preHandler: [fastify.authenticate],
+    preHandler: [fastify.authenticate, validateCursor],
     schema: {
       params: Type.Object({
         postId: Type.String(),
@@ -22,6 +25,7 @@ const commentRoutes: FastifyPluginAsync = async (fastify) => {
       querystring: Type.Object({
         limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 10 })),
         offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 })),
+        ...CursorQuery,
       }),
       response: {
         200: Type.Object({
@@ -29,7 +33,7 @@ const commentRoutes: FastifyPluginAsync = async (fastify) => {
           data: Type.Array(Type.Any()),
           total: Type.Integer(),
           limit: Type.Integer(),
-          offset: Type.Integer(),
+          ...CursorPageFields,
         }),
       },
     },
@@ -39,8 +43,9 @@ const commentRoutes: FastifyPluginAsync = async (fastify) => {
     const limit = request.query.limit ?? 10;
     const offset = request.query.offset ?? 0;
 
-    // Check if post exists
-    const post = await postService.findById(postId);
+    // Check if post exists and the user may see it
+    const userProfile = await userProfileService.findByAuthUserId(request.user.userId);
+    const post = await postService.findVisibleById(postId, userProfile?.id);
     if (!post) {
       return reply.code(404).send({
         success: false,
@@ -48,7 +53,7 @@ const commentRoutes: FastifyPluginAsync = async (fastify) => {
       });
     }
 
-    const result = await commentService.getCommentsByPost(postId, { limit, offset });
+    const result = await commentService.getCommentsByPost(postId, { limit, offset, cursor: parseCursor(request.query.cursor) });
     
     return {
       success: true,
@@ -81,8 +86,11 @@ const commentRoutes: FastifyPluginAsync = async (fastify) => {
     const { content } = request.body;
     const authUserId = request.user.userId;
     
-    // Check if post exists
-    const post = await postService.findById(postId);
+    // Get user profile
+    const userProfile = await userProfileService.findByAuthUserId(authUserId);
+
+    // Check if post exists and the user may see it
+    const post = await postService.findVisibleById(postId, userProfile?.id);
     if (!post) {
       return reply.code(404).send({
         success: false,
@@ -90,8 +98,6 @@ const commentRoutes: FastifyPluginAsync = async (fastify) => {
       });
     }
 
-    // Get user profile
-    const userProfile = await userProfileService.findByAuthUserId(authUserId);
     if (!userProfile) {
       return reply.code(403).send({
         success: false,
@@ -99,6 +105,16 @@ const commentRoutes: FastifyPluginAsync = async (fastify) => {
       });
     }
 
+    // Only members can comment in groups
+    try {
+      await postService.assertCanComment(post, userProfile.id);
+    } catch (error) {
+      if (error instanceof GroupError) {
+        return reply.code(error.statusCode).send({ success: false, error: error.message });
+      }
+      throw error;
+    }
+
     const comment = await commentService.createComment({
       content,
       postUpdatesId: postId,
@@ -189,9 +205,10 @@ const commentRoutes: FastifyPluginAsync = async (fastify) => {
       });
     }
 
-    // Check ownership
+    // Check ownership (moderators can remove any comment)
     const userProfile = await userProfileService.findByAuthUserId(authUserId);
-    if (!userProfile || comment.userProfileId !== userProfile.id) {
+    const isOwner = !!userProfile && comment.userProfileId === userProfile.id;
+    if (!isOwner && !hasRole(request.user.authUser, 'moderator')) {
       return reply.code(403).send({
         success: false,
         error: 'Unauthorized to delete this comment',
@@ -209,9 +226,9 @@ const commentRoutes: FastifyPluginAsync = async (fastify) => {
   // Get comment replies
   fastify.get<{
     Params: { commentId: string };
-    Querystring: { limit?: number; offset?: number };
+    Querystring: { limit?: number; offset?: number; cursor?: string };
   }>('/comments/:commentId/replies', {
-    preHandler: [fastify.authenticate],
+    preHandler: [fastify.authenticate, validateCursor],
     schema: {
       params: Type.Object({
         commentId: Type.String(),
@@ -219,6 +236,7 @@ const commentRoutes: FastifyPluginAsync = async (fastify) => {
       querystring: Type.Object({
         limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 10 })),
         offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 })),
+        ...CursorQuery,
       }),
       response: {
         200: Type.Object({
@@ -226,7 +244,7 @@ const commentRoutes: FastifyPluginAsync = async (fastify) => {
           data: Type.Array(Type.Any()),
           total: Type.Integer(),
           limit: Type.Integer(),
-          offset: Type.Integer(),
+          ...CursorPageFields,
         }),
       },
     },
@@ -235,16 +253,17 @@ const commentRoutes: FastifyPluginAsync = async (fastify) => {
    const limit = request.query.limit ?? 10;
    const offset = request.query.offset ?? 0;
     
-    // Check if comment exists
+    // Check if comment exists and the user may see its post
+    const userProfile = await userProfileService.findByAuthUserId(request.user.userId);
     const comment = await commentService.findCommentById(commentId);
-    if (!comment) {
+    if (!comment?.postUpdatesId || !await postService.findVisibleById(comment.postUpdatesId, userProfile?.id)) {
       return reply.code(404).send({
         success: false,
         error: 'Comment not found',
       });
     }
 
-    const result = await commentService.getRepliesByComment(commentId, { limit, offset });
+    const result = await commentService.getRepliesByComment(commentId, { limit, offset, cursor: parseCursor(request.query.cursor) });
     
     return {
       success: true,
@@ -278,17 +297,19 @@ const commentRoutes: FastifyPluginAsync = async (fastify) => {
     const { content } = request.body;
     const authUserId = request.user.userId;
     
-    // Check if comment exists
+    // Get user profile
+    const userProfile = await userProfileService.findByAuthUserId(authUserId);
+
+    // Check if comment exists and the user may see its post
     const comment = await commentService.findCommentById(commentId);
-    if (!comment) {
+    const post = comment?.postUpdatesId ? await postService.findVisibleById(comment.postUpdatesId, userProfile?.id) : null;
+    if (!post) {
       return reply.code(404).send({
         success: false,
         error: 'Comment not found',
       });
     }
 
-    // Get user profile
-    const userProfile = await userProfileService.findByAuthUserId(authUserId);
     if (!userProfile) {
       return reply.code(403).send({
         success: false,
@@ -296,6 +317,16 @@ const commentRoutes: FastifyPluginAsync = async (fastify) => {
       });
     }
 
+    // Only members can reply in groups
+    try {
+      await postService.assertCanComment(post, userProfile.id);
+    } catch (error) {
+      if (error instanceof GroupError) {
+        return reply.code(error.statusCode).send({ success: false, error: error.message });
+      }
+      throw error;
+    }
+
     const reply_obj = await commentService.createReply({
       content,
       commentsId: commentId,
@@ -0,0 +1,454 @@
+import { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import { ConnectionService, ConnectionError } from '../services/connectionService';
+
+interface Paging {
+  limit?: number;
+  offset?: number;
+}
+
+const PagingQuery = {
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 20 })),
+  offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 })),
+};
+
+// "me" is accepted wherever the current member's own lists can be read
+const UserParams = Type.Object({
+  userId: Type.Union([Type.Literal('me'), Type.String({ format: 'uuid' })]),
+});
+
+const TargetUserParams = Type.Object({
+  userId: Type.String({ format: 'uuid' }),
+});
+
+const BusinessParams = Type.Object({
+  businessId: Type.String({ format: 'uuid' }),
+});
+
+const ListResponse = Type.Object({
+  success: Type.Boolean(),
+  data: Type.Array(Type.Any()),
+  total: Type.Integer(),
+  limit: Type.Integer(),
+  offset: Type.Integer(),
+});
+
+const MessageResponse = Type.Object({
+  success: Type.Boolean(),
+  data: Type.Object({
+    message: Type.String(),
+  }),
+});
+
+const connectionRoutes: FastifyPluginAsync = async (fastify) => {
+  const connectionService = new ConnectionService(fastify.db);
+
+  const sendError = (reply: FastifyReply, error: unknown) => {
+    if (error instanceof ConnectionError) {
+      return reply.code(error.statusCode).send({
+        success: false,
+        error: error.message,
+      });
+    }
+    throw error;
+  };
+
+  // Every route acts as the caller's member profile
+  const requireProfile = async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!request.user?.profile?.id) {
+      return reply.code(403).send({
+        success: false,
+        error: 'User profile required',
+      });
+    }
+  };
+
+  const profileId = (request: FastifyRequest): string => request.user.profile.id;
+  const resolveUserId = (request: FastifyRequest, userId: string) => userId === 'me' ? profileId(request) : userId;
+
+  // Current member's pending requests
+  fastify.get<{ Querystring: Paging & { direction?: 'incoming' | 'outgoing' } }>('/users/me/connections/requests', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      querystring: Type.Object({
+        direction: Type.Optional(Type.Union([Type.Literal('incoming'), Type.Literal('outgoing')], { default: 'incoming' })),
+        ...PagingQuery,
+      }),
+      response: { 200: ListResponse },
+    },
+  }, async (request) => {
+    const { direction = 'incoming', ...paging } = request.query;
+    const result = await connectionService.listRequests(profileId(request), direction, paging);
+
+    return {
+      success: true,
+      ...result,
+    };
+  });
+
+  fastify.get<{ Querystring: Paging }>('/users/me/blocks', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      querystring: Type.Object(PagingQuery),
+      response: { 200: ListResponse },
+    },
+  }, async (request) => {
+    const result = await connectionService.listBlocked(profileId(request), request.query);
+
+    return {
+      success: true,
+      ...result,
+    };
+  });
+
+  // How the current member relates to another member
+  fastify.get<{ Params: { userId: string } }>('/users/:userId/connections/status', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: TargetUserParams,
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: Type.Object({
+            following: Type.Boolean(),
+            followedBy: Type.Boolean(),
+            connection: Type.String(),
+            blocked: Type.Boolean(),
+            blockedBy: Type.Boolean(),
+          }),
+        }),
+      },
+    },
+  }, async (request) => {
+    const relationship = await connectionService.getRelationship(profileId(request), request.params.userId);
+
+    return {
+      success: true,
+      data: relationship,
+    };
+  });
+
+  fastify.get<{ Params: { userId: string }; Querystring: Paging }>('/users/:userId/connections', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: UserParams,
+      querystring: Type.Object(PagingQuery),
+      response: { 200: ListResponse },
+    },
+  }, async (request, reply) => {
+    const userId = resolveUserId(request, request.params.userId);
+
+    try {
+      await connectionService.assertCanView(profileId(request), userId);
+      const result = await connectionService.listConnections(userId, request.query);
+
+      return {
+        success: true,
+        ...result,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Ask to connect; accepts straight away if they already asked us
+  fastify.post<{ Params: { userId: string } }>('/users/:userId/connections', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: TargetUserParams,
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: Type.Object({
+            status: Type.String(),
+          }),
+        }),
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const result = await connectionService.requestConnection(profileId(request), request.params.userId);
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  fastify.post<{ Params: { userId: string } }>('/users/:userId/connections/accept', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: TargetUserParams,
+      response: { 200: MessageResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      await connectionService.respondToRequest(profileId(request), request.params.userId, true);
+
+      return {
+        success: true,
+        data: {
+          message: 'Connection request accepted',
+        },
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  fastify.post<{ Params: { userId: string } }>('/users/:userId/connections/decline', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: TargetUserParams,
+      response: { 200: MessageResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      await connectionService.respondToRequest(profileId(request), request.params.userId, false);
+
+      return {
+        success: true,
+        data: {
+          message: 'Connection request declined',
+        },
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Remove a connection, or withdraw a pending request
+  fastify.delete<{ Params: { userId: string } }>('/users/:userId/connections', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: TargetUserParams,
+      response: { 200: MessageResponse },
+    },
+  }, async (request, reply) => {
+    const removed = await connectionService.removeConnection(profileId(request), request.params.userId);
+
+    if (!removed) {
+      return reply.code(404).send({
+        success: false,
+        error: 'Connection not found',
+      });
+    }
+
+    return {
+      success: true,
+      data: {
+        message: 'Connection removed',
+      },
+    };
+  });
+
+  fastify.get<{ Params: { userId: string }; Querystring: Paging }>('/users/:userId/followers', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: UserParams,
+      querystring: Type.Object(PagingQuery),
+      response: { 200: ListResponse },
+    },
+  }, async (request, reply) => {
+    const userId = resolveUserId(request, request.params.userId);
+
+    try {
+      await connectionService.assertCanView(profileId(request), userId);
+      const result = await connectionService.listFollowers('user', userId, request.query);
+
+      return {
+        success: true,
+        ...result,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Follow a member
+  fastify.post<{ Params: { userId: string } }>('/users/:userId/followers', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: TargetUserParams,
+      response: { 200: MessageResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      await connectionService.follow(profileId(request), 'user', request.params.userId);
+
+      return {
+        success: true,
+        data: {
+          message: 'Following',
+        },
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Unfollow a member
+  fastify.delete<{ Params: { userId: string } }>('/users/:userId/followers', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: TargetUserParams,
+      response: { 200: MessageResponse },
+    },
+  }, async (request, reply) => {
+    const removed = await connectionService.unfollow(profileId(request), 'user', request.params.userId);
+
+    if (!removed) {
+      return reply.code(404).send({
+        success: false,
+        error: 'Not following this user',
+      });
+    }
+
+    return {
+      success: true,
+      data: {
+        message: 'Unfollowed',
+      },
+    };
+  });
+
+  // Members or businesses a member follows
+  fastify.get<{ Params: { userId: string }; Querystring: Paging & { type?: 'user' | 'business' } }>('/users/:userId/following', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: UserParams,
+      querystring: Type.Object({
+        type: Type.Optional(Type.Union([Type.Literal('user'), Type.Literal('business')], { default: 'user' })),
+        ...PagingQuery,
+      }),
+      response: { 200: ListResponse },
+    },
+  }, async (request, reply) => {
+    const userId = resolveUserId(request, request.params.userId);
+    const { type = 'user', ...paging } = request.query;
+
+    try {
+      await connectionService.assertCanView(profileId(request), userId);
+      const result = await connectionService.listFollowing(userId, type, paging);
+
+      return {
+        success: true,
+        ...result,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Block a member; removes follows and connections both ways
+  fastify.post<{ Params: { userId: string } }>('/users/:userId/block', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: TargetUserParams,
+      response: { 200: MessageResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      await connectionService.block(profileId(request), request.params.userId);
+
+      return {
+        success: true,
+        data: {
+          message: 'User blocked',
+        },
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  fastify.delete<{ Params: { userId: string } }>('/users/:userId/block', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: TargetUserParams,
+      response: { 200: MessageResponse },
+    },
+  }, async (request, reply) => {
+    const removed = await connectionService.unblock(profileId(request), request.params.userId);
+
+    if (!removed) {
+      return reply.code(404).send({
+        success: false,
+        error: 'User is not blocked',
+      });
+    }
+
+    return {
+      success: true,
+      data: {
+        message: 'User unblocked',
+      },
+    };
+  });
+
+  fastify.get<{ Params: { businessId: string }; Querystring: Paging }>('/businesses/:businessId/followers', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      params: BusinessParams,
+      querystring: Type.Object(PagingQuery),
+      response: { 200: ListResponse },
+    },
+  }, async (request) => {
+    const result = await connectionService.listFollowers('business', request.params.businessId, request.query);
+
+    return {
+      success: true,
+      ...result,
+    };
+  });
+
+  fastify.post<{ Params: { businessId: string } }>('/businesses/:businessId/followers', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: BusinessParams,
+      response: { 200: MessageResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      await connectionService.follow(profileId(request), 'business', request.params.businessId);
+
+      return {
+        success: true,
+        data: {
+          message: 'Following',
+        },
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  fastify.delete<{ Params: { businessId: string } }>('/businesses/:businessId/followers', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: BusinessParams,
+      response: { 200: MessageResponse },
+    },
+  }, async (request, reply) => {
+    const removed = await connectionService.unfollow(profileId(request), 'business', request.params.businessId);
+
+    if (!removed) {
+      return reply.code(404).send({
+        success: false,
+        error: 'Not following this business',
+      });
+    }
+
+    return {
+      success: true,
+      data: {
+        message: 'Unfollowed',
+      },
+    };
+  });
+};
+
+export default connectionRoutes;
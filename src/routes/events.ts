@@ -0,0 +1,539 @@
+import { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import multipart from '@fastify/multipart';
+import { EventService, EventError, type EventInput } from '../services/eventService';
+import { UniversalImageUploadHelper } from '../services/universalMediaUploader';
+import type { EventRsvpStatus } from '../models/event_rsvps';
+
+interface Paging {
+  limit?: number;
+  offset?: number;
+}
+
+interface EventBody {
+  title: string;
+  description?: string | null;
+  startsAt: string;
+  endsAt: string;
+  venue?: string | null;
+  address?: string | null;
+  cityId?: string | null;
+  onlineUrl?: string | null;
+  capacity?: number | null;
+}
+
+const PagingQuery = {
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 20 })),
+  offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 })),
+};
+
+const EventParams = Type.Object({
+  eventId: Type.String({ format: 'uuid' }),
+});
+
+const EventFields = {
+  title: Type.String({ minLength: 1, maxLength: 200 }),
+  description: Type.Optional(Type.Union([Type.String({ maxLength: 5000 }), Type.Null()])),
+  startsAt: Type.String({ format: 'date-time' }),
+  endsAt: Type.String({ format: 'date-time' }),
+  venue: Type.Optional(Type.Union([Type.String({ maxLength: 200 }), Type.Null()])),
+  address: Type.Optional(Type.Union([Type.String({ maxLength: 500 }), Type.Null()])),
+  cityId: Type.Optional(Type.Union([Type.String({ format: 'uuid' }), Type.Null()])),
+  onlineUrl: Type.Optional(Type.Union([Type.String({ format: 'uri', maxLength: 500 }), Type.Null()])),
+  // Null for no limit
+  capacity: Type.Optional(Type.Union([Type.Integer({ minimum: 1, maximum: 100000 }), Type.Null()])),
+};
+
+const DataResponse = Type.Object({
+  success: Type.Boolean(),
+  data: Type.Any(),
+});
+
+const ListResponse = Type.Object({
+  success: Type.Boolean(),
+  data: Type.Array(Type.Any()),
+  total: Type.Integer(),
+  limit: Type.Integer(),
+  offset: Type.Integer(),
+});
+
+const MessageResponse = Type.Object({
+  success: Type.Boolean(),
+  data: Type.Object({
+    message: Type.String(),
+  }),
+});
+
+const toEventInput = <T extends Partial<EventBody>>(body: T) => {
+  const { startsAt, endsAt, ...rest } = body;
+  return {
+    ...rest,
+    ...(startsAt !== undefined && { startsAt: new Date(startsAt) }),
+    ...(endsAt !== undefined && { endsAt: new Date(endsAt) }),
+  };
+};
+
+const eventRoutes: FastifyPluginAsync = async (fastify) => {
+  await fastify.register(multipart, {
+    limits: {
+      fileSize: 10 * 1024 * 1024,
+      files: 1,
+    },
+  });
+
+  const eventService = new EventService(fastify.db, {
+    reminderHours: fastify.config.EVENT_REMINDER_HOURS,
+  });
+  const uploadHelper = new UniversalImageUploadHelper(fastify);
+  // Makes calendar entry UIDs globally unique
+  const calendarDomain = new URL(fastify.config.API_URL).hostname;
+
+  const sendError = (reply: FastifyReply, error: unknown) => {
+    if (error instanceof EventError) {
+      return reply.code(error.statusCode).send({
+        success: false,
+        error: error.message,
+      });
+    }
+    throw error;
+  };
+
+  // Organizers and attendees are member profiles
+  const requireProfile = async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!request.user?.profile?.id) {
+      return reply.code(403).send({
+        success: false,
+        error: 'User profile required',
+      });
+    }
+  };
+
+  const profileId = (request: FastifyRequest): string => request.user.profile.id;
+
+  const sendCalendar = (reply: FastifyReply, filename: string, calendar: string) => {
+    return reply
+      .header('Content-Type', 'text/calendar; charset=utf-8')
+      .header('Content-Disposition', `attachment; filename="${filename}"`)
+      .send(calendar);
+  };
+
+  // Events
+
+  fastify.get<{
+    Querystring: Paging & { from?: string; to?: string; cityId?: string; businessId?: string; organizerId?: string };
+  }>('/events', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      querystring: Type.Object({
+        // Events still running at `from` (default now) and starting by `to`
+        from: Type.Optional(Type.String({ format: 'date-time' })),
+        to: Type.Optional(Type.String({ format: 'date-time' })),
+        cityId: Type.Optional(Type.String({ format: 'uuid' })),
+        businessId: Type.Optional(Type.String({ format: 'uuid' })),
+        organizerId: Type.Optional(Type.String({ format: 'uuid' })),
+        ...PagingQuery,
+      }),
+      response: { 200: ListResponse },
+    },
+  }, async (request) => {
+    const { from, to, ...filters } = request.query;
+    const result = await eventService.list(profileId(request), {
+      ...filters,
+      from: from ? new Date(from) : undefined,
+      to: to ? new Date(to) : undefined,
+    });
+
+    return {
+      success: true,
+      ...result,
+    };
+  });
+
+  // Create an event, optionally hosted by one of your businesses
+  fastify.post<{ Body: EventBody & { businessId?: string } }>('/events', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      body: Type.Object({
+        ...EventFields,
+        businessId: Type.Optional(Type.String({ format: 'uuid' })),
+      }),
+      response: { 201: DataResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const event = await eventService.create(profileId(request), toEventInput(request.body) as EventInput);
+
+      return reply.code(201).send({
+        success: true,
+        data: event,
+      });
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  fastify.get<{ Params: { eventId: string } }>('/events/:eventId', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: EventParams,
+      response: { 200: DataResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const event = await eventService.get(profileId(request), request.params.eventId);
+
+      return {
+        success: true,
+        data: event,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  fastify.patch<{ Params: { eventId: string }; Body: Partial<EventBody> }>('/events/:eventId', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: EventParams,
+      body: Type.Partial(Type.Object(EventFields), { minProperties: 1 }),
+      response: { 200: DataResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const event = await eventService.update(profileId(request), request.params.eventId, toEventInput(request.body));
+
+      return {
+        success: true,
+        data: event,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  fastify.post<{ Params: { eventId: string } }>('/events/:eventId/cancel', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: EventParams,
+      response: { 200: DataResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const event = await eventService.cancel(profileId(request), request.params.eventId);
+
+      return {
+        success: true,
+        data: event,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Organizers
+
+  // Add a member or one of your businesses as an organizer
+  fastify.post<{ Params: { eventId: string }; Body: { userId: string } | { businessId: string } }>('/events/:eventId/organizers', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: EventParams,
+      body: Type.Union([
+        Type.Object({ userId: Type.String({ format: 'uuid' }) }, { additionalProperties: false }),
+        Type.Object({ businessId: Type.String({ format: 'uuid' }) }, { additionalProperties: false }),
+      ]),
+      response: { 200: DataResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const event = await eventService.addOrganizer(profileId(request), request.params.eventId, request.body);
+
+      return {
+        success: true,
+        data: event,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  fastify.delete<{ Params: { eventId: string; organizerId: string } }>('/events/:eventId/organizers/:organizerId', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: Type.Object({
+        eventId: Type.String({ format: 'uuid' }),
+        organizerId: Type.String({ format: 'uuid' }),
+      }),
+      response: { 200: MessageResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      await eventService.removeOrganizer(profileId(request), request.params.eventId, request.params.organizerId);
+
+      return {
+        success: true,
+        data: {
+          message: 'Organizer removed',
+        },
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Banner
+
+  fastify.post<{ Params: { eventId: string } }>('/events/:eventId/banner', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: EventParams,
+      response: { 200: DataResponse },
+    },
+  }, async (request, reply) => {
+    const { eventId } = request.params;
+
+    try {
+      await eventService.assertCanManage(profileId(request), eventId);
+    } catch (error) {
+      return sendError(reply, error);
+    }
+
+    try {
+      const { context: baseContext, options } = UniversalImageUploadHelper.getPresetConfig('event_banner');
+      const { successful, failed } = await uploadHelper.uploadFromMultipart(request, {
+        ...baseContext,
+        resourceId: eventId,
+        authUserId: request.user.userId,
+        actualUserId: profileId(request),
+      } as any, options);
+
+      if (successful.length === 0) {
+        return reply.code(400).send({
+          success: false,
+          error: failed[0]?.error || 'Upload failed',
+        });
+      }
+
+      const banner = successful[0]!;
+
+      return {
+        success: true,
+        data: {
+          banner: {
+            id: banner.id,
+            url: banner.url,
+            thumbnailUrl: banner.thumbnailUrl,
+          },
+        },
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Upload failed',
+      });
+    }
+  });
+
+  fastify.delete<{ Params: { eventId: string } }>('/events/:eventId/banner', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: EventParams,
+      response: { 200: MessageResponse },
+    },
+  }, async (request, reply) => {
+    const { eventId } = request.params;
+
+    try {
+      await eventService.assertCanManage(profileId(request), eventId);
+    } catch (error) {
+      return sendError(reply, error);
+    }
+
+    const deleted = await uploadHelper.deleteByResource('event', eventId, 'banner');
+    if (deleted === 0) {
+      return reply.code(404).send({
+        success: false,
+        error: 'This event has no banner',
+      });
+    }
+
+    return {
+      success: true,
+      data: {
+        message: 'Banner removed',
+      },
+    };
+  });
+
+  // RSVPs
+
+  // "going" returns "waitlisted" when the event is full
+  fastify.put<{ Params: { eventId: string }; Body: { status: 'going' | 'maybe' | 'declined' } }>('/events/:eventId/rsvp', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: EventParams,
+      body: Type.Object({
+        status: Type.Union([Type.Literal('going'), Type.Literal('maybe'), Type.Literal('declined')]),
+      }),
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: Type.Object({
+            status: Type.String(),
+          }),
+        }),
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const result = await eventService.rsvp(profileId(request), request.params.eventId, request.body.status);
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  fastify.delete<{ Params: { eventId: string } }>('/events/:eventId/rsvp', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: EventParams,
+      response: { 200: MessageResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      await eventService.removeRsvp(profileId(request), request.params.eventId);
+
+      return {
+        success: true,
+        data: {
+          message: 'RSVP removed',
+        },
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  fastify.get<{ Params: { eventId: string }; Querystring: Paging & { status?: EventRsvpStatus } }>('/events/:eventId/attendees', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: EventParams,
+      querystring: Type.Object({
+        status: Type.Optional(Type.Union([
+          Type.Literal('going'),
+          Type.Literal('maybe'),
+          Type.Literal('declined'),
+          Type.Literal('waitlisted'),
+        ], { default: 'going' })),
+        ...PagingQuery,
+      }),
+      response: { 200: ListResponse },
+    },
+  }, async (request, reply) => {
+    const { status, ...paging } = request.query;
+
+    try {
+      const result = await eventService.listAttendees(request.params.eventId, status || 'going', paging);
+
+      return {
+        success: true,
+        ...result,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Calendar export. Calendar apps can't set headers and keep re-fetching a subscribed URL, so
+  // the .ics routes take the member's calendar feed token as ?token= instead of an access token.
+
+  const CalendarQuery = Type.Object({
+    token: Type.String({ minLength: 1 }),
+  });
+
+  fastify.get<{ Params: { eventId: string }; Querystring: { token: string } }>('/events/:eventId/calendar.ics', {
+    schema: {
+      params: EventParams,
+      querystring: CalendarQuery,
+    },
+  }, async (request, reply) => {
+    try {
+      await eventService.findCalendarFeedOwner(request.query.token);
+      const calendar = await eventService.eventCalendar(request.params.eventId, calendarDomain);
+      return sendCalendar(reply, `event-${request.params.eventId}.ics`, calendar);
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // The current member's events
+
+  fastify.get<{ Querystring: Paging & { past?: boolean } }>('/users/me/events', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      querystring: Type.Object({
+        past: Type.Optional(Type.Boolean({ default: false })),
+        ...PagingQuery,
+      }),
+      response: { 200: ListResponse },
+    },
+  }, async (request) => {
+    const result = await eventService.listForUser(profileId(request), request.query);
+
+    return {
+      success: true,
+      ...result,
+    };
+  });
+
+  fastify.get<{ Querystring: { token: string } }>('/users/me/events.ics', {
+    schema: {
+      querystring: CalendarQuery,
+    },
+  }, async (request, reply) => {
+    try {
+      const ownerId = await eventService.findCalendarFeedOwner(request.query.token);
+      const calendar = await eventService.userCalendar(ownerId, calendarDomain);
+      return sendCalendar(reply, 'events.ics', calendar);
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Create the member's calendar feed URL, revoking the previous one. The token is only shown now.
+  fastify.post('/users/me/calendar-feed', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      response: { 201: DataResponse },
+    },
+  }, async (request, reply) => {
+    const token = await eventService.createCalendarFeed(profileId(request));
+    const url = `${fastify.config.API_URL.replace(/\/+$/, '')}/users/me/events.ics?token=${encodeURIComponent(token)}`;
+
+    return reply.code(201).send({
+      success: true,
+      data: { token, url },
+    });
+  });
+
+  // Revoke the member's calendar feed URL
+  fastify.delete('/users/me/calendar-feed', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      response: { 200: MessageResponse },
+    },
+  }, async (request) => {
+    await eventService.revokeCalendarFeed(profileId(request));
+
+    return {
+      success: true,
+      data: { message: 'Calendar feed revoked' },
+    };
+  });
+};
+
+export default eventRoutes;
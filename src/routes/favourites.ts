@@ -2,6 +2,7 @@ import { FastifyPluginAsync } from 'fastify';
 import { Type } from '@sinclair/typebox';
 import { FavouriteService } from '../services/favouriteService';
 import { UserProfileService } from '../services/userProfileService';
+import { CursorPageFields, CursorQuery, parseCursor, validateCursor } from '../utils/cursor';
 
 const favouriteRoutes: FastifyPluginAsync = async (fastify) => {
   const favouriteService = new FavouriteService(fastify.db);
@@ -18,7 +19,7 @@ const favouriteRoutes: FastifyPluginAsync = async (fastify) => {
 
   // Get user's favourites
   fastify.get('/', {
-    preHandler: [fastify.authenticate],
+    preHandler: [fastify.authenticate, validateCursor],
     schema: {
       querystring: Type.Object({
         type: Type.Optional(Type.Union([
@@ -31,6 +32,7 @@ const favouriteRoutes: FastifyPluginAsync = async (fastify) => {
         ])),
         limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 10 })),
         offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 })),
+        ...CursorQuery,
       }),
       response: {
         200: Type.Object({
@@ -38,14 +40,14 @@ const favouriteRoutes: FastifyPluginAsync = async (fastify) => {
           data: Type.Array(Type.Any()),
           total: Type.Integer(),
           limit: Type.Integer(),
-          offset: Type.Integer(),
+          ...CursorPageFields,
         }),
       },
     },
   }, async (request:any, reply) => {
     try {
     const authUserId = request.user.userId;
-    const { type: likedType, limit, offset } = request.query;
+    const { type: likedType, limit, offset, cursor } = request.query;
     
     // Get user profile
     const userProfile = await userProfileService.findByAuthUserId(authUserId);
@@ -55,7 +57,9 @@ const favouriteRoutes: FastifyPluginAsync = async (fastify) => {
         data: [],
         total: 0,
         limit: limit || 10,
-        offset: offset || 0,
+        ...(cursor ? {} : { offset: offset || 0 }),
+        nextCursor: null,
+        prevCursor: null,
       };
     }
 
@@ -63,6 +67,7 @@ const favouriteRoutes: FastifyPluginAsync = async (fastify) => {
       likedType,
       limit,
       offset,
+      cursor: parseCursor(cursor),
     });
     
     return {
@@ -271,7 +276,7 @@ const favouriteRoutes: FastifyPluginAsync = async (fastify) => {
 
   // Get users who liked content
   fastify.get('/:contentId/users', {
-    preHandler: [fastify.authenticate],
+    preHandler: [fastify.authenticate, validateCursor],
     schema: {
       params: Type.Object({
         contentId: Type.String({ format: 'uuid' }),
@@ -287,6 +292,7 @@ const favouriteRoutes: FastifyPluginAsync = async (fastify) => {
         ]),
         limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 10 })),
         offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 })),
+        ...CursorQuery,
       }),
       response: {
         200: Type.Object({
@@ -311,16 +317,16 @@ const favouriteRoutes: FastifyPluginAsync = async (fastify) => {
         })),
           total: Type.Integer(),
           limit: Type.Integer(),
-          offset: Type.Integer(),
+          ...CursorPageFields,
         }),
       },
     },
   }, async (request:any, reply) => {
     try {
     const { contentId } = request.params;
-    const { type, limit, offset } = request.query;
+    const { type, limit, offset, cursor } = request.query;
     
-    const result = await favouriteService.getUsersWhoLiked(type, contentId, { limit, offset });
+    const result = await favouriteService.getUsersWhoLiked(type, contentId, { limit, offset, cursor: parseCursor(cursor) });
     
     return {
       success: true,
@@ -338,7 +344,7 @@ const favouriteRoutes: FastifyPluginAsync = async (fastify) => {
 
   // Get user's favourites
   fastify.get('/my-favourites', {
-    preHandler: [fastify.authenticate],
+    preHandler: [fastify.authenticate, validateCursor],
     schema: {
       querystring: Type.Object({
         type: Type.Optional(Type.Union([
@@ -350,6 +356,7 @@ const favouriteRoutes: FastifyPluginAsync = async (fastify) => {
         ])),
         limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 10 })),
         offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 })),
+        ...CursorQuery,
       }),
       response: {
         200: Type.Object({
@@ -357,12 +364,12 @@ const favouriteRoutes: FastifyPluginAsync = async (fastify) => {
           data: Type.Array(Type.Any()),
           total: Type.Integer(),
           limit: Type.Integer(),
-          offset: Type.Integer(),
+          ...CursorPageFields,
         }),
       },
     },
   }, async (request:any, reply) => {
-    const { type: likedType, limit, offset } = request.query;
+    const { type: likedType, limit, offset, cursor } = request.query;
     const authUserId = request.user.userId;
     
     // Get user profile
@@ -373,7 +380,9 @@ const favouriteRoutes: FastifyPluginAsync = async (fastify) => {
         data: [],
         total: 0,
         limit: limit || 10,
-        offset: offset || 0,
+        ...(cursor ? {} : { offset: offset || 0 }),
+        nextCursor: null,
+        prevCursor: null,
       };
     }
 
@@ -381,6 +390,7 @@ const favouriteRoutes: FastifyPluginAsync = async (fastify) => {
       likedType,
       limit,
       offset,
+      cursor: parseCursor(cursor),
     });
     
     return {
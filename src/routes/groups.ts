@@ -0,0 +1,670 @@
+import { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import multipart from '@fastify/multipart';
+import { GroupService, GroupError, type GroupInput } from '../services/groupService';
+import { PostServiceDrizzleQueryOptimized } from '../services/postServiceDrizzleQueryOptimized';
+import { UniversalImageUploadHelper } from '../services/universalMediaUploader';
+import { groupJoinPolicies, groupKinds, type GroupKind } from '../models/groups';
+import { groupMemberStatuses, groupRoles, type GroupMemberStatus, type GroupRole } from '../models/group_members';
+import { CursorPageFields, CursorQuery, parseCursor, validateCursor } from '../utils/cursor';
+
+interface Paging {
+  limit?: number;
+  offset?: number;
+}
+
+interface GroupPostBody {
+  content: string;
+  featuredImage?: string;
+  videoUrl?: string;
+  images?: string[];
+  backgroundTheme?: string;
+  feeling?: string;
+  location?: string;
+}
+
+const PagingQuery = {
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 20 })),
+  offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 })),
+};
+
+const KindSchema = Type.Union(groupKinds.map(kind => Type.Literal(kind)));
+const JoinPolicySchema = Type.Union(groupJoinPolicies.map(policy => Type.Literal(policy)));
+const RoleSchema = Type.Union(groupRoles.map(role => Type.Literal(role)));
+const MemberStatusSchema = Type.Union(groupMemberStatuses.map(status => Type.Literal(status)));
+
+const GroupParams = Type.Object({
+  groupId: Type.String({ format: 'uuid' }),
+});
+
+const MemberParams = Type.Object({
+  groupId: Type.String({ format: 'uuid' }),
+  userId: Type.String({ format: 'uuid' }),
+});
+
+const GroupFields = {
+  name: Type.String({ minLength: 1, maxLength: 100 }),
+  description: Type.Optional(Type.Union([Type.String({ maxLength: 2000 }), Type.Null()])),
+  // Required for batch groups
+  graduationYear: Type.Optional(Type.Union([Type.Integer({ minimum: 1900, maximum: 2100 }), Type.Null()])),
+  // Required for city groups
+  city: Type.Optional(Type.Union([Type.String({ maxLength: 100 }), Type.Null()])),
+  // Required for profession groups
+  professionId: Type.Optional(Type.Union([Type.String({ format: 'uuid' }), Type.Null()])),
+  joinPolicy: Type.Optional(JoinPolicySchema),
+};
+
+const DataResponse = Type.Object({
+  success: Type.Boolean(),
+  data: Type.Any(),
+});
+
+const ListResponse = Type.Object({
+  success: Type.Boolean(),
+  data: Type.Array(Type.Any()),
+  total: Type.Integer(),
+  limit: Type.Integer(),
+  offset: Type.Integer(),
+});
+
+const MessageResponse = Type.Object({
+  success: Type.Boolean(),
+  data: Type.Object({
+    message: Type.String(),
+  }),
+});
+
+const groupRoutes: FastifyPluginAsync = async (fastify) => {
+  await fastify.register(multipart, {
+    limits: {
+      fileSize: 10 * 1024 * 1024,
+      files: 1,
+    },
+  });
+
+  const groupService = new GroupService(fastify.db);
+  const postService = new PostServiceDrizzleQueryOptimized(fastify.db);
+  const uploadHelper = new UniversalImageUploadHelper(fastify);
+
+  const sendError = (reply: FastifyReply, error: unknown) => {
+    if (error instanceof GroupError) {
+      return reply.code(error.statusCode).send({
+        success: false,
+        error: error.message,
+      });
+    }
+    throw error;
+  };
+
+  // Groups are joined by member profiles
+  const requireProfile = async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!request.user?.profile?.id) {
+      return reply.code(403).send({
+        success: false,
+        error: 'User profile required',
+      });
+    }
+  };
+
+  const profileId = (request: FastifyRequest): string => request.user.profile.id;
+
+  // Groups
+
+  fastify.get<{
+    Querystring: Paging & {
+      query?: string;
+      kind?: GroupKind;
+      graduationYear?: number;
+      city?: string;
+      professionId?: string;
+      mine?: boolean;
+    };
+  }>('/groups', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      querystring: Type.Object({
+        query: Type.Optional(Type.String({ maxLength: 100 })),
+        kind: Type.Optional(KindSchema),
+        graduationYear: Type.Optional(Type.Integer()),
+        city: Type.Optional(Type.String()),
+        professionId: Type.Optional(Type.String({ format: 'uuid' })),
+        // Only groups the current member belongs to
+        mine: Type.Optional(Type.Boolean({ default: false })),
+        ...PagingQuery,
+      }),
+      response: { 200: ListResponse },
+    },
+  }, async (request) => {
+    const result = await groupService.list(profileId(request), request.query);
+
+    return {
+      success: true,
+      ...result,
+    };
+  });
+
+  fastify.post<{ Body: GroupInput }>('/groups', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      body: Type.Object({
+        ...GroupFields,
+        kind: KindSchema,
+      }),
+      response: { 201: DataResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const group = await groupService.create(profileId(request), request.body);
+
+      return reply.code(201).send({
+        success: true,
+        data: group,
+      });
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Groups for the member's batch, city and profession, and ones they could start
+  fastify.get('/groups/suggestions', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: Type.Object({
+            groups: Type.Array(Type.Any()),
+            create: Type.Array(Type.Any()),
+          }),
+        }),
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const suggestions = await groupService.suggestions(profileId(request));
+
+      return {
+        success: true,
+        data: suggestions,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  fastify.get<{ Params: { groupId: string } }>('/groups/:groupId', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: GroupParams,
+      response: { 200: DataResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const group = await groupService.get(profileId(request), request.params.groupId);
+
+      return {
+        success: true,
+        data: group,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  fastify.put<{ Params: { groupId: string }; Body: Partial<Omit<GroupInput, 'kind'>> }>('/groups/:groupId', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: GroupParams,
+      body: Type.Partial(Type.Object(GroupFields)),
+      response: { 200: DataResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const group = await groupService.update(profileId(request), request.params.groupId, request.body);
+
+      return {
+        success: true,
+        data: group,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  fastify.delete<{ Params: { groupId: string } }>('/groups/:groupId', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: GroupParams,
+      response: { 200: MessageResponse },
+    },
+  }, async (request, reply) => {
+    const { groupId } = request.params;
+
+    try {
+      const { postIds } = await groupService.delete(profileId(request), groupId);
+
+      await uploadHelper.deleteByResource('group', groupId);
+      for (const postId of postIds) {
+        await uploadHelper.deleteByResource('post', postId);
+      }
+
+      return {
+        success: true,
+        data: {
+          message: 'Group deleted',
+        },
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Membership
+
+  // Join an open group, ask to join a 'request' group or accept an invitation
+  fastify.post<{ Params: { groupId: string } }>('/groups/:groupId/join', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: GroupParams,
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: Type.Object({
+            status: MemberStatusSchema,
+          }),
+        }),
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const result = await groupService.join(profileId(request), request.params.groupId);
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Leave, withdraw a join request or decline an invitation
+  fastify.post<{ Params: { groupId: string } }>('/groups/:groupId/leave', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: GroupParams,
+      response: { 200: MessageResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      await groupService.leave(profileId(request), request.params.groupId);
+
+      return {
+        success: true,
+        data: {
+          message: 'Left the group',
+        },
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  fastify.get<{
+    Params: { groupId: string };
+    Querystring: Paging & { status?: GroupMemberStatus; role?: GroupRole };
+  }>('/groups/:groupId/members', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: GroupParams,
+      querystring: Type.Object({
+        // pending and invited are for owners and moderators
+        status: Type.Optional(MemberStatusSchema),
+        role: Type.Optional(RoleSchema),
+        ...PagingQuery,
+      }),
+      response: { 200: ListResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const result = await groupService.listMembers(profileId(request), request.params.groupId, request.query);
+
+      return {
+        success: true,
+        ...result,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Invite a member
+  fastify.post<{ Params: { groupId: string }; Body: { userId: string } }>('/groups/:groupId/members', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: GroupParams,
+      body: Type.Object({
+        userId: Type.String({ format: 'uuid' }),
+      }),
+      response: { 201: MessageResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      await groupService.invite(profileId(request), request.params.groupId, request.body.userId);
+
+      return reply.code(201).send({
+        success: true,
+        data: {
+          message: 'Invitation sent',
+        },
+      });
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  fastify.post<{ Params: { groupId: string; userId: string } }>('/groups/:groupId/members/:userId/approve', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: MemberParams,
+      response: { 200: MessageResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      await groupService.approve(profileId(request), request.params.groupId, request.params.userId);
+
+      return {
+        success: true,
+        data: {
+          message: 'Request approved',
+        },
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  fastify.put<{ Params: { groupId: string; userId: string }; Body: { role: GroupRole } }>('/groups/:groupId/members/:userId/role', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: MemberParams,
+      body: Type.Object({
+        // 'owner' hands the group over
+        role: RoleSchema,
+      }),
+      response: { 200: MessageResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      await groupService.setRole(profileId(request), request.params.groupId, request.params.userId, request.body.role);
+
+      return {
+        success: true,
+        data: {
+          message: 'Role updated',
+        },
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Remove a member, decline a join request or revoke an invitation
+  fastify.delete<{ Params: { groupId: string; userId: string } }>('/groups/:groupId/members/:userId', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: MemberParams,
+      response: { 200: MessageResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      await groupService.removeMember(profileId(request), request.params.groupId, request.params.userId);
+
+      return {
+        success: true,
+        data: {
+          message: 'Member removed',
+        },
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Posts
+
+  fastify.get<{ Params: { groupId: string }; Querystring: Paging & { cursor?: string } }>('/groups/:groupId/posts', {
+    preHandler: [fastify.authenticate, requireProfile, validateCursor],
+    schema: {
+      params: GroupParams,
+      querystring: Type.Object({
+        limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 10 })),
+        offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 })),
+        ...CursorQuery,
+      }),
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: Type.Array(Type.Any()),
+          total: Type.Integer(),
+          limit: Type.Integer(),
+          ...CursorPageFields,
+        }),
+      },
+    },
+  }, async (request, reply) => {
+    const { groupId } = request.params;
+    const { limit, offset, cursor } = request.query;
+
+    try {
+      await groupService.assertCanViewContent(profileId(request), groupId);
+    } catch (error) {
+      return sendError(reply, error);
+    }
+
+    const result = await postService.list({
+      groupId,
+      status: 'published',
+      limit,
+      offset,
+      cursor: parseCursor(cursor),
+    }, profileId(request));
+
+    return {
+      success: true,
+      ...result,
+    };
+  });
+
+  fastify.post<{ Params: { groupId: string }; Body: GroupPostBody }>('/groups/:groupId/posts', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: GroupParams,
+      body: Type.Object({
+        content: Type.String({ minLength: 1 }),
+        featuredImage: Type.Optional(Type.String({ maxLength: 25 })),
+        videoUrl: Type.Optional(Type.String({ maxLength: 200 })),
+        images: Type.Optional(Type.Array(Type.String())),
+        backgroundTheme: Type.Optional(Type.String({ maxLength: 100 })),
+        feeling: Type.Optional(Type.String({ maxLength: 20 })),
+        location: Type.Optional(Type.String({ maxLength: 100 })),
+      }),
+      response: { 201: DataResponse },
+    },
+  }, async (request, reply) => {
+    const { groupId } = request.params;
+
+    try {
+      await groupService.assertCanPost(profileId(request), groupId);
+    } catch (error) {
+      return sendError(reply, error);
+    }
+
+    // Group posts are by the member, not their business
+    const post = await postService.create({
+      ...request.body,
+      postByUserId: profileId(request),
+      postByBusinessId: null,
+      groupId,
+    });
+
+    return reply.code(201).send({
+      success: true,
+      data: post,
+    });
+  });
+
+  // Authors and the group's owners and moderators can remove posts
+  fastify.delete<{ Params: { groupId: string; postId: string } }>('/groups/:groupId/posts/:postId', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: Type.Object({
+        groupId: Type.String({ format: 'uuid' }),
+        postId: Type.String({ format: 'uuid' }),
+      }),
+      response: { 200: MessageResponse },
+    },
+  }, async (request, reply) => {
+    const { groupId, postId } = request.params;
+
+    const post = await postService.findById(postId);
+    if (!post || post.groupId !== groupId) {
+      return reply.code(404).send({
+        success: false,
+        error: 'Post not found',
+      });
+    }
+
+    if (post.postByUserId !== profileId(request) && !await groupService.canModerate(profileId(request), groupId)) {
+      return reply.code(403).send({
+        success: false,
+        error: 'Unauthorized to delete this post',
+      });
+    }
+
+    await postService.delete(postId);
+
+    return {
+      success: true,
+      data: {
+        message: 'Post deleted',
+      },
+    };
+  });
+
+  // Media
+
+  // Images from the group's posts
+  fastify.get<{ Params: { groupId: string }; Querystring: Paging }>('/groups/:groupId/media', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: GroupParams,
+      querystring: Type.Object(PagingQuery),
+      response: { 200: ListResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const result = await groupService.listMedia(profileId(request), request.params.groupId, request.query);
+
+      return {
+        success: true,
+        ...result,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Banner and logo, managed by owners and moderators
+  const images = [
+    { tag: 'banner', preset: 'group_banner' },
+    { tag: 'logo', preset: 'group_logo' },
+  ] as const;
+
+  for (const { tag, preset } of images) {
+    fastify.post<{ Params: { groupId: string } }>(`/groups/:groupId/${tag}`, {
+      preHandler: [fastify.authenticate, requireProfile],
+      schema: {
+        params: GroupParams,
+        response: { 200: DataResponse },
+      },
+    }, async (request, reply) => {
+      const { groupId } = request.params;
+
+      try {
+        await groupService.assertCanModerate(profileId(request), groupId);
+      } catch (error) {
+        return sendError(reply, error);
+      }
+
+      try {
+        const { context: baseContext, options } = UniversalImageUploadHelper.getPresetConfig(preset);
+        const { successful, failed } = await uploadHelper.uploadFromMultipart(request, {
+          ...baseContext,
+          resourceId: groupId,
+          authUserId: request.user.userId,
+          actualUserId: profileId(request),
+        } as any, options);
+
+        if (successful.length === 0) {
+          return reply.code(400).send({
+            success: false,
+            error: failed[0]?.error || 'Upload failed',
+          });
+        }
+
+        const image = successful[0]!;
+
+        return {
+          success: true,
+          data: {
+            [tag]: {
+              id: image.id,
+              url: image.url,
+              thumbnailUrl: image.thumbnailUrl,
+            },
+          },
+        };
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.code(500).send({
+          success: false,
+          error: error instanceof Error ? error.message : 'Upload failed',
+        });
+      }
+    });
+
+    fastify.delete<{ Params: { groupId: string } }>(`/groups/:groupId/${tag}`, {
+      preHandler: [fastify.authenticate, requireProfile],
+      schema: {
+        params: GroupParams,
+        response: { 200: MessageResponse },
+      },
+    }, async (request, reply) => {
+      const { groupId } = request.params;
+
+      try {
+        await groupService.assertCanModerate(profileId(request), groupId);
+      } catch (error) {
+        return sendError(reply, error);
+      }
+
+      const deleted = await uploadHelper.deleteByResource('group', groupId, tag);
+      if (deleted === 0) {
+        return reply.code(404).send({
+          success: false,
+          error: `This group has no ${tag}`,
+        });
+      }
+
+      return {
+        success: true,
+        data: {
+          message: `${tag === 'banner' ? 'Banner' : 'Logo'} removed`,
+        },
+      };
+    });
+  }
+};
+
+export default groupRoutes;
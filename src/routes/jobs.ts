@@ -0,0 +1,443 @@
+import { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import multipart from '@fastify/multipart';
+import { JobService, JobError, type JobInput } from '../services/jobService';
+import { UniversalImageUploadHelper } from '../services/universalMediaUploader';
+import { MediaAccessService } from '../services/mediaAccess';
+import { jobEmploymentTypes, type JobStatus } from '../models/job_postings';
+import { jobApplicationStatuses, type JobApplicationStatus } from '../models/job_applications';
+import { JobFilterQuery, type JobFilters } from '../utils/searchFilters';
+
+interface Paging {
+  limit?: number;
+  offset?: number;
+}
+
+interface JobBody extends Omit<JobInput, 'expiresAt'> {
+  expiresAt?: string;
+}
+
+const PagingQuery = {
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 20 })),
+  offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 })),
+};
+
+const ApplicationStatusSchema = Type.Union(jobApplicationStatuses.map(status => Type.Literal(status)));
+// Employers can set every status except 'withdrawn'
+const EmployerStatusSchema = Type.Union(jobApplicationStatuses
+  .filter(status => status !== 'withdrawn')
+  .map(status => Type.Literal(status)));
+
+const JobParams = Type.Object({
+  jobId: Type.String({ format: 'uuid' }),
+});
+
+const ApplicationParams = Type.Object({
+  applicationId: Type.String({ format: 'uuid' }),
+});
+
+const JobFields = {
+  title: Type.String({ minLength: 1, maxLength: 150 }),
+  description: Type.Optional(Type.Union([Type.String({ maxLength: 10000 }), Type.Null()])),
+  professionId: Type.Optional(Type.Union([Type.String({ format: 'uuid' }), Type.Null()])),
+  specializationId: Type.Optional(Type.Union([Type.String({ format: 'uuid' }), Type.Null()])),
+  city: Type.Optional(Type.Union([Type.String({ maxLength: 100 }), Type.Null()])),
+  remote: Type.Optional(Type.Boolean()),
+  employmentType: Type.Optional(Type.Union(jobEmploymentTypes.map(type => Type.Literal(type)))),
+  salaryMin: Type.Optional(Type.Union([Type.Integer({ minimum: 0 }), Type.Null()])),
+  salaryMax: Type.Optional(Type.Union([Type.Integer({ minimum: 0 }), Type.Null()])),
+  salaryCurrency: Type.Optional(Type.String({ pattern: '^[A-Za-z]{3}$' })),
+  // Defaults to 30 days from now
+  expiresAt: Type.Optional(Type.String({ format: 'date-time' })),
+};
+
+const DataResponse = Type.Object({
+  success: Type.Boolean(),
+  data: Type.Any(),
+});
+
+const ListResponse = Type.Object({
+  success: Type.Boolean(),
+  data: Type.Array(Type.Any()),
+  total: Type.Integer(),
+  limit: Type.Integer(),
+  offset: Type.Integer(),
+});
+
+const MessageResponse = Type.Object({
+  success: Type.Boolean(),
+  data: Type.Object({
+    message: Type.String(),
+  }),
+});
+
+const toJobInput = <T extends Partial<JobBody>>(body: T) => {
+  const { expiresAt, ...rest } = body;
+  return {
+    ...rest,
+    ...(expiresAt !== undefined && { expiresAt: new Date(expiresAt) }),
+  };
+};
+
+const jobRoutes: FastifyPluginAsync = async (fastify) => {
+  await fastify.register(multipart, {
+    limits: {
+      fileSize: 10 * 1024 * 1024,
+      files: 1,
+    },
+  });
+
+  const jobService = new JobService(fastify.db, new MediaAccessService(fastify.db, fastify.mediaStorage));
+  const uploadHelper = new UniversalImageUploadHelper(fastify);
+
+  const sendError = (reply: FastifyReply, error: unknown) => {
+    if (error instanceof JobError) {
+      return reply.code(error.statusCode).send({
+        success: false,
+        error: error.message,
+      });
+    }
+    throw error;
+  };
+
+  // Employers and applicants are member profiles
+  const requireProfile = async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!request.user?.profile?.id) {
+      return reply.code(403).send({
+        success: false,
+        error: 'User profile required',
+      });
+    }
+  };
+
+  const profileId = (request: FastifyRequest): string => request.user.profile.id;
+
+  // Postings
+
+  // The job board; text search is GET /api/search/jobs
+  fastify.get<{ Querystring: Paging & JobFilters }>('/jobs', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      querystring: Type.Object({
+        ...JobFilterQuery,
+        ...PagingQuery,
+      }),
+      response: { 200: ListResponse },
+    },
+  }, async (request) => {
+    const result = await jobService.list(request.query);
+
+    return {
+      success: true,
+      ...result,
+    };
+  });
+
+  fastify.post<{ Params: { businessId: string }; Body: JobBody }>('/businesses/:businessId/jobs', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: Type.Object({
+        businessId: Type.String({ format: 'uuid' }),
+      }),
+      body: Type.Object(JobFields),
+      response: { 201: DataResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const job = await jobService.create(profileId(request), request.params.businessId, toJobInput(request.body));
+
+      return reply.code(201).send({
+        success: true,
+        data: job,
+      });
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Every posting of your business, with applicant counts
+  fastify.get<{ Params: { businessId: string }; Querystring: Paging }>('/businesses/:businessId/jobs', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: Type.Object({
+        businessId: Type.String({ format: 'uuid' }),
+      }),
+      querystring: Type.Object(PagingQuery),
+      response: { 200: ListResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const result = await jobService.listForBusiness(profileId(request), request.params.businessId, request.query);
+
+      return {
+        success: true,
+        ...result,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  fastify.get<{ Params: { jobId: string } }>('/jobs/:jobId', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: JobParams,
+      response: { 200: DataResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const job = await jobService.get(profileId(request), request.params.jobId);
+
+      return {
+        success: true,
+        data: job,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  fastify.patch<{ Params: { jobId: string }; Body: Partial<JobBody> & { status?: JobStatus } }>('/jobs/:jobId', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: JobParams,
+      body: Type.Partial(Type.Object({
+        ...JobFields,
+        // 'closed' stops applications; 'open' reopens
+        status: Type.Union([Type.Literal('open'), Type.Literal('closed')]),
+      })),
+      response: { 200: DataResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const job = await jobService.update(profileId(request), request.params.jobId, toJobInput(request.body));
+
+      return {
+        success: true,
+        data: job,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  fastify.delete<{ Params: { jobId: string } }>('/jobs/:jobId', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: JobParams,
+      response: { 200: MessageResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const { applicationIds } = await jobService.delete(profileId(request), request.params.jobId);
+
+      for (const applicationId of applicationIds) {
+        await uploadHelper.deleteByResource('job_application', applicationId);
+      }
+
+      return {
+        success: true,
+        data: {
+          message: 'Job deleted',
+        },
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Applications
+
+  // Apply, then upload a resume to /job-applications/:applicationId/resume
+  fastify.post<{ Params: { jobId: string }; Body: { coverLetter?: string } }>('/jobs/:jobId/applications', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: JobParams,
+      body: Type.Object({
+        coverLetter: Type.Optional(Type.String({ maxLength: 5000 })),
+      }),
+      response: { 201: DataResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const application = await jobService.apply(profileId(request), request.params.jobId, request.body);
+
+      return reply.code(201).send({
+        success: true,
+        data: application,
+      });
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // The applicant pipeline (employer)
+  fastify.get<{ Params: { jobId: string }; Querystring: Paging & { status?: JobApplicationStatus } }>('/jobs/:jobId/applications', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: JobParams,
+      querystring: Type.Object({
+        status: Type.Optional(ApplicationStatusSchema),
+        ...PagingQuery,
+      }),
+      response: { 200: ListResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const result = await jobService.listApplications(profileId(request), request.params.jobId, request.query);
+
+      return {
+        success: true,
+        ...result,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  fastify.get<{ Querystring: Paging & { status?: JobApplicationStatus } }>('/users/me/job-applications', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      querystring: Type.Object({
+        status: Type.Optional(ApplicationStatusSchema),
+        ...PagingQuery,
+      }),
+      response: { 200: ListResponse },
+    },
+  }, async (request) => {
+    const result = await jobService.listForApplicant(profileId(request), request.query);
+
+    return {
+      success: true,
+      ...result,
+    };
+  });
+
+  fastify.get<{ Params: { applicationId: string } }>('/job-applications/:applicationId', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: ApplicationParams,
+      response: { 200: DataResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const application = await jobService.getApplication(profileId(request), request.params.applicationId);
+
+      return {
+        success: true,
+        data: application,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Upload the resume (multipart, applicant). Replaces the current one.
+  fastify.post<{ Params: { applicationId: string } }>('/job-applications/:applicationId/resume', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: ApplicationParams,
+      response: { 200: DataResponse },
+    },
+  }, async (request, reply) => {
+    const { applicationId } = request.params;
+
+    try {
+      await jobService.assertOwnApplication(profileId(request), applicationId);
+    } catch (error) {
+      return sendError(reply, error);
+    }
+
+    try {
+      const { context: baseContext, options } = UniversalImageUploadHelper.getPresetConfig('job_resume');
+      const { successful, failed } = await uploadHelper.uploadFromMultipart(request, {
+        ...baseContext,
+        resourceId: applicationId,
+        authUserId: request.user.userId,
+        actualUserId: profileId(request),
+      } as any, options);
+
+      if (successful.length === 0) {
+        return reply.code(400).send({
+          success: false,
+          error: failed[0]?.error || 'Upload failed',
+        });
+      }
+
+      const resume = successful[0]!;
+
+      return {
+        success: true,
+        data: {
+          resume: {
+            id: resume.id,
+            url: resume.url,
+            thumbnailUrl: resume.thumbnailUrl,
+          },
+        },
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Upload failed',
+      });
+    }
+  });
+
+  // Move an application through the pipeline (employer)
+  fastify.put<{
+    Params: { applicationId: string };
+    Body: { status: Exclude<JobApplicationStatus, 'withdrawn'>; note?: string | null };
+  }>('/job-applications/:applicationId/status', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: ApplicationParams,
+      body: Type.Object({
+        status: EmployerStatusSchema,
+        // Private to the employer
+        note: Type.Optional(Type.Union([Type.String({ maxLength: 2000 }), Type.Null()])),
+      }),
+      response: { 200: DataResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const application = await jobService.setApplicationStatus(
+        profileId(request),
+        request.params.applicationId,
+        request.body.status,
+        request.body.note
+      );
+
+      return {
+        success: true,
+        data: application,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  fastify.post<{ Params: { applicationId: string } }>('/job-applications/:applicationId/withdraw', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: ApplicationParams,
+      response: { 200: MessageResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      await jobService.withdraw(profileId(request), request.params.applicationId);
+
+      return {
+        success: true,
+        data: {
+          message: 'Application withdrawn',
+        },
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+};
+
+export default jobRoutes;
@@ -197,7 +197,7 @@ const locationRoutes: FastifyPluginAsync = async (fastify) => {
 
   // Admin endpoints for bulk import
   fastify.post('/admin/bulk-import', {
-    preHandler: [fastify.authenticate],
+    preHandler: [fastify.authenticate, fastify.requireRole('admin')],
     schema: {
       body: Type.Object({
         type: Type.Union([
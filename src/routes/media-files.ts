@@ -0,0 +1,113 @@
+import { FastifyPluginAsync, FastifyReply } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import { LocalStorageProvider, DirectUploadError, MEDIA_VARIANTS, type MediaVariant } from '../services/mediaStorage';
+
+// The largest upload preset; each upload URL carries its own, smaller or equal, limit
+const MAX_DIRECT_UPLOAD_SIZE = 10 * 1024 * 1024;
+
+interface DirectUploadQuery {
+  type: string;
+  max: string;
+  expires: string;
+  signature: string;
+}
+
+/**
+ * Serves images kept by the local storage provider. Like Cloudflare delivery URLs these are
+ * public, image IDs being random UUIDs, except private images, which need the expires and
+ * signature of a signed URL. Also takes direct uploads to URLs from upload tickets.
+ * Nothing is registered with other providers.
+ */
+const mediaFileRoutes: FastifyPluginAsync = async (fastify) => {
+  const storage = fastify.mediaStorage;
+  if (!(storage instanceof LocalStorageProvider)) return;
+
+  const sendError = (reply: FastifyReply, error: unknown) => {
+    if (error instanceof DirectUploadError) {
+      return reply.code(error.statusCode).send({
+        success: false,
+        error: error.message,
+      });
+    }
+    throw error;
+  };
+
+  // Direct uploads send the raw file
+  fastify.addContentTypeParser(/^image\//, { parseAs: 'buffer' }, (_request, body, done) => {
+    done(null, body);
+  });
+
+  fastify.get<{
+    Params: { id: string; variant: MediaVariant };
+    Querystring: { expires?: string; signature?: string };
+  }>('/media/files/:id/:variant', {
+    // A feed loads many images at once
+    config: { rateLimit: false },
+    schema: {
+      params: Type.Object({
+        id: Type.String({ format: 'uuid' }),
+        variant: Type.Union(Object.keys(MEDIA_VARIANTS).map(variant => Type.Literal(variant))),
+      }),
+      querystring: Type.Object({
+        expires: Type.Optional(Type.String()),
+        signature: Type.Optional(Type.String()),
+      }),
+    },
+  }, async (request, reply) => {
+    // Private images without a valid signature look missing
+    const image = await storage.read(request.params.id, request.params.variant, request.query);
+
+    if (!image) {
+      return reply.code(404).send({
+        success: false,
+        error: 'File not found',
+      });
+    }
+
+    // IDs are never reused, so a file never changes; a private one is only cached by the viewer until its URL expires
+    const maxAge = image.private ? Math.max(Number(request.query.expires) - Math.floor(Date.now() / 1000), 0) : 31536000;
+    return reply
+      .header('Cache-Control', image.private ? `private, max-age=${maxAge}` : `public, max-age=${maxAge}, immutable`)
+      .type(image.mimeType)
+      .send(image.file);
+  });
+
+  // The upload URL is the credential; no Authorization header, as with S3 presigned URLs
+  fastify.put<{ Params: { id: string }; Querystring: DirectUploadQuery; Body: Buffer }>('/media/files/:id', {
+    bodyLimit: MAX_DIRECT_UPLOAD_SIZE,
+    schema: {
+      params: Type.Object({
+        id: Type.String({ format: 'uuid' }),
+      }),
+      querystring: Type.Object({
+        type: Type.String(),
+        max: Type.String(),
+        expires: Type.String(),
+        signature: Type.String(),
+      }),
+    },
+  }, async (request, reply) => {
+    if (!Buffer.isBuffer(request.body)) {
+      return reply.code(415).send({
+        success: false,
+        error: 'Send the image as the request body with its Content-Type',
+      });
+    }
+
+    try {
+      const mimeType = (request.headers['content-type'] || '').split(';')[0]!.trim();
+      await storage.receiveDirectUpload(request.params.id, request.query, mimeType, request.body);
+
+      return {
+        success: true,
+        data: {
+          id: request.params.id,
+        },
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+};
+
+export default mediaFileRoutes;
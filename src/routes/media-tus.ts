@@ -0,0 +1,220 @@
+import { Readable } from 'stream';
+import { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import { ResumableUploadService, parseUploadMetadata, formatUploadMetadata } from '../services/resumableUploadService';
+import { MediaUploadError, MAX_UPLOAD_TARGET_SIZE } from '../services/mediaUploadTargets';
+
+const TUS_VERSION = '1.0.0';
+const TUS_EXTENSIONS = 'creation,expiration,termination';
+
+// Browsers only let clients read these if they are listed
+const TUS_HEADERS = 'Location,Tus-Resumable,Tus-Version,Tus-Extension,Tus-Max-Size,Upload-Offset,Upload-Length,Upload-Metadata,Upload-Expires';
+
+const DataResponse = Type.Object({
+  success: Type.Boolean(),
+  data: Type.Any(),
+});
+
+const UploadParams = Type.Object({
+  uploadId: Type.String({ format: 'uuid' }),
+});
+
+/**
+ * Resumable uploads over tus 1.0.0 (https://tus.io/protocols/resumable-upload) for clients on
+ * slow or unreliable connections. Uploads go to the same resources and tags as upload tickets,
+ * named in Upload-Metadata.
+ */
+const mediaTusRoutes: FastifyPluginAsync = async (fastify) => {
+  const resumableUploadService = new ResumableUploadService(fastify);
+  const baseUrl = `${fastify.config.API_URL.replace(/\/+$/, '')}/media/tus`;
+
+  const sendError = (reply: FastifyReply, error: unknown) => {
+    if (error instanceof MediaUploadError) {
+      return reply.code(error.statusCode).send({
+        success: false,
+        error: error.message,
+      });
+    }
+    throw error;
+  };
+
+  // Uploads are owned by member profiles
+  const requireProfile = async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!request.user?.profile?.id) {
+      return reply.code(403).send({
+        success: false,
+        error: 'User profile required',
+      });
+    }
+  };
+
+  // Every tus request but OPTIONS states the protocol version; the JSON status lookup is not tus
+  fastify.addHook('onRequest', async (request, reply) => {
+    if (request.method === 'OPTIONS' || request.method === 'GET') return;
+
+    if (request.headers['tus-resumable'] !== TUS_VERSION) {
+      return reply.code(412).header('Tus-Version', TUS_VERSION).send({
+        success: false,
+        error: `Tus-Resumable ${TUS_VERSION} required`,
+      });
+    }
+  });
+
+  fastify.addHook('onSend', async (_request, reply, payload) => {
+    reply.header('Tus-Resumable', TUS_VERSION);
+    reply.header('Access-Control-Expose-Headers', TUS_HEADERS);
+    return payload;
+  });
+
+  // PATCH bodies are handed over as a stream and written to disk as they arrive
+  fastify.addContentTypeParser('application/offset+octet-stream', (_request, payload, done) => {
+    done(null, payload);
+  });
+
+  const headerNumber = (value: string | string[] | undefined): number | null =>
+    typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : null;
+
+  // What the server supports
+  fastify.options('/tus', async (_request, reply) => {
+    return reply
+      .code(204)
+      .header('Tus-Version', TUS_VERSION)
+      .header('Tus-Extension', TUS_EXTENSIONS)
+      .header('Tus-Max-Size', String(MAX_UPLOAD_TARGET_SIZE))
+      .send();
+  });
+
+  // Create an upload; Upload-Metadata names resourceType, resourceId, tag and filetype
+  fastify.post('/tus', {
+    preHandler: [fastify.authenticate, requireProfile],
+  }, async (request, reply) => {
+    try {
+      if (request.headers['upload-defer-length'] !== undefined) {
+        throw new MediaUploadError('Upload-Defer-Length is not supported', 400);
+      }
+      const length = headerNumber(request.headers['upload-length']);
+      if (length === null) {
+        throw new MediaUploadError('Upload-Length header required', 400);
+      }
+      if (length > MAX_UPLOAD_TARGET_SIZE) {
+        throw new MediaUploadError(`Upload-Length exceeds the limit of ${MAX_UPLOAD_TARGET_SIZE} bytes`, 413);
+      }
+
+      const metadata = parseUploadMetadata(request.headers['upload-metadata'] as string | undefined);
+      const upload = await resumableUploadService.create(request.user.profile.id, length, metadata);
+
+      return reply
+        .code(201)
+        .header('Location', `${baseUrl}/${upload.id}`)
+        .header('Upload-Expires', upload.expiresAt.toUTCString())
+        .send();
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Where an upload stands, to resume it
+  fastify.head<{ Params: { uploadId: string } }>('/tus/:uploadId', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: { params: UploadParams },
+  }, async (request, reply) => {
+    try {
+      const upload = await resumableUploadService.get(request.user.profile.id, request.params.uploadId);
+
+      reply
+        .header('Upload-Offset', String(upload.offset))
+        .header('Upload-Length', String(upload.length))
+        .header('Cache-Control', 'no-store');
+      if (Object.keys(upload.metadata).length > 0) {
+        reply.header('Upload-Metadata', formatUploadMetadata(upload.metadata));
+      }
+      if (!upload.completedAt) {
+        reply.header('Upload-Expires', upload.expiresAt.toUTCString());
+      }
+      return reply.code(200).send();
+    } catch (error) {
+      if (error instanceof MediaUploadError) {
+        return reply.code(error.statusCode).header('Cache-Control', 'no-store').send();
+      }
+      throw error;
+    }
+  });
+
+  // Send the next part of the file from Upload-Offset; the last part creates the media
+  fastify.patch<{ Params: { uploadId: string }; Body: Readable | undefined }>('/tus/:uploadId', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: { params: UploadParams },
+  }, async (request, reply) => {
+    try {
+      if (request.headers['content-type'] !== 'application/offset+octet-stream') {
+        throw new MediaUploadError('Content-Type must be application/offset+octet-stream', 415);
+      }
+      const offset = headerNumber(request.headers['upload-offset']);
+      if (offset === null) {
+        throw new MediaUploadError('Upload-Offset header required', 400);
+      }
+
+      const { upload } = await resumableUploadService.append(
+        request.user.userId,
+        request.user.profile.id,
+        request.params.uploadId,
+        offset,
+        request.body ?? Readable.from([])
+      );
+
+      reply.header('Upload-Offset', String(upload.offset));
+      if (!upload.completedAt) {
+        reply.header('Upload-Expires', upload.expiresAt.toUTCString());
+      }
+      return reply.code(204).send();
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Termination: abandon the upload
+  fastify.delete<{ Params: { uploadId: string } }>('/tus/:uploadId', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: { params: UploadParams },
+  }, async (request, reply) => {
+    try {
+      await resumableUploadService.terminate(request.user.profile.id, request.params.uploadId);
+      return reply.code(204).send();
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Not part of tus: the upload's progress and, once complete, its media
+  fastify.get<{ Params: { uploadId: string } }>('/tus/:uploadId', {
+    exposeHeadRoute: false,
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: UploadParams,
+      response: { 200: DataResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const upload = await resumableUploadService.get(request.user.profile.id, request.params.uploadId);
+
+      return {
+        success: true,
+        data: {
+          id: upload.id,
+          resourceType: upload.resourceType,
+          resourceId: upload.resourceId,
+          tag: upload.tag,
+          offset: upload.offset,
+          length: upload.length,
+          expiresAt: upload.completedAt ? null : upload.expiresAt,
+          completedAt: upload.completedAt,
+          media: await resumableUploadService.media(upload),
+        },
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+};
+
+export default mediaTusRoutes;
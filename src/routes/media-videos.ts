@@ -0,0 +1,216 @@
+import { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import multipart from '@fastify/multipart';
+import { createWriteStream, promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { pipeline } from 'stream/promises';
+import { VideoService } from '../services/videoService';
+import { MediaUploadError } from '../services/mediaUploadTargets';
+import { FfmpegTranscoder, MAX_VIDEO_SIZE } from '../services/videoTranscoder';
+import type { MediaResourceType } from '../models/media';
+
+const DataResponse = Type.Object({
+  success: Type.Boolean(),
+  data: Type.Any(),
+});
+
+/**
+ * Video uploads for posts and news articles, their processing status, and the callback the
+ * transcoder reports to. With VIDEO_TRANSCODER=ffmpeg, also serves the processed files.
+ */
+const mediaVideoRoutes: FastifyPluginAsync = async (fastify) => {
+  await fastify.register(multipart, {
+    limits: {
+      fileSize: MAX_VIDEO_SIZE,
+      files: 1,
+    },
+  });
+
+  const videoService = new VideoService(fastify);
+  const transcoder = fastify.videoTranscoder;
+
+  // Transcoders running in the API process report here rather than to the callback URL
+  transcoder.onProcessed(async (result) => {
+    try {
+      await videoService.applyResult(result);
+    } catch (error) {
+      fastify.log.error({ err: error, videoId: result.id }, 'Failed to apply video processing result');
+    }
+  });
+
+  const sendError = (reply: FastifyReply, error: unknown) => {
+    if (error instanceof MediaUploadError) {
+      return reply.code(error.statusCode).send({
+        success: false,
+        error: error.message,
+      });
+    }
+    throw error;
+  };
+
+  // Uploads are owned by member profiles
+  const requireProfile = async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!request.user?.profile?.id) {
+      return reply.code(403).send({
+        success: false,
+        error: 'User profile required',
+      });
+    }
+  };
+
+  // Upload a post's or article's video (multipart: resourceType, resourceId, then file).
+  // Replaces its current video; processing continues after the response. The file is only
+  // read once the member may upload, and goes to a temporary file rather than memory.
+  fastify.post('/videos', {
+    preHandler: [fastify.authenticate, requireProfile],
+    // The body is a multipart stream
+    schema: {
+      response: { 202: DataResponse },
+    },
+  }, async (request, reply) => {
+    const temporary = path.join(tmpdir(), `video-upload-${randomUUID()}`);
+
+    try {
+      const part = await request.file();
+      if (!part) {
+        throw new MediaUploadError('No file uploaded', 400);
+      }
+
+      const field = (name: string): string | undefined => {
+        const value = part.fields[name];
+        return value && !Array.isArray(value) && value.type === 'field' ? String(value.value) : undefined;
+      };
+      const resourceType = field('resourceType');
+      const resourceId = field('resourceId');
+      if ((resourceType !== 'post' && resourceType !== 'news') || !resourceId) {
+        throw new MediaUploadError('resourceType (post or news) and resourceId must be sent before the file', 400);
+      }
+      if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(resourceId)) {
+        throw new MediaUploadError('resourceId must be a UUID', 400);
+      }
+
+      await videoService.authorizeUpload(request.user.profile.id, resourceType as MediaResourceType, resourceId, part.mimetype);
+
+      await pipeline(part.file, createWriteStream(temporary));
+      if (part.file.truncated) {
+        throw new MediaUploadError(`File size exceeds limit of ${MAX_VIDEO_SIZE} bytes`, 413);
+      }
+      const { size } = await fs.stat(temporary);
+
+      const video = await videoService.upload(
+        request.user.userId,
+        request.user.profile.id,
+        resourceType as MediaResourceType,
+        resourceId,
+        { path: temporary, size, filename: part.filename, mimetype: part.mimetype }
+      );
+
+      return reply.code(202).send({
+        success: true,
+        data: video,
+      });
+    } catch (error) {
+      if (error instanceof Error && 'code' in error && error.code === 'FST_REQ_FILE_TOO_LARGE') {
+        return sendError(reply, new MediaUploadError(`File size exceeds limit of ${MAX_VIDEO_SIZE} bytes`, 413));
+      }
+      return sendError(reply, error);
+    } finally {
+      await fs.rm(temporary, { force: true });
+    }
+  });
+
+  // Poll a video's processing status
+  fastify.get<{ Params: { mediaId: string } }>('/videos/:mediaId', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: Type.Object({
+        mediaId: Type.String({ format: 'uuid' }),
+      }),
+      response: { 200: DataResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const video = await videoService.getStatus(request.user.profile.id, request.params.mediaId);
+
+      return {
+        success: true,
+        data: video,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Notifications from the transcoder (the Cloudflare Stream webhook). Signatures are checked
+  // against the raw body, so JSON is left unparsed here.
+  await fastify.register(async (callback) => {
+    callback.removeContentTypeParser('application/json');
+    callback.addContentTypeParser('application/json', { parseAs: 'buffer' }, (_request, body, done) => {
+      done(null, body);
+    });
+
+    callback.post<{ Body: Buffer }>('/videos/callback', {
+      config: { rateLimit: false },
+    }, async (request, reply) => {
+      const result = Buffer.isBuffer(request.body) ? transcoder.parseCallback(request.body, request.headers) : null;
+      if (!result) {
+        return reply.code(401).send({
+          success: false,
+          error: 'Invalid signature',
+        });
+      }
+
+      await videoService.applyResult(result);
+      return { success: true };
+    });
+  });
+
+  if (!(transcoder instanceof FfmpegTranscoder)) return;
+
+  // Processed files from local ffmpeg. Public like the image files; video IDs are random UUIDs.
+  fastify.get<{ Params: { id: string; file: string } }>('/videos/files/:id/:file', {
+    config: { rateLimit: false },
+    schema: {
+      params: Type.Object({
+        id: Type.String({ format: 'uuid' }),
+        file: Type.String(),
+      }),
+    },
+  }, async (request, reply) => {
+    const file = await transcoder.open(request.params.id, request.params.file);
+    if (!file) {
+      return reply.code(404).send({
+        success: false,
+        error: 'File not found',
+      });
+    }
+
+    reply
+      .header('Content-Type', file.mimeType)
+      .header('Accept-Ranges', 'bytes')
+      // Files are written once, under a new ID per upload
+      .header('Cache-Control', 'public, max-age=31536000, immutable');
+
+    // Players seek with range requests
+    const range = /^bytes=(\d*)-(\d*)$/.exec(request.headers.range || '');
+    if (range && (range[1] || range[2])) {
+      const start = range[1] ? Number(range[1]) : Math.max(file.size - Number(range[2]), 0);
+      const end = range[1] && range[2] ? Math.min(Number(range[2]), file.size - 1) : file.size - 1;
+      if (start > end || start >= file.size) {
+        return reply.code(416).header('Content-Range', `bytes */${file.size}`).send();
+      }
+
+      return reply
+        .code(206)
+        .header('Content-Range', `bytes ${start}-${end}/${file.size}`)
+        .header('Content-Length', end - start + 1)
+        .send(file.stream({ start, end }));
+    }
+
+    return reply.header('Content-Length', file.size).send(file.stream());
+  });
+};
+
+export default mediaVideoRoutes;
@@ -1,6 +1,7 @@
 import { FastifyPluginAsync } from 'fastify';
 import { Type, Static } from '@sinclair/typebox';
 import { MediaService } from '../services/mediaService';
+import { MediaAccessService, MediaAccessError } from '../services/mediaAccess';
 import multipart from '@fastify/multipart';
 
 // Request/Response schemas
@@ -56,6 +57,7 @@ const mediaRoutes: FastifyPluginAsync = async (fastify) => {
   });
 
   const mediaService = new MediaService(fastify.db, fastify);
+  const mediaAccess = new MediaAccessService(fastify.db, fastify.mediaStorage);
 
   // Upload image file
   // fastify.post(
@@ -295,6 +297,46 @@ const mediaRoutes: FastifyPluginAsync = async (fastify) => {
     }
   );
 
+  // URLs of one media item for the signed-in member; signed, and expiring, unless it is public
+  fastify.get<{ Params: { id: string } }>(
+    '/:id/url',
+    {
+      onRequest: [fastify.authenticate],
+      schema: {
+        params: Type.Object({
+          id: Type.String({ format: 'uuid' }),
+        }),
+      },
+    },
+    async (request, reply) => {
+      try {
+        const urls = await mediaAccess.getForViewer({
+          authUserId: request.user.userId,
+          profileId: request.user.profile?.id,
+        }, request.params.id);
+
+        return reply
+          .header('Cache-Control', 'private, no-store')
+          .send({
+            success: true,
+            data: urls,
+          });
+      } catch (error) {
+        if (error instanceof MediaAccessError) {
+          return reply.code(error.statusCode).send({
+            success: false,
+            error: error.message,
+          });
+        }
+        fastify.log.error(error);
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to get media URL',
+        });
+      }
+    }
+  );
+
   // Update media metadata
   fastify.put<{ Params: { id: string }; Body: { metadata: Record<string, any> } }>(
     '/:id/metadata',
@@ -0,0 +1,367 @@
+import { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import { MentorshipService, MentorshipError, type MentorshipProfileInput } from '../services/mentorshipService';
+import { mentorshipRoles } from '../models/mentorship_profiles';
+import { mentorshipStatuses, type MentorshipStatus } from '../models/mentorships';
+
+interface Paging {
+  limit?: number;
+  offset?: number;
+}
+
+interface SessionBody {
+  heldAt: string;
+  durationMinutes?: number | null;
+  notes: string;
+}
+
+const PagingQuery = {
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 20 })),
+  offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 })),
+};
+
+const TopicsSchema = Type.Array(Type.String({ minLength: 1, maxLength: 50 }), { maxItems: 10 });
+
+const MentorshipParams = Type.Object({
+  mentorshipId: Type.String({ format: 'uuid' }),
+});
+
+const SessionParams = Type.Object({
+  mentorshipId: Type.String({ format: 'uuid' }),
+  sessionId: Type.String({ format: 'uuid' }),
+});
+
+const SessionFields = {
+  heldAt: Type.String({ format: 'date-time' }),
+  durationMinutes: Type.Optional(Type.Union([Type.Integer({ minimum: 1, maximum: 1440 }), Type.Null()])),
+  notes: Type.String({ minLength: 1, maxLength: 10000 }),
+};
+
+const DataResponse = Type.Object({
+  success: Type.Boolean(),
+  data: Type.Any(),
+});
+
+const ListResponse = Type.Object({
+  success: Type.Boolean(),
+  data: Type.Array(Type.Any()),
+  total: Type.Integer(),
+  limit: Type.Integer(),
+  offset: Type.Integer(),
+});
+
+const MessageResponse = Type.Object({
+  success: Type.Boolean(),
+  data: Type.Object({
+    message: Type.String(),
+  }),
+});
+
+const toSessionInput = <T extends Partial<SessionBody>>(body: T) => {
+  const { heldAt, ...rest } = body;
+  return {
+    ...rest,
+    ...(heldAt !== undefined && { heldAt: new Date(heldAt) }),
+  };
+};
+
+const mentorshipRoutes: FastifyPluginAsync = async (fastify) => {
+  const mentorshipService = new MentorshipService(fastify.db);
+
+  const sendError = (reply: FastifyReply, error: unknown) => {
+    if (error instanceof MentorshipError) {
+      return reply.code(error.statusCode).send({
+        success: false,
+        error: error.message,
+      });
+    }
+    throw error;
+  };
+
+  // Mentors and mentees are member profiles
+  const requireProfile = async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!request.user?.profile?.id) {
+      return reply.code(403).send({
+        success: false,
+        error: 'User profile required',
+      });
+    }
+  };
+
+  const profileId = (request: FastifyRequest): string => request.user.profile.id;
+
+  // Program profile
+
+  // null when the member hasn't joined the program
+  fastify.get('/users/me/mentorship', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      response: { 200: DataResponse },
+    },
+  }, async (request) => {
+    const profile = await mentorshipService.getProfile(profileId(request));
+
+    return {
+      success: true,
+      data: profile,
+    };
+  });
+
+  // Join the program, or change role, topics, capacity or availability
+  fastify.put<{ Body: MentorshipProfileInput }>('/users/me/mentorship', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      body: Type.Object({
+        // Required when joining
+        role: Type.Optional(Type.Union(mentorshipRoles.map(role => Type.Literal(role)))),
+        topics: Type.Optional(TopicsSchema),
+        // Mentors: active mentees at a time
+        capacity: Type.Optional(Type.Integer({ minimum: 1, maximum: 20 })),
+        bio: Type.Optional(Type.Union([Type.String({ maxLength: 2000 }), Type.Null()])),
+        // false pauses new requests
+        available: Type.Optional(Type.Boolean()),
+      }),
+      response: { 200: DataResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const profile = await mentorshipService.updateProfile(profileId(request), request.body);
+
+      return {
+        success: true,
+        data: profile,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Matching
+
+  // Mentors ranked for the current member, best match first, with why they matched
+  fastify.get<{ Querystring: Paging & { topic?: string } }>('/mentorship/matches', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      querystring: Type.Object({
+        topic: Type.Optional(Type.String({ minLength: 1, maxLength: 50 })),
+        ...PagingQuery,
+      }),
+      response: { 200: ListResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const result = await mentorshipService.suggestMentors(profileId(request), request.query);
+
+      return {
+        success: true,
+        ...result,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Requests
+
+  fastify.post<{ Body: { mentorId: string; message?: string; topics?: string[] } }>('/mentorships', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      body: Type.Object({
+        mentorId: Type.String({ format: 'uuid' }),
+        message: Type.Optional(Type.String({ maxLength: 2000 })),
+        // Defaults to the mentee's program topics
+        topics: Type.Optional(TopicsSchema),
+      }),
+      response: { 201: DataResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const mentorship = await mentorshipService.request(profileId(request), request.body);
+
+      return reply.code(201).send({
+        success: true,
+        data: mentorship,
+      });
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  fastify.get<{ Querystring: Paging & { role?: 'mentor' | 'mentee'; status?: MentorshipStatus } }>('/mentorships', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      querystring: Type.Object({
+        // Only mentorships where you are the mentor, or the mentee
+        role: Type.Optional(Type.Union([Type.Literal('mentor'), Type.Literal('mentee')])),
+        status: Type.Optional(Type.Union(mentorshipStatuses.map(status => Type.Literal(status)))),
+        ...PagingQuery,
+      }),
+      response: { 200: ListResponse },
+    },
+  }, async (request) => {
+    const result = await mentorshipService.list(profileId(request), request.query);
+
+    return {
+      success: true,
+      ...result,
+    };
+  });
+
+  fastify.get<{ Params: { mentorshipId: string } }>('/mentorships/:mentorshipId', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: MentorshipParams,
+      response: { 200: DataResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const mentorship = await mentorshipService.get(profileId(request), request.params.mentorshipId);
+
+      return {
+        success: true,
+        data: mentorship,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // The mentor answers a request
+  for (const answer of ['accept', 'decline'] as const) {
+    fastify.post<{ Params: { mentorshipId: string } }>(`/mentorships/:mentorshipId/${answer}`, {
+      preHandler: [fastify.authenticate, requireProfile],
+      schema: {
+        params: MentorshipParams,
+        response: { 200: DataResponse },
+      },
+    }, async (request, reply) => {
+      try {
+        const mentorship = answer === 'accept'
+          ? await mentorshipService.accept(profileId(request), request.params.mentorshipId)
+          : await mentorshipService.decline(profileId(request), request.params.mentorshipId);
+
+        return {
+          success: true,
+          data: mentorship,
+        };
+      } catch (error) {
+        return sendError(reply, error);
+      }
+    });
+  }
+
+  // Either side ends an active mentorship; the mentee can also withdraw an unanswered request
+  fastify.post<{ Params: { mentorshipId: string }; Body: { reason?: string } }>('/mentorships/:mentorshipId/end', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: MentorshipParams,
+      body: Type.Optional(Type.Object({
+        reason: Type.Optional(Type.String({ maxLength: 1000 })),
+      })),
+      response: { 200: DataResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const mentorship = await mentorshipService.end(profileId(request), request.params.mentorshipId, request.body?.reason);
+
+      return {
+        success: true,
+        data: mentorship,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Session notes
+
+  fastify.get<{ Params: { mentorshipId: string }; Querystring: Paging }>('/mentorships/:mentorshipId/sessions', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: MentorshipParams,
+      querystring: Type.Object(PagingQuery),
+      response: { 200: ListResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const result = await mentorshipService.listSessions(profileId(request), request.params.mentorshipId, request.query);
+
+      return {
+        success: true,
+        ...result,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  fastify.post<{ Params: { mentorshipId: string }; Body: SessionBody }>('/mentorships/:mentorshipId/sessions', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: MentorshipParams,
+      body: Type.Object(SessionFields),
+      response: { 201: DataResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const { heldAt, ...rest } = request.body;
+      const session = await mentorshipService.addSession(profileId(request), request.params.mentorshipId, {
+        ...rest,
+        heldAt: new Date(heldAt),
+      });
+
+      return reply.code(201).send({
+        success: true,
+        data: session,
+      });
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Only the author can change or delete their notes
+  fastify.patch<{ Params: { mentorshipId: string; sessionId: string }; Body: Partial<SessionBody> }>('/mentorships/:mentorshipId/sessions/:sessionId', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: SessionParams,
+      body: Type.Partial(Type.Object(SessionFields)),
+      response: { 200: DataResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const { mentorshipId, sessionId } = request.params;
+      const session = await mentorshipService.updateSession(profileId(request), mentorshipId, sessionId, toSessionInput(request.body));
+
+      return {
+        success: true,
+        data: session,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  fastify.delete<{ Params: { mentorshipId: string; sessionId: string } }>('/mentorships/:mentorshipId/sessions/:sessionId', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: SessionParams,
+      response: { 200: MessageResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const { mentorshipId, sessionId } = request.params;
+      await mentorshipService.deleteSession(profileId(request), mentorshipId, sessionId);
+
+      return {
+        success: true,
+        data: {
+          message: 'Session deleted',
+        },
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+};
+
+export default mentorshipRoutes;
@@ -0,0 +1,437 @@
+import { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import multipart from '@fastify/multipart';
+import { MessagingService, MessagingError, MAX_GROUP_SIZE } from '../services/messagingService';
+import { UniversalImageUploadHelper } from '../services/universalMediaUploader';
+import { MediaAccessService } from '../services/mediaAccess';
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+const ConversationParams = Type.Object({
+  conversationId: Type.String({ format: 'uuid' }),
+});
+
+const MessageParams = Type.Object({
+  conversationId: Type.String({ format: 'uuid' }),
+  messageId: Type.String({ format: 'uuid' }),
+});
+
+const DataResponse = Type.Object({
+  success: Type.Boolean(),
+  data: Type.Any(),
+});
+
+interface ClientEvent {
+  type?: string;
+  conversationId?: string;
+  messageId?: string;
+  isTyping?: boolean;
+}
+
+const messageRoutes: FastifyPluginAsync = async (fastify) => {
+  await fastify.register(multipart, {
+    limits: {
+      fileSize: 10 * 1024 * 1024,
+      files: 10,
+    },
+  });
+
+  const messagingService = new MessagingService(
+    fastify.db,
+    fastify.messagingHub,
+    fastify.push,
+    new MediaAccessService(fastify.db, fastify.mediaStorage)
+  );
+  const uploadHelper = new UniversalImageUploadHelper(fastify);
+
+  const sendError = (reply: FastifyReply, error: unknown) => {
+    if (error instanceof MessagingError) {
+      return reply.code(error.statusCode).send({
+        success: false,
+        error: error.message,
+      });
+    }
+    throw error;
+  };
+
+  // Messaging is between member profiles
+  const requireProfile = async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!request.user?.profile?.id) {
+      return reply.code(403).send({
+        success: false,
+        error: 'User profile required to use messages',
+      });
+    }
+  };
+
+  const profileId = (request: FastifyRequest): string => request.user.profile.id;
+
+  fastify.get<{ Querystring: { limit?: number; offset?: number } }>('/conversations', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      querystring: Type.Object({
+        limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 20 })),
+        offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 })),
+      }),
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: Type.Array(Type.Any()),
+          total: Type.Integer(),
+          limit: Type.Integer(),
+          offset: Type.Integer(),
+        }),
+      },
+    },
+  }, async (request) => {
+    const result = await messagingService.listConversations(profileId(request), request.query);
+
+    return {
+      success: true,
+      ...result,
+    };
+  });
+
+  // Start a conversation. One participant opens (or returns) the direct conversation
+  // with that member; more start a group.
+  fastify.post<{ Body: { participantIds: string[]; title?: string } }>('/conversations', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      body: Type.Object({
+        participantIds: Type.Array(Type.String({ format: 'uuid' }), { minItems: 1, maxItems: MAX_GROUP_SIZE - 1 }),
+        title: Type.Optional(Type.String({ minLength: 1, maxLength: 100 })),
+      }),
+      response: {
+        200: DataResponse,
+        201: DataResponse,
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const { conversation, created } = await messagingService.startConversation(
+        profileId(request),
+        request.body.participantIds,
+        request.body.title
+      );
+
+      return reply.code(created ? 201 : 200).send({
+        success: true,
+        data: conversation,
+      });
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  fastify.get<{ Params: { conversationId: string } }>('/conversations/:conversationId', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: ConversationParams,
+      response: { 200: DataResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const conversation = await messagingService.getConversation(profileId(request), request.params.conversationId);
+
+      return {
+        success: true,
+        data: conversation,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Rename a group (owner only)
+  fastify.patch<{ Params: { conversationId: string }; Body: { title: string | null } }>('/conversations/:conversationId', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: ConversationParams,
+      body: Type.Object({
+        title: Type.Union([Type.String({ minLength: 1, maxLength: 100 }), Type.Null()]),
+      }),
+      response: { 200: DataResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const conversation = await messagingService.renameGroup(
+        profileId(request),
+        request.params.conversationId,
+        request.body.title
+      );
+
+      return {
+        success: true,
+        data: conversation,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Add members to a group (owner only)
+  fastify.post<{ Params: { conversationId: string }; Body: { userIds: string[] } }>('/conversations/:conversationId/participants', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: ConversationParams,
+      body: Type.Object({
+        userIds: Type.Array(Type.String({ format: 'uuid' }), { minItems: 1, maxItems: MAX_GROUP_SIZE - 1 }),
+      }),
+      response: { 200: DataResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const conversation = await messagingService.addParticipants(
+        profileId(request),
+        request.params.conversationId,
+        request.body.userIds
+      );
+
+      return {
+        success: true,
+        data: conversation,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Remove a member from a group (owner only), or leave it with `me`
+  fastify.delete<{ Params: { conversationId: string; userId: string } }>('/conversations/:conversationId/participants/:userId', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: Type.Object({
+        conversationId: Type.String({ format: 'uuid' }),
+        userId: Type.Union([Type.Literal('me'), Type.String({ format: 'uuid' })]),
+      }),
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: Type.Object({
+            message: Type.String(),
+          }),
+        }),
+      },
+    },
+  }, async (request, reply) => {
+    const { conversationId, userId } = request.params;
+    const targetId = userId === 'me' ? profileId(request) : userId;
+
+    try {
+      await messagingService.removeParticipant(profileId(request), conversationId, targetId);
+
+      return {
+        success: true,
+        data: {
+          message: targetId === profileId(request) ? 'Left conversation' : 'Member removed',
+        },
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Message history, newest first. Pass `before` (a message ID) for older pages.
+  fastify.get<{ Params: { conversationId: string }; Querystring: { before?: string; limit?: number } }>('/conversations/:conversationId/messages', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: ConversationParams,
+      querystring: Type.Object({
+        before: Type.Optional(Type.String({ format: 'uuid' })),
+        limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 30 })),
+      }),
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: Type.Array(Type.Any()),
+          hasMore: Type.Boolean(),
+        }),
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const result = await messagingService.listMessages(
+        profileId(request),
+        request.params.conversationId,
+        request.query
+      );
+
+      return {
+        success: true,
+        ...result,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Send a message. Omit `content` when the message only carries attachments,
+  // then upload them to /messages/:messageId/attachments.
+  fastify.post<{ Params: { conversationId: string }; Body: { content?: string } }>('/conversations/:conversationId/messages', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: ConversationParams,
+      body: Type.Object({
+        content: Type.Optional(Type.String({ minLength: 1, maxLength: 5000 })),
+      }),
+      response: { 201: DataResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const message = await messagingService.sendMessage(
+        profileId(request),
+        request.params.conversationId,
+        request.body.content?.trim() || null
+      );
+
+      return reply.code(201).send({
+        success: true,
+        data: message,
+      });
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Upload image attachments (multipart) for one of your own messages
+  fastify.post<{ Params: { conversationId: string; messageId: string } }>('/conversations/:conversationId/messages/:messageId/attachments', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: MessageParams,
+      response: { 200: DataResponse },
+    },
+  }, async (request, reply) => {
+    const { conversationId, messageId } = request.params;
+
+    try {
+      await messagingService.assertOwnMessage(profileId(request), conversationId, messageId);
+    } catch (error) {
+      return sendError(reply, error);
+    }
+
+    try {
+      const { context: baseContext, options } = UniversalImageUploadHelper.getPresetConfig('message_attachment');
+      const { successful, failed } = await uploadHelper.uploadFromMultipart(request, {
+        ...baseContext,
+        resourceId: messageId,
+        authUserId: request.user.userId,
+        actualUserId: profileId(request),
+        metadata: { conversationId },
+      } as any, options);
+
+      if (successful.length === 0) {
+        return reply.code(400).send({
+          success: false,
+          error: failed.length > 0
+            ? `Upload failed: ${failed.map(f => f.error).join(', ')}`
+            : 'No valid images uploaded',
+        });
+      }
+
+      const attachments = await messagingService.announceAttachments(conversationId, messageId);
+
+      return {
+        success: true,
+        data: {
+          attachments,
+          failed,
+        },
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.code(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Upload failed',
+      });
+    }
+  });
+
+  // Move your read receipt forward, to `messageId` or the latest message
+  fastify.post<{ Params: { conversationId: string }; Body: { messageId?: string } }>('/conversations/:conversationId/read', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: ConversationParams,
+      body: Type.Optional(Type.Object({
+        messageId: Type.Optional(Type.String({ format: 'uuid' })),
+      })),
+      response: { 200: DataResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const receipt = await messagingService.markRead(
+        profileId(request),
+        request.params.conversationId,
+        request.body?.messageId
+      );
+
+      return {
+        success: true,
+        data: receipt,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Live events over WebSocket. Server -> client frames are { type, data } with type
+  // conversation, message, message_attachments, read or typing. Clients send
+  // { type: 'typing', conversationId, isTyping } and { type: 'read', conversationId, messageId? }.
+  // Clients that cannot set headers pass a ticket from POST /api/notifications/stream-ticket as ?ticket=
+  fastify.get<{ Querystring: { ticket?: string } }>('/ws', {
+    websocket: true,
+    config: { tokenType: 'stream' },
+    onRequest: [fastify.authenticate],
+    preHandler: [requireProfile],
+    schema: {
+      querystring: Type.Object({
+        ticket: Type.Optional(Type.String()),
+      }),
+    },
+  }, (connection, request) => {
+    const socket = connection.socket;
+    const currentProfileId = profileId(request);
+
+    const send = (type: string, data: unknown) => {
+      if (socket.readyState === socket.OPEN) {
+        socket.send(JSON.stringify({ type, data }));
+      }
+    };
+
+    const unsubscribe = fastify.messagingHub.subscribe(request.user.userId, send);
+    const heartbeat = setInterval(() => socket.ping(), HEARTBEAT_INTERVAL_MS);
+
+    socket.on('message', async (raw: Buffer) => {
+      let event: ClientEvent;
+      try {
+        event = JSON.parse(raw.toString());
+      } catch {
+        send('error', { message: 'Invalid JSON' });
+        return;
+      }
+
+      try {
+        if (event.type === 'typing' && event.conversationId) {
+          await messagingService.setTyping(currentProfileId, event.conversationId, event.isTyping !== false);
+        } else if (event.type === 'read' && event.conversationId) {
+          await messagingService.markRead(currentProfileId, event.conversationId, event.messageId);
+        } else {
+          send('error', { message: 'Unknown event' });
+        }
+      } catch (error) {
+        if (error instanceof MessagingError) {
+          send('error', { message: error.message, conversationId: event.conversationId });
+        } else {
+          fastify.log.error({ err: error }, 'Failed to handle messaging event');
+          send('error', { message: 'Internal error' });
+        }
+      }
+    });
+
+    socket.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+};
+
+export default messageRoutes;
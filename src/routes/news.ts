@@ -2,6 +2,8 @@ import { FastifyPluginAsync } from 'fastify';
 import { Type } from '@sinclair/typebox';
 import { NewsServiceSimple } from '../services/newsServiceSimple';
 import { Category, Status, validCategories, validStatuses } from '../models/news';
+import { hasRole } from '../utils/roles';
+import { CursorPageFields, CursorQuery, parseCursor, validateCursor } from '../utils/cursor';
 
 
 const newsRoutes: FastifyPluginAsync = async (fastify) => {
@@ -9,6 +11,7 @@ const newsRoutes: FastifyPluginAsync = async (fastify) => {
 
   // List news with filters
   fastify.get('/', {
+    preHandler: [validateCursor],
     schema: {
       querystring: Type.Object({
         query: Type.Optional(Type.String()),
@@ -17,6 +20,7 @@ const newsRoutes: FastifyPluginAsync = async (fastify) => {
         featured: Type.Optional(Type.Boolean()),
         limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 10 })),
         offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 })),
+        ...CursorQuery,
       }),
       response: {
         200: Type.Object({
@@ -24,12 +28,13 @@ const newsRoutes: FastifyPluginAsync = async (fastify) => {
           data: Type.Array(Type.Any()),
           total: Type.Integer(),
           limit: Type.Integer(),
-          offset: Type.Integer(),
+          ...CursorPageFields,
         }),
       },
     },
   }, async (request:any, reply) => {
-    const result = await newsService.list(request.query);
+    const { cursor, ...filters } = request.query;
+    const result = await newsService.list({ ...filters, cursor: parseCursor(cursor) });
     
     return {
       success: true,
@@ -142,7 +147,7 @@ const newsRoutes: FastifyPluginAsync = async (fastify) => {
 
   // Create news article
   fastify.post('/', {
-    preHandler: [fastify.authenticate],
+    preHandler: [fastify.authenticate, fastify.requireRole('editor')],
     schema: {
       body: Type.Object({
         title: Type.String({ maxLength: 1000 }),
@@ -247,8 +252,8 @@ const newsRoutes: FastifyPluginAsync = async (fastify) => {
       });
     }
 
-    // Check ownership (only creator can update)
-    if (article.createdBy !== authUserId) {
+    // Check ownership (only creator or an editor can update)
+    if (article.createdBy !== authUserId && !hasRole(request.user.authUser, 'editor')) {
       return reply.code(403).send({
         success: false,
         error: 'Unauthorized to update this article',
@@ -290,8 +295,8 @@ const newsRoutes: FastifyPluginAsync = async (fastify) => {
       });
     }
 
-    // Check ownership
-    if (article.createdBy !== authUserId) {
+    // Check ownership (only creator or an editor can delete)
+    if (article.createdBy !== authUserId && !hasRole(request.user.authUser, 'editor')) {
       return reply.code(403).send({
         success: false,
         error: 'Unauthorized to delete this article',
@@ -308,7 +313,7 @@ const newsRoutes: FastifyPluginAsync = async (fastify) => {
 
   // Toggle featured status
   fastify.patch('/:newsId/featured', {
-    preHandler: [fastify.authenticate],
+    preHandler: [fastify.authenticate, fastify.requireRole('editor')],
     schema: {
       params: Type.Object({
         newsId: Type.String(),
@@ -326,7 +331,6 @@ const newsRoutes: FastifyPluginAsync = async (fastify) => {
   }, async (request:any, reply) => {
     const { newsId } = request.params;
     const { featured } = request.body;
-    const authUserId = request.user.userId;
     
     // Get article
     const article = await newsService.findById(newsId);
@@ -337,14 +341,6 @@ const newsRoutes: FastifyPluginAsync = async (fastify) => {
       });
     }
 
-    // Check ownership
-    if (article.createdBy !== authUserId) {
-      return reply.code(403).send({
-        success: false,
-        error: 'Unauthorized to update this article',
-      });
-    }
-
     const updated = await newsService.toggleFeatured(newsId, featured);
     
     return {
@@ -355,7 +351,7 @@ const newsRoutes: FastifyPluginAsync = async (fastify) => {
 
   // Update article status
   fastify.patch('/:newsId/status', {
-    preHandler: [fastify.authenticate],
+    preHandler: [fastify.authenticate, fastify.requireRole('editor')],
     schema: {
       params: Type.Object({
         newsId: Type.String(),
@@ -373,7 +369,6 @@ const newsRoutes: FastifyPluginAsync = async (fastify) => {
   }, async (request:any, reply) => {
     const { newsId } = request.params;
     const { status } = request.body;
-    const authUserId = request.user.userId;
     
     // Get article
     const article = await newsService.findById(newsId);
@@ -384,14 +379,6 @@ const newsRoutes: FastifyPluginAsync = async (fastify) => {
       });
     }
 
-    // Check ownership
-    if (article.createdBy !== authUserId) {
-      return reply.code(403).send({
-        success: false,
-        error: 'Unauthorized to update this article',
-      });
-    }
-
     const updated = await newsService.updateStatus(newsId, status);
     
     return {
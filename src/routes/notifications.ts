@@ -0,0 +1,260 @@
+import { FastifyPluginAsync } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import { NotificationService } from '../services/notificationService';
+import { notificationTypes, type NotificationType } from '../models/notifications';
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+// Long enough to open the stream right after asking for the ticket
+const STREAM_TICKET_TTL = '60s';
+
+const PreferencesSchema = Type.Object(
+  Object.fromEntries(notificationTypes.map(type => [type, Type.Boolean()])) as Record<NotificationType, ReturnType<typeof Type.Boolean>>
+);
+
+const notificationRoutes: FastifyPluginAsync = async (fastify) => {
+  const notificationService = new NotificationService(fastify.db, fastify.notificationHub);
+
+  // List notifications, newest first
+  fastify.get<{ Querystring: { unreadOnly?: boolean; limit?: number; offset?: number } }>('/', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      querystring: Type.Object({
+        unreadOnly: Type.Optional(Type.Boolean({ default: false })),
+        limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 20 })),
+        offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 })),
+      }),
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: Type.Array(Type.Any()),
+          total: Type.Integer(),
+          limit: Type.Integer(),
+          offset: Type.Integer(),
+        }),
+      },
+    },
+  }, async (request) => {
+    const result = await notificationService.list(request.user.userId, request.query);
+
+    return {
+      success: true,
+      ...result,
+    };
+  });
+
+  fastify.get('/unread-count', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: Type.Object({
+            count: Type.Integer(),
+          }),
+        }),
+      },
+    },
+  }, async (request) => {
+    const count = await notificationService.getUnreadCount(request.user.userId);
+
+    return {
+      success: true,
+      data: { count },
+    };
+  });
+
+  // A ticket for opening the stream from EventSource clients, which cannot set
+  // headers. Unlike the access token it only opens the stream, and only briefly,
+  // so it does little harm when the URL ends up in logs.
+  fastify.post('/stream-ticket', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: Type.Object({
+            ticket: Type.String(),
+          }),
+        }),
+      },
+    },
+  }, async (request) => {
+    // authenticate only lets requests with a session through
+    const { userId, email, sessionId } = request.user;
+    const ticket = fastify.jwt.sign({ userId, email, sessionId: sessionId!, type: 'stream' }, { expiresIn: STREAM_TICKET_TTL });
+
+    return {
+      success: true,
+      data: { ticket },
+    };
+  });
+
+  // Live updates over Server-Sent Events. Authenticate with the Authorization
+  // header or ?ticket= from /stream-ticket.
+  fastify.get<{ Querystring: { ticket?: string } }>('/stream', {
+    config: { tokenType: 'stream' },
+    onRequest: [fastify.authenticate],
+    schema: {
+      querystring: Type.Object({
+        ticket: Type.Optional(Type.String()),
+      }),
+    },
+  }, async (request, reply) => {
+    const authUserId = request.user.userId;
+
+    reply.hijack();
+    reply.raw.writeHead(200, {
+      // Keep headers set by earlier hooks (CORS, rate limit)
+      ...(reply.getHeaders() as Record<string, string>),
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+
+    const send = (event: string, payload: unknown) => {
+      reply.raw.write(`event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`);
+    };
+
+    send('unread_count', { count: await notificationService.getUnreadCount(authUserId) });
+
+    const unsubscribe = fastify.notificationHub.subscribe(authUserId, send);
+    const heartbeat = setInterval(() => {
+      reply.raw.write(': ping\n\n');
+    }, HEARTBEAT_INTERVAL_MS);
+
+    request.raw.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  fastify.patch<{ Params: { notificationId: string } }>('/:notificationId/read', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      params: Type.Object({
+        notificationId: Type.String({ format: 'uuid' }),
+      }),
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: Type.Object({
+            message: Type.String(),
+          }),
+        }),
+      },
+    },
+  }, async (request, reply) => {
+    const updated = await notificationService.markRead(request.user.userId, request.params.notificationId);
+
+    if (!updated) {
+      return reply.code(404).send({
+        success: false,
+        error: 'Notification not found or already read',
+      });
+    }
+
+    return {
+      success: true,
+      data: {
+        message: 'Notification marked as read',
+      },
+    };
+  });
+
+  fastify.post('/read-all', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: Type.Object({
+            updatedCount: Type.Integer(),
+          }),
+        }),
+      },
+    },
+  }, async (request) => {
+    const updatedCount = await notificationService.markAllRead(request.user.userId);
+
+    return {
+      success: true,
+      data: { updatedCount },
+    };
+  });
+
+  fastify.delete<{ Params: { notificationId: string } }>('/:notificationId', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      params: Type.Object({
+        notificationId: Type.String({ format: 'uuid' }),
+      }),
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: Type.Object({
+            message: Type.String(),
+          }),
+        }),
+      },
+    },
+  }, async (request, reply) => {
+    const deleted = await notificationService.delete(request.user.userId, request.params.notificationId);
+
+    if (!deleted) {
+      return reply.code(404).send({
+        success: false,
+        error: 'Notification not found',
+      });
+    }
+
+    return {
+      success: true,
+      data: {
+        message: 'Notification deleted',
+      },
+    };
+  });
+
+  fastify.get('/preferences', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: PreferencesSchema,
+        }),
+      },
+    },
+  }, async (request) => {
+    const preferences = await notificationService.getPreferences(request.user.userId);
+
+    return {
+      success: true,
+      data: preferences,
+    };
+  });
+
+  // Enable or disable notification types, e.g. { "like": false }
+  fastify.put<{ Body: Partial<Record<NotificationType, boolean>> }>('/preferences', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      body: Type.Partial(PreferencesSchema, { additionalProperties: false }),
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: PreferencesSchema,
+        }),
+      },
+    },
+  }, async (request) => {
+    const preferences = await notificationService.updatePreferences(request.user.userId, request.body);
+
+    return {
+      success: true,
+      data: preferences,
+    };
+  });
+};
+
+export default notificationRoutes;
@@ -3,9 +3,9 @@ import { Type } from '@sinclair/typebox';
 import { MediaServiceNew } from '../services/mediaServiceNew';
 import multipart from '@fastify/multipart';
 import { PostServiceDrizzleQueryOptimized } from '../services/postServiceDrizzleQueryOptimized';
+import { PostService } from '../services/postService';
 import { eq } from 'drizzle-orm';
 import { user } from '../models/user';
-import { postUpdates } from '../models/post_updates'; 
 import { UniversalImageUploadHelper } from '../services/universalMediaUploader';
 
 const postsMediaRoutes: FastifyPluginAsync = async (fastify) => {
@@ -19,29 +19,13 @@ const postsMediaRoutes: FastifyPluginAsync = async (fastify) => {
 
   const uploadHelper = new UniversalImageUploadHelper(fastify);
   const postService = new PostServiceDrizzleQueryOptimized(fastify.db);
+  const visiblePosts = new PostService(fastify.db);
     const mediaService = new MediaServiceNew(fastify.db);
 
   // Helper function to update post_updates table with media references
   const updatePostMediaReferences = async (postId: string) => {
     try {
-      // Get all media for this post
-      const allMedia = await mediaService.getByResource('post', postId);
-  
-      const featuredMedia = allMedia.find(m => m.tag === 'featured_image');
-      const galleryMedia = allMedia.filter(m => m.tag === 'gallery');
-      
-      // Sort gallery images by position
-      galleryMedia.sort((a, b) => (a.position || 0) - (b.position || 0));
-      
-      await fastify.db
-        .update(postUpdates)
-        .set({
-          featuredImage: featuredMedia?.id || null,
-          images: galleryMedia.length > 0 ? galleryMedia.map(m => m.id) : null,
-          updatedAt: new Date(),
-        })
-        .where(eq(postUpdates.id, postId));
-        
+      await mediaService.syncPostReferences(postId);
     } catch (error) {
       fastify.log.error('Failed to update post media references:', error);
       throw error;
@@ -105,7 +89,7 @@ const postsMediaRoutes: FastifyPluginAsync = async (fastify) => {
 
       // Check if this is the first image (will be featured)
       const existingMedia = await uploadHelper.getExistingMedia('post', request.params.postId);
-      const isFirstImage = existingMedia.length === 0;
+      const isFirstImage = !existingMedia.some(m => m.kind === 'image');
 
       // Get preset configuration for post images
       const { context: baseContext, options } = UniversalImageUploadHelper.getPresetConfig('post_image');
@@ -335,6 +319,7 @@ const postsMediaRoutes: FastifyPluginAsync = async (fastify) => {
 
   // Get all images for a post
   fastify.get<{ Params: { postId: string } }>('/:postId/images', {
+    preHandler: [fastify.authenticate],
     schema: {
       params: Type.Object({
         postId: Type.String(),
@@ -356,7 +341,14 @@ const postsMediaRoutes: FastifyPluginAsync = async (fastify) => {
     },
   }, async (request, reply) => {
     try {
-      const post = await postService.findById(request.params.postId);
+      const [userRecord] = await fastify.db
+        .select({ id: user.id })
+        .from(user)
+        .where(eq(user.userAuthId, request.user.userId))
+        .limit(1);
+
+      // Images of posts the user can't see look missing too
+      const post = await visiblePosts.findVisibleById(request.params.postId, userRecord?.id);
       if (!post) {
         return reply.code(404).send({
           success: false,
@@ -3,9 +3,13 @@ import { Type } from '@sinclair/typebox';
 import { PostServiceDrizzleQueryOptimized } from '../services/postServiceDrizzleQueryOptimized';
 import { UserProfileServiceSimple } from '../services/userProfileServiceSimple';
 import { BusinessService } from '../services/businessService';
+import { GroupService } from '../services/groupService';
+import { hasRole } from '../utils/roles';
+import { CursorPageFields, CursorQuery, parseCursor, validateCursor } from '../utils/cursor';
 
 const postRoutes: FastifyPluginAsync = async (fastify) => {
   const postService = new PostServiceDrizzleQueryOptimized(fastify.db);
+  const groupService = new GroupService(fastify.db);
   const userProfileService = new UserProfileServiceSimple(fastify.db);
   const businessService = new BusinessService(fastify.db);
  
@@ -20,9 +24,10 @@ const postRoutes: FastifyPluginAsync = async (fastify) => {
       onlyMine?: boolean;
       limit?: number;
       offset?: number;
+      cursor?: string;
     }
   }>('/', {
-    preHandler: [fastify.authenticate],
+    preHandler: [fastify.authenticate, validateCursor],
     schema: {
        querystring: Type.Object({
         userId: Type.Optional(Type.String()),
@@ -33,6 +38,7 @@ const postRoutes: FastifyPluginAsync = async (fastify) => {
         onlyMine: Type.Optional(Type.Boolean()),
         limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 10 })),
         offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 })),
+        ...CursorQuery,
       }),
       response: {
         200: Type.Object({
@@ -40,12 +46,13 @@ const postRoutes: FastifyPluginAsync = async (fastify) => {
           data: Type.Array(Type.Any()),
           total: Type.Integer(),
           limit: Type.Integer(),
-          offset: Type.Integer(),
+          ...CursorPageFields,
         }),
       },
     },
   }, async (request, reply) => {
-    const { onlyMine, ...filters } = request.query;
+    const { onlyMine, cursor, ...query } = request.query;
+    const filters = { ...query, cursor: parseCursor(cursor) };
 
     const userProfile = await userProfileService.findByAuthUserId(request.user.userId);
     
@@ -185,6 +192,14 @@ const postRoutes: FastifyPluginAsync = async (fastify) => {
       });
     }
 
+    // Posts in groups that aren't open are only visible to the group's members
+    if (post.groupId && !(currentUserProfile && await groupService.canViewContent(currentUserProfile.id, post.groupId))) {
+      return reply.code(404).send({
+        success: false,
+        error: 'Post not found',
+      });
+    }
+
     return {
       success: true,
       data: post,
@@ -325,6 +340,12 @@ const postRoutes: FastifyPluginAsync = async (fastify) => {
     }
   });
 
+  // A post waiting for its video is published when the video is ready, not by editing it
+  if (post.status === 'processing') {
+    cleanedBody.status = 'processing';
+    delete cleanedBody.videoUrl;
+  }
+
     const updated = await postService.update(postId, cleanedBody);
     
     return {
@@ -360,9 +381,10 @@ const postRoutes: FastifyPluginAsync = async (fastify) => {
       });
     }
 
-    // Check ownership
+    // Check ownership (moderators can remove any post)
     const userProfile = await userProfileService.findByAuthUserId(authUserId);
-    if (!userProfile || post.postByUserId !== userProfile.id) {
+    const isModerator = hasRole(request.user.authUser, 'moderator');
+    if (!isModerator && (!userProfile || post.postByUserId !== userProfile.id)) {
       // Also check if it's posted by their business
       if (post.postByBusinessId) {
         const business = await businessService.findById(post.postByBusinessId);
@@ -388,9 +410,51 @@ const postRoutes: FastifyPluginAsync = async (fastify) => {
     };
   });
 
+  // Posts from the current user's network: members they follow or are connected with,
+  // and businesses they follow
+  fastify.get<{ Querystring: { limit?: number, offset?: number, cursor?: string } }>('/feed/following', {
+    preHandler: [fastify.authenticate, validateCursor],
+    schema: {
+      querystring: Type.Object({
+        limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 10 })),
+        offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 })),
+        ...CursorQuery,
+      }),
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: Type.Array(Type.Any()),
+          total: Type.Integer(),
+          limit: Type.Integer(),
+          ...CursorPageFields,
+        }),
+      },
+    },
+  }, async (request, reply) => {
+    const userProfile = await userProfileService.findByAuthUserId(request.user.userId);
+    if (!userProfile) {
+      return reply.code(403).send({
+        success: false,
+        error: 'User profile required to view your feed',
+      });
+    }
+
+    const { limit, offset, cursor } = request.query;
+    const result = await postService.getUserFeed(
+      userProfile.id,
+      { limit, offset, cursor: parseCursor(cursor), mode: 'following' },
+      userProfile.id
+    );
+
+    return {
+      success: true,
+      ...result,
+    };
+  });
+
   // Get posts by user
-  fastify.get<{ Params: { userId: string } , Querystring: { limit?: number, offset?: number } }>('/user/:userId', {
-    preHandler: [fastify.authenticate],
+  fastify.get<{ Params: { userId: string } , Querystring: { limit?: number, offset?: number, cursor?: string } }>('/user/:userId', {
+    preHandler: [fastify.authenticate, validateCursor],
     schema: {
       params: Type.Object({
         userId: Type.String(),
@@ -398,6 +462,7 @@ const postRoutes: FastifyPluginAsync = async (fastify) => {
       querystring: Type.Object({
         limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 10 })),
         offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 })),
+        ...CursorQuery,
       }),
       response: {
         200: Type.Object({
@@ -405,15 +470,15 @@ const postRoutes: FastifyPluginAsync = async (fastify) => {
           data: Type.Array(Type.Any()),
           total: Type.Integer(),
           limit: Type.Integer(),
-          offset: Type.Integer(),
+          ...CursorPageFields,
         }),
       },
     },
   }, async (request, reply) => {
     const { userId } = request.params;
-    const { limit, offset } = request.query;
+    const { limit, offset, cursor } = request.query;
     
-    const result = await postService.getUserFeed(userId, { limit, offset });
+    const result = await postService.getUserFeed(userId, { limit, offset, cursor: parseCursor(cursor) });
     
     return {
       success: true,
@@ -422,8 +487,8 @@ const postRoutes: FastifyPluginAsync = async (fastify) => {
   });
 
   // Get posts by business
-  fastify.get<{ Params: { businessId: any }, Querystring: { limit?: number, offset?: number } }> ('/business/:businessId', {
-    preHandler: [fastify.authenticate],
+  fastify.get<{ Params: { businessId: any }, Querystring: { limit?: number, offset?: number, cursor?: string } }> ('/business/:businessId', {
+    preHandler: [fastify.authenticate, validateCursor],
     schema: {
       params: Type.Object({
         businessId: Type.String(),
@@ -431,6 +496,7 @@ const postRoutes: FastifyPluginAsync = async (fastify) => {
       querystring: Type.Object({
         limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 10 })),
         offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 })),
+        ...CursorQuery,
       }),
       response: {
         200: Type.Object({
@@ -438,18 +504,19 @@ const postRoutes: FastifyPluginAsync = async (fastify) => {
           data: Type.Array(Type.Any()),
           total: Type.Integer(),
           limit: Type.Integer(),
-          offset: Type.Integer(),
+          ...CursorPageFields,
         }),
       },
     },
   }, async (request, reply) => {
     const { businessId } = request.params;
-    const { limit, offset } = request.query;
+    const { limit, offset, cursor } = request.query;
     
     const result = await postService.list({
       businessId,
       limit: limit || 10,
       offset: offset || 0,
+      cursor: parseCursor(cursor),
     });
     
     return {
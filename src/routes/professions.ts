@@ -90,7 +90,7 @@ const professionRoutes: FastifyPluginAsync = async (fastify) => {
 
   // Create custom profession
   fastify.post('/', {
-    preHandler: [fastify.authenticate],
+    preHandler: [fastify.authenticate, fastify.requireRole('editor')],
     schema: {
       body: Type.Object({
         name: Type.String({ maxLength: 100 }),
@@ -239,7 +239,7 @@ const professionRoutes: FastifyPluginAsync = async (fastify) => {
 
   // Create custom specialization
   fastify.post('/specializations', {
-    preHandler: [fastify.authenticate],
+    preHandler: [fastify.authenticate, fastify.requireRole('editor')],
     schema: {
       body: Type.Object({
         name: Type.String({ maxLength: 100 }),
@@ -0,0 +1,224 @@
+import { FastifyPluginAsync, FastifyReply } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import { SavedSearchService, SavedSearchError } from '../services/savedSearchService';
+import {
+  savedSearchKinds,
+  savedSearchFrequencies,
+  type SavedSearchKind,
+  type SavedSearchFrequency,
+} from '../models/saved_searches';
+import { MemberFilterQuery } from '../utils/searchFilters';
+
+const KindSchema = Type.Union(savedSearchKinds.map(kind => Type.Literal(kind)));
+const FrequencySchema = Type.Union(savedSearchFrequencies.map(frequency => Type.Literal(frequency)));
+
+// Every directory's filter fields; the ones that don't apply to the search's kind are dropped
+const FiltersSchema = Type.Object(MemberFilterQuery);
+
+const SavedSearchSchema = Type.Object({
+  id: Type.String(),
+  name: Type.String(),
+  kind: Type.String(),
+  filters: Type.Record(Type.String(), Type.Any()),
+  frequency: Type.String(),
+  lastRunAt: Type.Any(),
+  nextRunAt: Type.Any(),
+  createdAt: Type.Any(),
+  updatedAt: Type.Any(),
+});
+
+const IdParams = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+});
+
+const savedSearchRoutes: FastifyPluginAsync = async (fastify) => {
+  const savedSearchService = new SavedSearchService(fastify.db);
+
+  const sendError = (reply: FastifyReply, error: unknown) => {
+    if (error instanceof SavedSearchError) {
+      return reply.code(error.statusCode).send({
+        success: false,
+        error: error.message,
+      });
+    }
+    throw error;
+  };
+
+  fastify.get<{ Querystring: { limit?: number; offset?: number } }>('/', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      querystring: Type.Object({
+        limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 20 })),
+        offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 })),
+      }),
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: Type.Array(SavedSearchSchema),
+          total: Type.Integer(),
+          limit: Type.Integer(),
+          offset: Type.Integer(),
+        }),
+      },
+    },
+  }, async (request) => {
+    const result = await savedSearchService.list(request.user.userId, request.query);
+
+    return {
+      success: true,
+      ...result,
+    };
+  });
+
+  fastify.post<{ Body: { name: string; kind: SavedSearchKind; filters: Record<string, any>; frequency?: SavedSearchFrequency } }>('/', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      body: Type.Object({
+        name: Type.String({ minLength: 1, maxLength: 100 }),
+        kind: KindSchema,
+        filters: FiltersSchema,
+        frequency: Type.Optional(FrequencySchema),
+      }),
+      response: {
+        201: Type.Object({
+          success: Type.Boolean(),
+          data: SavedSearchSchema,
+        }),
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const search = await savedSearchService.create(request.user.userId, request.body);
+
+      return reply.code(201).send({
+        success: true,
+        data: search,
+      });
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  fastify.get<{ Params: { id: string } }>('/:id', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      params: IdParams,
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: SavedSearchSchema,
+        }),
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const search = await savedSearchService.get(request.user.userId, request.params.id);
+
+      return {
+        success: true,
+        data: search,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // Rename, change filters or change alert frequency
+  fastify.patch<{ Params: { id: string }; Body: { name?: string; filters?: Record<string, any>; frequency?: SavedSearchFrequency } }>('/:id', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      params: IdParams,
+      body: Type.Object({
+        name: Type.Optional(Type.String({ minLength: 1, maxLength: 100 })),
+        filters: Type.Optional(FiltersSchema),
+        frequency: Type.Optional(FrequencySchema),
+      }),
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: SavedSearchSchema,
+        }),
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const search = await savedSearchService.update(request.user.userId, request.params.id, request.body);
+
+      return {
+        success: true,
+        data: search,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  fastify.delete<{ Params: { id: string } }>('/:id', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      params: IdParams,
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: Type.Object({
+            message: Type.String(),
+          }),
+        }),
+      },
+    },
+  }, async (request, reply) => {
+    const deleted = await savedSearchService.delete(request.user.userId, request.params.id);
+
+    if (!deleted) {
+      return reply.code(404).send({
+        success: false,
+        error: 'Saved search not found',
+      });
+    }
+
+    return {
+      success: true,
+      data: {
+        message: 'Saved search deleted',
+      },
+    };
+  });
+
+  // Matches created since the last alert, newest first
+  fastify.get<{ Params: { id: string }; Querystring: { limit?: number } }>('/:id/matches', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      params: IdParams,
+      querystring: Type.Object({
+        limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 50, default: 20 })),
+      }),
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: Type.Array(Type.Object({
+            id: Type.String(),
+            label: Type.String(),
+          })),
+          total: Type.Integer(),
+          since: Type.Any(),
+        }),
+      },
+    },
+  }, async (request, reply) => {
+    try {
+      const search = await savedSearchService.get(request.user.userId, request.params.id);
+      const { total, matches } = await savedSearchService.newMatches(search, request.query.limit || 20);
+
+      return {
+        success: true,
+        data: matches,
+        total,
+        since: search.lastRunAt,
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+};
+
+export default savedSearchRoutes;
@@ -1,9 +1,14 @@
 import { FastifyPluginAsync } from 'fastify';
 import { Type } from '@sinclair/typebox';
-import { SearchServiceEnhanced } from '../services/searchServiceEnhanced';
+import { SearchServiceEnhanced, type SuggestionType } from '../services/searchServiceEnhanced';
+import { NearbySearchService, NearbySearchError } from '../services/nearbySearchService';
+import { BusinessSearchFilterQuery, JobFilterQuery } from '../utils/searchFilters';
+
+const SUGGESTION_TYPES: SuggestionType[] = ['users', 'businesses', 'professions', 'specializations', 'cities'];
 
 const searchRoutes: FastifyPluginAsync = async (fastify) => {
   const searchService = new SearchServiceEnhanced(fastify.db);
+  const nearbySearchService = new NearbySearchService(fastify.db);
 
   // Global search across all content types
   fastify.get('/all', {
@@ -11,7 +16,7 @@ const searchRoutes: FastifyPluginAsync = async (fastify) => {
     schema: {
       querystring: Type.Object({
         query: Type.String({ minLength: 1 }),
-        types: Type.Optional(Type.String()), // comma-separated: users,businesses,posts,news
+        types: Type.Optional(Type.String()), // comma-separated: users,businesses,posts,news,jobs
         limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 50, default: 5 })),
       }),
       response: {
@@ -22,13 +27,16 @@ const searchRoutes: FastifyPluginAsync = async (fastify) => {
             businesses: Type.Optional(Type.Array(Type.Any())),
             posts: Type.Optional(Type.Array(Type.Any())),
             news: Type.Optional(Type.Array(Type.Any())),
+            jobs: Type.Optional(Type.Array(Type.Any())),
           }),
           totals: Type.Object({
             users: Type.Integer(),
             businesses: Type.Integer(),
             posts: Type.Integer(),
             news: Type.Integer(),
+            jobs: Type.Integer(),
           }),
+          didYouMean: Type.Union([Type.String(), Type.Null()]),
         }),
       },
     },
@@ -36,7 +44,7 @@ const searchRoutes: FastifyPluginAsync = async (fastify) => {
     const { query, types: typesString, limit } = request.query;
     
     const types = typesString 
-      ? typesString.split(',').filter((t:any) => ['users', 'businesses', 'posts', 'news'].includes(t)) as any
+      ? typesString.split(',').filter((t:any) => ['users', 'businesses', 'posts', 'news', 'jobs'].includes(t)) as any
       : undefined;
 
     const searchResults = await searchService.globalSearch(query, { types, limit });
@@ -69,9 +77,10 @@ const searchRoutes: FastifyPluginAsync = async (fastify) => {
             specialization: Type.Union([Type.String(), Type.Null()]),
             graduationYear: Type.Union([Type.Integer(), Type.Null()]),
             bloodGroup: Type.Union([Type.String(), Type.Null()]),
+            snippet: Type.Union([Type.String(), Type.Null()]),
           })),
           total: Type.Integer(),
-      
+          didYouMean: Type.Union([Type.String(), Type.Null()]),
         }),
         
       },
@@ -83,7 +92,8 @@ const searchRoutes: FastifyPluginAsync = async (fastify) => {
     return {
       success: true,
       data: result.users,
-      total: result.total
+      total: result.total,
+      didYouMean: result.didYouMean,
     };
   });
 
@@ -92,7 +102,7 @@ const searchRoutes: FastifyPluginAsync = async (fastify) => {
     preHandler: [fastify.authenticate],
     schema: {
       querystring: Type.Object({
-        query: Type.String({ minLength: 1 }),
+        ...BusinessSearchFilterQuery,
         limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 50, default: 10 })),
       }),
       response: {
@@ -104,8 +114,10 @@ const searchRoutes: FastifyPluginAsync = async (fastify) => {
             category: Type.Union([Type.String(), Type.Null()]),
             location: Type.Union([Type.String(), Type.Null()]),
             logo: Type.Union([Type.String(), Type.Null()]),
+            snippet: Type.Union([Type.String(), Type.Null()]),
           })),
            total: Type.Integer(),
+           didYouMean: Type.Union([Type.String(), Type.Null()]),
         }),
        
       },
@@ -117,7 +129,8 @@ const searchRoutes: FastifyPluginAsync = async (fastify) => {
     return {
       success: true,
       data: result.businesses,
-      total: result.total
+      total: result.total,
+      didYouMean: result.didYouMean,
     };
   });
 
@@ -142,8 +155,10 @@ const searchRoutes: FastifyPluginAsync = async (fastify) => {
               lastName: Type.String(),
             }), Type.Null()]),
             publishedAt: Type.Any(),
+            snippet: Type.Union([Type.String(), Type.Null()]),
           })),
           postscount:Type.Integer(),
+          didYouMean: Type.Union([Type.String(), Type.Null()]),
         }),
       },
     },
@@ -154,7 +169,8 @@ const searchRoutes: FastifyPluginAsync = async (fastify) => {
     return {
       success: true,
       data: result.posts,
-      postscount:result.posts.length
+      postscount: result.postscount,
+      didYouMean: result.didYouMean,
     };
   });
 
@@ -174,9 +190,11 @@ const searchRoutes: FastifyPluginAsync = async (fastify) => {
             summary: Type.String(),
             publishedAt: Type.Any(),
             featured: Type.Union([Type.Boolean(), Type.Null()]),
-            category: Type.String()
+            category: Type.String(),
+            snippet: Type.Union([Type.String(), Type.Null()]),
           })),
           newscount: Type.Integer(),
+          didYouMean: Type.Union([Type.String(), Type.Null()]),
         }),
       },
     },
@@ -187,39 +205,148 @@ const searchRoutes: FastifyPluginAsync = async (fastify) => {
     return {
       success: true,
       data: result.articles || [],
-      newscount: result.newscount
+      newscount: result.newscount,
+      didYouMean: result.didYouMean,
     };
   });
 
-  // Get search suggestions
-  // fastify.get('/suggestions', {
-  //   preHandler: [fastify.authenticate],
-  //   schema: {
-  //     querystring: Type.Object({
-  //       query: Type.String({ minLength: 1 }),
-  //       type: Type.Union([
-  //         Type.Literal('users'),
-  //         Type.Literal('businesses'),
-  //         Type.Literal('locations'),
-  //         Type.Literal('professions'),
-  //       ]),
-  //     }),
-  //     response: {
-  //       200: Type.Object({
-  //         success: Type.Boolean(),
-  //         suggestions: Type.Array(Type.String()),
-  //       }),
-  //     },
-  //   },
-  // }, async (request, reply) => {
-  //   const { query, type } = request.query;
-  //   const suggestions = await searchService.getSuggestions(query, type);
-    
-  //   return {
-  //     success: true,
-  //     suggestions,
-  //   };
-  // });
+  // Search open jobs, with the job board filters
+  fastify.get('/jobs', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      querystring: Type.Object({
+        query: Type.String({ minLength: 1 }),
+        ...JobFilterQuery,
+        limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 50, default: 10 })),
+      }),
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: Type.Array(Type.Any()),
+          total: Type.Integer(),
+          didYouMean: Type.Union([Type.String(), Type.Null()]),
+        }),
+      },
+    },
+  }, async (request:any) => {
+    const { query, limit, ...filters } = request.query;
+    const result = await searchService.searchJobs(query, limit, {}, filters);
+
+    return {
+      success: true,
+      data: result.jobs,
+      total: result.total,
+      didYouMean: result.didYouMean,
+    };
+  });
+
+  // Typeahead suggestions across people, companies, professions, specializations and cities
+  fastify.get('/suggestions', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      querystring: Type.Object({
+        query: Type.String({ minLength: 2 }),
+        types: Type.Optional(Type.String()), // comma-separated: users,businesses,professions,specializations,cities
+        limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 20, default: 8 })),
+      }),
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: Type.Array(Type.Object({
+            type: Type.String(),
+            id: Type.String(),
+            label: Type.String(),
+            subtitle: Type.Union([Type.String(), Type.Null()]),
+            score: Type.Number(),
+          })),
+        }),
+      },
+    },
+  }, async (request:any) => {
+    const { query, types: typesString, limit } = request.query;
+
+    const types = typesString
+      ? typesString.split(',').filter((t: any) => SUGGESTION_TYPES.includes(t)) as SuggestionType[]
+      : undefined;
+
+    const suggestions = await searchService.getSuggestions(query, { types, limit });
+
+    return {
+      success: true,
+      data: suggestions,
+    };
+  });
+
+  // Members, doctors or businesses within radiusKm of a point, nearest first
+  fastify.get('/nearby', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      querystring: Type.Object({
+        lat: Type.Number({ minimum: -90, maximum: 90 }),
+        lng: Type.Number({ minimum: -180, maximum: 180 }),
+        radiusKm: Type.Optional(Type.Number({ exclusiveMinimum: 0, maximum: 100, default: 10 })),
+        type: Type.Optional(Type.Union([
+          Type.Literal('users'),
+          Type.Literal('businesses'),
+          Type.Literal('doctors'),
+        ], { default: 'users' })),
+        limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 50, default: 20 })),
+        offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 })),
+      }),
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          data: Type.Array(Type.Object({
+            id: Type.String(),
+            firstName: Type.Optional(Type.String()),
+            lastName: Type.Optional(Type.String()),
+            profilePic: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+            currentCity: Type.Optional(Type.String()),
+            organization: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+            profession: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+            specialization: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+            companyName: Type.Optional(Type.String()),
+            category: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+            location: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+            logo: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+            latitude: Type.Number(),
+            longitude: Type.Number(),
+            distanceKm: Type.Number(),
+          })),
+          total: Type.Integer(),
+          limit: Type.Integer(),
+          offset: Type.Integer(),
+        }),
+      },
+    },
+  }, async (request:any, reply) => {
+    const { lat, lng, radiusKm = 10, type = 'users', limit = 20, offset = 0 } = request.query;
+
+    try {
+      const result = await nearbySearchService.search(type, {
+        latitude: lat,
+        longitude: lng,
+        radiusKm,
+        limit,
+        offset,
+      });
+
+      return {
+        success: true,
+        ...result,
+        limit,
+        offset,
+      };
+    } catch (error) {
+      if (error instanceof NearbySearchError) {
+        return reply.code(error.statusCode).send({
+          success: false,
+          error: error.message,
+        });
+      }
+      throw error;
+    }
+  });
 };
 
-export default searchRoutes;
\ No newline at end of file
+export default searchRoutes;
@@ -1,6 +1,7 @@
 import { FastifyPluginAsync } from 'fastify';
 import { Type } from '@sinclair/typebox';
 import { SessionService } from '../services/sessionService';
+import { isExpoPushToken } from '../services/pushService';
 
 const sessionRoutes: FastifyPluginAsync = async (fastify) => {
   const sessionService = new SessionService(fastify.db, fastify);
@@ -98,7 +99,7 @@ const sessionRoutes: FastifyPluginAsync = async (fastify) => {
       },
     },
   }, async (request, reply) => {
-    const sessionId = request.headers.authorization?.split(' ')[1]; // Get from token
+    const { sessionId } = request.user;
     
     if (!sessionId) {
       return reply.code(401).send({
@@ -153,8 +154,8 @@ const sessionRoutes: FastifyPluginAsync = async (fastify) => {
       },
     },
   }, async (request, reply) => {
-    const currentSessionId = request.headers.authorization?.split(' ')[1];
-    const sessions = await sessionService.getUserSessions(request.user!.id);
+    const currentSessionId = request.user.sessionId;
+    const sessions = await sessionService.getUserSessions(request.user.userId);
     
     return {
       success: true,
@@ -189,7 +190,7 @@ const sessionRoutes: FastifyPluginAsync = async (fastify) => {
       },
     },
   }, async (request, reply) => {
-    const stats = await sessionService.getSessionStats(request.user!.id);
+    const stats = await sessionService.getSessionStats(request.user.userId);
     
     return {
       success: true,
@@ -228,7 +229,7 @@ const sessionRoutes: FastifyPluginAsync = async (fastify) => {
     },
   }, async (request, reply) => {
     const { days = 7 } = request.query;
-    const summary = await sessionService.getActivitySummary(request.user!.id, days);
+    const summary = await sessionService.getActivitySummary(request.user.userId, days);
     
     return {
       success: true,
@@ -254,7 +255,7 @@ const sessionRoutes: FastifyPluginAsync = async (fastify) => {
     },
   }, async (request, reply) => {
     const { sessionId } = request.params;
-    const revoked = await sessionService.revokeSession(sessionId, request.user!.id);
+    const revoked = await sessionService.revokeSession(sessionId, request.user.userId);
     
     if (!revoked) {
       return reply.code(404).send({
@@ -286,9 +287,9 @@ const sessionRoutes: FastifyPluginAsync = async (fastify) => {
       },
     },
   }, async (request, reply) => {
-    const currentSessionId = request.headers.authorization?.split(' ')[1] || '';
+    const currentSessionId = request.user.sessionId || '';
     const revokedCount = await sessionService.revokeAllOtherSessions(
-      request.user!.id,
+      request.user.userId,
       currentSessionId
     );
     
@@ -316,7 +317,7 @@ const sessionRoutes: FastifyPluginAsync = async (fastify) => {
       },
     },
   }, async (request, reply) => {
-    const revokedCount = await sessionService.revokeAllSessions(request.user!.id);
+    const revokedCount = await sessionService.revokeAllSessions(request.user.userId);
     
     return {
       success: true,
@@ -345,7 +346,7 @@ const sessionRoutes: FastifyPluginAsync = async (fastify) => {
       },
     },
   }, async (request, reply) => {
-    const sessionId = request.headers.authorization?.split(' ')[1];
+    const { sessionId } = request.user;
     
     if (!sessionId) {
       return reply.code(401).send({
@@ -373,13 +374,15 @@ const sessionRoutes: FastifyPluginAsync = async (fastify) => {
     };
   });
 
-  // Update session device info
-  fastify.put('/device', {
+  // Update session device info. `pushToken` registers the device's Expo push
+  // token for this session; null removes it.
+  fastify.put<{ Body: { deviceName?: string; deviceType?: string; pushToken?: string | null } }>('/device', {
     preHandler: [fastify.authenticate],
     schema: {
       body: Type.Object({
         deviceName: Type.Optional(Type.String()),
         deviceType: Type.Optional(Type.String()),
+        pushToken: Type.Optional(Type.Union([Type.String(), Type.Null()])),
       }),
       response: {
         200: Type.Object({
@@ -391,7 +394,7 @@ const sessionRoutes: FastifyPluginAsync = async (fastify) => {
       },
     },
   }, async (request, reply) => {
-    const sessionId = request.headers.authorization?.split(' ')[1];
+    const { sessionId } = request.user;
     
     if (!sessionId) {
       return reply.code(401).send({
@@ -400,7 +403,16 @@ const sessionRoutes: FastifyPluginAsync = async (fastify) => {
       });
     }
 
-    const session = await sessionService.updateSessionDevice(sessionId, request.body);
+    const { pushToken, ...deviceInfo } = request.body;
+
+    if (pushToken && !isExpoPushToken(pushToken)) {
+      return reply.code(400).send({
+        success: false,
+        error: 'Invalid Expo push token',
+      });
+    }
+
+    const session = await sessionService.updateSessionDevice(sessionId, deviceInfo);
     
     if (!session) {
       return reply.code(404).send({
@@ -409,6 +421,12 @@ const sessionRoutes: FastifyPluginAsync = async (fastify) => {
       });
     }
 
+    if (pushToken) {
+      await fastify.push.registerToken(request.user.userId, sessionId, pushToken);
+    } else if (pushToken === null) {
+      await fastify.push.removeSessionToken(sessionId);
+    }
+
     return {
       success: true,
       data: {
@@ -438,7 +456,7 @@ const sessionRoutes: FastifyPluginAsync = async (fastify) => {
     },
   }, async (request, reply) => {
     const { deviceId } = request.params;
-    const sessions = await sessionService.getDeviceSessions(request.user!.id, deviceId);
+    const sessions = await sessionService.getDeviceSessions(request.user.userId, deviceId);
     
     return {
       success: true,
@@ -0,0 +1,88 @@
+import { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import { UploadTicketService, type UploadTicketInput } from '../services/uploadTicketService';
+import { MediaUploadError } from '../services/mediaUploadTargets';
+import { mediaResourceTypeEnum, mediaTagEnum } from '../models/media';
+
+const DataResponse = Type.Object({
+  success: Type.Boolean(),
+  data: Type.Any(),
+});
+
+const uploadTicketRoutes: FastifyPluginAsync = async (fastify) => {
+  const uploadTicketService = new UploadTicketService(fastify);
+
+  const sendError = (reply: FastifyReply, error: unknown) => {
+    if (error instanceof MediaUploadError) {
+      return reply.code(error.statusCode).send({
+        success: false,
+        error: error.message,
+      });
+    }
+    throw error;
+  };
+
+  // Uploads are owned by member profiles
+  const requireProfile = async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!request.user?.profile?.id) {
+      return reply.code(403).send({
+        success: false,
+        error: 'User profile required',
+      });
+    }
+  };
+
+  // Get a short-lived URL to upload one image straight to storage, bound to a resource and tag
+  fastify.post<{ Body: UploadTicketInput }>('/upload-tickets', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      body: Type.Object({
+        resourceType: Type.Union(mediaResourceTypeEnum.enumValues.map(value => Type.Literal(value))),
+        resourceId: Type.String({ format: 'uuid' }),
+        tag: Type.Union(mediaTagEnum.enumValues.map(value => Type.Literal(value))),
+        mimeType: Type.String({ pattern: '^image/' }),
+        // Bytes
+        size: Type.Integer({ minimum: 1 }),
+        filename: Type.Optional(Type.String({ minLength: 1, maxLength: 255 })),
+      }),
+      response: { 201: DataResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const ticket = await uploadTicketService.create(request.user.userId, request.user.profile.id, request.body);
+
+      return reply.code(201).send({
+        success: true,
+        data: ticket,
+      });
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+
+  // After the upload: check the file and create its media record
+  fastify.post<{ Params: { ticketId: string } }>('/upload-tickets/:ticketId/finalize', {
+    preHandler: [fastify.authenticate, requireProfile],
+    schema: {
+      params: Type.Object({
+        ticketId: Type.String({ format: 'uuid' }),
+      }),
+      response: { 200: DataResponse },
+    },
+  }, async (request, reply) => {
+    try {
+      const media = await uploadTicketService.finalize(request.user.userId, request.user.profile.id, request.params.ticketId);
+
+      return {
+        success: true,
+        data: {
+          media,
+        },
+      };
+    } catch (error) {
+      return sendError(reply, error);
+    }
+  });
+};
+
+export default uploadTicketRoutes;
@@ -1,23 +1,22 @@
 import { FastifyPluginAsync } from 'fastify';
 import { Type } from '@sinclair/typebox';
 import { UserProfileServiceSimple } from '../services/userProfileServiceSimple';
+import { AccountDeletionService } from '../services/accountDeletionService';
+import { DataExportService } from '../services/dataExportService';
+import { CursorPageFields, CursorQuery, parseCursor, validateCursor } from '../utils/cursor';
+import { DoctorFilterQuery, MemberFilterQuery, doctorListFilters, memberListFilters, type MemberFilters } from '../utils/searchFilters';
 
-interface QueryParams {
-  query?: string;
-  bloodGroup?: string;
-  professions?: string;
-  specializations?: string;
-  yearMin?: number;
-  yearMax?: number;
-  cities?: string;
-  states?: string;
-  countries?: string;
+interface QueryParams extends MemberFilters {
   limit?: number;
   offset?: number;
+  cursor?: string;
+  sort?: 'name' | 'recent';
 }
 
 const userRoutes: FastifyPluginAsync = async (fastify) => {
   const userProfileService = new UserProfileServiceSimple(fastify.db);
+  const accountDeletionService = new AccountDeletionService(fastify.db, fastify);
+  const dataExportService = new DataExportService(fastify.db);
 
   // Get current user's profile
   fastify.get('/profile', {
@@ -180,6 +179,121 @@ const userRoutes: FastifyPluginAsync = async (fastify) => {
   };
 });
 
+  // Download everything the account owns as a JSON file
+  fastify.get('/me/export', {
+    preHandler: [fastify.authenticate],
+  }, async (request, reply) => {
+    const bundle = await dataExportService.exportAccount(request.user.userId);
+
+    if (!bundle) {
+      return reply.code(404).send({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    const filename = `account-export-${new Date().toISOString().split('T')[0]}.json`;
+    return reply
+      .header('Content-Type', 'application/json; charset=utf-8')
+      .header('Content-Disposition', `attachment; filename="${filename}"`)
+      .send({
+        success: true,
+        data: bundle,
+      });
+  });
+
+  const DeletionStatusResponse = Type.Object({
+    success: Type.Boolean(),
+    data: Type.Object({
+      scheduled: Type.Boolean(),
+      requestedAt: Type.Union([Type.String(), Type.Null()]),
+      scheduledAt: Type.Union([Type.String(), Type.Null()]),
+    }),
+  });
+
+  // Account deletion status
+  fastify.get('/me/deletion', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      response: {
+        200: DeletionStatusResponse,
+      },
+    },
+  }, async (request, reply) => {
+    const status = await accountDeletionService.getStatus(request.user.userId);
+
+    if (!status) {
+      return reply.code(404).send({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    return {
+      success: true,
+      data: {
+        scheduled: status.scheduled,
+        requestedAt: status.requestedAt?.toISOString() || null,
+        scheduledAt: status.scheduledAt?.toISOString() || null,
+      },
+    };
+  });
+
+  // Request account deletion; the account is erased after the grace period
+  fastify.post('/me/deletion', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      response: {
+        202: DeletionStatusResponse,
+      },
+    },
+  }, async (request, reply) => {
+    const status = await accountDeletionService.scheduleDeletion(request.user.userId, request.user.sessionId);
+
+    if (!status) {
+      return reply.code(404).send({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    return reply.code(202).send({
+      success: true,
+      data: {
+        scheduled: status.scheduled,
+        requestedAt: status.requestedAt?.toISOString() || null,
+        scheduledAt: status.scheduledAt?.toISOString() || null,
+      },
+    });
+  });
+
+  // Cancel a pending account deletion
+  fastify.delete('/me/deletion', {
+    preHandler: [fastify.authenticate],
+    schema: {
+      response: {
+        200: Type.Object({
+          success: Type.Boolean(),
+          message: Type.String(),
+        }),
+      },
+    },
+  }, async (request, reply) => {
+    const cancelled = await accountDeletionService.cancelDeletion(request.user.userId);
+
+    if (!cancelled) {
+      return reply.code(404).send({
+        success: false,
+        message: 'No account deletion is pending',
+      });
+    }
+
+    return {
+      success: true,
+      message: 'Account deletion cancelled',
+    };
+  });
+
   // Get user by ID
   fastify.get('/:userId', {
     preHandler: [fastify.authenticate],
@@ -221,20 +335,15 @@ const userRoutes: FastifyPluginAsync = async (fastify) => {
 
   // List users with filters
   fastify.get<{ Querystring: QueryParams }>('/', {
-    preHandler: [fastify.authenticate],
+    preHandler: [fastify.authenticate, validateCursor],
     schema: {
       querystring: Type.Object({
-        query: Type.Optional(Type.String()),
-        bloodGroup: Type.Optional(Type.String()),
-        professions: Type.Optional(Type.String()), // comma-separated IDs
-        specializations: Type.Optional(Type.String()), // comma-separated IDs
-        yearMin: Type.Optional(Type.Integer()),
-        yearMax: Type.Optional(Type.Integer()),
-        cities: Type.Optional(Type.String()), // comma-separated
-        states: Type.Optional(Type.String()), // comma-separated
-        countries: Type.Optional(Type.String()), // comma-separated
+        ...MemberFilterQuery,
         limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 10 })),
         offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 })),
+        // Cursors require (and imply) newest-first order
+        sort: Type.Optional(Type.Union([Type.Literal('name'), Type.Literal('recent')], { default: 'name' })),
+        ...CursorQuery,
       }),
       response: {
         200: Type.Object({
@@ -242,58 +351,21 @@ const userRoutes: FastifyPluginAsync = async (fastify) => {
           data: Type.Array(Type.Any()),
           total: Type.Integer(),
           limit: Type.Integer(),
-          offset: Type.Integer(),
+          ...CursorPageFields,
         }),
       },
     },
   }, async (request, reply) => {
-    const {
-      query,
-      bloodGroup,
-      professions,
-      specializations,
-      yearMin,
-      yearMax,
-      cities,
-      states,
-      countries,
-      limit,
-      offset,
-    } = request.query;
-
-    console.log('Query params received:', {
-    query,
-    bloodGroup,
-    professions,
-    specializations,
-    yearMin,
-    yearMax,
-    cities,
-    states,
-    countries,
-    limit,
-    offset,
-  });
+    const { limit, offset, cursor, sort, ...filters } = request.query;
+
+    console.log('Query params received:', request.query);
 
-   const professionIds = professions?.split(',').filter(Boolean);
-  const specializationIds = specializations?.split(',').filter(Boolean);
     const result = await userProfileService.list({
-      query,
-      bloodGroup,
-      professionIds,
-      specializationIds,
-      yearRange: yearMin && yearMax ? { min: yearMin, max: yearMax } : undefined,
-      locations: {
-        cities: cities?.split(',').filter(Boolean),
-        states: states?.split(',').filter(Boolean),
-        countries: countries?.split(',').filter(Boolean),
-      } as {
-        cities?: string[];
-        states?: string[];
-        countries?: string[];
-      },
+      ...memberListFilters(filters),
       limit,
       offset,
+      cursor: parseCursor(cursor),
+      sort,
       currentUserId: request.user.userId,
     });
 
@@ -305,13 +377,15 @@ const userRoutes: FastifyPluginAsync = async (fastify) => {
 
   // Get doctors with specialization filters
   fastify.get('/doctors', {
-    preHandler: [fastify.authenticate],
+    preHandler: [fastify.authenticate, validateCursor],
     schema: {
       querystring: Type.Object({
-        specializations: Type.Optional(Type.String()), // comma-separated IDs
-        cities: Type.Optional(Type.String()), // comma-separated
+        ...DoctorFilterQuery,
         limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 10 })),
         offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 })),
+        // Cursors require (and imply) newest-first order
+        sort: Type.Optional(Type.Union([Type.Literal('name'), Type.Literal('recent')], { default: 'name' })),
+        ...CursorQuery,
       }),
       response: {
         200: Type.Object({
@@ -319,18 +393,19 @@ const userRoutes: FastifyPluginAsync = async (fastify) => {
           data: Type.Array(Type.Any()),
           total: Type.Integer(),
           limit: Type.Integer(),
-          offset: Type.Integer(),
+          ...CursorPageFields,
         }),
       },
     },
   }, async (request:any, reply) => {
-    const { specializations, cities, limit, offset } = request.query;
+    const { limit, offset, cursor, sort, ...filters } = request.query;
 
     const result = await userProfileService.listDoctors({
-      specializationIds: specializations?.split(',').filter(Boolean),
-      cities: cities?.split(',').filter(Boolean),
+      ...doctorListFilters(filters),
       limit,
       offset,
+      cursor: parseCursor(cursor),
+      sort,
       currentUserId: request.user.userId,
     });
 
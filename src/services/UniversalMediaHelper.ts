@@ -1,6 +1,6 @@
 import { eq, and, inArray, or } from 'drizzle-orm';
 import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
-import { media } from '../models/media';
+import { media, type MediaPrivacy } from '../models/media';
 
 export interface MediaRequest {
   resourceIds: string[];
@@ -18,6 +18,7 @@ export interface MediaRecord {
   resourceType: string;
   tag: string;
   position?: number;
+  privacy?: MediaPrivacy;
 }
 
 export interface ProcessedMedia {
@@ -44,10 +45,17 @@ export interface ResourceDescriptor {
   tags?: string[];
 }
 
+/**
+ * Media for feeds and listings, where URLs are permanent and shared. Only public media is
+ * included; anything else is served through MediaAccessService's signed URLs.
+ */
 export class UniversalMediaHelper {
   constructor(private db: NodePgDatabase<any>) {}
 
   private getBestImageUrl(mediaRecord: MediaRecord): string {
+    if (mediaRecord?.privacy && mediaRecord.privacy !== 'public') {
+      return '';
+    }
     if (mediaRecord?.variants && typeof mediaRecord.variants === 'object') {
       return mediaRecord.variants.public || mediaRecord.url;
     }
@@ -75,7 +83,8 @@ export class UniversalMediaHelper {
 
       let condition = and(
         inArray(media.resourceId, request.resourceIds),
-        eq(media.resourceType, request.resourceType)
+        eq(media.resourceType, request.resourceType),
+        eq(media.privacy, 'public')
       );
 
       if (request.tags && request.tags.length > 0) {
@@ -197,13 +206,13 @@ export class UniversalMediaHelper {
         position: media.position,
       })
       .from(media)
-      .where(inArray(media.id, mediaIds));
+      .where(and(inArray(media.id, mediaIds), eq(media.privacy, 'public')));
 
     return mediaRecords.map(record => this.processMediaRecord(record));
   }
 
   transformToSimpleMedia(mediaRecord: any): { id: string; url: string } | null {
-    if (!mediaRecord) return null;
+    if (!mediaRecord || (mediaRecord.privacy && mediaRecord.privacy !== 'public')) return null;
     return {
       id: mediaRecord.id,
       url: this.getBestImageUrl(mediaRecord),
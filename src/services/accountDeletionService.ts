@@ -0,0 +1,270 @@
+import { eq, and, or, inArray, isNotNull, lte } from 'drizzle-orm';
+import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import type { FastifyInstance } from 'fastify';
+import { authUsers } from '../models/authUser';
+import { user } from '../models/user';
+import { businessDetails } from '../models/business_details';
+import { postUpdates } from '../models/post_updates';
+import { comments } from '../models/comments';
+import { commentReplies } from '../models/comment_replies';
+import { favourites } from '../models/favourites';
+import { media } from '../models/media';
+import { news } from '../models/news';
+import { connections } from '../models/connections';
+import { messages } from '../models/messages';
+import { events } from '../models/events';
+import { handOverOwnership } from './groupService';
+import { jobPostings } from '../models/job_postings';
+import { jobApplications } from '../models/job_applications';
+import type { MediaStorageProvider } from './mediaStorage';
+import { SessionService } from './sessionService';
+
+export interface DeletionStatus {
+  scheduled: boolean;
+  requestedAt: Date | null;
+  scheduledAt: Date | null;
+}
+
+export class AccountDeletionService {
+  private storage: MediaStorageProvider;
+  private sessionService: SessionService;
+
+  constructor(
+    private db: NodePgDatabase<any>,
+    private fastify: FastifyInstance
+  ) {
+    this.storage = fastify.mediaStorage;
+    this.sessionService = new SessionService(db, fastify);
+  }
+
+  async getStatus(authUserId: string): Promise<DeletionStatus | null> {
+    const [account] = await this.db
+      .select({
+        requestedAt: authUsers.deletionRequestedAt,
+        scheduledAt: authUsers.deletionScheduledAt,
+      })
+      .from(authUsers)
+      .where(eq(authUsers.id, authUserId))
+      .limit(1);
+
+    if (!account) return null;
+
+    return {
+      scheduled: !!account.scheduledAt,
+      requestedAt: account.requestedAt,
+      scheduledAt: account.scheduledAt,
+    };
+  }
+
+  /**
+   * Schedule erasure after the grace period and sign out every other session.
+   * Requesting again keeps the original schedule.
+   */
+  async scheduleDeletion(authUserId: string, currentSessionId?: string): Promise<DeletionStatus | null> {
+    const existing = await this.getStatus(authUserId);
+    if (!existing || existing.scheduled) return existing;
+
+    const requestedAt = new Date();
+    const scheduledAt = new Date(requestedAt);
+    scheduledAt.setDate(scheduledAt.getDate() + this.fastify.config.ACCOUNT_DELETION_GRACE_DAYS);
+
+    await this.db
+      .update(authUsers)
+      .set({ deletionRequestedAt: requestedAt, deletionScheduledAt: scheduledAt, updatedAt: requestedAt })
+      .where(eq(authUsers.id, authUserId));
+
+    if (currentSessionId) {
+      await this.sessionService.revokeAllOtherSessions(authUserId, currentSessionId);
+    } else {
+      await this.sessionService.revokeAllSessions(authUserId);
+    }
+
+    return { scheduled: true, requestedAt, scheduledAt };
+  }
+
+  async cancelDeletion(authUserId: string): Promise<boolean> {
+    const [updated] = await this.db
+      .update(authUsers)
+      .set({ deletionRequestedAt: null, deletionScheduledAt: null, updatedAt: new Date() })
+      .where(and(eq(authUsers.id, authUserId), isNotNull(authUsers.deletionScheduledAt)))
+      .returning({ id: authUsers.id });
+
+    return !!updated;
+  }
+
+  /**
+   * Erase every account whose grace period has ended (run periodically)
+   */
+  async purgeDueAccounts(): Promise<number> {
+    const due = await this.db
+      .select({ id: authUsers.id })
+      .from(authUsers)
+      .where(lte(authUsers.deletionScheduledAt, new Date()));
+
+    let erased = 0;
+    for (const account of due) {
+      try {
+        await this.eraseAccount(account.id);
+        erased++;
+      } catch (error) {
+        this.fastify.log.error({ err: error, authUserId: account.id }, 'Account erasure failed');
+      }
+    }
+
+    if (erased > 0) {
+      this.fastify.log.info(`Erased ${erased} account(s) after deletion grace period`);
+    }
+
+    return erased;
+  }
+
+  /**
+   * Permanently delete an account and everything it owns.
+   * Rows referencing auth_users with ON DELETE CASCADE (sessions, tokens, identities, ...)
+   * go with the account row. News articles are editorial content and are kept without an author.
+   */
+  async eraseAccount(authUserId: string): Promise<void> {
+    const storedMedia = await this.db.transaction(async (tx) => {
+      const profiles = await tx
+        .select({ id: user.id })
+        .from(user)
+        .where(eq(user.userAuthId, authUserId));
+      const profileIds = profiles.map(p => p.id);
+
+      const mediaRefs: Array<{ type: 'user_profile' | 'business' | 'post' | 'comment' | 'message' | 'event' | 'job_application'; ids: string[] }> = [];
+
+      if (profileIds.length > 0) {
+        const businesses = await tx
+          .select({ id: businessDetails.id })
+          .from(businessDetails)
+          .where(inArray(businessDetails.userId, profileIds));
+        const businessIds = businesses.map(b => b.id);
+
+        const posts = await tx
+          .select({ id: postUpdates.id })
+          .from(postUpdates)
+          .where(businessIds.length > 0
+            ? or(inArray(postUpdates.postByUserId, profileIds), inArray(postUpdates.postByBusinessId, businessIds))
+            : inArray(postUpdates.postByUserId, profileIds));
+        const postIds = posts.map(p => p.id);
+
+        // The user's own comments, plus every comment on the user's posts
+        const ownedComments = await tx
+          .select({ id: comments.id })
+          .from(comments)
+          .where(postIds.length > 0
+            ? or(inArray(comments.userProfileId, profileIds), inArray(comments.postUpdatesId, postIds))
+            : inArray(comments.userProfileId, profileIds));
+        const commentIds = ownedComments.map(c => c.id);
+
+        await tx
+          .delete(commentReplies)
+          .where(commentIds.length > 0
+            ? or(inArray(commentReplies.userProfileId, profileIds), inArray(commentReplies.commentsId, commentIds))
+            : inArray(commentReplies.userProfileId, profileIds));
+
+        if (commentIds.length > 0) {
+          await tx.delete(comments).where(inArray(comments.id, commentIds));
+        }
+
+        if (postIds.length > 0) {
+          await tx.delete(postUpdates).where(inArray(postUpdates.id, postIds));
+        }
+
+        // The user's job applications, and applications to the businesses' jobs, go too;
+        // collect them for their resumes
+        const applications = await tx
+          .select({ id: jobApplications.id })
+          .from(jobApplications)
+          .where(businessIds.length > 0
+            ? or(
+              inArray(jobApplications.applicantId, profileIds),
+              inArray(jobApplications.jobId, tx.select({ id: jobPostings.id }).from(jobPostings).where(inArray(jobPostings.businessId, businessIds)))
+            )
+            : inArray(jobApplications.applicantId, profileIds));
+
+        if (businessIds.length > 0) {
+          await tx.delete(businessDetails).where(inArray(businessDetails.id, businessIds));
+        }
+
+        // Favourites the user made, and other users' favourites of deleted content
+        const likedIds = [...profileIds, ...businessIds, ...postIds, ...commentIds];
+        await tx
+          .delete(favourites)
+          .where(or(inArray(favourites.userId, profileIds), inArray(favourites.likedTypeId, likedIds)));
+
+        // Follows, connections and blocks pointing at the deleted profile or businesses;
+        // the user's own rows cascade with the profile
+        await tx
+          .delete(connections)
+          .where(or(
+            and(eq(connections.targetType, 'user'), inArray(connections.targetId, profileIds)),
+            businessIds.length > 0
+              ? and(eq(connections.targetType, 'business'), inArray(connections.targetId, businessIds))
+              : undefined
+          ));
+
+        // Groups the user owns stay with their members; memberships cascade with the profile
+        await handOverOwnership(tx, profileIds);
+
+        // Sent messages go with the profile; collect them for their attachments
+        const sentMessages = await tx
+          .select({ id: messages.id })
+          .from(messages)
+          .where(inArray(messages.senderId, profileIds));
+
+        // Events the user created go with the profile; collect them for their banners
+        const createdEvents = await tx
+          .select({ id: events.id })
+          .from(events)
+          .where(inArray(events.createdBy, profileIds));
+
+        mediaRefs.push(
+          { type: 'user_profile', ids: profileIds },
+          { type: 'message', ids: sentMessages.map(m => m.id) },
+          { type: 'event', ids: createdEvents.map(e => e.id) },
+          { type: 'job_application', ids: applications.map(a => a.id) },
+          { type: 'business', ids: businessIds },
+          { type: 'post', ids: postIds },
+          { type: 'comment', ids: commentIds },
+        );
+      }
+
+      const mediaConditions = mediaRefs
+        .filter(ref => ref.ids.length > 0)
+        .map(ref => and(eq(media.resourceType, ref.type), inArray(media.resourceId, ref.ids)));
+      mediaConditions.push(eq(media.authUserId, authUserId));
+
+      const deletedMedia = await tx
+        .delete(media)
+        .where(or(...mediaConditions))
+        .returning({ cloudflareId: media.cloudflareId, kind: media.kind });
+
+      await tx
+        .update(news)
+        .set({ createdBy: null })
+        .where(eq(news.createdBy, authUserId));
+
+      if (profileIds.length > 0) {
+        await tx.delete(user).where(inArray(user.id, profileIds));
+      }
+
+      await tx.delete(authUsers).where(eq(authUsers.id, authUserId));
+
+      return deletedMedia;
+    });
+
+    // Files are removed after the commit; a failure leaves an orphaned file, not a half-deleted account
+    for (const { cloudflareId, kind } of storedMedia) {
+      try {
+        if (kind === 'video') {
+          await this.fastify.videoTranscoder.delete(cloudflareId);
+        } else {
+          await this.storage.delete(cloudflareId);
+        }
+      } catch (error) {
+        this.fastify.log.warn({ err: error, cloudflareId }, `Failed to delete stored ${kind} during account erasure`);
+      }
+    }
+  }
+}
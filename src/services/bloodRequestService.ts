@@ -0,0 +1,449 @@
+import { eq, and, or, desc, sql, inArray, isNull, lt, ne, type SQL } from 'drizzle-orm';
+import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { user } from '../models/user';
+import { connections } from '../models/connections';
+import { bloodDonors } from '../models/blood_donors';
+import {
+  bloodRequests,
+  type BloodRequest,
+  type BloodRequestStatus,
+  type BloodRequestUrgency,
+} from '../models/blood_requests';
+import { bloodRequestResponses } from '../models/blood_request_responses';
+import { NearbySearchService } from './nearbySearchService';
+import { appEvents } from '../utils/appEvents';
+import { compatibleDonorGroups, normalizeBloodGroup, type BloodGroup } from '../utils/bloodGroups';
+
+// Donors alerted per request, nearest first
+const MAX_MATCHED_DONORS = 50;
+// Donors in other cities are matched within this distance of the hospital, when its position is known
+const MATCH_RADIUS_KM: Record<BloodRequestUrgency, number> = {
+  normal: 25,
+  urgent: 50,
+  critical: 100,
+};
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class BloodRequestError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message);
+    this.name = 'BloodRequestError';
+  }
+}
+
+interface Paging {
+  limit?: number | undefined;
+  offset?: number | undefined;
+}
+
+export interface DonorStatus {
+  bloodGroup: BloodGroup | null;
+  available: boolean;
+  lastDonatedAt: Date | null;
+  // When the cooldown since the last donation ends; null when eligible now
+  eligibleFrom: Date | null;
+}
+
+const requesterColumns = {
+  id: user.id,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  currentCity: user.currentCity,
+};
+
+/**
+ * Blood requests posted by members, matched to compatible, available donors nearby.
+ * All member IDs are profile (`user` table) IDs.
+ */
+export class BloodRequestService {
+  private nearbySearchService: NearbySearchService;
+
+  constructor(private db: NodePgDatabase<any>, private options: { cooldownDays: number }) {
+    this.nearbySearchService = new NearbySearchService(db);
+  }
+
+  // Donor availability
+
+  async getDonorStatus(profileId: string): Promise<DonorStatus> {
+    const [row] = await this.db
+      .select({ bloodGroup: user.bloodGroup, available: bloodDonors.available, lastDonatedAt: bloodDonors.lastDonatedAt })
+      .from(user)
+      .leftJoin(bloodDonors, eq(bloodDonors.userId, user.id))
+      .where(eq(user.id, profileId))
+      .limit(1);
+
+    const lastDonatedAt = row?.lastDonatedAt || null;
+    const eligibleFrom = lastDonatedAt ? new Date(lastDonatedAt.getTime() + this.options.cooldownDays * DAY_MS) : null;
+
+    return {
+      bloodGroup: normalizeBloodGroup(row?.bloodGroup),
+      available: row?.available || false,
+      lastDonatedAt,
+      eligibleFrom: eligibleFrom && eligibleFrom > new Date() ? eligibleFrom : null,
+    };
+  }
+
+  async updateDonorStatus(profileId: string, data: {
+    available?: boolean | undefined;
+    lastDonatedAt?: Date | null | undefined;
+  }): Promise<DonorStatus> {
+    if (data.available) {
+      const current = await this.getDonorStatus(profileId);
+      if (!current.bloodGroup) {
+        throw new BloodRequestError('Add your blood group to your profile first', 400);
+      }
+    }
+
+    const changes: { available?: boolean; lastDonatedAt?: Date | null } = {};
+    if (data.available !== undefined) changes.available = data.available;
+    if (data.lastDonatedAt !== undefined) changes.lastDonatedAt = data.lastDonatedAt;
+
+    await this.db
+      .insert(bloodDonors)
+      .values({ userId: profileId, ...changes })
+      .onConflictDoUpdate({
+        target: bloodDonors.userId,
+        set: { ...changes, updatedAt: new Date() },
+      });
+
+    return this.getDonorStatus(profileId);
+  }
+
+  // Requests
+
+  /**
+   * Post a request and alert matching donors
+   */
+  async create(profileId: string, data: {
+    bloodGroup: string;
+    units?: number | undefined;
+    hospital: string;
+    city: string;
+    latitude?: number | undefined;
+    longitude?: number | undefined;
+    urgency?: BloodRequestUrgency | undefined;
+    contactPhone?: string | undefined;
+    notes?: string | undefined;
+    neededBy?: Date | undefined;
+  }): Promise<{ request: BloodRequest; matchedDonors: number }> {
+    const bloodGroup = normalizeBloodGroup(data.bloodGroup);
+    if (!bloodGroup) {
+      throw new BloodRequestError('Invalid blood group', 400);
+    }
+
+    const hasPosition = data.latitude !== undefined && data.longitude !== undefined;
+
+    const [request] = await this.db
+      .insert(bloodRequests)
+      .values({
+        requesterId: profileId,
+        bloodGroup,
+        units: data.units || 1,
+        hospital: data.hospital,
+        city: data.city,
+        latitude: hasPosition ? String(data.latitude) : null,
+        longitude: hasPosition ? String(data.longitude) : null,
+        urgency: data.urgency || 'normal',
+        contactPhone: data.contactPhone || null,
+        notes: data.notes || null,
+        neededBy: data.neededBy || null,
+      })
+      .returning();
+
+    const donorIds = await this.matchDonors(request!);
+
+    if (donorIds.length > 0) {
+      await this.db
+        .insert(bloodRequestResponses)
+        .values(donorIds.map(donorId => ({ requestId: request!.id, donorId })))
+        .onConflictDoNothing();
+
+      appEvents.emit('blood_request.created', { request: request!, donorIds });
+    }
+
+    return { request: request!, matchedDonors: donorIds.length };
+  }
+
+  async list(filters: {
+    status?: BloodRequestStatus | undefined;
+    bloodGroup?: string | undefined;
+    city?: string | undefined;
+    requesterId?: string | undefined;
+  } & Paging) {
+    const conditions = [eq(bloodRequests.status, filters.status || 'open')];
+
+    const bloodGroup = normalizeBloodGroup(filters.bloodGroup);
+    if (bloodGroup) conditions.push(eq(bloodRequests.bloodGroup, bloodGroup));
+    if (filters.city) conditions.push(sql`lower(${bloodRequests.city}) = lower(${filters.city})`);
+    if (filters.requesterId) conditions.push(eq(bloodRequests.requesterId, filters.requesterId));
+
+    return this.paginate(and(...conditions), filters);
+  }
+
+  /**
+   * Requests the donor was matched to, with their own response
+   */
+  async listForDonor(profileId: string, paging: Paging) {
+    const whereClause = eq(bloodRequestResponses.donorId, profileId);
+
+    const [countResult] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(bloodRequestResponses)
+      .where(whereClause);
+
+    const results = await this.db
+      .select({ request: bloodRequests, requester: requesterColumns, response: bloodRequestResponses.status })
+      .from(bloodRequestResponses)
+      .innerJoin(bloodRequests, eq(bloodRequests.id, bloodRequestResponses.requestId))
+      .leftJoin(user, eq(user.id, bloodRequests.requesterId))
+      .where(whereClause)
+      .orderBy(desc(bloodRequestResponses.createdAt))
+      .limit(paging.limit || 20)
+      .offset(paging.offset || 0);
+
+    return {
+      data: results.map(r => ({ ...r.request, requester: r.requester, response: r.response })),
+      total: countResult?.count || 0,
+      limit: paging.limit || 20,
+      offset: paging.offset || 0,
+    };
+  }
+
+  /**
+   * A request with response counts. The requester also gets the donors who accepted,
+   * with their phone numbers; other viewers get their own response.
+   */
+  async get(profileId: string, requestId: string) {
+    const request = await this.findRequest(requestId);
+
+    const responses = await this.db
+      .select({
+        donorId: bloodRequestResponses.donorId,
+        status: bloodRequestResponses.status,
+        respondedAt: bloodRequestResponses.respondedAt,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        bloodGroup: user.bloodGroup,
+        currentCity: user.currentCity,
+        phone: user.phone,
+      })
+      .from(bloodRequestResponses)
+      .innerJoin(user, eq(user.id, bloodRequestResponses.donorId))
+      .where(eq(bloodRequestResponses.requestId, requestId))
+      .orderBy(desc(bloodRequestResponses.respondedAt));
+
+    const counts = { notified: 0, accepted: 0, declined: 0, donated: 0 };
+    responses.forEach(r => counts[r.status]++);
+
+    const [requester] = await this.db
+      .select(requesterColumns)
+      .from(user)
+      .where(eq(user.id, request.requesterId))
+      .limit(1);
+
+    const isRequester = request.requesterId === profileId;
+    const ownResponse = responses.find(r => r.donorId === profileId);
+
+    return {
+      ...request,
+      requester: requester || null,
+      responseCounts: counts,
+      response: ownResponse?.status || null,
+      donors: isRequester
+        ? responses.filter(r => r.status === 'accepted' || r.status === 'donated')
+        : undefined,
+    };
+  }
+
+  /**
+   * A donor's answer. Compatible donors who weren't matched (e.g. from another city) may volunteer.
+   */
+  async respond(profileId: string, requestId: string, answer: 'accepted' | 'declined'): Promise<void> {
+    const request = await this.findRequest(requestId);
+
+    if (request.status !== 'open') {
+      throw new BloodRequestError('This request is closed', 409);
+    }
+    if (request.requesterId === profileId) {
+      throw new BloodRequestError('You cannot respond to your own request', 400);
+    }
+
+    if (answer === 'accepted') {
+      const donor = await this.getDonorStatus(profileId);
+      if (!donor.bloodGroup || !compatibleDonorGroups(request.bloodGroup as BloodGroup).includes(donor.bloodGroup)) {
+        throw new BloodRequestError('Your blood group is not compatible with this request', 400);
+      }
+      if (donor.eligibleFrom) {
+        throw new BloodRequestError('You can donate again after your cooldown ends', 409);
+      }
+    }
+
+    const now = new Date();
+    const [previous] = await this.db
+      .select({ status: bloodRequestResponses.status })
+      .from(bloodRequestResponses)
+      .where(and(eq(bloodRequestResponses.requestId, requestId), eq(bloodRequestResponses.donorId, profileId)))
+      .limit(1);
+
+    if (previous?.status === 'donated') {
+      throw new BloodRequestError('Your donation is already recorded', 409);
+    }
+
+    await this.db
+      .insert(bloodRequestResponses)
+      .values({ requestId, donorId: profileId, status: answer, respondedAt: now })
+      .onConflictDoUpdate({
+        target: [bloodRequestResponses.requestId, bloodRequestResponses.donorId],
+        set: { status: answer, respondedAt: now, updatedAt: now },
+      });
+
+    if (answer === 'accepted' && previous?.status !== 'accepted') {
+      appEvents.emit('blood_request.accepted', { request, donorId: profileId });
+    }
+  }
+
+  /**
+   * The requester confirms a donor donated; the donor's cooldown starts now
+   */
+  async recordDonation(profileId: string, requestId: string, donorId: string): Promise<void> {
+    const request = await this.findOwnRequest(profileId, requestId);
+    const now = new Date();
+
+    const updated = await this.db
+      .update(bloodRequestResponses)
+      .set({ status: 'donated', updatedAt: now })
+      .where(and(
+        eq(bloodRequestResponses.requestId, request.id),
+        eq(bloodRequestResponses.donorId, donorId),
+        eq(bloodRequestResponses.status, 'accepted')
+      ))
+      .returning({ id: bloodRequestResponses.id });
+
+    if (updated.length === 0) {
+      throw new BloodRequestError('This donor has not accepted the request', 404);
+    }
+
+    await this.db
+      .insert(bloodDonors)
+      .values({ userId: donorId, lastDonatedAt: now })
+      .onConflictDoUpdate({
+        target: bloodDonors.userId,
+        set: { lastDonatedAt: now, updatedAt: now },
+      });
+  }
+
+  async close(profileId: string, requestId: string, status: 'fulfilled' | 'cancelled'): Promise<BloodRequest> {
+    const request = await this.findOwnRequest(profileId, requestId);
+
+    if (request.status !== 'open') {
+      throw new BloodRequestError('This request is already closed', 409);
+    }
+
+    const now = new Date();
+    const [updated] = await this.db
+      .update(bloodRequests)
+      .set({ status, fulfilledAt: status === 'fulfilled' ? now : null, updatedAt: now })
+      .where(eq(bloodRequests.id, request.id))
+      .returning();
+
+    return updated!;
+  }
+
+  /**
+   * Available donors with a compatible group, past their cooldown, in the request's city
+   * or within the urgency's radius of the hospital, excluding blocks either way
+   */
+  private async matchDonors(request: BloodRequest): Promise<string[]> {
+    const cooldownStart = new Date(Date.now() - this.options.cooldownDays * DAY_MS);
+    const sameCity = sql<boolean>`lower(${user.currentCity}) = lower(${request.city})`;
+
+    const radius = request.latitude && request.longitude
+      ? await this.nearbySearchService.radiusCondition(user.latitude, user.longitude, {
+        latitude: Number(request.latitude),
+        longitude: Number(request.longitude),
+        radiusKm: MATCH_RADIUS_KM[request.urgency],
+      })
+      : null;
+
+    const blocked = sql`EXISTS (SELECT 1 FROM ${connections} WHERE ${connections.type} = 'block' AND (
+      (${connections.userId} = ${request.requesterId} AND ${connections.targetId} = ${user.id}) OR
+      (${connections.userId} = ${user.id} AND ${connections.targetId} = ${request.requesterId})
+    ))`;
+
+    const conditions: (SQL | undefined)[] = [
+      eq(bloodDonors.available, true),
+      // Normalized as normalizeBloodGroup does, since profiles store the group as entered
+      inArray(sql`upper(regexp_replace(${user.bloodGroup}, '\\s', '', 'g'))`, compatibleDonorGroups(request.bloodGroup as BloodGroup)),
+      or(isNull(bloodDonors.lastDonatedAt), lt(bloodDonors.lastDonatedAt, cooldownStart)),
+      ne(user.id, request.requesterId),
+      sql`NOT ${blocked}`,
+      radius ? or(sameCity, radius.within) : sameCity,
+    ];
+
+    const donors = await this.db
+      .select({ id: user.id })
+      .from(bloodDonors)
+      .innerJoin(user, eq(user.id, bloodDonors.userId))
+      .where(and(...conditions))
+      // Same city first, then nearest, then whoever donated least recently
+      .orderBy(
+        sql`CASE WHEN ${sameCity} THEN 0 ELSE 1 END`,
+        ...(radius ? [sql`${radius.distance} NULLS LAST`] : []),
+        sql`${bloodDonors.lastDonatedAt} NULLS FIRST`
+      )
+      .limit(MAX_MATCHED_DONORS);
+
+    return donors.map(d => d.id);
+  }
+
+  private async findRequest(requestId: string): Promise<BloodRequest> {
+    const [request] = await this.db
+      .select()
+      .from(bloodRequests)
+      .where(eq(bloodRequests.id, requestId))
+      .limit(1);
+
+    if (!request) {
+      throw new BloodRequestError('Blood request not found', 404);
+    }
+
+    return request;
+  }
+
+  private async findOwnRequest(profileId: string, requestId: string): Promise<BloodRequest> {
+    const request = await this.findRequest(requestId);
+
+    if (request.requesterId !== profileId) {
+      throw new BloodRequestError('Only the requester can do this', 403);
+    }
+
+    return request;
+  }
+
+  private async paginate(whereClause: SQL | undefined, paging: Paging) {
+    const [countResult] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(bloodRequests)
+      .where(whereClause);
+
+    const results = await this.db
+      .select({ request: bloodRequests, requester: requesterColumns })
+      .from(bloodRequests)
+      .leftJoin(user, eq(user.id, bloodRequests.requesterId))
+      .where(whereClause)
+      // Most urgent first, then newest
+      .orderBy(
+        sql`CASE ${bloodRequests.urgency} WHEN 'critical' THEN 0 WHEN 'urgent' THEN 1 ELSE 2 END`,
+        desc(bloodRequests.createdAt)
+      )
+      .limit(paging.limit || 20)
+      .offset(paging.offset || 0);
+
+    return {
+      data: results.map(r => ({ ...r.request, requester: r.requester })),
+      total: countResult?.count || 0,
+      limit: paging.limit || 20,
+      offset: paging.offset || 0,
+    };
+  }
+}
@@ -7,6 +7,7 @@ import { getMediaById, type SimpleMediaField } from '../utils/mediaHelpers';
 import { filterValidUUIDs } from '../utils/uuidValidator';
 import { UniversalMediaHelper } from './UniversalMediaHelper';
 import { sanitizeData } from '../utils/sanitizedData';
+import { parseGeolocation } from '../utils/geo';
 
 export interface BusinessSimple extends Pick<BusinessDetail, "id" | "userId" | "name" | "companyName" | "role" | "isVerified"> {
   logo: SimpleMediaField | null;
@@ -61,7 +62,10 @@ export class BusinessServiceSimple {
     const sanitizedData=sanitizeData(data)
     const [newBusiness] = await this.db
       .insert(businessDetails)
-      .values(sanitizedData)
+      .values({
+        ...sanitizedData,
+        ...this.coordinatesFor(sanitizedData.geolocation),
+      })
       .returning();
     const created = await this.findById(newBusiness!.id);
     return created!;
@@ -73,6 +77,7 @@ export class BusinessServiceSimple {
       .update(businessDetails)
       .set({
         ...sanitizedData,
+        ...('geolocation' in sanitizedData ? this.coordinatesFor(sanitizedData.geolocation) : {}),
         updatedAt: new Date(),
       })
       .where(eq(businessDetails.id, id))
@@ -83,6 +88,18 @@ export class BusinessServiceSimple {
     return this.findById(updated.id);
   }
 
+  /**
+   * latitude/longitude columns for a free-text geolocation; cleared when it can't be parsed
+   */
+  private coordinatesFor(geolocation: string | null | undefined): Pick<NewBusinessDetail, 'latitude' | 'longitude'> {
+    const coordinates = parseGeolocation(geolocation);
+
+    return {
+      latitude: coordinates ? String(coordinates.latitude) : null,
+      longitude: coordinates ? String(coordinates.longitude) : null,
+    };
+  }
+
   async list(filters: {
     query?: string;
     category?: string;
@@ -1,4 +1,4 @@
-import { FastifyInstance } from 'fastify';
+import { createHmac } from 'crypto';
 
 export interface CloudflareUploadResponse {
   result: {
@@ -21,20 +21,44 @@ export interface CloudflareImageDetails {
     requireSignedURLs: boolean;
     variants: Record<string, string>;
     meta?: Record<string, any>;
+    // Direct uploads stay drafts until the file arrives
+    draft?: boolean;
   };
   success: boolean;
 }
 
+export interface CloudflareDirectUploadResponse {
+  result: {
+    id: string;
+    uploadURL: string;
+  };
+  success: boolean;
+  errors: any[];
+}
+
+export interface CloudflareImagesConfig {
+  accountId: string;
+  apiToken: string;
+  accountHash: string;
+  // From Images > Keys in the dashboard; signs URLs of images uploaded with requireSignedURLs
+  signingKey?: string | undefined;
+}
+
+/**
+ * Cloudflare Images API client. Used through CloudflareStorageProvider; see mediaStorage.ts.
+ */
 export class CloudflareImagesService {
   private accountId: string;
   private apiToken: string;
   private accountHash: string;
+  private signingKey: string | undefined;
   private baseUrl: string;
 
-  constructor(fastify: FastifyInstance) {
-    this.accountId = process.env['CLOUDFLARE_ACCOUNT_ID']!;
-    this.apiToken = process.env['CLOUDFLARE_IMAGES_API_TOKEN']!;
-    this.accountHash = process.env['CLOUDFLARE_IMAGES_ACCOUNT_HASH']!;
+  constructor(config: CloudflareImagesConfig) {
+    this.accountId = config.accountId;
+    this.apiToken = config.apiToken;
+    this.accountHash = config.accountHash;
+    this.signingKey = config.signingKey;
     this.baseUrl = `https://api.cloudflare.com/client/v4/accounts/${this.accountId}/images/v1`;
   }
 
@@ -44,7 +68,8 @@ export class CloudflareImagesService {
   async uploadImage(
     file: Buffer,
     filename: string,
-    metadata?: Record<string, string>
+    metadata?: Record<string, string>,
+    options: { requireSignedURLs?: boolean } = {}
   ): Promise<CloudflareUploadResponse> {
     try {
       // Use native FormData (Node.js 18+)
@@ -54,6 +79,11 @@ export class CloudflareImagesService {
       const mimeType = this.getMimeTypeFromFilename(filename);
       const blob = new Blob([new Uint8Array(file)], { type: mimeType });
       form.append('file', blob, filename);
+
+      // Only served through signed URLs (getSignedDeliveryUrl)
+      if (options.requireSignedURLs) {
+        form.append('requireSignedURLs', 'true');
+      }
       
       // Add metadata as a single JSON string (Cloudflare expects this format)
       if (metadata && Object.keys(metadata).length > 0) {
@@ -193,6 +223,36 @@ export class CloudflareImagesService {
     return response.json();
   }
 
+  /**
+   * Reserve an image ID and a one-time URL the client posts the file to (direct creator upload)
+   */
+  async createDirectUpload(
+    expiresAt: Date,
+    metadata?: Record<string, string>
+  ): Promise<CloudflareDirectUploadResponse> {
+    const form = new FormData();
+    form.append('expiry', expiresAt.toISOString());
+    form.append('requireSignedURLs', 'false');
+    if (metadata && Object.keys(metadata).length > 0) {
+      form.append('metadata', JSON.stringify(metadata));
+    }
+
+    const response = await fetch(this.baseUrl.replace(/\/v1$/, '/v2/direct_upload'), {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiToken}`,
+      },
+      body: form,
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Cloudflare direct upload failed: ${error}`);
+    }
+
+    return response.json();
+  }
+
   /**
    * Get image details
    */
@@ -211,6 +271,28 @@ export class CloudflareImagesService {
     return response.json();
   }
 
+  /**
+   * Change whether an image requires signed URLs
+   */
+  async updateImage(imageId: string, options: { requireSignedURLs: boolean }): Promise<boolean> {
+    const response = await fetch(`${this.baseUrl}/${imageId}`, {
+      method: 'PATCH',
+      headers: {
+        'Authorization': `Bearer ${this.apiToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(options),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Failed to update image: ${error}`);
+    }
+
+    const result = await response.json();
+    return result.success;
+  }
+
   /**
    * Delete an image
    */
@@ -259,6 +341,25 @@ export class CloudflareImagesService {
     return `https://imagedelivery.net/${this.accountHash}/${imageId}/${variant}`;
   }
 
+  /**
+   * Delivery URL for an image uploaded with requireSignedURLs, valid until expiresAt
+   */
+  getSignedDeliveryUrl(imageId: string, variant: string, expiresAt: Date): string {
+    if (!this.signingKey) {
+      throw new Error('CLOUDFLARE_IMAGES_SIGNING_KEY is required to serve private images');
+    }
+
+    const url = new URL(this.getDeliveryUrl(imageId, variant));
+    url.searchParams.set('exp', String(Math.floor(expiresAt.getTime() / 1000)));
+    // Cloudflare checks an HMAC-SHA256 of the path and query, hex encoded
+    const signature = createHmac('sha256', this.signingKey)
+      .update(`${url.pathname}?${url.searchParams.toString()}`)
+      .digest('hex');
+    url.searchParams.set('sig', signature);
+
+    return url.toString();
+  }
+
   /**
    * Get all variant URLs for an image
    */
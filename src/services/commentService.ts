@@ -1,4 +1,4 @@
-import { eq, and, desc, sql,inArray } from 'drizzle-orm';
+import { eq, and, sql,inArray } from 'drizzle-orm';
 import { comments, type Comment, type NewComment } from '../models/comments';
 import { commentReplies, type CommentReply, type NewCommentReply } from '../models/comment_replies';
 import { user } from '../models/user';
@@ -8,6 +8,8 @@ import { media } from '../models/media';
 import { professions } from '../models/professions';
 import { getProfilePics } from '../utils/userProfilepic';
 import { ResourceDescriptor, UniversalMediaHelper } from './UniversalMediaHelper';
+import { appEvents } from '../utils/appEvents';
+import { cursorKey, cursorOrderBy, cursorPage, cursorWhere, pageWindow, type Cursor } from '../utils/cursor';
 
 export class CommentService {
   private mediaHelper: UniversalMediaHelper;
@@ -40,6 +42,8 @@ export class CommentService {
         updatedAt: new Date(),
       })
       .where(eq(postUpdates.id, data.postUpdatesId!));
+
+    appEvents.emit('comment.created', { comment: newComment! });
     
     return newComment!;
   }
@@ -88,7 +92,10 @@ export class CommentService {
   async getCommentsByPost(postId: string, filters: {
     limit?: number;
     offset?: number;
+    cursor?: Cursor | undefined;
   }) {
+    const window = pageWindow(filters);
+
     // Get total count
     const countResult = await this.db
       .select({ count: sql<number>`count(*)::int` })
@@ -98,9 +105,10 @@ export class CommentService {
       const count = countResult[0]?.count || 0;
 
     // Get paginated results with user info
-    const results = await this.db
+    const rows = await this.db
       .select({
         comment: comments,
+        cursorKey: cursorKey(comments),
         author: user,
         professions: professions,
         repliesCount: sql<number>`COALESCE((
@@ -111,10 +119,12 @@ export class CommentService {
       .from(comments)
       .leftJoin(user, eq(comments.userProfileId, user.id))
       .leftJoin(professions, eq(user.professionId, professions.id))
-      .where(eq(comments.postUpdatesId, postId))
-      .limit(filters.limit || 10)
-      .offset(filters.offset || 0)
-      .orderBy(desc(comments.createdAt));
+      .where(and(eq(comments.postUpdatesId, postId), cursorWhere(comments, window.cursor)))
+      .limit(window.fetch)
+      .offset(window.offset)
+      .orderBy(...cursorOrderBy(comments, window.cursor));
+
+    const { rows: results, ...page } = cursorPage(rows, window, (r) => ({ createdAt: r.cursorKey, id: r.comment.id }));
 
     // const userIds = [...new Set(results.map(r => r.author?.id).filter(Boolean))];
     const userIds = [...new Set(results.map(r => r.author?.id).filter((id): id is string => typeof id === 'string'))];
@@ -147,8 +157,7 @@ export class CommentService {
         repliesCount: r.repliesCount,
       })),
       total: count,
-      limit: filters.limit || 10,
-      offset: filters.offset || 0,
+      ...page,
     };
   }
 
@@ -180,6 +189,8 @@ async createReply(data: NewCommentReply): Promise<CommentReply> {
     if (!newReply) {
       throw new Error('Failed to create reply');
     }
+
+    appEvents.emit('reply.created', { reply: newReply, comment });
     return newReply;
   } catch (error) {
     console.error('Error in createReply:', error);
@@ -214,7 +225,10 @@ async createReply(data: NewCommentReply): Promise<CommentReply> {
   async getRepliesByComment(commentId: string, filters: {
     limit?: number;
     offset?: number;
+    cursor?: Cursor | undefined;
   }) {
+    const window = pageWindow(filters);
+
     // Get total count
     const countResult = await this.db
       .select({ count: sql<number>`count(*)::int` })
@@ -224,19 +238,22 @@ async createReply(data: NewCommentReply): Promise<CommentReply> {
     const count = countResult[0]?.count || 0;
 
     // Get paginated results with user info
-    const results = await this.db
+    const rows = await this.db
       .select({
         reply: commentReplies,
+        cursorKey: cursorKey(commentReplies),
         author: user,
         professions: professions,
       })
       .from(commentReplies)
       .leftJoin(user, eq(commentReplies.userProfileId, user.id))
       .leftJoin(professions, eq(user.professionId, professions.id))
-      .where(eq(commentReplies.commentsId, commentId))
-      .limit(filters.limit || 10)
-      .offset(filters.offset || 0)
-      .orderBy(desc(commentReplies.createdAt));
+      .where(and(eq(commentReplies.commentsId, commentId), cursorWhere(commentReplies, window.cursor)))
+      .limit(window.fetch)
+      .offset(window.offset)
+      .orderBy(...cursorOrderBy(commentReplies, window.cursor));
+
+    const { rows: results, ...page } = cursorPage(rows, window, (r) => ({ createdAt: r.cursorKey, id: r.reply.id }));
 
 
        const userIds = [...new Set(results.map(r => r.author?.id).filter((id): id is string => typeof id === 'string'))];
@@ -268,8 +285,7 @@ async createReply(data: NewCommentReply): Promise<CommentReply> {
         } : null,
       })),
       total: count,
-      limit: filters.limit || 10,
-      offset: filters.offset || 0,
+      ...page,
     };
   }
 
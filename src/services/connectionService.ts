@@ -0,0 +1,525 @@
+import { eq, and, or, desc, sql, inArray } from 'drizzle-orm';
+import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { user } from '../models/user';
+import { businessDetails } from '../models/business_details';
+import {
+  connections,
+  type Connection,
+  type ConnectionTargetType,
+} from '../models/connections';
+
+export class ConnectionError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message);
+    this.name = 'ConnectionError';
+  }
+}
+
+export type ConnectionState = 'none' | 'pending_outgoing' | 'pending_incoming' | 'connected';
+
+interface Paging {
+  limit?: number | undefined;
+  offset?: number | undefined;
+}
+
+const profileColumns = {
+  id: user.id,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  graduationYear: user.graduationYear,
+  currentCity: user.currentCity,
+  organization: user.organization,
+  profilePic: user.profilePic,
+};
+
+/**
+ * Follows, mutual connections and blocks between member profiles.
+ * All IDs are profile (`user` table) IDs, not auth user IDs.
+ */
+export class ConnectionService {
+  constructor(private db: NodePgDatabase<any>) {}
+
+  // Follows
+
+  async follow(profileId: string, targetType: ConnectionTargetType, targetId: string): Promise<void> {
+    if (targetType === 'user') {
+      await this.assertCanInteract(profileId, targetId);
+    } else {
+      await this.assertBusinessExists(targetId);
+    }
+
+    await this.db
+      .insert(connections)
+      .values({ userId: profileId, type: 'follow', targetType, targetId })
+      .onConflictDoNothing();
+  }
+
+  async unfollow(profileId: string, targetType: ConnectionTargetType, targetId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(connections)
+      .where(and(
+        eq(connections.userId, profileId),
+        eq(connections.type, 'follow'),
+        eq(connections.targetType, targetType),
+        eq(connections.targetId, targetId)
+      ))
+      .returning({ id: connections.id });
+
+    return deleted.length > 0;
+  }
+
+  async listFollowers(targetType: ConnectionTargetType, targetId: string, paging: Paging = {}) {
+    const whereClause = and(
+      eq(connections.type, 'follow'),
+      eq(connections.targetType, targetType),
+      eq(connections.targetId, targetId)
+    );
+
+    return this.paginate(
+      (limit, offset) => this.db
+        .select({ ...profileColumns, since: connections.createdAt })
+        .from(connections)
+        .innerJoin(user, eq(user.id, connections.userId))
+        .where(whereClause)
+        .orderBy(desc(connections.createdAt))
+        .limit(limit)
+        .offset(offset),
+      this.db.select({ count: sql<number>`count(*)::int` }).from(connections).where(whereClause),
+      paging
+    );
+  }
+
+  async listFollowing(profileId: string, targetType: ConnectionTargetType, paging: Paging = {}) {
+    const whereClause = and(
+      eq(connections.userId, profileId),
+      eq(connections.type, 'follow'),
+      eq(connections.targetType, targetType)
+    );
+
+    const countQuery = this.db.select({ count: sql<number>`count(*)::int` }).from(connections).where(whereClause);
+
+    if (targetType === 'business') {
+      return this.paginate(
+        (limit, offset) => this.db
+          .select({
+            id: businessDetails.id,
+            companyName: businessDetails.companyName,
+            category: businessDetails.category,
+            logo: businessDetails.logo,
+            since: connections.createdAt,
+          })
+          .from(connections)
+          .innerJoin(businessDetails, eq(businessDetails.id, connections.targetId))
+          .where(whereClause)
+          .orderBy(desc(connections.createdAt))
+          .limit(limit)
+          .offset(offset),
+        countQuery,
+        paging
+      );
+    }
+
+    return this.paginate(
+      (limit, offset) => this.db
+        .select({ ...profileColumns, since: connections.createdAt })
+        .from(connections)
+        .innerJoin(user, eq(user.id, connections.targetId))
+        .where(whereClause)
+        .orderBy(desc(connections.createdAt))
+        .limit(limit)
+        .offset(offset),
+      countQuery,
+      paging
+    );
+  }
+
+  // Mutual connections
+
+  /**
+   * Ask another member to connect. If they have already asked us, the
+   * request is accepted instead.
+   */
+  async requestConnection(profileId: string, targetId: string): Promise<{ status: ConnectionState }> {
+    await this.assertCanInteract(profileId, targetId);
+
+    const existing = await this.findConnection(profileId, targetId);
+
+    if (existing?.status === 'accepted') {
+      throw new ConnectionError('Already connected', 409);
+    }
+
+    if (existing && existing.userId === profileId) {
+      if (existing.status === 'pending') {
+        throw new ConnectionError('Connection request already sent', 409);
+      }
+
+      // Ask again after being declined
+      await this.db
+        .update(connections)
+        .set({ status: 'pending', respondedAt: null, updatedAt: new Date() })
+        .where(eq(connections.id, existing.id));
+      return { status: 'pending_outgoing' };
+    }
+
+    if (existing?.status === 'pending') {
+      await this.setStatus(existing.id, 'accepted');
+      return { status: 'connected' };
+    }
+
+    await this.db.transaction(async (tx) => {
+      // Replace a request from them that we declined earlier
+      if (existing) {
+        await tx.delete(connections).where(eq(connections.id, existing.id));
+      }
+      await tx
+        .insert(connections)
+        .values({ userId: profileId, type: 'connection', targetType: 'user', targetId, status: 'pending' });
+    });
+
+    return { status: 'pending_outgoing' };
+  }
+
+  async respondToRequest(profileId: string, requesterId: string, accept: boolean): Promise<void> {
+    const [request] = await this.db
+      .select({ id: connections.id })
+      .from(connections)
+      .where(and(
+        eq(connections.userId, requesterId),
+        eq(connections.type, 'connection'),
+        eq(connections.targetType, 'user'),
+        eq(connections.targetId, profileId),
+        eq(connections.status, 'pending')
+      ))
+      .limit(1);
+
+    if (!request) {
+      throw new ConnectionError('Connection request not found', 404);
+    }
+
+    await this.setStatus(request.id, accept ? 'accepted' : 'declined');
+  }
+
+  /**
+   * Remove a connection or withdraw a request, whichever side made it
+   */
+  async removeConnection(profileId: string, otherId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(connections)
+      .where(and(eq(connections.type, 'connection'), this.betweenCondition(profileId, otherId)))
+      .returning({ id: connections.id });
+
+    return deleted.length > 0;
+  }
+
+  async listConnections(profileId: string, paging: Paging = {}) {
+    const whereClause = and(
+      eq(connections.type, 'connection'),
+      eq(connections.status, 'accepted'),
+      or(
+        eq(connections.userId, profileId),
+        and(eq(connections.targetType, 'user'), eq(connections.targetId, profileId))
+      )
+    );
+    const otherId = sql`CASE WHEN ${connections.userId} = ${profileId} THEN ${connections.targetId} ELSE ${connections.userId} END`;
+
+    return this.paginate(
+      (limit, offset) => this.db
+        .select({ ...profileColumns, since: connections.respondedAt })
+        .from(connections)
+        .innerJoin(user, eq(user.id, otherId))
+        .where(whereClause)
+        .orderBy(desc(connections.respondedAt))
+        .limit(limit)
+        .offset(offset),
+      this.db.select({ count: sql<number>`count(*)::int` }).from(connections).where(whereClause),
+      paging
+    );
+  }
+
+  async listRequests(profileId: string, direction: 'incoming' | 'outgoing', paging: Paging = {}) {
+    const whereClause = and(
+      eq(connections.type, 'connection'),
+      eq(connections.status, 'pending'),
+      direction === 'incoming'
+        ? and(eq(connections.targetType, 'user'), eq(connections.targetId, profileId))
+        : eq(connections.userId, profileId)
+    );
+
+    return this.paginate(
+      (limit, offset) => this.db
+        .select({ ...profileColumns, requestedAt: connections.updatedAt })
+        .from(connections)
+        .innerJoin(user, eq(user.id, direction === 'incoming' ? connections.userId : connections.targetId))
+        .where(whereClause)
+        .orderBy(desc(connections.updatedAt))
+        .limit(limit)
+        .offset(offset),
+      this.db.select({ count: sql<number>`count(*)::int` }).from(connections).where(whereClause),
+      paging
+    );
+  }
+
+  // Blocks
+
+  /**
+   * Block a member. Follows and connections in both directions are removed.
+   */
+  async block(profileId: string, targetId: string): Promise<void> {
+    if (profileId === targetId) {
+      throw new ConnectionError('You cannot block yourself', 400);
+    }
+    await this.assertProfileExists(targetId);
+
+    await this.db.transaction(async (tx) => {
+      await tx
+        .delete(connections)
+        .where(and(inArray(connections.type, ['follow', 'connection']), this.betweenCondition(profileId, targetId)));
+
+      await tx
+        .insert(connections)
+        .values({ userId: profileId, type: 'block', targetType: 'user', targetId })
+        .onConflictDoNothing();
+    });
+  }
+
+  async unblock(profileId: string, targetId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(connections)
+      .where(and(
+        eq(connections.userId, profileId),
+        eq(connections.type, 'block'),
+        eq(connections.targetType, 'user'),
+        eq(connections.targetId, targetId)
+      ))
+      .returning({ id: connections.id });
+
+    return deleted.length > 0;
+  }
+
+  async listBlocked(profileId: string, paging: Paging = {}) {
+    const whereClause = and(eq(connections.userId, profileId), eq(connections.type, 'block'));
+
+    return this.paginate(
+      (limit, offset) => this.db
+        .select({ ...profileColumns, since: connections.createdAt })
+        .from(connections)
+        .innerJoin(user, eq(user.id, connections.targetId))
+        .where(whereClause)
+        .orderBy(desc(connections.createdAt))
+        .limit(limit)
+        .offset(offset),
+      this.db.select({ count: sql<number>`count(*)::int` }).from(connections).where(whereClause),
+      paging
+    );
+  }
+
+  /**
+   * True if either member has blocked the other
+   */
+  async isBlocked(profileId: string, otherId: string): Promise<boolean> {
+    const [row] = await this.db
+      .select({ id: connections.id })
+      .from(connections)
+      .where(and(eq(connections.type, 'block'), this.betweenCondition(profileId, otherId)))
+      .limit(1);
+
+    return !!row;
+  }
+
+  // Members the given member has blocked
+  async getBlockedIds(profileId: string): Promise<string[]> {
+    const rows = await this.db
+      .select({ targetId: connections.targetId })
+      .from(connections)
+      .where(and(eq(connections.userId, profileId), eq(connections.type, 'block')));
+
+    return rows.map(r => r.targetId);
+  }
+
+  // Which of the candidates have blocked the given member
+  async getBlockedByIds(profileId: string, candidateIds: string[]): Promise<string[]> {
+    if (candidateIds.length === 0) return [];
+
+    const rows = await this.db
+      .select({ userId: connections.userId })
+      .from(connections)
+      .where(and(
+        inArray(connections.userId, candidateIds),
+        eq(connections.type, 'block'),
+        eq(connections.targetType, 'user'),
+        eq(connections.targetId, profileId)
+      ));
+
+    return rows.map(r => r.userId);
+  }
+
+  /**
+   * How the current member relates to another, for profile screens
+   */
+  async getRelationship(profileId: string, otherId: string) {
+    const rows = await this.db
+      .select()
+      .from(connections)
+      .where(this.betweenCondition(profileId, otherId));
+
+    const outgoing = (type: Connection['type']) => rows.find(r => r.type === type && r.userId === profileId);
+    const incoming = (type: Connection['type']) => rows.find(r => r.type === type && r.userId === otherId);
+
+    const connection = outgoing('connection') || incoming('connection');
+    let state: ConnectionState = 'none';
+    if (connection?.status === 'accepted') {
+      state = 'connected';
+    } else if (connection?.status === 'pending') {
+      state = connection.userId === profileId ? 'pending_outgoing' : 'pending_incoming';
+    }
+
+    return {
+      following: !!outgoing('follow'),
+      followedBy: !!incoming('follow'),
+      connection: state,
+      blocked: !!outgoing('block'),
+      blockedBy: !!incoming('block'),
+    };
+  }
+
+  /**
+   * Members can see each other's network unless the profile is private or
+   * either has blocked the other
+   */
+  async assertCanView(viewerId: string, profileId: string): Promise<void> {
+    if (viewerId === profileId) return;
+
+    const [profile] = await this.db
+      .select({ visibilityPreference: user.visibilityPreference })
+      .from(user)
+      .where(eq(user.id, profileId))
+      .limit(1);
+
+    if (!profile) {
+      throw new ConnectionError('User not found', 404);
+    }
+    if (!profile.visibilityPreference || await this.isBlocked(viewerId, profileId)) {
+      throw new ConnectionError('User profile is private', 403);
+    }
+  }
+
+  // Feed
+
+  /**
+   * Authors whose posts make up the member's "following" feed:
+   * followed members, connections and followed businesses
+   */
+  async getFeedSources(profileId: string): Promise<{ userIds: string[]; businessIds: string[] }> {
+    const rows = await this.db
+      .select({
+        userId: connections.userId,
+        type: connections.type,
+        targetType: connections.targetType,
+        targetId: connections.targetId,
+      })
+      .from(connections)
+      .where(or(
+        and(
+          eq(connections.userId, profileId),
+          or(
+            eq(connections.type, 'follow'),
+            and(eq(connections.type, 'connection'), eq(connections.status, 'accepted'))
+          )
+        ),
+        and(
+          eq(connections.type, 'connection'),
+          eq(connections.status, 'accepted'),
+          eq(connections.targetType, 'user'),
+          eq(connections.targetId, profileId)
+        )
+      ));
+
+    const userIds = new Set<string>();
+    const businessIds = new Set<string>();
+
+    rows.forEach(row => {
+      if (row.targetType === 'business') {
+        businessIds.add(row.targetId);
+      } else {
+        userIds.add(row.userId === profileId ? row.targetId : row.userId);
+      }
+    });
+
+    return { userIds: [...userIds], businessIds: [...businessIds] };
+  }
+
+  private async findConnection(profileId: string, otherId: string): Promise<Connection | null> {
+    const [row] = await this.db
+      .select()
+      .from(connections)
+      .where(and(eq(connections.type, 'connection'), this.betweenCondition(profileId, otherId)))
+      .limit(1);
+
+    return row || null;
+  }
+
+  private async setStatus(id: string, status: 'accepted' | 'declined'): Promise<void> {
+    await this.db
+      .update(connections)
+      .set({ status, respondedAt: new Date(), updatedAt: new Date() })
+      .where(eq(connections.id, id));
+  }
+
+  private async assertCanInteract(profileId: string, targetId: string): Promise<void> {
+    if (profileId === targetId) {
+      throw new ConnectionError('You cannot connect with yourself', 400);
+    }
+    await this.assertProfileExists(targetId);
+
+    if (await this.isBlocked(profileId, targetId)) {
+      throw new ConnectionError('You cannot interact with this member', 403);
+    }
+  }
+
+  private async assertProfileExists(profileId: string): Promise<void> {
+    const [profile] = await this.db.select({ id: user.id }).from(user).where(eq(user.id, profileId)).limit(1);
+    if (!profile) {
+      throw new ConnectionError('User not found', 404);
+    }
+  }
+
+  private async assertBusinessExists(businessId: string): Promise<void> {
+    const [business] = await this.db
+      .select({ id: businessDetails.id })
+      .from(businessDetails)
+      .where(eq(businessDetails.id, businessId))
+      .limit(1);
+    if (!business) {
+      throw new ConnectionError('Business not found', 404);
+    }
+  }
+
+  // Edges between two members, in either direction
+  private betweenCondition(profileId: string, otherId: string) {
+    return and(
+      eq(connections.targetType, 'user'),
+      or(
+        and(eq(connections.userId, profileId), eq(connections.targetId, otherId)),
+        and(eq(connections.userId, otherId), eq(connections.targetId, profileId))
+      )
+    );
+  }
+
+  private async paginate<T>(
+    fetchPage: (limit: number, offset: number) => Promise<T[]>,
+    countQuery: Promise<Array<{ count: number }>>,
+    paging: Paging
+  ) {
+    const limit = paging.limit || 20;
+    const offset = paging.offset || 0;
+
+    const [data, [countResult]] = await Promise.all([fetchPage(limit, offset), countQuery]);
+
+    return {
+      data,
+      total: countResult?.count || 0,
+      limit,
+      offset,
+    };
+  }
+}
@@ -0,0 +1,288 @@
+import { eq, or, inArray } from 'drizzle-orm';
+import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { authUsers } from '../models/authUser';
+import { authIdentities } from '../models/auth_identities';
+import { sessions } from '../models/sessions';
+import { roleChanges } from '../models/role_changes';
+import { user } from '../models/user';
+import { businessDetails } from '../models/business_details';
+import { postUpdates } from '../models/post_updates';
+import { comments } from '../models/comments';
+import { commentReplies } from '../models/comment_replies';
+import { favourites } from '../models/favourites';
+import { media } from '../models/media';
+import { news } from '../models/news';
+import { notifications } from '../models/notifications';
+import { notificationPreferences } from '../models/notification_preferences';
+import { pushTokens } from '../models/push_tokens';
+import { connections } from '../models/connections';
+import { conversationParticipants } from '../models/conversation_participants';
+import { messages } from '../models/messages';
+import { savedSearches } from '../models/saved_searches';
+import { bloodRequests } from '../models/blood_requests';
+import { bloodDonors } from '../models/blood_donors';
+import { bloodRequestResponses } from '../models/blood_request_responses';
+import { events } from '../models/events';
+import { eventOrganizers } from '../models/event_organizers';
+import { eventRsvps } from '../models/event_rsvps';
+import { groups } from '../models/groups';
+import { groupMembers } from '../models/group_members';
+import { jobPostings } from '../models/job_postings';
+import { jobApplications } from '../models/job_applications';
+import { mentorshipProfiles } from '../models/mentorship_profiles';
+import { mentorships } from '../models/mentorships';
+import { mentorshipSessions } from '../models/mentorship_sessions';
+
+export class DataExportService {
+  constructor(private db: NodePgDatabase<any>) {}
+
+  /**
+   * Collect everything the account owns into a single JSON-serialisable bundle
+   */
+  async exportAccount(authUserId: string) {
+    const [account] = await this.db
+      .select()
+      .from(authUsers)
+      .where(eq(authUsers.id, authUserId))
+      .limit(1);
+
+    if (!account) return null;
+
+    // Never export credentials
+    const { passwordHash, ...accountData } = account;
+
+    const identities = await this.db
+      .select({
+        provider: authIdentities.provider,
+        email: authIdentities.email,
+        lastUsedAt: authIdentities.lastUsedAt,
+        createdAt: authIdentities.createdAt,
+      })
+      .from(authIdentities)
+      .where(eq(authIdentities.authUserId, authUserId));
+
+    const sessionRows = await this.db
+      .select({
+        id: sessions.id,
+        deviceId: sessions.deviceId,
+        deviceName: sessions.deviceName,
+        deviceType: sessions.deviceType,
+        ipAddress: sessions.ipAddress,
+        userAgent: sessions.userAgent,
+        isActive: sessions.isActive,
+        lastActivity: sessions.lastActivity,
+        createdAt: sessions.createdAt,
+      })
+      .from(sessions)
+      .where(eq(sessions.authUserId, authUserId));
+
+    const pushTokenRows = await this.db
+      .select({
+        sessionId: pushTokens.sessionId,
+        token: pushTokens.token,
+        createdAt: pushTokens.createdAt,
+        updatedAt: pushTokens.updatedAt,
+      })
+      .from(pushTokens)
+      .where(eq(pushTokens.authUserId, authUserId));
+
+    const roleHistory = await this.db
+      .select()
+      .from(roleChanges)
+      .where(eq(roleChanges.authUserId, authUserId));
+
+    const profiles = await this.db
+      .select()
+      .from(user)
+      .where(eq(user.userAuthId, authUserId));
+    const profileIds = profiles.map(p => p.id);
+
+    const businesses = profileIds.length > 0
+      ? await this.db.select().from(businessDetails).where(inArray(businessDetails.userId, profileIds))
+      : [];
+    const businessIds = businesses.map(b => b.id);
+
+    const posts = profileIds.length > 0
+      ? await this.db
+        .select()
+        .from(postUpdates)
+        .where(businessIds.length > 0
+          ? or(inArray(postUpdates.postByUserId, profileIds), inArray(postUpdates.postByBusinessId, businessIds))
+          : inArray(postUpdates.postByUserId, profileIds))
+      : [];
+    const postIds = posts.map(p => p.id);
+
+    const commentRows = profileIds.length > 0
+      ? await this.db.select().from(comments).where(inArray(comments.userProfileId, profileIds))
+      : [];
+
+    const replyRows = profileIds.length > 0
+      ? await this.db.select().from(commentReplies).where(inArray(commentReplies.userProfileId, profileIds))
+      : [];
+
+    const favouriteRows = profileIds.length > 0
+      ? await this.db.select().from(favourites).where(inArray(favourites.userId, profileIds))
+      : [];
+
+    // Only the user's own follows, connection requests and blocks
+    const connectionRows = profileIds.length > 0
+      ? await this.db.select().from(connections).where(inArray(connections.userId, profileIds))
+      : [];
+
+    const conversationRows = profileIds.length > 0
+      ? await this.db
+        .select({
+          conversationId: conversationParticipants.conversationId,
+          role: conversationParticipants.role,
+          joinedAt: conversationParticipants.joinedAt,
+        })
+        .from(conversationParticipants)
+        .where(inArray(conversationParticipants.userId, profileIds))
+      : [];
+
+    const bloodRequestRows = profileIds.length > 0
+      ? await this.db.select().from(bloodRequests).where(inArray(bloodRequests.requesterId, profileIds))
+      : [];
+
+    const bloodDonorRows = profileIds.length > 0
+      ? await this.db.select().from(bloodDonors).where(inArray(bloodDonors.userId, profileIds))
+      : [];
+
+    // The user's answers to other members' blood requests
+    const bloodResponseRows = profileIds.length > 0
+      ? await this.db.select().from(bloodRequestResponses).where(inArray(bloodRequestResponses.donorId, profileIds))
+      : [];
+
+    const eventRows = profileIds.length > 0
+      ? await this.db.select().from(events).where(inArray(events.createdBy, profileIds))
+      : [];
+
+    // Events the user co-organizes, and RSVPs to any event
+    const eventOrganizerRows = profileIds.length > 0
+      ? await this.db.select().from(eventOrganizers).where(inArray(eventOrganizers.userId, profileIds))
+      : [];
+
+    const eventRsvpRows = profileIds.length > 0
+      ? await this.db.select().from(eventRsvps).where(inArray(eventRsvps.userId, profileIds))
+      : [];
+
+    const groupRows = profileIds.length > 0
+      ? await this.db.select().from(groups).where(inArray(groups.createdBy, profileIds))
+      : [];
+
+    // Memberships, join requests and invitations
+    const groupMemberRows = profileIds.length > 0
+      ? await this.db.select().from(groupMembers).where(inArray(groupMembers.userId, profileIds))
+      : [];
+
+    const jobPostingRows = profileIds.length > 0
+      ? await this.db.select().from(jobPostings).where(inArray(jobPostings.postedBy, profileIds))
+      : [];
+
+    // The employer's notes on the user's applications are the employer's
+    const jobApplicationRows = profileIds.length > 0
+      ? (await this.db.select().from(jobApplications).where(inArray(jobApplications.applicantId, profileIds)))
+        .map(({ employerNote, ...application }) => application)
+      : [];
+
+    const mentorshipProfileRows = profileIds.length > 0
+      ? await this.db.select().from(mentorshipProfiles).where(inArray(mentorshipProfiles.userId, profileIds))
+      : [];
+
+    // Mentorships on either side; only the session notes the user wrote
+    const mentorshipRows = profileIds.length > 0
+      ? await this.db.select().from(mentorships).where(or(inArray(mentorships.mentorId, profileIds), inArray(mentorships.menteeId, profileIds)))
+      : [];
+
+    const mentorshipSessionRows = profileIds.length > 0
+      ? await this.db.select().from(mentorshipSessions).where(inArray(mentorshipSessions.authorId, profileIds))
+      : [];
+
+    // Messages the user sent; other members' messages are theirs
+    const messageRows = profileIds.length > 0
+      ? await this.db.select().from(messages).where(inArray(messages.senderId, profileIds))
+      : [];
+    const messageIds = messageRows.map(m => m.id);
+
+    const articles = await this.db
+      .select()
+      .from(news)
+      .where(eq(news.createdBy, authUserId));
+
+    const mediaConditions = [eq(media.authUserId, authUserId)];
+    if (profileIds.length > 0) mediaConditions.push(inArray(media.resourceId, profileIds));
+    if (businessIds.length > 0) mediaConditions.push(inArray(media.resourceId, businessIds));
+    if (postIds.length > 0) mediaConditions.push(inArray(media.resourceId, postIds));
+    if (messageIds.length > 0) mediaConditions.push(inArray(media.resourceId, messageIds));
+
+    const mediaRows = await this.db
+      .select({
+        id: media.id,
+        resourceType: media.resourceType,
+        resourceId: media.resourceId,
+        tag: media.tag,
+        filename: media.originalFilename,
+        mimeType: media.mimeType,
+        size: media.size,
+        // URLs of media that isn't public need signing; GET /api/media/:mediaId/url
+        privacy: media.privacy,
+        url: media.url,
+        thumbnailUrl: media.thumbnailUrl,
+        variants: media.variants,
+        uploadedAt: media.uploadedAt,
+      })
+      .from(media)
+      .where(or(...mediaConditions));
+
+    const notificationRows = await this.db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.recipientId, authUserId));
+
+    const notificationPreferenceRows = await this.db
+      .select({ type: notificationPreferences.type, enabled: notificationPreferences.enabled })
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.authUserId, authUserId));
+
+    const savedSearchRows = await this.db
+      .select()
+      .from(savedSearches)
+      .where(eq(savedSearches.authUserId, authUserId));
+
+    return {
+      exportedAt: new Date().toISOString(),
+      account: accountData,
+      identities,
+      sessions: sessionRows,
+      pushTokens: pushTokenRows,
+      roleHistory,
+      profile: profiles[0] || null,
+      businesses,
+      posts,
+      comments: commentRows,
+      commentReplies: replyRows,
+      favourites: favouriteRows,
+      connections: connectionRows,
+      conversations: conversationRows,
+      messages: messageRows,
+      news: articles,
+      media: mediaRows,
+      notifications: notificationRows,
+      notificationPreferences: notificationPreferenceRows,
+      savedSearches: savedSearchRows,
+      bloodRequests: bloodRequestRows,
+      bloodDonor: bloodDonorRows[0] || null,
+      bloodRequestResponses: bloodResponseRows,
+      events: eventRows,
+      eventOrganizers: eventOrganizerRows,
+      eventRsvps: eventRsvpRows,
+      groups: groupRows,
+      groupMemberships: groupMemberRows,
+      jobPostings: jobPostingRows,
+      jobApplications: jobApplicationRows,
+      mentorshipProfile: mentorshipProfileRows[0] || null,
+      mentorships: mentorshipRows,
+      mentorshipSessions: mentorshipSessionRows,
+    };
+  }
+}
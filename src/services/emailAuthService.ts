@@ -0,0 +1,266 @@
+import { eq, and, isNull, gt, sql } from 'drizzle-orm';
+import { randomBytes, createHash } from 'crypto';
+import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { authUsers, type AuthUser } from '../models/authUser';
+import { emailTokens, type EmailTokenPurpose } from '../models/email_tokens';
+import { hashPassword, verifyPassword } from '../utils/password';
+import type { MailService } from './mailService';
+
+const TOKEN_TTL_MINUTES: Record<EmailTokenPurpose, number> = {
+  verify_email: 24 * 60,
+  password_reset: 60,
+  magic_link: 15,
+};
+
+export class EmailAuthError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message);
+    this.name = 'EmailAuthError';
+  }
+}
+
+export class EmailAuthService {
+  constructor(
+    private db: NodePgDatabase<any>,
+    private mailer: MailService,
+    private appLinkUrl: string
+  ) {}
+
+  /**
+   * Create an email/password account and send the verification email.
+   * The account cannot sign in until the address is verified.
+   */
+  async register(data: { email: string; password: string; name: string }): Promise<AuthUser> {
+    const email = this.normalizeEmail(data.email);
+
+    if (await this.findByEmail(email)) {
+      throw new EmailAuthError('An account with this email already exists', 409);
+    }
+
+    const [newUser] = await this.db
+      .insert(authUsers)
+      .values({
+        email,
+        name: data.name,
+        provider: 'email',
+        providerId: email,
+        passwordHash: await hashPassword(data.password),
+        emailVerified: false,
+        isActive: true,
+      })
+      .returning();
+
+    await this.sendVerificationEmail(newUser!);
+    return newUser!;
+  }
+
+  /**
+   * Re-send the verification email. Silently does nothing for unknown or verified addresses.
+   */
+  async resendVerification(rawEmail: string): Promise<void> {
+    const existing = await this.findByEmail(this.normalizeEmail(rawEmail));
+    if (!existing || existing.emailVerified || !existing.isActive) return;
+
+    await this.sendVerificationEmail(existing);
+  }
+
+  async verifyEmail(token: string): Promise<AuthUser> {
+    const authUser = await this.consumeToken(token, 'verify_email');
+
+    const [updated] = await this.db
+      .update(authUsers)
+      .set({ emailVerified: true, updatedAt: new Date() })
+      .where(eq(authUsers.id, authUser.id))
+      .returning();
+
+    return updated!;
+  }
+
+  async login(rawEmail: string, password: string): Promise<AuthUser> {
+    const existing = await this.findByEmail(this.normalizeEmail(rawEmail));
+
+    const valid = existing?.passwordHash
+      ? await verifyPassword(password, existing.passwordHash)
+      : false;
+
+    if (!existing || !valid || !existing.isActive) {
+      throw new EmailAuthError('Invalid email or password', 401);
+    }
+
+    if (!existing.emailVerified) {
+      throw new EmailAuthError('Email address has not been verified', 403);
+    }
+
+    return existing;
+  }
+
+  /**
+   * Send a password reset link. Silently does nothing for unknown addresses.
+   * Also works for Google/Apple accounts, which can add a password this way.
+   */
+  async requestPasswordReset(rawEmail: string): Promise<void> {
+    const existing = await this.findByEmail(this.normalizeEmail(rawEmail));
+    if (!existing || !existing.isActive) return;
+
+    const token = await this.createToken(existing.id, 'password_reset');
+    const link = this.buildLink('reset-password', token);
+
+    await this.mailer.send({
+      to: existing.email,
+      subject: 'Reset your password',
+      text: `Hi ${existing.name},\n\nUse this link to choose a new password:\n${link}\n\nThe link expires in ${TOKEN_TTL_MINUTES.password_reset} minutes. If you did not ask for a reset you can ignore this email.`,
+      html: `<p>Hi ${this.escapeHtml(existing.name)},</p><p><a href="${link}">Choose a new password</a></p><p>The link expires in ${TOKEN_TTL_MINUTES.password_reset} minutes. If you did not ask for a reset you can ignore this email.</p>`,
+    });
+  }
+
+  /**
+   * Set a new password. Receiving the reset email proves ownership, so the address is marked verified.
+   */
+  async resetPassword(token: string, password: string): Promise<AuthUser> {
+    const authUser = await this.consumeToken(token, 'password_reset');
+
+    const [updated] = await this.db
+      .update(authUsers)
+      .set({
+        passwordHash: await hashPassword(password),
+        emailVerified: true,
+        updatedAt: new Date(),
+      })
+      .where(eq(authUsers.id, authUser.id))
+      .returning();
+
+    return updated!;
+  }
+
+  /**
+   * Send a passwordless sign-in link. Silently does nothing for unknown addresses.
+   */
+  async requestMagicLink(rawEmail: string): Promise<void> {
+    const existing = await this.findByEmail(this.normalizeEmail(rawEmail));
+    if (!existing || !existing.isActive) return;
+
+    const token = await this.createToken(existing.id, 'magic_link');
+    const link = this.buildLink('magic-link', token);
+
+    await this.mailer.send({
+      to: existing.email,
+      subject: 'Your sign-in link',
+      text: `Hi ${existing.name},\n\nUse this link to sign in:\n${link}\n\nThe link expires in ${TOKEN_TTL_MINUTES.magic_link} minutes and can only be used once.`,
+      html: `<p>Hi ${this.escapeHtml(existing.name)},</p><p><a href="${link}">Sign in</a></p><p>The link expires in ${TOKEN_TTL_MINUTES.magic_link} minutes and can only be used once.</p>`,
+    });
+  }
+
+  async consumeMagicLink(token: string): Promise<AuthUser> {
+    const authUser = await this.consumeToken(token, 'magic_link');
+
+    const [updated] = await this.db
+      .update(authUsers)
+      .set({ emailVerified: true, lastLoginAt: new Date(), updatedAt: new Date() })
+      .where(eq(authUsers.id, authUser.id))
+      .returning();
+
+    return updated!;
+  }
+
+  private async sendVerificationEmail(authUser: AuthUser): Promise<void> {
+    const token = await this.createToken(authUser.id, 'verify_email');
+    const link = this.buildLink('verify-email', token);
+
+    await this.mailer.send({
+      to: authUser.email,
+      subject: 'Verify your email address',
+      text: `Hi ${authUser.name},\n\nPlease confirm your email address:\n${link}\n\nThe link expires in 24 hours.`,
+      html: `<p>Hi ${this.escapeHtml(authUser.name)},</p><p><a href="${link}">Confirm your email address</a></p><p>The link expires in 24 hours.</p>`,
+    });
+  }
+
+  /**
+   * Issue a new token, invalidating any unused token of the same purpose
+   */
+  private async createToken(authUserId: string, purpose: EmailTokenPurpose): Promise<string> {
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + TOKEN_TTL_MINUTES[purpose] * 60 * 1000);
+
+    await this.db.transaction(async (tx) => {
+      await tx
+        .update(emailTokens)
+        .set({ usedAt: new Date() })
+        .where(and(
+          eq(emailTokens.authUserId, authUserId),
+          eq(emailTokens.purpose, purpose),
+          isNull(emailTokens.usedAt)
+        ));
+
+      await tx.insert(emailTokens).values({
+        authUserId,
+        purpose,
+        tokenHash: this.hashToken(token),
+        expiresAt,
+      });
+    });
+
+    return token;
+  }
+
+  /**
+   * Mark a token as used and return its user. Claiming is atomic so a token works only once.
+   */
+  private async consumeToken(token: string, purpose: EmailTokenPurpose): Promise<AuthUser> {
+    const [claimed] = await this.db
+      .update(emailTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(emailTokens.tokenHash, this.hashToken(token)),
+        eq(emailTokens.purpose, purpose),
+        isNull(emailTokens.usedAt),
+        gt(emailTokens.expiresAt, new Date())
+      ))
+      .returning({ authUserId: emailTokens.authUserId });
+
+    if (!claimed) {
+      throw new EmailAuthError('Invalid or expired link', 400);
+    }
+
+    const [authUser] = await this.db
+      .select()
+      .from(authUsers)
+      .where(eq(authUsers.id, claimed.authUserId))
+      .limit(1);
+
+    if (!authUser || !authUser.isActive) {
+      throw new EmailAuthError('Invalid or expired link', 400);
+    }
+
+    return authUser;
+  }
+
+  private async findByEmail(email: string): Promise<AuthUser | null> {
+    const [existing] = await this.db
+      .select()
+      .from(authUsers)
+      .where(sql`lower(${authUsers.email}) = ${email}`)
+      .limit(1);
+
+    return existing || null;
+  }
+
+  private buildLink(path: string, token: string): string {
+    return `${this.appLinkUrl.replace(/\/$/, '')}/${path}?token=${encodeURIComponent(token)}`;
+  }
+
+  private normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
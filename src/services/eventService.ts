@@ -0,0 +1,773 @@
+import { eq, and, or, asc, desc, sql, inArray, gte, lte, gt, isNull, type SQL } from 'drizzle-orm';
+import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { randomBytes, createHash } from 'crypto';
+import { user } from '../models/user';
+import { businessDetails } from '../models/business_details';
+import { cities } from '../models/cities';
+import { media } from '../models/media';
+import { connections } from '../models/connections';
+import { events, type Event } from '../models/events';
+import { eventOrganizers } from '../models/event_organizers';
+import { eventRsvps, type EventRsvpStatus } from '../models/event_rsvps';
+import { calendarFeeds } from '../models/calendar_feeds';
+import { appEvents } from '../utils/appEvents';
+import { buildCalendar, type IcsEvent } from '../utils/ics';
+
+// Past events kept in a member's calendar feed
+const CALENDAR_HISTORY_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Calendar apps poll feeds often; lastUsedAt is only written this often
+const FEED_USE_INTERVAL_MS = 60 * 60 * 1000;
+
+const hashFeedToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+export class EventError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message);
+    this.name = 'EventError';
+  }
+}
+
+interface Paging {
+  limit?: number | undefined;
+  offset?: number | undefined;
+}
+
+type Transaction = Parameters<Parameters<NodePgDatabase<any>['transaction']>[0]>[0];
+
+export interface EventInput {
+  title: string;
+  description?: string | null | undefined;
+  startsAt: Date;
+  endsAt: Date;
+  venue?: string | null | undefined;
+  address?: string | null | undefined;
+  cityId?: string | null | undefined;
+  onlineUrl?: string | null | undefined;
+  capacity?: number | null | undefined;
+}
+
+export type EventOrganizerInput = { userId: string } | { businessId: string };
+
+const attendeeColumns = {
+  id: user.id,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  graduationYear: user.graduationYear,
+  currentCity: user.currentCity,
+  profilePic: user.profilePic,
+};
+
+/**
+ * Events with RSVPs and a waitlist. Member IDs are profile (`user` table) IDs.
+ */
+export class EventService {
+  constructor(private db: NodePgDatabase<any>, private options: { reminderHours: number }) {}
+
+  // Events
+
+  /**
+   * Create an event organized by the member, and optionally one of their businesses
+   */
+  async create(profileId: string, data: EventInput & { businessId?: string | undefined }) {
+    if (data.startsAt <= new Date()) {
+      throw new EventError('Events must start in the future', 400);
+    }
+    this.assertValid(data);
+    if (data.cityId) await this.assertCityExists(data.cityId);
+    if (data.businessId) await this.assertOwnsBusiness(profileId, data.businessId);
+
+    const eventId = await this.db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(events)
+        .values({
+          createdBy: profileId,
+          title: data.title,
+          description: data.description || null,
+          startsAt: data.startsAt,
+          endsAt: data.endsAt,
+          venue: data.venue || null,
+          address: data.address || null,
+          cityId: data.cityId || null,
+          onlineUrl: data.onlineUrl || null,
+          capacity: data.capacity ?? null,
+        })
+        .returning({ id: events.id });
+
+      await tx.insert(eventOrganizers).values([
+        { eventId: created!.id, userId: profileId },
+        ...(data.businessId ? [{ eventId: created!.id, businessId: data.businessId }] : []),
+      ]);
+
+      return created!.id;
+    });
+
+    return this.get(profileId, eventId);
+  }
+
+  /**
+   * Organizers can change the details until the event is cancelled. Raising the
+   * capacity moves waitlisted members to going.
+   */
+  async update(profileId: string, eventId: string, data: Partial<EventInput>) {
+    const event = await this.findEvent(eventId);
+    await this.assertOrganizer(profileId, eventId);
+
+    if (event.status === 'cancelled') {
+      throw new EventError('This event has been cancelled', 409);
+    }
+
+    const merged = { ...event, ...data };
+    this.assertValid(merged);
+    if (data.cityId) await this.assertCityExists(data.cityId);
+
+    const changes: Partial<typeof events.$inferInsert> = { updatedAt: new Date() };
+    for (const key of ['title', 'description', 'startsAt', 'endsAt', 'venue', 'address', 'cityId', 'onlineUrl', 'capacity'] as const) {
+      if (data[key] !== undefined) (changes as Record<string, unknown>)[key] = data[key];
+    }
+    // A new start time gets a new reminder
+    if (data.startsAt && data.startsAt.getTime() !== event.startsAt.getTime()) {
+      changes.remindedAt = null;
+    }
+
+    const { updated, promoted } = await this.db.transaction(async (tx) => {
+      await this.lockEvent(tx, eventId);
+
+      const [updated] = await tx
+        .update(events)
+        .set(changes)
+        .where(eq(events.id, eventId))
+        .returning();
+
+      return { updated: updated!, promoted: await this.promoteWaitlisted(tx, updated!) };
+    });
+
+    if (promoted.length > 0) {
+      appEvents.emit('event.promoted', { event: updated, userIds: promoted });
+    }
+
+    return this.get(profileId, eventId);
+  }
+
+  /**
+   * Cancel the event and let everyone who RSVP'd (except declines) know
+   */
+  async cancel(profileId: string, eventId: string) {
+    const event = await this.findEvent(eventId);
+    await this.assertOrganizer(profileId, eventId);
+
+    if (event.status === 'cancelled') {
+      throw new EventError('This event is already cancelled', 409);
+    }
+
+    const [cancelled] = await this.db
+      .update(events)
+      .set({ status: 'cancelled', updatedAt: new Date() })
+      .where(eq(events.id, eventId))
+      .returning();
+
+    const attendees = await this.db
+      .select({ userId: eventRsvps.userId })
+      .from(eventRsvps)
+      .where(and(eq(eventRsvps.eventId, eventId), inArray(eventRsvps.status, ['going', 'maybe', 'waitlisted'])));
+
+    if (attendees.length > 0) {
+      appEvents.emit('event.cancelled', {
+        event: cancelled!,
+        cancelledBy: profileId,
+        attendeeIds: attendees.map(a => a.userId),
+      });
+    }
+
+    return this.get(profileId, eventId);
+  }
+
+  /**
+   * Upcoming events (including ones in progress), soonest first
+   */
+  async list(viewerId: string, filters: {
+    from?: Date | undefined;
+    to?: Date | undefined;
+    cityId?: string | undefined;
+    businessId?: string | undefined;
+    organizerId?: string | undefined;
+  } & Paging) {
+    const conditions: (SQL | undefined)[] = [
+      eq(events.status, 'scheduled'),
+      gte(events.endsAt, filters.from || new Date()),
+    ];
+    if (filters.to) conditions.push(lte(events.startsAt, filters.to));
+    if (filters.cityId) conditions.push(eq(events.cityId, filters.cityId));
+    if (filters.businessId) conditions.push(this.organizedBy(eq(eventOrganizers.businessId, filters.businessId)));
+    if (filters.organizerId) conditions.push(this.organizedBy(eq(eventOrganizers.userId, filters.organizerId)));
+
+    return this.paginate(viewerId, and(...conditions), [asc(events.startsAt)], filters);
+  }
+
+  /**
+   * Events the member organizes or has RSVP'd to (except declines), including cancelled ones.
+   * Upcoming soonest first, or past most recent first.
+   */
+  async listForUser(profileId: string, options: { past?: boolean | undefined } & Paging) {
+    const now = new Date();
+    const conditions = [
+      this.involving(profileId),
+      options.past ? sql`${events.endsAt} < ${now}` : gte(events.endsAt, now),
+    ];
+
+    return this.paginate(
+      profileId,
+      and(...conditions),
+      [options.past ? desc(events.startsAt) : asc(events.startsAt)],
+      options
+    );
+  }
+
+  async get(viewerId: string, eventId: string) {
+    const [row] = await this.db
+      .select(this.listColumns(viewerId))
+      .from(events)
+      .leftJoin(cities, eq(cities.id, events.cityId))
+      .where(eq(events.id, eventId))
+      .limit(1);
+
+    if (!row) {
+      throw new EventError('Event not found', 404);
+    }
+
+    const organizers = await this.db
+      .select({
+        id: eventOrganizers.id,
+        userId: eventOrganizers.userId,
+        businessId: eventOrganizers.businessId,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        companyName: businessDetails.companyName,
+      })
+      .from(eventOrganizers)
+      .leftJoin(user, eq(user.id, eventOrganizers.userId))
+      .leftJoin(businessDetails, eq(businessDetails.id, eventOrganizers.businessId))
+      .where(eq(eventOrganizers.eventId, eventId))
+      .orderBy(asc(eventOrganizers.createdAt));
+
+    const counts = await this.db
+      .select({ status: eventRsvps.status, count: sql<number>`count(*)::int` })
+      .from(eventRsvps)
+      .where(eq(eventRsvps.eventId, eventId))
+      .groupBy(eventRsvps.status);
+
+    const rsvpCounts = { going: 0, maybe: 0, declined: 0, waitlisted: 0 };
+    counts.forEach(c => { rsvpCounts[c.status] = c.count; });
+
+    const event = this.serialize(row);
+
+    return {
+      ...event,
+      organizers: organizers.map(o => o.userId
+        ? { id: o.id, type: 'user' as const, userId: o.userId, name: [o.firstName, o.lastName].filter(Boolean).join(' ') }
+        : { id: o.id, type: 'business' as const, businessId: o.businessId, name: o.companyName || '' }),
+      isOrganizer: organizers.some(o => o.userId === viewerId),
+      rsvpCounts,
+      spotsLeft: event.capacity === null ? null : Math.max(event.capacity - rsvpCounts.going, 0),
+    };
+  }
+
+  // Organizers
+
+  /**
+   * Add a co-organizer: another member, or a business the caller owns
+   */
+  async addOrganizer(profileId: string, eventId: string, organizer: EventOrganizerInput) {
+    await this.findEvent(eventId);
+    await this.assertOrganizer(profileId, eventId);
+
+    if ('businessId' in organizer) {
+      await this.assertOwnsBusiness(profileId, organizer.businessId);
+    } else {
+      const [member] = await this.db
+        .select({ id: user.id })
+        .from(user)
+        .where(eq(user.id, organizer.userId))
+        .limit(1);
+      if (!member) {
+        throw new EventError('Member not found', 404);
+      }
+      if (await this.isBlocked(profileId, organizer.userId)) {
+        throw new EventError('You cannot add this member', 403);
+      }
+    }
+
+    await this.db
+      .insert(eventOrganizers)
+      .values({ eventId, ...organizer })
+      .onConflictDoNothing();
+
+    return this.get(profileId, eventId);
+  }
+
+  /**
+   * Remove an organizer by its organizer entry ID. Organizers may remove themselves;
+   * the last member organizer can't be removed.
+   */
+  async removeOrganizer(profileId: string, eventId: string, organizerId: string) {
+    await this.assertOrganizer(profileId, eventId);
+
+    const organizers = await this.db
+      .select({ id: eventOrganizers.id, userId: eventOrganizers.userId })
+      .from(eventOrganizers)
+      .where(eq(eventOrganizers.eventId, eventId));
+
+    const target = organizers.find(o => o.id === organizerId);
+    if (!target) {
+      throw new EventError('Organizer not found', 404);
+    }
+    if (target.userId && organizers.filter(o => o.userId).length === 1) {
+      throw new EventError('An event needs at least one member organizer', 409);
+    }
+
+    await this.db.delete(eventOrganizers).where(eq(eventOrganizers.id, organizerId));
+  }
+
+  // RSVPs
+
+  /**
+   * RSVP or change an RSVP. "going" joins the waitlist when the event is full;
+   * leaving "going" gives the spot to the longest-waiting member.
+   */
+  async rsvp(profileId: string, eventId: string, status: 'going' | 'maybe' | 'declined'): Promise<{ status: EventRsvpStatus }> {
+    const { event, result, promoted } = await this.db.transaction(async (tx) => {
+      const event = await this.lockEvent(tx, eventId);
+      this.assertOpen(event);
+
+      const [existing] = await tx
+        .select()
+        .from(eventRsvps)
+        .where(and(eq(eventRsvps.eventId, eventId), eq(eventRsvps.userId, profileId)))
+        .limit(1);
+
+      let result: EventRsvpStatus = status;
+      let waitlistedAt: Date | null = null;
+
+      if (status === 'going' && existing?.status !== 'going' && event.capacity !== null) {
+        if ((await this.countGoing(tx, eventId)) >= event.capacity) {
+          result = 'waitlisted';
+          // Asking again keeps the original place in the queue
+          waitlistedAt = existing?.status === 'waitlisted' ? existing.waitlistedAt : new Date();
+        }
+      } else if (status === 'going' && existing?.status === 'going') {
+        return { event, result: existing.status, promoted: [] };
+      }
+
+      const now = new Date();
+      await tx
+        .insert(eventRsvps)
+        .values({ eventId, userId: profileId, status: result, waitlistedAt })
+        .onConflictDoUpdate({
+          target: [eventRsvps.eventId, eventRsvps.userId],
+          set: { status: result, waitlistedAt, updatedAt: now },
+        });
+
+      const promoted = existing?.status === 'going' && result !== 'going'
+        ? await this.promoteWaitlisted(tx, event)
+        : [];
+
+      return { event, result, promoted };
+    });
+
+    if (promoted.length > 0) {
+      appEvents.emit('event.promoted', { event, userIds: promoted });
+    }
+
+    return { status: result };
+  }
+
+  async removeRsvp(profileId: string, eventId: string): Promise<void> {
+    const { event, promoted } = await this.db.transaction(async (tx) => {
+      const event = await this.lockEvent(tx, eventId);
+
+      const [deleted] = await tx
+        .delete(eventRsvps)
+        .where(and(eq(eventRsvps.eventId, eventId), eq(eventRsvps.userId, profileId)))
+        .returning({ status: eventRsvps.status });
+
+      if (!deleted) {
+        throw new EventError('You have not RSVP\'d to this event', 404);
+      }
+
+      const promoted = deleted.status === 'going' && event.status === 'scheduled'
+        ? await this.promoteWaitlisted(tx, event)
+        : [];
+
+      return { event, promoted };
+    });
+
+    if (promoted.length > 0) {
+      appEvents.emit('event.promoted', { event, userIds: promoted });
+    }
+  }
+
+  /**
+   * Members by RSVP status. Going members in RSVP order, the waitlist in queue order.
+   */
+  async listAttendees(eventId: string, status: EventRsvpStatus, paging: Paging) {
+    await this.findEvent(eventId);
+
+    const whereClause = and(eq(eventRsvps.eventId, eventId), eq(eventRsvps.status, status));
+
+    const [countResult] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(eventRsvps)
+      .where(whereClause);
+
+    const results = await this.db
+      .select({ ...attendeeColumns, respondedAt: eventRsvps.updatedAt })
+      .from(eventRsvps)
+      .innerJoin(user, eq(user.id, eventRsvps.userId))
+      .where(whereClause)
+      .orderBy(status === 'waitlisted' ? asc(eventRsvps.waitlistedAt) : asc(eventRsvps.updatedAt))
+      .limit(paging.limit || 20)
+      .offset(paging.offset || 0);
+
+    return {
+      data: results,
+      total: countResult?.count || 0,
+      limit: paging.limit || 20,
+      offset: paging.offset || 0,
+    };
+  }
+
+  // Calendar export
+
+  /**
+   * One event as an iCalendar file. `domain` makes the UIDs globally unique.
+   */
+  async eventCalendar(eventId: string, domain: string): Promise<string> {
+    const [row] = await this.db
+      .select({ event: events, cityName: cities.name })
+      .from(events)
+      .leftJoin(cities, eq(cities.id, events.cityId))
+      .where(eq(events.id, eventId))
+      .limit(1);
+
+    if (!row) {
+      throw new EventError('Event not found', 404);
+    }
+
+    return buildCalendar([this.toIcsEvent(row.event, row.cityName, domain)], { name: row.event.title });
+  }
+
+  /**
+   * The member's events (see listForUser) from the last 90 days onward
+   */
+  async userCalendar(profileId: string, domain: string): Promise<string> {
+    const rows = await this.db
+      .select({ event: events, cityName: cities.name })
+      .from(events)
+      .leftJoin(cities, eq(cities.id, events.cityId))
+      .where(and(
+        this.involving(profileId),
+        gte(events.endsAt, new Date(Date.now() - CALENDAR_HISTORY_DAYS * DAY_MS))
+      ))
+      .orderBy(asc(events.startsAt));
+
+    return buildCalendar(rows.map(r => this.toIcsEvent(r.event, r.cityName, domain)), { name: 'My events' });
+  }
+
+  /**
+   * A new calendar feed token for the member, replacing (and so revoking) the previous one.
+   * Only its hash is kept, so it can't be shown again.
+   */
+  async createCalendarFeed(profileId: string): Promise<string> {
+    const token = randomBytes(32).toString('base64url');
+    const tokenHash = hashFeedToken(token);
+
+    await this.db
+      .insert(calendarFeeds)
+      .values({ userId: profileId, tokenHash })
+      .onConflictDoUpdate({
+        target: calendarFeeds.userId,
+        set: { tokenHash, lastUsedAt: null, createdAt: new Date() },
+      });
+
+    return token;
+  }
+
+  async revokeCalendarFeed(profileId: string): Promise<void> {
+    await this.db.delete(calendarFeeds).where(eq(calendarFeeds.userId, profileId));
+  }
+
+  /**
+   * The member a calendar feed token belongs to
+   */
+  async findCalendarFeedOwner(token: string): Promise<string> {
+    const [feed] = await this.db
+      .select()
+      .from(calendarFeeds)
+      .where(eq(calendarFeeds.tokenHash, hashFeedToken(token)))
+      .limit(1);
+
+    if (!feed) {
+      throw new EventError('Invalid calendar feed token', 401);
+    }
+
+    const now = new Date();
+    if (!feed.lastUsedAt || now.getTime() - feed.lastUsedAt.getTime() > FEED_USE_INTERVAL_MS) {
+      await this.db.update(calendarFeeds).set({ lastUsedAt: now }).where(eq(calendarFeeds.id, feed.id));
+    }
+
+    return feed.userId;
+  }
+
+  // Reminders
+
+  /**
+   * Remind members going (or maybe going) to events starting within the reminder window.
+   * Each event is claimed before its reminder goes out, so it is sent once across instances.
+   */
+  async sendDueReminders(): Promise<number> {
+    const now = new Date();
+    const windowEnd = new Date(now.getTime() + this.options.reminderHours * 60 * 60 * 1000);
+
+    const due = await this.db
+      .update(events)
+      .set({ remindedAt: now })
+      .where(and(
+        eq(events.status, 'scheduled'),
+        isNull(events.remindedAt),
+        gt(events.startsAt, now),
+        lte(events.startsAt, windowEnd)
+      ))
+      .returning();
+
+    for (const event of due) {
+      const attendees = await this.db
+        .select({ userId: eventRsvps.userId })
+        .from(eventRsvps)
+        .where(and(eq(eventRsvps.eventId, event.id), inArray(eventRsvps.status, ['going', 'maybe'])));
+
+      if (attendees.length > 0) {
+        appEvents.emit('event.reminder', { event, attendeeIds: attendees.map(a => a.userId) });
+      }
+    }
+
+    return due.length;
+  }
+
+  // Helpers
+
+  /**
+   * 404 for a missing event, 403 unless the member organizes it
+   */
+  async assertCanManage(profileId: string, eventId: string): Promise<void> {
+    await this.findEvent(eventId);
+    await this.assertOrganizer(profileId, eventId);
+  }
+
+  private async assertOrganizer(profileId: string, eventId: string): Promise<void> {
+    const [organizer] = await this.db
+      .select({ id: eventOrganizers.id })
+      .from(eventOrganizers)
+      .where(and(eq(eventOrganizers.eventId, eventId), eq(eventOrganizers.userId, profileId)))
+      .limit(1);
+
+    if (!organizer) {
+      throw new EventError('Only organizers can do this', 403);
+    }
+  }
+
+  private assertValid(data: Pick<EventInput, 'startsAt' | 'endsAt' | 'venue' | 'cityId' | 'onlineUrl'>): void {
+    if (data.endsAt <= data.startsAt) {
+      throw new EventError('Events must end after they start', 400);
+    }
+    if (!data.venue && !data.cityId && !data.onlineUrl) {
+      throw new EventError('Add a venue, a city or an online link', 400);
+    }
+  }
+
+  private assertOpen(event: Event): void {
+    if (event.status === 'cancelled') {
+      throw new EventError('This event has been cancelled', 409);
+    }
+    if (event.endsAt <= new Date()) {
+      throw new EventError('This event has ended', 409);
+    }
+  }
+
+  private async assertCityExists(cityId: string): Promise<void> {
+    const [city] = await this.db
+      .select({ id: cities.id })
+      .from(cities)
+      .where(eq(cities.id, cityId))
+      .limit(1);
+
+    if (!city) {
+      throw new EventError('City not found', 400);
+    }
+  }
+
+  private async assertOwnsBusiness(profileId: string, businessId: string): Promise<void> {
+    const [business] = await this.db
+      .select({ userId: businessDetails.userId })
+      .from(businessDetails)
+      .where(eq(businessDetails.id, businessId))
+      .limit(1);
+
+    if (!business) {
+      throw new EventError('Business not found', 404);
+    }
+    if (business.userId !== profileId) {
+      throw new EventError('You can only add businesses you own', 403);
+    }
+  }
+
+  private async isBlocked(profileId: string, otherId: string): Promise<boolean> {
+    const [block] = await this.db
+      .select({ id: connections.id })
+      .from(connections)
+      .where(and(
+        eq(connections.type, 'block'),
+        or(
+          and(eq(connections.userId, profileId), eq(connections.targetId, otherId)),
+          and(eq(connections.userId, otherId), eq(connections.targetId, profileId))
+        )
+      ))
+      .limit(1);
+
+    return !!block;
+  }
+
+  private async findEvent(eventId: string): Promise<Event> {
+    const [event] = await this.db
+      .select()
+      .from(events)
+      .where(eq(events.id, eventId))
+      .limit(1);
+
+    if (!event) {
+      throw new EventError('Event not found', 404);
+    }
+
+    return event;
+  }
+
+  // Serializes RSVP changes per event, so the capacity can't be exceeded
+  private async lockEvent(tx: Transaction, eventId: string): Promise<Event> {
+    const [event] = await tx
+      .select()
+      .from(events)
+      .where(eq(events.id, eventId))
+      .for('update');
+
+    if (!event) {
+      throw new EventError('Event not found', 404);
+    }
+
+    return event;
+  }
+
+  private async countGoing(tx: Transaction, eventId: string): Promise<number> {
+    const [result] = await tx
+      .select({ count: sql<number>`count(*)::int` })
+      .from(eventRsvps)
+      .where(and(eq(eventRsvps.eventId, eventId), eq(eventRsvps.status, 'going')));
+
+    return result?.count || 0;
+  }
+
+  /**
+   * Fill open spots from the waitlist, oldest first. Returns the promoted profile IDs.
+   */
+  private async promoteWaitlisted(tx: Transaction, event: Event): Promise<string[]> {
+    const spots = event.capacity === null ? null : event.capacity - (await this.countGoing(tx, event.id));
+    if (spots !== null && spots <= 0) return [];
+
+    const query = tx
+      .select({ id: eventRsvps.id, userId: eventRsvps.userId })
+      .from(eventRsvps)
+      .where(and(eq(eventRsvps.eventId, event.id), eq(eventRsvps.status, 'waitlisted')))
+      .orderBy(asc(eventRsvps.waitlistedAt));
+    const next = spots === null ? await query : await query.limit(spots);
+
+    if (next.length === 0) return [];
+
+    await tx
+      .update(eventRsvps)
+      .set({ status: 'going', waitlistedAt: null, updatedAt: new Date() })
+      .where(inArray(eventRsvps.id, next.map(r => r.id)));
+
+    return next.map(r => r.userId);
+  }
+
+  private organizedBy(condition: SQL | undefined): SQL {
+    return sql`EXISTS (SELECT 1 FROM ${eventOrganizers} WHERE ${eventOrganizers.eventId} = ${events.id} AND ${condition})`;
+  }
+
+  private involving(profileId: string): SQL | undefined {
+    return or(
+      this.organizedBy(eq(eventOrganizers.userId, profileId)),
+      sql`EXISTS (SELECT 1 FROM ${eventRsvps} WHERE ${eventRsvps.eventId} = ${events.id}
+        AND ${eventRsvps.userId} = ${profileId} AND ${eventRsvps.status} <> 'declined')`
+    );
+  }
+
+  private listColumns(viewerId: string) {
+    return {
+      event: events,
+      city: { id: cities.id, name: cities.name, stateCode: cities.stateCode },
+      banner: sql<string | null>`(SELECT ${media.url} FROM ${media} WHERE ${media.resourceType} = 'event'
+        AND ${media.resourceId} = ${events.id} AND ${media.tag} = 'banner' ORDER BY ${media.uploadedAt} DESC LIMIT 1)`,
+      goingCount: sql<number>`(SELECT count(*)::int FROM ${eventRsvps} WHERE ${eventRsvps.eventId} = ${events.id}
+        AND ${eventRsvps.status} = 'going')`,
+      rsvp: sql<EventRsvpStatus | null>`(SELECT ${eventRsvps.status} FROM ${eventRsvps} WHERE ${eventRsvps.eventId} = ${events.id}
+        AND ${eventRsvps.userId} = ${viewerId})`,
+    };
+  }
+
+  private serialize(row: {
+    event: Event;
+    city: { id: string; name: string; stateCode: string } | null;
+    banner: string | null;
+    goingCount: number;
+    rsvp: EventRsvpStatus | null;
+  }) {
+    const { remindedAt: _remindedAt, ...event } = row.event;
+    return { ...event, city: row.city, banner: row.banner, goingCount: row.goingCount, rsvp: row.rsvp };
+  }
+
+  private async paginate(viewerId: string, whereClause: SQL | undefined, orderBy: SQL[], paging: Paging) {
+    const [countResult] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(events)
+      .where(whereClause);
+
+    const results = await this.db
+      .select(this.listColumns(viewerId))
+      .from(events)
+      .leftJoin(cities, eq(cities.id, events.cityId))
+      .where(whereClause)
+      .orderBy(...orderBy)
+      .limit(paging.limit || 20)
+      .offset(paging.offset || 0);
+
+    return {
+      data: results.map(r => this.serialize(r)),
+      total: countResult?.count || 0,
+      limit: paging.limit || 20,
+      offset: paging.offset || 0,
+    };
+  }
+
+  private toIcsEvent(event: Event, cityName: string | null, domain: string): IcsEvent {
+    return {
+      uid: `event-${event.id}@${domain}`,
+      start: event.startsAt,
+      end: event.endsAt,
+      summary: event.title,
+      description: [event.description, event.onlineUrl].filter(Boolean).join('\n\n') || null,
+      location: [event.venue, event.address, cityName].filter(Boolean).join(', ') || event.onlineUrl,
+      url: event.onlineUrl,
+      cancelled: event.status === 'cancelled',
+      updatedAt: event.updatedAt,
+    };
+  }
+}
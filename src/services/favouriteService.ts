@@ -1,4 +1,4 @@
-import { eq, and, sql, desc } from 'drizzle-orm';
+import { eq, and, sql } from 'drizzle-orm';
 import { favourites, type Favourite, type NewFavourite } from '../models/favourites';
 import { postUpdates } from '../models/post_updates';
 import { comments } from '../models/comments';
@@ -7,6 +7,8 @@ import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
 import { professions } from '../models/professions';
 import { user } from '../models/user';
 import { media } from '../models/media';
+import { appEvents } from '../utils/appEvents';
+import { cursorKey, cursorOrderBy, cursorPage, cursorWhere, emptyPage, pageWindow, type Cursor } from '../utils/cursor';
 
 export class FavouriteService {
   constructor(private db: NodePgDatabase<any>) {}
@@ -48,6 +50,8 @@ export class FavouriteService {
       
       // Update like count based on type
       await this.updateLikeCount(likedType, likedTypeId, true);
+
+      appEvents.emit('favourite.created', { userId, likedType, likedTypeId });
       
       return { liked: true };
       }
@@ -100,7 +104,9 @@ export class FavouriteService {
   async getUsersWhoLiked(likedType: string, likedTypeId: string, filters: {
     limit?: number;
     offset?: number;
+    cursor?: Cursor | undefined;
   }) {
+  const window = pageWindow(filters);
   try {
     // Get total count
     const [countResult] = await this.db
@@ -116,9 +122,10 @@ export class FavouriteService {
     const totalCount = countResult?.count || 0;
 
     // Get paginated results with user details and profile pics in single query
-    const results = await this.db
+    const rows = await this.db
       .select({
         favourite: favourites,
+        cursorKey: cursorKey(favourites),
         user: user,
         professions: professions,
         profilePic: {
@@ -137,12 +144,15 @@ export class FavouriteService {
       .where(
         and(
           eq(favourites.likedType, likedType),
-          eq(favourites.likedTypeId, likedTypeId)
+          eq(favourites.likedTypeId, likedTypeId),
+          cursorWhere(favourites, window.cursor)
         )
       )
-      .limit(filters.limit || 10)
-      .offset(filters.offset || 0)
-      .orderBy(desc(favourites.createdAt));
+      .limit(window.fetch)
+      .offset(window.offset)
+      .orderBy(...cursorOrderBy(favourites, window.cursor));
+
+    const { rows: results, ...page } = cursorPage(rows, window, (r) => ({ createdAt: r.cursorKey, id: r.favourite.id }));
 
     return {
       data: results.map(r => ({
@@ -161,16 +171,14 @@ export class FavouriteService {
         } : null,
       })),
       total: totalCount,
-      limit: filters.limit || 10,
-      offset: filters.offset || 0,
+      ...page,
     };
   } catch (error) {
     console.error('Error in getUsersWhoLiked:', error);
     return {
       data: [],
       total: 0,
-      limit: filters.limit || 10,
-      offset: filters.offset || 0,
+      ...emptyPage(window),
     };
   }
 }
@@ -179,7 +187,9 @@ export class FavouriteService {
     likedType?: string;
     limit?: number;
     offset?: number;
+    cursor?: Cursor | undefined;
   }) {
+    const window = pageWindow(filters);
     try {
     const conditions = [eq(favourites.userId, userId)];
     
@@ -197,27 +207,27 @@ export class FavouriteService {
 
     const totalCount = countResult?.count || 0;
     // Get paginated results
-    const results = await this.db
-      .select()
+    const rows = await this.db
+      .select({ favourite: favourites, cursorKey: cursorKey(favourites) })
       .from(favourites)
-      .where(whereClause)
-      .limit(filters.limit || 10)
-      .offset(filters.offset || 0)
-      .orderBy(desc(favourites.createdAt));
+      .where(and(whereClause, cursorWhere(favourites, window.cursor)))
+      .limit(window.fetch)
+      .offset(window.offset)
+      .orderBy(...cursorOrderBy(favourites, window.cursor));
+
+    const { rows: results, ...page } = cursorPage(rows, window, (r) => ({ createdAt: r.cursorKey, id: r.favourite.id }));
 
     return {
-      data: results,
+      data: results.map(r => r.favourite),
         total: totalCount,
-        limit: filters.limit || 10,
-        offset: filters.offset || 0,
+        ...page,
       };
     } catch (error) {
       console.error('Error in getUserFavourites:', error);
       return {
         data: [],
         total: 0,
-      limit: filters.limit || 10,
-      offset: filters.offset || 0,
+        ...emptyPage(window),
     };
     }
   }
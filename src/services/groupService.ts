@@ -0,0 +1,841 @@
+import { eq, and, or, asc, desc, sql, inArray, ilike, ne, type SQL } from 'drizzle-orm';
+import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { user } from '../models/user';
+import { professions } from '../models/professions';
+import { media } from '../models/media';
+import { connections } from '../models/connections';
+import { postUpdates } from '../models/post_updates';
+import { comments } from '../models/comments';
+import { commentReplies } from '../models/comment_replies';
+import { favourites } from '../models/favourites';
+import {
+  groups,
+  type Group,
+  type GroupJoinPolicy,
+  type GroupKind,
+} from '../models/groups';
+import {
+  groupMembers,
+  type GroupMember,
+  type GroupMemberStatus,
+  type GroupRole,
+} from '../models/group_members';
+import { appEvents } from '../utils/appEvents';
+
+export class GroupError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message);
+    this.name = 'GroupError';
+  }
+}
+
+interface Paging {
+  limit?: number | undefined;
+  offset?: number | undefined;
+}
+
+type Transaction = Parameters<Parameters<NodePgDatabase<any>['transaction']>[0]>[0];
+
+export interface GroupInput {
+  name: string;
+  description?: string | null | undefined;
+  kind: GroupKind;
+  graduationYear?: number | null | undefined;
+  city?: string | null | undefined;
+  professionId?: string | null | undefined;
+  joinPolicy?: GroupJoinPolicy | undefined;
+}
+
+// A group the member could start for a profile value nobody has a group for yet
+export interface GroupSuggestion {
+  kind: 'batch' | 'city' | 'profession';
+  name: string;
+  graduationYear?: number;
+  city?: string;
+  professionId?: string;
+  // Members who share the value
+  potentialMembers: number;
+}
+
+const memberColumns = {
+  id: user.id,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  graduationYear: user.graduationYear,
+  currentCity: user.currentCity,
+  profilePic: user.profilePic,
+};
+
+const MODERATOR_ROLES: GroupRole[] = ['owner', 'moderator'];
+
+/**
+ * Make sure groups owned by the leaving members keep an owner: the longest-standing
+ * moderator, or else the longest-standing member, takes over.
+ */
+export async function handOverOwnership(executor: NodePgDatabase<any> | Transaction, leavingIds: string[]): Promise<void> {
+  if (leavingIds.length === 0) return;
+
+  const leaving = sql.join(leavingIds.map(id => sql`${id}`), sql`, `);
+
+  await executor.execute(sql`
+    UPDATE ${groupMembers} SET role = 'owner', updated_at = now()
+    WHERE id IN (
+      SELECT DISTINCT ON (m.group_id) m.id
+      FROM ${groupMembers} m
+      WHERE m.group_id IN (
+          SELECT group_id FROM ${groupMembers} WHERE user_id IN (${leaving}) AND role = 'owner'
+        )
+        AND m.user_id NOT IN (${leaving})
+        AND m.status = 'active'
+        AND NOT EXISTS (
+          SELECT 1 FROM ${groupMembers} o
+          WHERE o.group_id = m.group_id AND o.role = 'owner' AND o.user_id NOT IN (${leaving})
+        )
+      ORDER BY m.group_id, CASE m.role WHEN 'moderator' THEN 0 ELSE 1 END, m.joined_at
+    )
+  `);
+}
+
+/**
+ * Groups (chapters) of members, with roles, join policies and group-only posts.
+ * Member IDs are profile (`user` table) IDs.
+ */
+export class GroupService {
+  constructor(private db: NodePgDatabase<any>) {}
+
+  // Groups
+
+  /**
+   * Directory of groups, largest first. Invite-only groups are only listed for their members and invitees.
+   */
+  async list(viewerId: string, filters: {
+    query?: string | undefined;
+    kind?: GroupKind | undefined;
+    graduationYear?: number | undefined;
+    city?: string | undefined;
+    professionId?: string | undefined;
+    mine?: boolean | undefined;
+  } & Paging) {
+    const conditions: (SQL | undefined)[] = [this.visibleTo(viewerId)];
+    if (filters.query) conditions.push(ilike(groups.name, `%${filters.query}%`));
+    if (filters.kind) conditions.push(eq(groups.kind, filters.kind));
+    if (filters.graduationYear) conditions.push(eq(groups.graduationYear, filters.graduationYear));
+    if (filters.city) conditions.push(sql`lower(${groups.city}) = lower(${filters.city})`);
+    if (filters.professionId) conditions.push(eq(groups.professionId, filters.professionId));
+    if (filters.mine) {
+      conditions.push(sql`EXISTS (SELECT 1 FROM ${groupMembers} WHERE ${groupMembers.groupId} = ${groups.id}
+        AND ${groupMembers.userId} = ${viewerId} AND ${groupMembers.status} = 'active')`);
+    }
+
+    const whereClause = and(...conditions);
+    const columns = this.listColumns(viewerId);
+
+    const [countResult] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(groups)
+      .where(whereClause);
+
+    const results = await this.db
+      .select(columns)
+      .from(groups)
+      .leftJoin(professions, eq(professions.id, groups.professionId))
+      .where(whereClause)
+      .orderBy(desc(columns.memberCount), asc(groups.name))
+      .limit(filters.limit || 20)
+      .offset(filters.offset || 0);
+
+    return {
+      data: results.map(r => this.serialize(r)),
+      total: countResult?.count || 0,
+      limit: filters.limit || 20,
+      offset: filters.offset || 0,
+    };
+  }
+
+  /**
+   * Create a group; the creator becomes its owner
+   */
+  async create(profileId: string, data: GroupInput) {
+    await this.assertValid(data);
+
+    const groupId = await this.db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(groups)
+        .values({
+          name: data.name,
+          description: data.description || null,
+          kind: data.kind,
+          graduationYear: data.kind === 'batch' ? data.graduationYear! : null,
+          city: data.kind === 'city' ? data.city!.trim() : null,
+          professionId: data.kind === 'profession' ? data.professionId! : null,
+          joinPolicy: data.joinPolicy || 'open',
+          createdBy: profileId,
+        })
+        .returning({ id: groups.id });
+
+      await tx.insert(groupMembers).values({
+        groupId: created!.id,
+        userId: profileId,
+        role: 'owner',
+        status: 'active',
+        joinedAt: new Date(),
+      });
+
+      return created!.id;
+    });
+
+    return this.get(profileId, groupId);
+  }
+
+  async get(viewerId: string, groupId: string) {
+    const columns = this.listColumns(viewerId);
+
+    const [row] = await this.db
+      .select({
+        ...columns,
+        banner: this.imageUrl('banner'),
+      })
+      .from(groups)
+      .leftJoin(professions, eq(professions.id, groups.professionId))
+      .where(and(eq(groups.id, groupId), this.visibleTo(viewerId)))
+      .limit(1);
+
+    if (!row) {
+      throw new GroupError('Group not found', 404);
+    }
+
+    const group = this.serialize(row);
+    const isModerator = group.membership?.status === 'active' && MODERATOR_ROLES.includes(group.membership.role);
+
+    return {
+      ...group,
+      banner: row.banner,
+      // Join requests waiting for a moderator
+      pendingCount: isModerator ? await this.countMembers(groupId, 'pending') : undefined,
+    };
+  }
+
+  /**
+   * Owners and moderators can change the details. The kind can't change.
+   * Opening a 'request' group lets everyone waiting in.
+   */
+  async update(profileId: string, groupId: string, data: Partial<Omit<GroupInput, 'kind'>>) {
+    const group = await this.findGroup(groupId);
+    await this.assertRole(profileId, groupId, MODERATOR_ROLES);
+
+    await this.assertValid({ ...group, ...data });
+
+    const changes: Partial<typeof groups.$inferInsert> = { updatedAt: new Date() };
+    if (data.name !== undefined) changes.name = data.name;
+    if (data.description !== undefined) changes.description = data.description;
+    if (data.joinPolicy !== undefined) changes.joinPolicy = data.joinPolicy;
+    if (group.kind === 'batch' && data.graduationYear) changes.graduationYear = data.graduationYear;
+    if (group.kind === 'city' && data.city) changes.city = data.city.trim();
+    if (group.kind === 'profession' && data.professionId) changes.professionId = data.professionId;
+
+    await this.db.transaction(async (tx) => {
+      await tx.update(groups).set(changes).where(eq(groups.id, groupId));
+
+      if (data.joinPolicy === 'open' && group.joinPolicy !== 'open') {
+        await tx
+          .update(groupMembers)
+          .set({ status: 'active', joinedAt: new Date(), updatedAt: new Date() })
+          .where(and(eq(groupMembers.groupId, groupId), eq(groupMembers.status, 'pending')));
+      }
+    });
+
+    return this.get(profileId, groupId);
+  }
+
+  /**
+   * Owners can delete the group with its posts. Returns the deleted post IDs so their media can be removed.
+   */
+  async delete(profileId: string, groupId: string): Promise<{ postIds: string[] }> {
+    await this.findGroup(groupId);
+    await this.assertRole(profileId, groupId, ['owner']);
+
+    return this.db.transaction(async (tx) => {
+      const posts = await tx
+        .select({ id: postUpdates.id })
+        .from(postUpdates)
+        .where(eq(postUpdates.groupId, groupId));
+      const postIds = posts.map(p => p.id);
+
+      if (postIds.length > 0) {
+        const postComments = await tx
+          .select({ id: comments.id })
+          .from(comments)
+          .where(inArray(comments.postUpdatesId, postIds));
+        const commentIds = postComments.map(c => c.id);
+
+        if (commentIds.length > 0) {
+          await tx.delete(commentReplies).where(inArray(commentReplies.commentsId, commentIds));
+          await tx.delete(comments).where(inArray(comments.id, commentIds));
+        }
+        await tx.delete(favourites).where(inArray(favourites.likedTypeId, [...postIds, ...commentIds]));
+        await tx.delete(postUpdates).where(inArray(postUpdates.id, postIds));
+      }
+
+      await tx.delete(groups).where(eq(groups.id, groupId));
+
+      return { postIds };
+    });
+  }
+
+  // Membership
+
+  /**
+   * Join an open group, ask to join a 'request' group, or accept an invitation
+   */
+  async join(profileId: string, groupId: string): Promise<{ status: GroupMemberStatus }> {
+    const group = await this.findVisibleGroup(profileId, groupId);
+    const membership = await this.findMembership(groupId, profileId);
+
+    if (membership?.status === 'active') {
+      throw new GroupError('You are already a member', 409);
+    }
+    if (membership?.status === 'pending') {
+      throw new GroupError('Your request to join is pending', 409);
+    }
+
+    if (membership?.status === 'invited' || group.joinPolicy === 'open') {
+      await this.db
+        .insert(groupMembers)
+        .values({ groupId, userId: profileId, status: 'active', joinedAt: new Date() })
+        .onConflictDoUpdate({
+          target: [groupMembers.groupId, groupMembers.userId],
+          set: { status: 'active', joinedAt: new Date(), updatedAt: new Date() },
+        });
+      return { status: 'active' };
+    }
+
+    if (group.joinPolicy === 'invite') {
+      throw new GroupError('This group is invite-only', 403);
+    }
+
+    await this.db
+      .insert(groupMembers)
+      .values({ groupId, userId: profileId, status: 'pending' });
+
+    const moderators = await this.db
+      .select({ userId: groupMembers.userId })
+      .from(groupMembers)
+      .where(and(
+        eq(groupMembers.groupId, groupId),
+        eq(groupMembers.status, 'active'),
+        inArray(groupMembers.role, MODERATOR_ROLES)
+      ));
+
+    appEvents.emit('group.requested', { group, userId: profileId, moderatorIds: moderators.map(m => m.userId) });
+
+    return { status: 'pending' };
+  }
+
+  /**
+   * Leave the group, withdraw a join request or decline an invitation.
+   * A leaving sole owner hands the group over; the last member can't leave.
+   */
+  async leave(profileId: string, groupId: string): Promise<void> {
+    const membership = await this.findMembership(groupId, profileId);
+    if (!membership) {
+      throw new GroupError('You are not a member of this group', 404);
+    }
+
+    if (membership.status === 'active') {
+      const activeCount = await this.countMembers(groupId, 'active');
+      if (activeCount === 1) {
+        throw new GroupError('You are the only member; delete the group instead', 409);
+      }
+    }
+
+    await this.db.transaction(async (tx) => {
+      if (membership.role === 'owner') {
+        await handOverOwnership(tx, [profileId]);
+      }
+      await tx.delete(groupMembers).where(eq(groupMembers.id, membership.id));
+    });
+  }
+
+  /**
+   * Invite a member. Any member can invite to open and 'request' groups;
+   * only owners and moderators to invite-only groups.
+   */
+  async invite(profileId: string, groupId: string, userId: string): Promise<void> {
+    const group = await this.findGroup(groupId);
+    const actor = await this.assertRole(profileId, groupId, group.joinPolicy === 'invite' ? MODERATOR_ROLES : undefined);
+
+    const [invitee] = await this.db
+      .select({ id: user.id })
+      .from(user)
+      .where(eq(user.id, userId))
+      .limit(1);
+    if (!invitee) {
+      throw new GroupError('Member not found', 404);
+    }
+    if (await this.isBlocked(profileId, userId)) {
+      throw new GroupError('You cannot invite this member', 403);
+    }
+
+    const existing = await this.findMembership(groupId, userId);
+    if (existing?.status === 'active') {
+      throw new GroupError('Already a member', 409);
+    }
+    if (existing?.status === 'invited') {
+      throw new GroupError('Already invited', 409);
+    }
+
+    // Inviting someone who asked to join lets them in when a moderator does it
+    if (existing?.status === 'pending') {
+      if (!MODERATOR_ROLES.includes(actor.role)) {
+        throw new GroupError('This member has already asked to join', 409);
+      }
+      await this.activate(existing.id);
+      appEvents.emit('group.approved', { group, userId, approvedBy: profileId });
+      return;
+    }
+
+    await this.db
+      .insert(groupMembers)
+      .values({ groupId, userId, status: 'invited', invitedBy: profileId });
+
+    appEvents.emit('group.invited', { group, userId, invitedBy: profileId });
+  }
+
+  async approve(profileId: string, groupId: string, userId: string): Promise<void> {
+    const group = await this.findGroup(groupId);
+    await this.assertRole(profileId, groupId, MODERATOR_ROLES);
+
+    const membership = await this.findMembership(groupId, userId);
+    if (membership?.status !== 'pending') {
+      throw new GroupError('No pending request from this member', 404);
+    }
+
+    await this.activate(membership.id);
+    appEvents.emit('group.approved', { group, userId, approvedBy: profileId });
+  }
+
+  /**
+   * Remove a member, decline a join request or revoke an invitation.
+   * Moderators can remove members; owners can also remove moderators.
+   */
+  async removeMember(profileId: string, groupId: string, userId: string): Promise<void> {
+    const actor = await this.assertRole(profileId, groupId, MODERATOR_ROLES);
+
+    const membership = await this.findMembership(groupId, userId);
+    if (!membership) {
+      throw new GroupError('Member not found', 404);
+    }
+    if (membership.role === 'owner' || (membership.role === 'moderator' && actor.role !== 'owner')) {
+      throw new GroupError('You cannot remove this member', 403);
+    }
+
+    await this.db.delete(groupMembers).where(eq(groupMembers.id, membership.id));
+  }
+
+  /**
+   * Owners promote or demote members. Making someone else owner hands the group over;
+   * the previous owner becomes a moderator.
+   */
+  async setRole(profileId: string, groupId: string, userId: string, role: GroupRole): Promise<void> {
+    const actor = await this.assertRole(profileId, groupId, ['owner']);
+
+    if (userId === profileId) {
+      throw new GroupError('Make another member owner to change your own role', 400);
+    }
+
+    const membership = await this.findMembership(groupId, userId);
+    if (membership?.status !== 'active') {
+      throw new GroupError('Member not found', 404);
+    }
+
+    await this.db.transaction(async (tx) => {
+      await tx
+        .update(groupMembers)
+        .set({ role, updatedAt: new Date() })
+        .where(eq(groupMembers.id, membership.id));
+
+      if (role === 'owner') {
+        await tx
+          .update(groupMembers)
+          .set({ role: 'moderator', updatedAt: new Date() })
+          .where(eq(groupMembers.id, actor.id));
+      }
+    });
+  }
+
+  /**
+   * Active members, owners and moderators first. Join requests and invitations
+   * are only listed for owners and moderators.
+   */
+  async listMembers(viewerId: string, groupId: string, filters: {
+    status?: GroupMemberStatus | undefined;
+    role?: GroupRole | undefined;
+  } & Paging) {
+    const status = filters.status || 'active';
+
+    if (status === 'active') {
+      await this.assertCanViewContent(viewerId, groupId);
+    } else {
+      await this.findGroup(groupId);
+      await this.assertRole(viewerId, groupId, MODERATOR_ROLES);
+    }
+
+    const conditions = [eq(groupMembers.groupId, groupId), eq(groupMembers.status, status)];
+    if (filters.role) conditions.push(eq(groupMembers.role, filters.role));
+    const whereClause = and(...conditions);
+
+    const [countResult] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(groupMembers)
+      .where(whereClause);
+
+    const results = await this.db
+      .select({ ...memberColumns, role: groupMembers.role, status: groupMembers.status, joinedAt: groupMembers.joinedAt })
+      .from(groupMembers)
+      .innerJoin(user, eq(user.id, groupMembers.userId))
+      .where(whereClause)
+      .orderBy(
+        sql`CASE ${groupMembers.role} WHEN 'owner' THEN 0 WHEN 'moderator' THEN 1 ELSE 2 END`,
+        asc(groupMembers.joinedAt),
+        asc(groupMembers.createdAt)
+      )
+      .limit(filters.limit || 20)
+      .offset(filters.offset || 0);
+
+    return {
+      data: results,
+      total: countResult?.count || 0,
+      limit: filters.limit || 20,
+      offset: filters.offset || 0,
+    };
+  }
+
+  // Content
+
+  /**
+   * Posts in open groups are visible to every member of the network;
+   * in other groups only to the group's members.
+   */
+  async assertCanViewContent(profileId: string, groupId: string): Promise<Group> {
+    const group = await this.findVisibleGroup(profileId, groupId);
+
+    if (group.joinPolicy !== 'open') {
+      const membership = await this.findMembership(groupId, profileId);
+      if (membership?.status !== 'active') {
+        throw new GroupError('Join the group to see its posts', 403);
+      }
+    }
+
+    return group;
+  }
+
+  async canViewContent(profileId: string, groupId: string): Promise<boolean> {
+    try {
+      await this.assertCanViewContent(profileId, groupId);
+      return true;
+    } catch (error) {
+      if (error instanceof GroupError) return false;
+      throw error;
+    }
+  }
+
+  async assertCanPost(profileId: string, groupId: string): Promise<void> {
+    await this.findVisibleGroup(profileId, groupId);
+    await this.assertRole(profileId, groupId);
+  }
+
+  /**
+   * 404 for a missing group, 403 unless the member is an active owner or moderator
+   */
+  async assertCanModerate(profileId: string, groupId: string): Promise<void> {
+    await this.findGroup(groupId);
+    await this.assertRole(profileId, groupId, MODERATOR_ROLES);
+  }
+
+  async canModerate(profileId: string, groupId: string): Promise<boolean> {
+    const membership = await this.findMembership(groupId, profileId);
+    return membership?.status === 'active' && MODERATOR_ROLES.includes(membership.role);
+  }
+
+  /**
+   * Images from the group's posts, newest first
+   */
+  async listMedia(viewerId: string, groupId: string, paging: Paging) {
+    await this.assertCanViewContent(viewerId, groupId);
+
+    const whereClause = and(
+      eq(media.resourceType, 'post'),
+      sql`${media.resourceId} IN (SELECT ${postUpdates.id} FROM ${postUpdates} WHERE ${postUpdates.groupId} = ${groupId})`
+    );
+
+    const [countResult] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(media)
+      .where(whereClause);
+
+    const results = await this.db
+      .select({
+        id: media.id,
+        url: media.url,
+        thumbnailUrl: media.thumbnailUrl,
+        width: media.width,
+        height: media.height,
+        postId: media.resourceId,
+        uploadedAt: media.uploadedAt,
+      })
+      .from(media)
+      .where(whereClause)
+      .orderBy(desc(media.uploadedAt))
+      .limit(paging.limit || 20)
+      .offset(paging.offset || 0);
+
+    return {
+      data: results,
+      total: countResult?.count || 0,
+      limit: paging.limit || 20,
+      offset: paging.offset || 0,
+    };
+  }
+
+  // Suggestions
+
+  /**
+   * Groups for the member's batch, city and profession that they haven't joined,
+   * plus groups they could start where none exists yet
+   */
+  async suggestions(profileId: string) {
+    const [profile] = await this.db
+      .select({
+        graduationYear: user.graduationYear,
+        currentCity: user.currentCity,
+        professionId: user.professionId,
+        professionName: professions.name,
+      })
+      .from(user)
+      .leftJoin(professions, eq(professions.id, user.professionId))
+      .where(eq(user.id, profileId))
+      .limit(1);
+
+    if (!profile) {
+      throw new GroupError('User profile required', 403);
+    }
+
+    const city = profile.currentCity?.trim() || null;
+    const matches = {
+      batch: and(eq(groups.kind, 'batch'), eq(groups.graduationYear, profile.graduationYear)),
+      city: city ? and(eq(groups.kind, 'city'), sql`lower(${groups.city}) = lower(${city})`) : undefined,
+      profession: profile.professionId
+        ? and(eq(groups.kind, 'profession'), eq(groups.professionId, profile.professionId))
+        : undefined,
+    };
+
+    const columns = this.listColumns(profileId);
+    const existing = await this.db
+      .select(columns)
+      .from(groups)
+      .leftJoin(professions, eq(professions.id, groups.professionId))
+      .where(and(this.visibleTo(profileId), or(matches.batch, matches.city, matches.profession)))
+      .orderBy(desc(columns.memberCount));
+
+    const suggested = existing
+      .map(r => this.serialize(r))
+      .filter(g => g.membership?.status !== 'active' && g.membership?.status !== 'pending');
+
+    const create: GroupSuggestion[] = [];
+    const hasGroup = (kind: GroupKind) => existing.some(g => g.group.kind === kind);
+
+    if (!hasGroup('batch')) {
+      create.push({
+        kind: 'batch',
+        name: `Class of ${profile.graduationYear}`,
+        graduationYear: profile.graduationYear,
+        potentialMembers: await this.countProfiles(eq(user.graduationYear, profile.graduationYear)),
+      });
+    }
+    if (city && !hasGroup('city')) {
+      create.push({
+        kind: 'city',
+        name: city,
+        city,
+        potentialMembers: await this.countProfiles(sql`lower(${user.currentCity}) = lower(${city})`),
+      });
+    }
+    if (profile.professionId && !hasGroup('profession')) {
+      create.push({
+        kind: 'profession',
+        name: profile.professionName || 'My profession',
+        professionId: profile.professionId,
+        potentialMembers: await this.countProfiles(eq(user.professionId, profile.professionId)),
+      });
+    }
+
+    return { groups: suggested, create };
+  }
+
+  // Helpers
+
+  private async assertValid(data: Pick<GroupInput, 'kind' | 'graduationYear' | 'city' | 'professionId'>): Promise<void> {
+    if (data.kind === 'batch' && !data.graduationYear) {
+      throw new GroupError('Batch groups need a graduation year', 400);
+    }
+    if (data.kind === 'city' && !data.city?.trim()) {
+      throw new GroupError('City groups need a city', 400);
+    }
+    if (data.kind === 'profession') {
+      if (!data.professionId) {
+        throw new GroupError('Profession groups need a profession', 400);
+      }
+      const [profession] = await this.db
+        .select({ id: professions.id })
+        .from(professions)
+        .where(eq(professions.id, data.professionId))
+        .limit(1);
+      if (!profession) {
+        throw new GroupError('Profession not found', 400);
+      }
+    }
+  }
+
+  /**
+   * The caller's active membership, optionally with one of the given roles
+   */
+  private async assertRole(profileId: string, groupId: string, roles?: GroupRole[]): Promise<GroupMember> {
+    const membership = await this.findMembership(groupId, profileId);
+
+    if (membership?.status !== 'active') {
+      throw new GroupError('Only members can do this', 403);
+    }
+    if (roles && !roles.includes(membership.role)) {
+      throw new GroupError(roles.length === 1 ? 'Only the owner can do this' : 'Only owners and moderators can do this', 403);
+    }
+
+    return membership;
+  }
+
+  private async activate(membershipId: string): Promise<void> {
+    await this.db
+      .update(groupMembers)
+      .set({ status: 'active', joinedAt: new Date(), updatedAt: new Date() })
+      .where(eq(groupMembers.id, membershipId));
+  }
+
+  private async findGroup(groupId: string): Promise<Group> {
+    const [group] = await this.db
+      .select()
+      .from(groups)
+      .where(eq(groups.id, groupId))
+      .limit(1);
+
+    if (!group) {
+      throw new GroupError('Group not found', 404);
+    }
+
+    return group;
+  }
+
+  // Invite-only groups look missing to members outside them
+  private async findVisibleGroup(profileId: string, groupId: string): Promise<Group> {
+    const [group] = await this.db
+      .select()
+      .from(groups)
+      .where(and(eq(groups.id, groupId), this.visibleTo(profileId)))
+      .limit(1);
+
+    if (!group) {
+      throw new GroupError('Group not found', 404);
+    }
+
+    return group;
+  }
+
+  private async findMembership(groupId: string, profileId: string): Promise<GroupMember | null> {
+    const [membership] = await this.db
+      .select()
+      .from(groupMembers)
+      .where(and(eq(groupMembers.groupId, groupId), eq(groupMembers.userId, profileId)))
+      .limit(1);
+
+    return membership || null;
+  }
+
+  private async countMembers(groupId: string, status: GroupMemberStatus): Promise<number> {
+    const [result] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(groupMembers)
+      .where(and(eq(groupMembers.groupId, groupId), eq(groupMembers.status, status)));
+
+    return result?.count || 0;
+  }
+
+  private async countProfiles(condition: SQL | undefined): Promise<number> {
+    const [result] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(user)
+      .where(condition);
+
+    return result?.count || 0;
+  }
+
+  private async isBlocked(profileId: string, otherId: string): Promise<boolean> {
+    const [block] = await this.db
+      .select({ id: connections.id })
+      .from(connections)
+      .where(and(
+        eq(connections.type, 'block'),
+        or(
+          and(eq(connections.userId, profileId), eq(connections.targetId, otherId)),
+          and(eq(connections.userId, otherId), eq(connections.targetId, profileId))
+        )
+      ))
+      .limit(1);
+
+    return !!block;
+  }
+
+  private visibleTo(profileId: string): SQL | undefined {
+    return or(
+      ne(groups.joinPolicy, 'invite'),
+      sql`EXISTS (SELECT 1 FROM ${groupMembers} WHERE ${groupMembers.groupId} = ${groups.id} AND ${groupMembers.userId} = ${profileId})`
+    );
+  }
+
+  private imageUrl(tag: 'banner' | 'logo') {
+    return sql<string | null>`(SELECT ${media.url} FROM ${media} WHERE ${media.resourceType} = 'group'
+      AND ${media.resourceId} = ${groups.id} AND ${media.tag} = ${tag} ORDER BY ${media.uploadedAt} DESC LIMIT 1)`;
+  }
+
+  private listColumns(viewerId: string) {
+    // Callers left join professions, which also keeps the correlated subqueries' columns qualified
+    return {
+      group: groups,
+      profession: { id: professions.id, name: professions.name },
+      logo: this.imageUrl('logo'),
+      memberCount: sql<number>`(SELECT count(*)::int FROM ${groupMembers} WHERE ${groupMembers.groupId} = ${groups.id}
+        AND ${groupMembers.status} = 'active')`,
+      membershipRole: sql<GroupRole | null>`(SELECT ${groupMembers.role} FROM ${groupMembers}
+        WHERE ${groupMembers.groupId} = ${groups.id} AND ${groupMembers.userId} = ${viewerId})`,
+      membershipStatus: sql<GroupMemberStatus | null>`(SELECT ${groupMembers.status} FROM ${groupMembers}
+        WHERE ${groupMembers.groupId} = ${groups.id} AND ${groupMembers.userId} = ${viewerId})`,
+    };
+  }
+
+  private serialize(row: {
+    group: Group;
+    profession: { id: string; name: string } | null;
+    logo: string | null;
+    memberCount: number;
+    membershipRole: GroupRole | null;
+    membershipStatus: GroupMemberStatus | null;
+  }) {
+    return {
+      ...row.group,
+      profession: row.profession,
+      logo: row.logo,
+      memberCount: row.memberCount,
+      // The viewer's own membership, if any
+      membership: row.membershipStatus
+        ? { role: row.membershipRole!, status: row.membershipStatus }
+        : null,
+    };
+  }
+}
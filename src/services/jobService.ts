@@ -0,0 +1,673 @@
+import { eq, and, or, desc, sql, gt, gte, isNull, inArray, type SQL } from 'drizzle-orm';
+import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { user } from '../models/user';
+import { businessDetails } from '../models/business_details';
+import { professions } from '../models/professions';
+import { specialization } from '../models/specialization';
+import { media } from '../models/media';
+import { jobPostings, type JobEmploymentType, type JobPosting } from '../models/job_postings';
+import {
+  jobApplications,
+  jobApplicationStatuses,
+  type JobApplication,
+  type JobApplicationStatus,
+} from '../models/job_applications';
+import { appEvents } from '../utils/appEvents';
+import type { MediaAccessService } from './mediaAccess';
+import type { JobFilters } from '../utils/searchFilters';
+
+export class JobError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message);
+    this.name = 'JobError';
+  }
+}
+
+interface Paging {
+  limit?: number | undefined;
+  offset?: number | undefined;
+}
+
+export interface JobInput {
+  title: string;
+  description?: string | null | undefined;
+  professionId?: string | null | undefined;
+  specializationId?: string | null | undefined;
+  city?: string | null | undefined;
+  remote?: boolean | undefined;
+  employmentType?: JobEmploymentType | undefined;
+  salaryMin?: number | null | undefined;
+  salaryMax?: number | null | undefined;
+  salaryCurrency?: string | undefined;
+  expiresAt?: Date | undefined;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Postings without an expiry run this long, and none may run longer than the maximum
+const DEFAULT_EXPIRY_DAYS = 30;
+const MAX_EXPIRY_DAYS = 180;
+
+const applicantColumns = {
+  id: user.id,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  graduationYear: user.graduationYear,
+  currentCity: user.currentCity,
+  profilePic: user.profilePic,
+};
+
+/**
+ * Conditions for jobs still taking applications, narrowed by the job board filters.
+ * Shared by the job board and job search.
+ */
+export function openJobConditions(filters: JobFilters = {}): (SQL | undefined)[] {
+  return [
+    eq(jobPostings.status, 'open'),
+    gt(jobPostings.expiresAt, new Date()),
+    filters.businessId ? eq(jobPostings.businessId, filters.businessId) : undefined,
+    filters.professionId ? eq(jobPostings.professionId, filters.professionId) : undefined,
+    filters.specializationId ? eq(jobPostings.specializationId, filters.specializationId) : undefined,
+    filters.city ? sql`lower(${jobPostings.city}) = lower(${filters.city})` : undefined,
+    filters.remote !== undefined ? eq(jobPostings.remote, filters.remote) : undefined,
+    filters.employmentType ? eq(jobPostings.employmentType, filters.employmentType) : undefined,
+    filters.salaryMin !== undefined
+      ? or(gte(jobPostings.salaryMax, filters.salaryMin), and(isNull(jobPostings.salaryMax), gte(jobPostings.salaryMin, filters.salaryMin)))
+      : undefined,
+  ];
+}
+
+/**
+ * Job postings owned by businesses, and members' applications to them.
+ * Applicants are profile (`user` table) IDs; employers are the owners of the posting business.
+ */
+export class JobService {
+  constructor(private db: NodePgDatabase<any>, private mediaAccess: MediaAccessService) {}
+
+  // Postings
+
+  /**
+   * The job board: open, unexpired postings, newest first
+   */
+  async list(filters: JobFilters & Paging) {
+    const whereClause = and(...openJobConditions(filters));
+
+    const [countResult] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(jobPostings)
+      .where(whereClause);
+
+    const results = await this.db
+      .select(this.listColumns())
+      .from(jobPostings)
+      .innerJoin(businessDetails, eq(businessDetails.id, jobPostings.businessId))
+      .leftJoin(professions, eq(professions.id, jobPostings.professionId))
+      .leftJoin(specialization, eq(specialization.id, jobPostings.specializationId))
+      .where(whereClause)
+      .orderBy(desc(jobPostings.createdAt), desc(jobPostings.id))
+      .limit(filters.limit || 20)
+      .offset(filters.offset || 0);
+
+    return {
+      data: results.map(r => this.serialize(r)),
+      total: countResult?.count || 0,
+      limit: filters.limit || 20,
+      offset: filters.offset || 0,
+    };
+  }
+
+  /**
+   * Every posting of a business, including closed and expired ones, with applicant counts (owner only)
+   */
+  async listForBusiness(profileId: string, businessId: string, paging: Paging) {
+    await this.assertOwnsBusiness(profileId, businessId);
+
+    const whereClause = eq(jobPostings.businessId, businessId);
+
+    const [countResult] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(jobPostings)
+      .where(whereClause);
+
+    const results = await this.db
+      .select({
+        ...this.listColumns(),
+        applicationCount: sql<number>`(SELECT count(*)::int FROM ${jobApplications}
+          WHERE ${jobApplications.jobId} = ${jobPostings.id} AND ${jobApplications.status} <> 'withdrawn')`,
+      })
+      .from(jobPostings)
+      .innerJoin(businessDetails, eq(businessDetails.id, jobPostings.businessId))
+      .leftJoin(professions, eq(professions.id, jobPostings.professionId))
+      .leftJoin(specialization, eq(specialization.id, jobPostings.specializationId))
+      .where(whereClause)
+      .orderBy(desc(jobPostings.createdAt), desc(jobPostings.id))
+      .limit(paging.limit || 20)
+      .offset(paging.offset || 0);
+
+    return {
+      data: results.map(r => ({ ...this.serialize(r), applicationCount: r.applicationCount })),
+      total: countResult?.count || 0,
+      limit: paging.limit || 20,
+      offset: paging.offset || 0,
+    };
+  }
+
+  /**
+   * Post a job for a business the member owns
+   */
+  async create(profileId: string, businessId: string, data: JobInput) {
+    await this.assertOwnsBusiness(profileId, businessId);
+    await this.assertValid(data);
+
+    const [created] = await this.db
+      .insert(jobPostings)
+      .values({
+        businessId,
+        postedBy: profileId,
+        title: data.title,
+        description: data.description || null,
+        professionId: data.professionId || null,
+        specializationId: data.specializationId || null,
+        city: data.city?.trim() || null,
+        remote: data.remote || false,
+        employmentType: data.employmentType || 'full_time',
+        salaryMin: data.salaryMin ?? null,
+        salaryMax: data.salaryMax ?? null,
+        ...(data.salaryCurrency && { salaryCurrency: data.salaryCurrency.toUpperCase() }),
+        expiresAt: data.expiresAt || new Date(Date.now() + DEFAULT_EXPIRY_DAYS * DAY_MS),
+      })
+      .returning({ id: jobPostings.id });
+
+    return this.get(profileId, created!.id);
+  }
+
+  /**
+   * The posting with its business. Employers also get applicant counts by status;
+   * members get their own application, if any.
+   */
+  async get(viewerId: string, jobId: string) {
+    const [row] = await this.db
+      .select({
+        ...this.listColumns(),
+        ownerId: businessDetails.userId,
+      })
+      .from(jobPostings)
+      .innerJoin(businessDetails, eq(businessDetails.id, jobPostings.businessId))
+      .leftJoin(professions, eq(professions.id, jobPostings.professionId))
+      .leftJoin(specialization, eq(specialization.id, jobPostings.specializationId))
+      .where(eq(jobPostings.id, jobId))
+      .limit(1);
+
+    if (!row) {
+      throw new JobError('Job not found', 404);
+    }
+
+    const isEmployer = row.ownerId === viewerId;
+
+    let applicationCounts: Record<JobApplicationStatus, number> | undefined;
+    if (isEmployer) {
+      const counts = await this.db
+        .select({ status: jobApplications.status, count: sql<number>`count(*)::int` })
+        .from(jobApplications)
+        .where(eq(jobApplications.jobId, jobId))
+        .groupBy(jobApplications.status);
+
+      applicationCounts = Object.fromEntries(jobApplicationStatuses.map(status =>
+        [status, counts.find(c => c.status === status)?.count || 0])) as Record<JobApplicationStatus, number>;
+    }
+
+    const [application] = isEmployer ? [] : await this.db
+      .select({ id: jobApplications.id, status: jobApplications.status, createdAt: jobApplications.createdAt })
+      .from(jobApplications)
+      .where(and(eq(jobApplications.jobId, jobId), eq(jobApplications.applicantId, viewerId)))
+      .limit(1);
+
+    return {
+      ...this.serialize(row),
+      isEmployer,
+      applicationCounts,
+      application: application || null,
+    };
+  }
+
+  /**
+   * Owners change the details. Reopening needs an expiry in the future.
+   */
+  async update(profileId: string, jobId: string, data: Partial<JobInput> & { status?: JobPosting['status'] | undefined }) {
+    const job = await this.assertEmployer(profileId, jobId);
+    await this.assertValid({ ...job, ...data });
+
+    const expiresAt = data.expiresAt || job.expiresAt;
+    if (data.status === 'open' && expiresAt <= new Date()) {
+      throw new JobError('Set a new expiry to reopen this job', 400);
+    }
+
+    const changes: Partial<typeof jobPostings.$inferInsert> = { updatedAt: new Date() };
+    if (data.title !== undefined) changes.title = data.title;
+    if (data.description !== undefined) changes.description = data.description;
+    if (data.professionId !== undefined) changes.professionId = data.professionId;
+    if (data.specializationId !== undefined) changes.specializationId = data.specializationId;
+    if (data.city !== undefined) changes.city = data.city?.trim() || null;
+    if (data.remote !== undefined) changes.remote = data.remote;
+    if (data.employmentType !== undefined) changes.employmentType = data.employmentType;
+    if (data.salaryMin !== undefined) changes.salaryMin = data.salaryMin;
+    if (data.salaryMax !== undefined) changes.salaryMax = data.salaryMax;
+    if (data.salaryCurrency !== undefined) changes.salaryCurrency = data.salaryCurrency.toUpperCase();
+    if (data.expiresAt !== undefined) changes.expiresAt = data.expiresAt;
+    if (data.status !== undefined) changes.status = data.status;
+
+    await this.db.update(jobPostings).set(changes).where(eq(jobPostings.id, jobId));
+
+    return this.get(profileId, jobId);
+  }
+
+  /**
+   * Owners delete the posting with its applications. Returns the application IDs so their resumes can be removed.
+   */
+  async delete(profileId: string, jobId: string): Promise<{ applicationIds: string[] }> {
+    await this.assertEmployer(profileId, jobId);
+
+    return this.db.transaction(async (tx) => {
+      const applications = await tx
+        .select({ id: jobApplications.id })
+        .from(jobApplications)
+        .where(eq(jobApplications.jobId, jobId));
+
+      await tx.delete(jobPostings).where(eq(jobPostings.id, jobId));
+
+      return { applicationIds: applications.map(a => a.id) };
+    });
+  }
+
+  // Applications
+
+  /**
+   * Apply to an open job. Applying again after withdrawing starts over.
+   */
+  async apply(profileId: string, jobId: string, data: { coverLetter?: string | null | undefined }): Promise<JobApplication> {
+    const [job] = await this.db
+      .select({ job: jobPostings, ownerId: businessDetails.userId })
+      .from(jobPostings)
+      .innerJoin(businessDetails, eq(businessDetails.id, jobPostings.businessId))
+      .where(eq(jobPostings.id, jobId))
+      .limit(1);
+
+    if (!job) {
+      throw new JobError('Job not found', 404);
+    }
+    if (job.job.status !== 'open' || job.job.expiresAt <= new Date()) {
+      throw new JobError('This job is no longer taking applications', 409);
+    }
+    if (job.ownerId === profileId) {
+      throw new JobError('You cannot apply to your own job', 400);
+    }
+
+    const existing = await this.findApplication(jobId, profileId);
+    if (existing && existing.status !== 'withdrawn') {
+      throw new JobError('You have already applied to this job', 409);
+    }
+
+    const values = {
+      coverLetter: data.coverLetter || null,
+      status: 'applied' as const,
+      employerNote: null,
+      statusChangedAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const [application] = existing
+      ? await this.db.update(jobApplications).set(values).where(eq(jobApplications.id, existing.id)).returning()
+      : await this.db.insert(jobApplications).values({ ...values, jobId, applicantId: profileId }).returning();
+
+    appEvents.emit('job.applied', { job: job.job, application: application! });
+
+    return application!;
+  }
+
+  /**
+   * Jobs the member applied to, most recent first
+   */
+  async listForApplicant(profileId: string, filters: { status?: JobApplicationStatus | undefined } & Paging) {
+    const conditions = [eq(jobApplications.applicantId, profileId)];
+    if (filters.status) conditions.push(eq(jobApplications.status, filters.status));
+    const whereClause = and(...conditions);
+
+    const [countResult] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(jobApplications)
+      .where(whereClause);
+
+    const results = await this.db
+      .select({
+        id: jobApplications.id,
+        status: jobApplications.status,
+        coverLetter: jobApplications.coverLetter,
+        statusChangedAt: jobApplications.statusChangedAt,
+        createdAt: jobApplications.createdAt,
+        resume: this.resumeId(),
+        job: {
+          id: jobPostings.id,
+          title: jobPostings.title,
+          city: jobPostings.city,
+          remote: jobPostings.remote,
+          status: jobPostings.status,
+          expiresAt: jobPostings.expiresAt,
+        },
+        business: { id: businessDetails.id, companyName: businessDetails.companyName },
+      })
+      .from(jobApplications)
+      .innerJoin(jobPostings, eq(jobPostings.id, jobApplications.jobId))
+      .innerJoin(businessDetails, eq(businessDetails.id, jobPostings.businessId))
+      .where(whereClause)
+      .orderBy(desc(jobApplications.createdAt))
+      .limit(filters.limit || 20)
+      .offset(filters.offset || 0);
+
+    return {
+      data: await this.withResumeUrls(results),
+      total: countResult?.count || 0,
+      limit: filters.limit || 20,
+      offset: filters.offset || 0,
+    };
+  }
+
+  /**
+   * The applicant pipeline of a job (employer only), oldest application first
+   */
+  async listApplications(profileId: string, jobId: string, filters: { status?: JobApplicationStatus | undefined } & Paging) {
+    await this.assertEmployer(profileId, jobId);
+
+    const conditions = [eq(jobApplications.jobId, jobId)];
+    if (filters.status) conditions.push(eq(jobApplications.status, filters.status));
+    const whereClause = and(...conditions);
+
+    const [countResult] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(jobApplications)
+      .where(whereClause);
+
+    const results = await this.db
+      .select({
+        ...this.applicationColumns(),
+        applicant: applicantColumns,
+        profession: professions.name,
+        specialization: specialization.name,
+      })
+      .from(jobApplications)
+      .innerJoin(user, eq(user.id, jobApplications.applicantId))
+      .leftJoin(professions, eq(professions.id, user.professionId))
+      .leftJoin(specialization, eq(specialization.id, user.specializationId))
+      .where(whereClause)
+      .orderBy(jobApplications.createdAt, jobApplications.id)
+      .limit(filters.limit || 20)
+      .offset(filters.offset || 0);
+
+    return {
+      data: await this.withResumeUrls(results),
+      total: countResult?.count || 0,
+      limit: filters.limit || 20,
+      offset: filters.offset || 0,
+    };
+  }
+
+  /**
+   * One application, for the applicant or the employer. The employer's note is hidden from the applicant.
+   */
+  async getApplication(profileId: string, applicationId: string) {
+    const { application, isEmployer } = await this.findAccessibleApplication(profileId, applicationId);
+
+    const [row] = await this.db
+      .select({
+        ...this.applicationColumns(),
+        applicant: applicantColumns,
+        job: { id: jobPostings.id, title: jobPostings.title, businessId: jobPostings.businessId },
+      })
+      .from(jobApplications)
+      .innerJoin(user, eq(user.id, jobApplications.applicantId))
+      .innerJoin(jobPostings, eq(jobPostings.id, jobApplications.jobId))
+      .where(eq(jobApplications.id, application.id))
+      .limit(1);
+
+    const [withResume] = await this.withResumeUrls([row!]);
+
+    return {
+      ...withResume!,
+      employerNote: isEmployer ? row!.employerNote : undefined,
+      isEmployer,
+    };
+  }
+
+  /**
+   * Resumes are uploaded by the applicant while the application is still active
+   */
+  async assertOwnApplication(profileId: string, applicationId: string): Promise<JobApplication> {
+    const [application] = await this.db
+      .select()
+      .from(jobApplications)
+      .where(and(eq(jobApplications.id, applicationId), eq(jobApplications.applicantId, profileId)))
+      .limit(1);
+
+    if (!application) {
+      throw new JobError('Application not found', 404);
+    }
+    if (application.status === 'withdrawn') {
+      throw new JobError('This application was withdrawn', 409);
+    }
+
+    return application;
+  }
+
+  /**
+   * Employers move applications through the pipeline; the applicant is notified of each change
+   */
+  async setApplicationStatus(
+    profileId: string,
+    applicationId: string,
+    status: Exclude<JobApplicationStatus, 'withdrawn'>,
+    note?: string | null | undefined
+  ): Promise<JobApplication> {
+    const { application, isEmployer, job } = await this.findAccessibleApplication(profileId, applicationId);
+
+    if (!isEmployer) {
+      throw new JobError('Only the employer can change the status', 403);
+    }
+    if (application.status === 'withdrawn') {
+      throw new JobError('This application was withdrawn', 409);
+    }
+
+    const changed = application.status !== status;
+
+    const [updated] = await this.db
+      .update(jobApplications)
+      .set({
+        status,
+        ...(note !== undefined && { employerNote: note }),
+        ...(changed && { statusChangedAt: new Date() }),
+        updatedAt: new Date(),
+      })
+      .where(eq(jobApplications.id, applicationId))
+      .returning();
+
+    if (changed) {
+      appEvents.emit('job.application_status', { job, application: updated! });
+    }
+
+    return updated!;
+  }
+
+  async withdraw(profileId: string, applicationId: string): Promise<void> {
+    const application = await this.assertOwnApplication(profileId, applicationId);
+
+    if (application.status === 'hired') {
+      throw new JobError('You were already hired for this job', 409);
+    }
+
+    await this.db
+      .update(jobApplications)
+      .set({ status: 'withdrawn', statusChangedAt: new Date(), updatedAt: new Date() })
+      .where(eq(jobApplications.id, applicationId));
+  }
+
+  // Helpers
+
+  private async assertValid(data: Partial<JobInput>): Promise<void> {
+    if (!data.city?.trim() && !data.remote) {
+      throw new JobError('Give a city, or mark the job as remote', 400);
+    }
+    if (data.salaryMin != null && data.salaryMax != null && data.salaryMin > data.salaryMax) {
+      throw new JobError('The minimum salary is above the maximum', 400);
+    }
+    if (data.expiresAt && data.expiresAt.getTime() > Date.now() + MAX_EXPIRY_DAYS * DAY_MS) {
+      throw new JobError(`Jobs can run for at most ${MAX_EXPIRY_DAYS} days`, 400);
+    }
+
+    if (data.professionId) {
+      const [profession] = await this.db
+        .select({ id: professions.id })
+        .from(professions)
+        .where(eq(professions.id, data.professionId))
+        .limit(1);
+      if (!profession) {
+        throw new JobError('Profession not found', 400);
+      }
+    }
+
+    if (data.specializationId) {
+      const [found] = await this.db
+        .select({ professionId: specialization.professionId })
+        .from(specialization)
+        .where(eq(specialization.id, data.specializationId))
+        .limit(1);
+      if (!found) {
+        throw new JobError('Specialization not found', 400);
+      }
+      if (data.professionId && found.professionId && found.professionId !== data.professionId) {
+        throw new JobError('The specialization belongs to another profession', 400);
+      }
+    }
+  }
+
+  private async assertOwnsBusiness(profileId: string, businessId: string): Promise<void> {
+    const [business] = await this.db
+      .select({ userId: businessDetails.userId })
+      .from(businessDetails)
+      .where(eq(businessDetails.id, businessId))
+      .limit(1);
+
+    if (!business) {
+      throw new JobError('Business not found', 404);
+    }
+    if (business.userId !== profileId) {
+      throw new JobError('You can only manage jobs of businesses you own', 403);
+    }
+  }
+
+  // The job, if the member owns its business
+  private async assertEmployer(profileId: string, jobId: string): Promise<JobPosting> {
+    const [row] = await this.db
+      .select({ job: jobPostings, ownerId: businessDetails.userId })
+      .from(jobPostings)
+      .innerJoin(businessDetails, eq(businessDetails.id, jobPostings.businessId))
+      .where(eq(jobPostings.id, jobId))
+      .limit(1);
+
+    if (!row) {
+      throw new JobError('Job not found', 404);
+    }
+    if (row.ownerId !== profileId) {
+      throw new JobError('Only the employer can do this', 403);
+    }
+
+    return row.job;
+  }
+
+  // Applications look missing to everyone but the applicant and the employer
+  private async findAccessibleApplication(profileId: string, applicationId: string) {
+    const [row] = await this.db
+      .select({ application: jobApplications, job: jobPostings, ownerId: businessDetails.userId })
+      .from(jobApplications)
+      .innerJoin(jobPostings, eq(jobPostings.id, jobApplications.jobId))
+      .innerJoin(businessDetails, eq(businessDetails.id, jobPostings.businessId))
+      .where(eq(jobApplications.id, applicationId))
+      .limit(1);
+
+    const isEmployer = row?.ownerId === profileId;
+    if (!row || (!isEmployer && row.application.applicantId !== profileId)) {
+      throw new JobError('Application not found', 404);
+    }
+
+    return { application: row.application, job: row.job, isEmployer };
+  }
+
+  private async findApplication(jobId: string, profileId: string): Promise<JobApplication | null> {
+    const [application] = await this.db
+      .select()
+      .from(jobApplications)
+      .where(and(eq(jobApplications.jobId, jobId), eq(jobApplications.applicantId, profileId)))
+      .limit(1);
+
+    return application || null;
+  }
+
+  // The resume's media ID; withResumeUrls turns it into a URL
+  private resumeId() {
+    return sql<string | null>`(SELECT ${media.id} FROM ${media} WHERE ${media.resourceType} = 'job_application'
+      AND ${media.resourceId} = ${jobApplications.id} AND ${media.tag} = 'attachment' ORDER BY ${media.uploadedAt} DESC LIMIT 1)`;
+  }
+
+  // Resumes are private, so rows only ever reach the applicant or the employer with signed URLs
+  private async withResumeUrls<T extends { resume: string | null }>(rows: T[]): Promise<T[]> {
+    const ids = rows.map(row => row.resume).filter((id): id is string => !!id);
+    if (ids.length === 0) return rows;
+
+    const records = await this.db.select().from(media).where(inArray(media.id, ids));
+    const urls = new Map(records.map(record => [record.id, this.mediaAccess.urls(record).url]));
+
+    return rows.map(row => ({ ...row, resume: row.resume ? urls.get(row.resume) || null : null }));
+  }
+
+  private applicationColumns() {
+    return {
+      id: jobApplications.id,
+      jobId: jobApplications.jobId,
+      status: jobApplications.status,
+      coverLetter: jobApplications.coverLetter,
+      employerNote: jobApplications.employerNote,
+      statusChangedAt: jobApplications.statusChangedAt,
+      createdAt: jobApplications.createdAt,
+      resume: this.resumeId(),
+    };
+  }
+
+  // Callers join businessDetails and left join professions and specialization
+  private listColumns() {
+    return {
+      job: jobPostings,
+      business: {
+        id: businessDetails.id,
+        companyName: businessDetails.companyName,
+        category: businessDetails.category,
+        teamSize: businessDetails.teamSize,
+      },
+      businessLogo: sql<string | null>`(SELECT ${media.url} FROM ${media} WHERE ${media.id}::text = ${businessDetails.logo}::text)`,
+      profession: { id: professions.id, name: professions.name },
+      specialization: { id: specialization.id, name: specialization.name },
+    };
+  }
+
+  private serialize(row: {
+    job: JobPosting;
+    business: { id: string; companyName: string; category: string | null; teamSize: string | null };
+    businessLogo: string | null;
+    profession: { id: string; name: string } | null;
+    specialization: { id: string; name: string } | null;
+  }) {
+    return {
+      ...row.job,
+      // Past its expiry, even if still marked open
+      expired: row.job.expiresAt <= new Date(),
+      business: { ...row.business, logo: row.businessLogo },
+      profession: row.profession,
+      specialization: row.specialization,
+    };
+  }
+}
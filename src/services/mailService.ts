@@ -0,0 +1,77 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { FastifyBaseLogger } from 'fastify';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Anything that can deliver a message. Swap the implementation with MAIL_TRANSPORT.
+ */
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Writes messages to the log. Default for development; refused in production. Bodies carry
+ * live sign-in and reset links, so they are only logged at debug level.
+ */
+export class ConsoleMailTransport implements MailTransport {
+  constructor(private log: FastifyBaseLogger) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    this.log.info(`Mail to ${message.to}: ${message.subject}`);
+    this.log.debug({ mail: message }, 'Mail body');
+  }
+}
+
+/**
+ * Writes each message as a JSON file, so tests can read back what was sent.
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const filename = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.json`;
+    await fs.writeFile(
+      path.join(this.directory, filename),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
+
+/**
+ * Posts messages as JSON (`from`, `to`, `subject`, `text`, `html`) to an HTTP mail API
+ * such as Resend, authenticated with a bearer token.
+ */
+export class HttpMailTransport implements MailTransport {
+  constructor(private url: string, private apiKey: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(message),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Mail API responded with ${response.status}: ${await response.text()}`);
+    }
+  }
+}
+
+export class MailService {
+  constructor(private transport: MailTransport, private from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.send({ ...message, from: this.from });
+  }
+}
@@ -0,0 +1,137 @@
+import { eq, and } from 'drizzle-orm';
+import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { media, type Media, type MediaResourceType } from '../models/media';
+import { messages } from '../models/messages';
+import { conversationParticipants } from '../models/conversation_participants';
+import { jobApplications } from '../models/job_applications';
+import { jobPostings } from '../models/job_postings';
+import { businessDetails } from '../models/business_details';
+import type { MediaStorageProvider } from './mediaStorage';
+
+// Signed URLs work for at least this long
+export const SIGNED_URL_TTL_MS = 60 * 60 * 1000;
+// Expiry is rounded up to this, so the same media gets the same URLs for a while and clients can cache them
+const SIGNED_URL_WINDOW_MS = 15 * 60 * 1000;
+
+export class MediaAccessError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message);
+    this.name = 'MediaAccessError';
+  }
+}
+
+export interface MediaViewer {
+  authUserId: string;
+  profileId?: string | null | undefined;
+}
+
+export interface MediaUrls {
+  url: string;
+  thumbnailUrl: string | null;
+  variants: Record<string, string> | null;
+  // When signed URLs stop working; null for public media, whose URLs are permanent
+  expiresAt: Date | null;
+}
+
+export type MediaUrlSource = Pick<Media, 'cloudflareId' | 'privacy' | 'url' | 'thumbnailUrl' | 'variants'>;
+
+/**
+ * Who may see media, and the URLs to hand them. Public media keeps its permanent storage URLs;
+ * `members` media is for any member with a profile and `owner` media for the uploader and those
+ * the resource is shared with (a message's conversation, a job application's employer). Both are
+ * stored privately and only reachable through expiring signed URLs.
+ */
+export class MediaAccessService {
+  constructor(private db: NodePgDatabase<any>, private storage: MediaStorageProvider) {}
+
+  /**
+   * URLs for media the viewer is already known to be allowed to see
+   */
+  urls(record: MediaUrlSource): MediaUrls {
+    if (record.privacy === 'public') {
+      return {
+        url: record.variants?.['public'] || record.url,
+        thumbnailUrl: record.thumbnailUrl,
+        variants: record.variants,
+        expiresAt: null,
+      };
+    }
+
+    const expiresAt = new Date(Math.ceil((Date.now() + SIGNED_URL_TTL_MS) / SIGNED_URL_WINDOW_MS) * SIGNED_URL_WINDOW_MS);
+    const variants = this.storage.getSignedUrls(record.cloudflareId, expiresAt);
+
+    return {
+      url: variants.public,
+      thumbnailUrl: variants.thumbnail,
+      variants,
+      expiresAt,
+    };
+  }
+
+  async canView(viewer: MediaViewer | null, record: Pick<Media, 'privacy' | 'authUserId' | 'resourceType' | 'resourceId'>): Promise<boolean> {
+    if (record.privacy === 'public') return true;
+    if (!viewer?.profileId) return false;
+    if (record.privacy === 'members') return true;
+
+    if (record.authUserId === viewer.authUserId) return true;
+    return this.isSharedWith(viewer.profileId, record.resourceType, record.resourceId);
+  }
+
+  /**
+   * A media item's URLs for the viewer. Media the viewer may not see looks missing.
+   */
+  async getForViewer(viewer: MediaViewer | null, mediaId: string) {
+    const [record] = await this.db
+      .select()
+      .from(media)
+      .where(eq(media.id, mediaId))
+      .limit(1);
+
+    if (!record || !(await this.canView(viewer, record))) {
+      throw new MediaAccessError('Media not found', 404);
+    }
+
+    return {
+      id: record.id,
+      privacy: record.privacy,
+      ...this.urls(record),
+    };
+  }
+
+  // Whether the resource is the viewer's, or shared with them
+  private async isSharedWith(profileId: string, resourceType: MediaResourceType, resourceId: string): Promise<boolean> {
+    switch (resourceType) {
+      case 'user_profile':
+        return resourceId === profileId;
+
+      // Everyone in the message's conversation
+      case 'message': {
+        const [participant] = await this.db
+          .select({ id: conversationParticipants.id })
+          .from(messages)
+          .innerJoin(conversationParticipants, and(
+            eq(conversationParticipants.conversationId, messages.conversationId),
+            eq(conversationParticipants.userId, profileId)
+          ))
+          .where(eq(messages.id, resourceId))
+          .limit(1);
+        return !!participant;
+      }
+
+      // The applicant and the employer
+      case 'job_application': {
+        const [application] = await this.db
+          .select({ applicantId: jobApplications.applicantId, employerId: businessDetails.userId })
+          .from(jobApplications)
+          .innerJoin(jobPostings, eq(jobPostings.id, jobApplications.jobId))
+          .innerJoin(businessDetails, eq(businessDetails.id, jobPostings.businessId))
+          .where(eq(jobApplications.id, resourceId))
+          .limit(1);
+        return !!application && (application.applicantId === profileId || application.employerId === profileId);
+      }
+
+      default:
+        return false;
+    }
+  }
+}
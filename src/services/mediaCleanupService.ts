@@ -1,21 +1,23 @@
-import { CloudflareImagesService } from './cloudflareService';
+import { and, eq, ne } from 'drizzle-orm';
+import type { MediaStorageProvider, StoredImageInfo } from './mediaStorage';
 import { MediaService } from './mediaService';
+import { media } from '../models/media';
 import type { FastifyInstance } from 'fastify';
 
 export class MediaCleanupService {
-  private cloudflare: CloudflareImagesService;
+  private storage: MediaStorageProvider;
   private mediaService: MediaService;
 
   constructor(
     private db: any,
     private fastify: FastifyInstance
   ) {
-    this.cloudflare = new CloudflareImagesService(fastify);
+    this.storage = fastify.mediaStorage;
     this.mediaService = new MediaService(db, fastify);
   }
 
   /**
-   * List all images from Cloudflare with specific metadata filters
+   * List all stored images with specific metadata filters
    */
   async listImagesByMetadata(filters: {
     app?: string;
@@ -23,46 +25,41 @@ export class MediaCleanupService {
     userId?: string;
     uploadedBefore?: Date;
     uploadedAfter?: Date;
-  }): Promise<any[]> {
-    const allImages: any[] = [];
-    let page = 1;
-    let hasMore = true;
-
-    while (hasMore) {
-      const response = await this.cloudflare.listImages(page, 100);
-      
-      if (response.result && response.result.images) {
-        const filtered = response.result.images.filter((img: any) => {
-          const meta = img.meta || {};
-          
-          // Apply filters
-          if (filters.app && meta.app !== filters.app) return false;
-          if (filters.environment && meta.environment !== filters.environment) return false;
-          if (filters.userId && meta.userId !== filters.userId) return false;
-          
-          if (filters.uploadedBefore || filters.uploadedAfter) {
-            const uploadedAt = meta.uploadedAt ? new Date(meta.uploadedAt) : null;
-            if (uploadedAt) {
-              if (filters.uploadedBefore && uploadedAt > filters.uploadedBefore) return false;
-              if (filters.uploadedAfter && uploadedAt < filters.uploadedAfter) return false;
-            }
+  }): Promise<StoredImageInfo[]> {
+    const allImages: StoredImageInfo[] = [];
+    let cursor: string | null = null;
+
+    do {
+      const response: Awaited<ReturnType<MediaStorageProvider['list']>> = await this.storage.list(cursor ?? undefined);
+
+      const filtered = response.images.filter((img) => {
+        const meta = img.meta;
+
+        // Apply filters
+        if (filters.app && meta.app !== filters.app) return false;
+        if (filters.environment && meta.environment !== filters.environment) return false;
+        if (filters.userId && meta.userId !== filters.userId) return false;
+
+        if (filters.uploadedBefore || filters.uploadedAfter) {
+          const uploadedAt = meta.uploadedAt ? new Date(meta.uploadedAt) : null;
+          if (uploadedAt) {
+            if (filters.uploadedBefore && uploadedAt > filters.uploadedBefore) return false;
+            if (filters.uploadedAfter && uploadedAt < filters.uploadedAfter) return false;
           }
-          
-          return true;
-        });
-        
-        allImages.push(...filtered);
-      }
-      
-      hasMore = response.result?.images?.length === 100;
-      page++;
-    }
+        }
+
+        return true;
+      });
+
+      allImages.push(...filtered);
+      cursor = response.cursor;
+    } while (cursor);
 
     return allImages;
   }
 
   /**
-   * Clean up orphaned images (in Cloudflare but not in database)
+   * Clean up orphaned images (in storage but not in database)
    */
   async cleanupOrphanedImages(dryRun = true): Promise<{
     found: number;
@@ -76,17 +73,17 @@ export class MediaCleanupService {
     };
 
     try {
-      // Get all Sarvail images from Cloudflare
-      const cloudflareImages = await this.listImagesByMetadata({
+      // Get all Sarvail images from storage
+      const storedImages = await this.listImagesByMetadata({
         app: 'sarvail',
         environment: this.fastify.config.NODE_ENV,
       });
 
-      result.found = cloudflareImages.length;
-      this.fastify.log.info(`Found ${result.found} Sarvail images in Cloudflare`);
+      result.found = storedImages.length;
+      this.fastify.log.info(`Found ${result.found} Sarvail images in ${this.storage.name} storage`);
 
       // Check each image against database
-      for (const cfImage of cloudflareImages) {
+      for (const cfImage of storedImages) {
         try {
           const dbMedia = await this.mediaService.getByCloudflareId(cfImage.id);
           
@@ -94,7 +91,7 @@ export class MediaCleanupService {
             this.fastify.log.info(`Orphaned image found: ${cfImage.id} (${cfImage.filename})`);
             
             if (!dryRun) {
-              await this.cloudflare.deleteImage(cfImage.id);
+              await this.storage.delete(cfImage.id);
               result.deleted++;
               this.fastify.log.info(`Deleted orphaned image: ${cfImage.id}`);
             }
@@ -133,7 +130,7 @@ export class MediaCleanupService {
     cutoffDate.setDate(cutoffDate.getDate() - olderThanDays);
 
     try {
-      // Get old images from Cloudflare
+      // Get old images from storage
       const oldImages = await this.listImagesByMetadata({
         app: 'sarvail',
         environment: this.fastify.config.NODE_ENV,
@@ -151,8 +148,8 @@ export class MediaCleanupService {
             if (dbMedia && image.meta?.userId) {
               await this.mediaService.deleteMedia(dbMedia.id, image.meta.userId);
             } else {
-              // Just delete from Cloudflare if not in DB
-              await this.cloudflare.deleteImage(image.id);
+              // Just delete from storage if not in DB
+              await this.storage.delete(image.id);
             }
             
             result.deleted++;
@@ -171,6 +168,45 @@ export class MediaCleanupService {
     }
   }
 
+  /**
+   * Store images that aren't public privately, for media whose privacy was changed after upload
+   * (src/db/private_media_backfill.sql). Safe to run again.
+   */
+  async privatizeStoredImages(dryRun = true): Promise<{
+    found: number;
+    updated: number;
+    errors: string[];
+  }> {
+    const result = {
+      found: 0,
+      updated: 0,
+      errors: [] as string[],
+    };
+
+    const records: Array<{ cloudflareId: string }> = await this.db
+      .select({ cloudflareId: media.cloudflareId })
+      .from(media)
+      .where(and(ne(media.privacy, 'public'), eq(media.kind, 'image')));
+
+    result.found = records.length;
+    this.fastify.log.info(`Found ${result.found} images that should be private in ${this.storage.name} storage`);
+
+    if (!dryRun) {
+      for (const record of records) {
+        try {
+          await this.storage.makePrivate(record.cloudflareId);
+          result.updated++;
+        } catch (error) {
+          const errorMsg = `Error making image ${record.cloudflareId} private: ${error}`;
+          this.fastify.log.error(errorMsg);
+          result.errors.push(errorMsg);
+        }
+      }
+    }
+
+    return result;
+  }
+
   /**
    * Get usage statistics by metadata
    */
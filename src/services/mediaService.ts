@@ -3,7 +3,7 @@ import { media, type Media, type NewMedia } from '../models/media';
 import { user } from '../models/user';
 import { postUpdates } from '../models/post_updates';
 import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
-import { CloudflareImagesService } from './cloudflareService';
+import type { MediaStorageProvider } from './mediaStorage';
 import type { FastifyInstance } from 'fastify';
 import { ResourceDescriptor, UniversalMediaHelper } from './UniversalMediaHelper';
 import { businessDetails } from '../models/business_details';
@@ -14,13 +14,13 @@ export interface UploadResult {
 }
 
 export class MediaService {
-  private cloudflare: CloudflareImagesService;
+  private storage: MediaStorageProvider;
 
   constructor(
     private db: NodePgDatabase<any>,
     private fastify: FastifyInstance
   ) {
-    this.cloudflare = new CloudflareImagesService(fastify);
+    this.storage = fastify.mediaStorage;
   }
 
   /**
@@ -43,19 +43,9 @@ export class MediaService {
       ...metadata
     };
 
-    // Upload to Cloudflare
-    const cloudflareResult = await this.cloudflare.uploadImage(
-      file,
-      filename,
-      enrichedMetadata
-    );
-
-    if (!cloudflareResult.success) {
-      throw new Error('Failed to upload to Cloudflare');
-    }
-
-    // Get variant URLs
-    const variants = await this.cloudflare.getVariantUrls(cloudflareResult.result.id);
+    // Upload to storage
+    const stored = await this.storage.upload(file, filename, mimeType, enrichedMetadata);
+    const variants = stored.variants;
 
     // Find user profile ID from auth user ID
     const [userProfile] = await this.db
@@ -72,13 +62,13 @@ export class MediaService {
     const [newMedia] = await this.db
       .insert(media)
       .values({
-        cloudflareId: cloudflareResult.result.id,
-        filename: cloudflareResult.result.filename,
+        cloudflareId: stored.id,
+        filename: stored.filename,
         originalFilename: filename,
         mimeType,
         size: file.length,
-        url: this.cloudflare.getDeliveryUrl(cloudflareResult.result.id),
-        thumbnailUrl: variants.thumbnail || null,
+        url: stored.url,
+        thumbnailUrl: stored.thumbnailUrl,
         variants,
         metadata,
         resourceType: 'user_profile',
@@ -111,15 +101,9 @@ export class MediaService {
       ...metadata
     };
 
-    // Upload to Cloudflare
-    const cloudflareResult = await this.cloudflare.uploadFromUrl(url, enrichedMetadata);
-
-    if (!cloudflareResult.success) {
-      throw new Error('Failed to upload from URL to Cloudflare');
-    }
-
-    // Get variant URLs
-    const variants = await this.cloudflare.getVariantUrls(cloudflareResult.result.id);
+    // Upload to storage
+    const stored = await this.storage.uploadFromUrl(url, enrichedMetadata);
+    const variants = stored.variants;
 
     // Find user profile ID from auth user ID
     const [userProfile] = await this.db
@@ -136,13 +120,13 @@ export class MediaService {
     const [newMedia] = await this.db
       .insert(media)
       .values({
-        cloudflareId: cloudflareResult.result.id,
-        filename: cloudflareResult.result.filename,
+        cloudflareId: stored.id,
+        filename: stored.filename,
         originalFilename: url.split('/').pop() || 'image',
-        mimeType: 'image/jpeg', // Default, Cloudflare will handle conversion
+        mimeType: 'image/jpeg', // Default; the source's type isn't kept
         size: 0, // Unknown for URL uploads
-        url: this.cloudflare.getDeliveryUrl(cloudflareResult.result.id),
-        thumbnailUrl: variants.thumbnail || null,
+        url: stored.url,
+        thumbnailUrl: stored.thumbnailUrl,
         variants,
         metadata,
         resourceType: 'user_profile',
@@ -677,7 +661,8 @@ export class MediaService {
     items: Media[];
     total: number;
   }> {
-    const conditions = [];
+    // Private media is only handed out with signed URLs
+    const conditions = [eq(media.privacy, 'public')];
     
     if (filters.userId) {
       conditions.push(eq(media.authUserId, filters.userId));
@@ -797,10 +782,10 @@ export class MediaService {
         )
       );
 
-    // Delete from Cloudflare and database
+    // Delete from storage and database
     for (const record of mediaRecords) {
       try {
-        await this.cloudflare.deleteImage(record.cloudflareId);
+        await this.storage.delete(record.cloudflareId);
         await this.db
           .delete(media)
           .where(eq(media.id, record.id));
@@ -1,5 +1,6 @@
 import { eq, and, sql, inArray, desc } from 'drizzle-orm';
 import { media, type Media, type NewMedia, type MediaResourceType, type MediaTag } from '../models/media';
+import { postUpdates } from '../models/post_updates';
 import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
 import { transformToSimpleMedia, type SimpleMediaField } from '../utils/mediaHelpers';
 
@@ -167,6 +168,26 @@ export class MediaServiceNew {
     return deleted.length;
   }
 
+  // Point a post's featuredImage and images columns at its current media
+  async syncPostReferences(postId: string): Promise<void> {
+    const allMedia = await this.getByResource('post', postId);
+
+    const featuredMedia = allMedia.find(m => m.tag === 'featured_image');
+    const galleryMedia = allMedia.filter(m => m.tag === 'gallery');
+
+    // Sort gallery images by position
+    galleryMedia.sort((a, b) => (a.position || 0) - (b.position || 0));
+
+    await this.db
+      .update(postUpdates)
+      .set({
+        featuredImage: featuredMedia?.id || null,
+        images: galleryMedia.length > 0 ? galleryMedia.map(m => m.id) : null,
+        updatedAt: new Date(),
+      })
+      .where(eq(postUpdates.id, postId));
+  }
+
   // Helper to get media URLs as array (useful for migrations)
   async getMediaIdsAsArray(resourceType: MediaResourceType, resourceId: string, tag?: MediaTag): Promise<string[]> {
     const mediaRecords = await this.getByResource(resourceType, resourceId, tag);
@@ -0,0 +1,746 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID, createHash, createHmac, timingSafeEqual } from 'crypto';
+import sharp from 'sharp';
+import { CloudflareImagesService } from './cloudflareService';
+import { signAwsRequest, presignAwsUrl, type AwsCredentials } from '../utils/awsSignature';
+
+export type StorageProviderName = 'cloudflare' | 's3' | 'local';
+
+// Every provider serves these variants: `public` becomes media.url and `thumbnail` media.thumbnailUrl.
+// On Cloudflare Images, variants of the same names are set up in the dashboard.
+export const MEDIA_VARIANTS = {
+  public: { width: 2048, height: 2048, fit: 'inside' },
+  thumbnail: { width: 320, height: 320, fit: 'cover' },
+} as const;
+
+export type MediaVariant = keyof typeof MEDIA_VARIANTS;
+
+const variantNames = Object.keys(MEDIA_VARIANTS) as MediaVariant[];
+
+export interface StoredImage {
+  // The provider's ID for the image; kept in media.cloudflareId
+  id: string;
+  filename: string;
+  url: string;
+  thumbnailUrl: string;
+  variants: Record<MediaVariant, string>;
+}
+
+export interface StoredImageInfo {
+  id: string;
+  filename: string;
+  // Upload metadata: `app`, `uploadedAt` and whatever the uploader passed
+  meta: {
+    app?: string;
+    uploadedAt?: string;
+    environment?: string;
+    userId?: string;
+    [key: string]: string | undefined;
+  };
+}
+
+/**
+ * Where a client sends a file itself, without it passing through the API
+ */
+export interface DirectUpload {
+  // The image ID the file will have
+  id: string;
+  // PUT: the file is the request body, sent with `headers`. POST: a multipart form with the file in `field`.
+  method: 'PUT' | 'POST';
+  url: string;
+  headers: Record<string, string>;
+  field?: string | undefined;
+}
+
+export interface StoreOptions {
+  // Served only through URLs from getSignedUrls; the plain variant URLs are refused
+  private?: boolean | undefined;
+}
+
+export interface DirectUploadOptions {
+  mimeType: string;
+  maxFileSize: number;
+  metadata?: Record<string, unknown> | undefined;
+}
+
+export interface CompletedUpload {
+  image: StoredImage;
+  // 0 where the provider doesn't report it (Cloudflare)
+  size: number;
+  mimeType: string;
+}
+
+/**
+ * A direct upload that can't be accepted: wrong type, too large, or an expired or forged URL
+ */
+export class DirectUploadError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message);
+    this.name = 'DirectUploadError';
+  }
+}
+
+/**
+ * Where media files live. Swap the implementation with STORAGE_PROVIDER; the rest of the
+ * media pipeline only sees the provider's image ID and variant URLs.
+ */
+export interface MediaStorageProvider {
+  readonly name: StorageProviderName;
+  // Whether uploadFile works, i.e. files other than images can be stored
+  readonly storesFiles: boolean;
+  upload(file: Buffer, filename: string, mimeType: string, metadata?: Record<string, unknown>, options?: StoreOptions): Promise<StoredImage>;
+  // A file that isn't an image (a PDF), stored as it is: every variant URL serves the original
+  uploadFile(file: Buffer, filename: string, mimeType: string, metadata?: Record<string, unknown>, options?: StoreOptions): Promise<StoredImage>;
+  uploadFromUrl(url: string, metadata?: Record<string, unknown>): Promise<StoredImage>;
+  delete(id: string): Promise<void>;
+  // Stores an already uploaded image privately, as upload() with `private` would have
+  makePrivate(id: string): Promise<void>;
+  getVariantUrls(id: string): Record<MediaVariant, string>;
+  // Variant URLs of a private image that work until expiresAt
+  getSignedUrls(id: string, expiresAt: Date): Record<MediaVariant, string>;
+  // A page of stored images, for cleanup; pass the returned cursor back for the next page
+  list(cursor?: string): Promise<{ images: StoredImageInfo[]; cursor: string | null }>;
+  // A URL the client uploads one file to until expiresAt
+  createDirectUpload(options: DirectUploadOptions & { expiresAt: Date }): Promise<DirectUpload>;
+  // Checks what arrived at a direct upload and stores it as upload() would; null while nothing has.
+  // Throws DirectUploadError, and removes the file, when it isn't an acceptable image.
+  completeDirectUpload(id: string, options: DirectUploadOptions & { filename: string }): Promise<CompletedUpload | null>;
+}
+
+const LIST_PAGE_SIZE = 100;
+// For providers that fetch images by URL themselves
+const MAX_REMOTE_IMAGE_SIZE = 10 * 1024 * 1024;
+
+// Metadata values are stored as strings by every provider
+const storageMetadata = (metadata: Record<string, unknown> = {}): Record<string, string> => {
+  const all: Record<string, unknown> = { app: 'sarvail', uploadedAt: new Date().toISOString(), ...metadata };
+  return Object.fromEntries(Object.entries(all)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => [key, typeof value === 'string' ? value : JSON.stringify(value)]));
+};
+
+const storedImage = (id: string, filename: string, variants: Record<MediaVariant, string>): StoredImage => ({
+  id,
+  filename,
+  url: variants.public,
+  thumbnailUrl: variants.thumbnail,
+  variants,
+});
+
+/**
+ * Resize an image for a variant, keeping its format. EXIF orientation is applied
+ * and animated GIF/WebP frames are kept.
+ */
+async function renderVariant(file: Buffer, variant: MediaVariant): Promise<Buffer> {
+  const { width, height, fit } = MEDIA_VARIANTS[variant];
+  return sharp(file, { animated: true })
+    .rotate()
+    .resize({ width, height, fit, withoutEnlargement: true })
+    .toBuffer();
+}
+
+/**
+ * Checks a directly uploaded file: within the size limit and really of the type it was declared as
+ */
+async function inspectUpload(file: Buffer, options: DirectUploadOptions): Promise<void> {
+  if (file.length > options.maxFileSize) {
+    throw new DirectUploadError(`File size exceeds limit of ${options.maxFileSize} bytes`, 413);
+  }
+
+  const format = await sharp(file).metadata().then(meta => meta.format, () => undefined);
+  if (!format || `image/${format}` !== options.mimeType) {
+    throw new DirectUploadError(`The uploaded file is not the ${options.mimeType} image it was declared as`, 422);
+  }
+}
+
+async function downloadImage(url: string): Promise<{ file: Buffer; filename: string; mimeType: string }> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image from ${url}: ${response.status}`);
+  }
+
+  const mimeType = (response.headers.get('content-type') || '').split(';')[0]!.trim();
+  if (!mimeType.startsWith('image/')) {
+    throw new Error(`${url} is not an image`);
+  }
+
+  const file = Buffer.from(await response.arrayBuffer());
+  if (file.length > MAX_REMOTE_IMAGE_SIZE) {
+    throw new Error(`Image at ${url} exceeds ${MAX_REMOTE_IMAGE_SIZE} bytes`);
+  }
+
+  return { file, filename: new URL(url).pathname.split('/').pop() || 'image', mimeType };
+}
+
+/**
+ * Cloudflare Images. Cloudflare renders the variants itself.
+ */
+export class CloudflareStorageProvider implements MediaStorageProvider {
+  readonly name = 'cloudflare' as const;
+  // Cloudflare Images only takes images
+  readonly storesFiles = false;
+
+  constructor(private client: CloudflareImagesService) {}
+
+  // Cloudflare detects the type from the file. Private images require signed URLs.
+  async upload(file: Buffer, filename: string, _mimeType: string, metadata?: Record<string, unknown>, options: StoreOptions = {}): Promise<StoredImage> {
+    const response = await this.client.uploadImage(file, filename, storageMetadata(metadata), {
+      requireSignedURLs: options.private === true,
+    });
+    if (!response.success) {
+      throw new Error(`Cloudflare upload failed: ${JSON.stringify(response.errors)}`);
+    }
+
+    return storedImage(response.result.id, response.result.filename, this.getVariantUrls(response.result.id));
+  }
+
+  async uploadFile(_file: Buffer, _filename: string, mimeType: string): Promise<StoredImage> {
+    throw new Error(`Cloudflare Images only stores images; ${mimeType} files need the s3 or local storage provider`);
+  }
+
+  async uploadFromUrl(url: string, metadata?: Record<string, unknown>): Promise<StoredImage> {
+    const response = await this.client.uploadFromUrl(url, storageMetadata(metadata));
+    if (!response.success) {
+      throw new Error(`Cloudflare upload from URL failed: ${JSON.stringify(response.errors)}`);
+    }
+
+    return storedImage(response.result.id, response.result.filename, this.getVariantUrls(response.result.id));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.client.deleteImage(id);
+  }
+
+  async makePrivate(id: string): Promise<void> {
+    await this.client.updateImage(id, { requireSignedURLs: true });
+  }
+
+  getVariantUrls(id: string): Record<MediaVariant, string> {
+    return Object.fromEntries(variantNames.map(variant => [variant, this.client.getDeliveryUrl(id, variant)])) as Record<MediaVariant, string>;
+  }
+
+  getSignedUrls(id: string, expiresAt: Date): Record<MediaVariant, string> {
+    return Object.fromEntries(variantNames.map(variant => [variant, this.client.getSignedDeliveryUrl(id, variant, expiresAt)])) as Record<MediaVariant, string>;
+  }
+
+  async createDirectUpload(options: DirectUploadOptions & { expiresAt: Date }): Promise<DirectUpload> {
+    const response = await this.client.createDirectUpload(options.expiresAt, storageMetadata(options.metadata));
+    if (!response.success) {
+      throw new Error(`Cloudflare direct upload failed: ${JSON.stringify(response.errors)}`);
+    }
+
+    return { id: response.result.id, method: 'POST', url: response.result.uploadURL, headers: {}, field: 'file' };
+  }
+
+  // Cloudflare checks the file itself (images only, up to 10MB) and doesn't report its size or type
+  async completeDirectUpload(id: string, options: DirectUploadOptions & { filename: string }): Promise<CompletedUpload | null> {
+    const details = await this.client.getImageDetails(id).catch(() => null);
+    if (!details?.success || details.result.draft) return null;
+
+    return {
+      image: storedImage(id, details.result.filename || options.filename, this.getVariantUrls(id)),
+      size: 0,
+      mimeType: options.mimeType,
+    };
+  }
+
+  async list(cursor?: string) {
+    const page = Number(cursor || 1);
+    const response = await this.client.listImages(page, LIST_PAGE_SIZE);
+    const images: any[] = response.result?.images || [];
+
+    return {
+      images: images.map(image => ({ id: image.id, filename: image.filename, meta: image.meta || {} })),
+      cursor: images.length === LIST_PAGE_SIZE ? String(page + 1) : null,
+    };
+  }
+}
+
+export interface S3StorageConfig {
+  // e.g. https://s3.eu-west-1.amazonaws.com, or http://localhost:9000 for MinIO
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // Where objects are publicly readable, e.g. a CDN; defaults to <endpoint>/<bucket>
+  publicUrl?: string | undefined;
+}
+
+// Tag on the objects of private images. The bucket's public read policy must leave them out, e.g.
+// with a StringNotEquals condition on s3:ExistingObjectTag/access; they are read with presigned URLs.
+const PRIVATE_OBJECT_TAG = 'access=private';
+
+/**
+ * An S3-compatible bucket (AWS S3, MinIO, R2, ...), addressed path-style. The original is stored
+ * as <id>/original and each variant, rendered at upload, as <id>/<variant>. Objects are served
+ * straight from the bucket, so it (or the public URL in front of it) must allow public reads,
+ * except of objects tagged as private.
+ */
+export class S3StorageProvider implements MediaStorageProvider {
+  readonly name = 's3' as const;
+  readonly storesFiles = true;
+  private credentials: AwsCredentials;
+  private endpoint: string;
+  private publicUrl: string;
+
+  constructor(private config: S3StorageConfig) {
+    this.credentials = {
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+      region: config.region,
+      service: 's3',
+    };
+    this.endpoint = config.endpoint.replace(/\/+$/, '');
+    this.publicUrl = (config.publicUrl || `${this.endpoint}/${config.bucket}`).replace(/\/+$/, '');
+  }
+
+  async upload(file: Buffer, filename: string, mimeType: string, metadata?: Record<string, unknown>, options: StoreOptions = {}): Promise<StoredImage> {
+    const id = randomUUID();
+    const tagging = options.private ? { 'x-amz-tagging': PRIVATE_OBJECT_TAG } : {};
+
+    try {
+      await this.request('PUT', `${id}/original`, {
+        body: file,
+        headers: {
+          'content-type': mimeType,
+          'x-amz-meta-json': this.metadataHeader(filename, metadata),
+          ...tagging,
+        },
+      });
+      await this.putVariants(id, file, mimeType, tagging);
+    } catch (error) {
+      await this.delete(id).catch(() => undefined);
+      throw error;
+    }
+
+    return storedImage(id, filename, this.getVariantUrls(id));
+  }
+
+  // The file is put under every variant's key as well, so the variant URLs serve it
+  async uploadFile(file: Buffer, filename: string, mimeType: string, metadata?: Record<string, unknown>, options: StoreOptions = {}): Promise<StoredImage> {
+    const id = randomUUID();
+    const tagging = options.private ? { 'x-amz-tagging': PRIVATE_OBJECT_TAG } : {};
+
+    try {
+      await this.request('PUT', `${id}/original`, {
+        body: file,
+        headers: {
+          'content-type': mimeType,
+          'x-amz-meta-json': this.metadataHeader(filename, metadata),
+          ...tagging,
+        },
+      });
+      for (const variant of variantNames) {
+        await this.request('PUT', `${id}/${variant}`, { body: file, headers: { 'content-type': mimeType, ...tagging } });
+      }
+    } catch (error) {
+      await this.delete(id).catch(() => undefined);
+      throw error;
+    }
+
+    return storedImage(id, filename, this.getVariantUrls(id));
+  }
+
+  // The client PUTs the original; its type is signed into the URL, its size is checked on completion
+  async createDirectUpload(options: DirectUploadOptions & { expiresAt: Date }): Promise<DirectUpload> {
+    const id = randomUUID();
+    const headers = { 'content-type': options.mimeType };
+    const url = presignAwsUrl(
+      { method: 'PUT', url: this.objectUrl(`${id}/original`), headers },
+      this.credentials,
+      (options.expiresAt.getTime() - Date.now()) / 1000
+    );
+
+    return { id, method: 'PUT', url, headers };
+  }
+
+  async completeDirectUpload(id: string, options: DirectUploadOptions & { filename: string }): Promise<CompletedUpload | null> {
+    const head = await this.request('HEAD', `${id}/original`, { allowMissing: true });
+    if (head.status === 404) return null;
+
+    try {
+      // Checked before downloading it
+      if (Number(head.headers.get('content-length')) > options.maxFileSize) {
+        throw new DirectUploadError(`File size exceeds limit of ${options.maxFileSize} bytes`, 413);
+      }
+
+      const file = Buffer.from(await (await this.request('GET', `${id}/original`)).arrayBuffer());
+      await inspectUpload(file, options);
+      await this.putVariants(id, file, options.mimeType);
+
+      // Metadata can only be set by copying the object onto itself
+      await this.request('PUT', `${id}/original`, {
+        headers: {
+          'content-type': options.mimeType,
+          'x-amz-copy-source': `/${encodeURIComponent(this.config.bucket)}/${id}/original`,
+          'x-amz-metadata-directive': 'REPLACE',
+          'x-amz-meta-json': this.metadataHeader(options.filename, options.metadata),
+        },
+      });
+
+      return { image: storedImage(id, options.filename, this.getVariantUrls(id)), size: file.length, mimeType: options.mimeType };
+    } catch (error) {
+      await this.delete(id).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  async uploadFromUrl(url: string, metadata?: Record<string, unknown>): Promise<StoredImage> {
+    const { file, filename, mimeType } = await downloadImage(url);
+    return this.upload(file, filename, mimeType, metadata);
+  }
+
+  async delete(id: string): Promise<void> {
+    for (const key of ['original', ...variantNames]) {
+      await this.request('DELETE', `${id}/${key}`);
+    }
+  }
+
+  // Replaces each object's tags with the private one
+  async makePrivate(id: string): Promise<void> {
+    const [key, value] = PRIVATE_OBJECT_TAG.split('=');
+    const body = Buffer.from(`<Tagging><TagSet><Tag><Key>${key}</Key><Value>${value}</Value></Tag></TagSet></Tagging>`);
+
+    for (const object of ['original', ...variantNames]) {
+      await this.request('PUT', `${id}/${object}`, {
+        query: { tagging: '' },
+        headers: { 'content-md5': createHash('md5').update(body).digest('base64') },
+        body,
+      });
+    }
+  }
+
+  getVariantUrls(id: string): Record<MediaVariant, string> {
+    return Object.fromEntries(variantNames.map(variant => [variant, `${this.publicUrl}/${id}/${variant}`])) as Record<MediaVariant, string>;
+  }
+
+  // Presigned GETs against the bucket itself, not the public URL
+  getSignedUrls(id: string, expiresAt: Date): Record<MediaVariant, string> {
+    const expiresIn = (expiresAt.getTime() - Date.now()) / 1000;
+    return Object.fromEntries(variantNames.map(variant => [
+      variant,
+      presignAwsUrl({ method: 'GET', url: this.objectUrl(`${id}/${variant}`) }, this.credentials, expiresIn),
+    ])) as Record<MediaVariant, string>;
+  }
+
+  async list(cursor?: string) {
+    const response = await this.request('GET', null, {
+      query: {
+        'list-type': '2',
+        'delimiter': '/',
+        'max-keys': String(LIST_PAGE_SIZE),
+        ...(cursor && { 'continuation-token': cursor }),
+      },
+    });
+    const xml = await response.text();
+
+    // Each image is a <id>/ prefix
+    const ids = [...xml.matchAll(/<CommonPrefixes>\s*<Prefix>([^<]+)\/<\/Prefix>/g)].map(match => match[1]!);
+    const images: StoredImageInfo[] = [];
+
+    for (const id of ids) {
+      const head = await this.request('HEAD', `${id}/original`, { allowMissing: true });
+      if (head.status === 404) continue;
+
+      const { filename = '', ...meta } = JSON.parse(decodeURIComponent(head.headers.get('x-amz-meta-json') || '%7B%7D'));
+      images.push({ id, filename, meta });
+    }
+
+    const next = xml.match(/<NextContinuationToken>([^<]+)<\/NextContinuationToken>/);
+    return { images, cursor: next ? next[1]!.replace(/&amp;/g, '&') : null };
+  }
+
+  private async putVariants(id: string, file: Buffer, mimeType: string, headers: Record<string, string> = {}): Promise<void> {
+    for (const variant of variantNames) {
+      await this.request('PUT', `${id}/${variant}`, {
+        body: await renderVariant(file, variant),
+        headers: { 'content-type': mimeType, ...headers },
+      });
+    }
+  }
+
+  // One JSON header, as S3 lowercases metadata names
+  private metadataHeader(filename: string, metadata?: Record<string, unknown>): string {
+    return encodeURIComponent(JSON.stringify({ ...storageMetadata(metadata), filename }));
+  }
+
+  private objectUrl(key: string | null): URL {
+    const objectPath = key ? `/${key.split('/').map(encodeURIComponent).join('/')}` : '/';
+    return new URL(`${this.endpoint}/${encodeURIComponent(this.config.bucket)}${objectPath}`);
+  }
+
+  private async request(
+    method: 'GET' | 'HEAD' | 'PUT' | 'DELETE',
+    key: string | null,
+    options: {
+      query?: Record<string, string>;
+      headers?: Record<string, string>;
+      body?: Buffer;
+      allowMissing?: boolean;
+    } = {}
+  ): Promise<Response> {
+    const url = this.objectUrl(key);
+    Object.entries(options.query || {}).forEach(([name, value]) => url.searchParams.set(name, value));
+
+    const headers = signAwsRequest({
+      method,
+      url,
+      headers: options.headers,
+      body: options.body,
+    }, this.credentials);
+
+    const response = await fetch(url, {
+      method,
+      headers,
+      ...(options.body && { body: options.body }),
+    });
+
+    // Deleting something already gone is fine
+    const missingOk = response.status === 404 && (method === 'DELETE' || options.allowMissing);
+    if (!response.ok && !missingOk) {
+      throw new Error(`S3 ${method} ${key || '/'} failed with ${response.status}: ${await response.text()}`);
+    }
+
+    return response;
+  }
+}
+
+const STORAGE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Files on local disk, for development and CI. The original is stored as <directory>/<id>/original
+ * next to a meta.json; variants are rendered on first request and cached beside it.
+ * Served by GET /api/media/files/:id/:variant, and direct uploads taken by PUT /api/media/files/:id
+ * (routes/media-files.ts). Direct upload URLs, and the URLs of private images, are signed with `secret`.
+ */
+export class LocalStorageProvider implements MediaStorageProvider {
+  readonly name = 'local' as const;
+  readonly storesFiles = true;
+  private publicUrl: string;
+
+  constructor(private directory: string, publicUrl: string, private secret: string) {
+    this.publicUrl = publicUrl.replace(/\/+$/, '');
+  }
+
+  async upload(file: Buffer, filename: string, mimeType: string, metadata?: Record<string, unknown>, options: StoreOptions = {}): Promise<StoredImage> {
+    // Fail now rather than when a variant is first requested
+    try {
+      await sharp(file).metadata();
+    } catch {
+      throw new Error(`${filename} is not a supported image`);
+    }
+
+    const id = randomUUID();
+    const directory = this.pathFor(id);
+
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(path.join(directory, 'original'), file);
+    await fs.writeFile(path.join(directory, 'meta.json'), JSON.stringify({
+      filename,
+      mimeType,
+      private: options.private === true,
+      meta: storageMetadata(metadata),
+    }));
+
+    return storedImage(id, filename, this.getVariantUrls(id));
+  }
+
+  // Written as the cached variants too, so read() serves the file instead of rendering it
+  async uploadFile(file: Buffer, filename: string, mimeType: string, metadata?: Record<string, unknown>, options: StoreOptions = {}): Promise<StoredImage> {
+    const id = randomUUID();
+    const directory = this.pathFor(id);
+
+    await fs.mkdir(directory, { recursive: true });
+    for (const name of ['original', ...variantNames]) {
+      await fs.writeFile(path.join(directory, name), file);
+    }
+    await fs.writeFile(path.join(directory, 'meta.json'), JSON.stringify({
+      filename,
+      mimeType,
+      private: options.private === true,
+      meta: storageMetadata(metadata),
+    }));
+
+    return storedImage(id, filename, this.getVariantUrls(id));
+  }
+
+  async uploadFromUrl(url: string, metadata?: Record<string, unknown>): Promise<StoredImage> {
+    const { file, filename, mimeType } = await downloadImage(url);
+    return this.upload(file, filename, mimeType, metadata);
+  }
+
+  async delete(id: string): Promise<void> {
+    await fs.rm(this.pathFor(id), { recursive: true, force: true });
+  }
+
+  async makePrivate(id: string): Promise<void> {
+    const info = await this.readInfo(id);
+    if (!info) {
+      throw new Error(`Media file ${id} not found`);
+    }
+
+    await fs.writeFile(path.join(this.pathFor(id), 'meta.json'), JSON.stringify({ ...info, private: true }));
+  }
+
+  getVariantUrls(id: string): Record<MediaVariant, string> {
+    return Object.fromEntries(variantNames.map(variant => [variant, `${this.publicUrl}/${id}/${variant}`])) as Record<MediaVariant, string>;
+  }
+
+  getSignedUrls(id: string, expiresAt: Date): Record<MediaVariant, string> {
+    const expires = String(Math.floor(expiresAt.getTime() / 1000));
+    return Object.fromEntries(variantNames.map(variant => {
+      const query = new URLSearchParams({ expires, signature: this.signFile(id, variant, expires) });
+      return [variant, `${this.publicUrl}/${id}/${variant}?${query}`];
+    })) as Record<MediaVariant, string>;
+  }
+
+  async list(cursor?: string) {
+    const offset = Number(cursor || 0);
+    const ids = (await fs.readdir(this.directory).catch(() => [] as string[]))
+      .filter(name => STORAGE_ID_PATTERN.test(name))
+      .sort();
+
+    const images: StoredImageInfo[] = [];
+    for (const id of ids.slice(offset, offset + LIST_PAGE_SIZE)) {
+      const info = await this.readInfo(id);
+      if (info) images.push({ id, filename: info.filename, meta: info.meta });
+    }
+
+    return { images, cursor: offset + LIST_PAGE_SIZE < ids.length ? String(offset + LIST_PAGE_SIZE) : null };
+  }
+
+  async createDirectUpload(options: DirectUploadOptions & { expiresAt: Date }): Promise<DirectUpload> {
+    const id = randomUUID();
+    const params = {
+      type: options.mimeType,
+      max: String(options.maxFileSize),
+      expires: String(Math.floor(options.expiresAt.getTime() / 1000)),
+    };
+    const query = new URLSearchParams({ ...params, signature: this.signUpload(id, params) });
+
+    return { id, method: 'PUT', url: `${this.publicUrl}/${id}?${query}`, headers: { 'content-type': options.mimeType } };
+  }
+
+  /**
+   * Takes a file sent to a direct upload URL. It's only kept, and served, once the upload is completed.
+   */
+  async receiveDirectUpload(
+    id: string,
+    params: { type: string; max: string; expires: string; signature: string },
+    mimeType: string,
+    file: Buffer
+  ): Promise<void> {
+    const expected = Buffer.from(this.signUpload(id, params));
+    const given = Buffer.from(params.signature);
+    if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+      throw new DirectUploadError('Invalid upload URL', 403);
+    }
+    if (Number(params.expires) * 1000 < Date.now()) {
+      throw new DirectUploadError('This upload URL has expired', 403);
+    }
+    if (mimeType !== params.type) {
+      throw new DirectUploadError(`Content-Type must be ${params.type}`, 415);
+    }
+    if (file.length > Number(params.max)) {
+      throw new DirectUploadError(`File size exceeds limit of ${params.max} bytes`, 413);
+    }
+    if (await this.readInfo(id)) {
+      throw new DirectUploadError('This upload is already complete', 409);
+    }
+
+    const directory = this.pathFor(id);
+    await fs.mkdir(directory, { recursive: true });
+    const temporary = path.join(directory, `original.${randomUUID()}.tmp`);
+    await fs.writeFile(temporary, file);
+    await fs.rename(temporary, path.join(directory, 'original'));
+  }
+
+  async completeDirectUpload(id: string, options: DirectUploadOptions & { filename: string }): Promise<CompletedUpload | null> {
+    const file = await fs.readFile(path.join(this.pathFor(id), 'original')).catch(() => null);
+    if (!file) return null;
+
+    try {
+      await inspectUpload(file, options);
+    } catch (error) {
+      await this.delete(id);
+      throw error;
+    }
+
+    await fs.writeFile(path.join(this.pathFor(id), 'meta.json'), JSON.stringify({
+      filename: options.filename,
+      mimeType: options.mimeType,
+      meta: storageMetadata(options.metadata),
+    }));
+
+    return { image: storedImage(id, options.filename, this.getVariantUrls(id)), size: file.length, mimeType: options.mimeType };
+  }
+
+  /**
+   * A variant of an image, rendered and cached on first request; null if there's no such image, or
+   * if it is private and `signed` isn't an unexpired signature from getSignedUrls
+   */
+  async read(
+    id: string,
+    variant: MediaVariant,
+    signed: { expires?: string | undefined; signature?: string | undefined } = {}
+  ): Promise<{ file: Buffer; mimeType: string; private: boolean } | null> {
+    if (!STORAGE_ID_PATTERN.test(id)) return null;
+
+    const info = await this.readInfo(id);
+    if (!info) return null;
+
+    const isPrivate = info.private === true;
+    if (isPrivate) {
+      if (!signed.expires || !signed.signature || Number(signed.expires) * 1000 < Date.now()) return null;
+
+      const expected = Buffer.from(this.signFile(id, variant, signed.expires));
+      const given = Buffer.from(signed.signature);
+      if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+    }
+
+    const cached = path.join(this.pathFor(id), variant);
+    try {
+      return { file: await fs.readFile(cached), mimeType: info.mimeType, private: isPrivate };
+    } catch {
+      // Not rendered yet
+    }
+
+    const file = await renderVariant(await fs.readFile(path.join(this.pathFor(id), 'original')), variant);
+
+    // Written under a temporary name so concurrent requests never read a partial file
+    const temporary = `${cached}.${randomUUID()}.tmp`;
+    await fs.writeFile(temporary, file);
+    await fs.rename(temporary, cached);
+
+    return { file, mimeType: info.mimeType, private: isPrivate };
+  }
+
+  private signFile(id: string, variant: MediaVariant, expires: string): string {
+    return createHmac('sha256', this.secret)
+      .update(['media-file', id, variant, expires].join('\n'))
+      .digest('base64url');
+  }
+
+  private signUpload(id: string, params: { type: string; max: string; expires: string }): string {
+    return createHmac('sha256', this.secret)
+      .update(['direct-upload', id, params.type, params.max, params.expires].join('\n'))
+      .digest('base64url');
+  }
+
+  private async readInfo(id: string): Promise<{ filename: string; mimeType: string; private?: boolean; meta: Record<string, string> } | null> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.pathFor(id), 'meta.json'), 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private pathFor(id: string): string {
+    if (!STORAGE_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid media storage ID: ${id}`);
+    }
+    return path.join(this.directory, id);
+  }
+}
@@ -0,0 +1,210 @@
+import { eq } from 'drizzle-orm';
+import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { user } from '../models/user';
+import { authUsers } from '../models/authUser';
+import { businessDetails } from '../models/business_details';
+import { postUpdates } from '../models/post_updates';
+import { news } from '../models/news';
+import type { MediaResourceType, MediaTag } from '../models/media';
+import { UniversalImageUploadHelper, type UploadContext, type UploadOptions } from './universalMediaUploader';
+import { MAX_VIDEO_SIZE, VIDEO_MIME_TYPES } from './videoTranscoder';
+import { hasRole } from '../utils/roles';
+
+/**
+ * An upload that isn't allowed or can't be accepted; statusCode is the HTTP status to answer with
+ */
+export class MediaUploadError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message);
+    this.name = 'MediaUploadError';
+  }
+}
+
+type UploadPreset = Parameters<typeof UniversalImageUploadHelper.getPresetConfig>[0];
+
+export type MediaUploadTarget = {
+  kind: 'image';
+  preset: UploadPreset;
+  // One image per resource and tag; a new one replaces it
+  single: boolean;
+} | {
+  // Handed to VideoService; always one per resource
+  kind: 'video';
+  single: true;
+};
+
+// What can be uploaded other than by multipart (upload tickets, tus), by resource type and tag.
+// The limits are those of the matching multipart upload.
+const UPLOAD_TARGETS: Record<string, MediaUploadTarget> = {
+  'user_profile/profile_pic': { kind: 'image', preset: 'profile_pic', single: true },
+  'user_profile/banner': { kind: 'image', preset: 'banner', single: true },
+  'business/logo': { kind: 'image', preset: 'business_logo', single: true },
+  'business/banner': { kind: 'image', preset: 'business_banner', single: true },
+  // The first image of a post becomes its featured image, as with multipart uploads
+  'post/gallery': { kind: 'image', preset: 'post_image', single: false },
+  'post/video': { kind: 'video', single: true },
+  'news/video': { kind: 'video', single: true },
+};
+
+const VIDEO_UPLOAD_OPTIONS: UploadOptions = {
+  validateImageType: false,
+  maxFileSize: MAX_VIDEO_SIZE,
+  allowedMimeTypes: VIDEO_MIME_TYPES,
+};
+
+const targetOptions = (target: MediaUploadTarget): UploadOptions =>
+  target.kind === 'video' ? VIDEO_UPLOAD_OPTIONS : UniversalImageUploadHelper.getPresetConfig(target.preset).options;
+
+// The largest file any target takes
+export const MAX_UPLOAD_TARGET_SIZE = Math.max(...Object.values(UPLOAD_TARGETS)
+  .map(target => targetOptions(target).maxFileSize || 0));
+
+/**
+ * Upload targets outside the multipart routes: which resources and tags take uploads, who may upload
+ * to them, and what the multipart routes (users-media, posts-media, business-media) do around an upload.
+ */
+export class MediaUploadTargets {
+  constructor(private db: NodePgDatabase<any>, private uploadHelper: UniversalImageUploadHelper) {}
+
+  /**
+   * The target with its upload options; replaceExisting follows `single`
+   */
+  resolve(resourceType: MediaResourceType, tag: MediaTag): MediaUploadTarget & { options: UploadOptions } {
+    const target = UPLOAD_TARGETS[`${resourceType}/${tag}`];
+    if (!target) {
+      throw new MediaUploadError(`Uploads are not available for ${resourceType} ${tag}`, 400);
+    }
+
+    return { ...target, options: { ...targetOptions(target), replaceExisting: target.single } };
+  }
+
+  // Checks a declared type and size against the target before anything is uploaded
+  checkFile(options: UploadOptions, mimeType: string, size: number): void {
+    if (options.allowedMimeTypes && !options.allowedMimeTypes.includes(mimeType)) {
+      throw new MediaUploadError(`File type ${mimeType} not allowed. Allowed types: ${options.allowedMimeTypes.join(', ')}`, 400);
+    }
+    if (options.maxFileSize && size > options.maxFileSize) {
+      throw new MediaUploadError(`File size exceeds limit of ${options.maxFileSize} bytes`, 413);
+    }
+  }
+
+  // The same ownership rules as the multipart upload routes; news is for its author and editors
+  async authorize(profileId: string, resourceType: MediaResourceType, resourceId: string): Promise<void> {
+    if (resourceType === 'user_profile') {
+      if (resourceId !== profileId) {
+        throw new MediaUploadError('You can only upload media to your own profile', 403);
+      }
+      return;
+    }
+
+    if (resourceType === 'business') {
+      const [business] = await this.db
+        .select({ userId: businessDetails.userId })
+        .from(businessDetails)
+        .where(eq(businessDetails.id, resourceId))
+        .limit(1);
+
+      if (!business) {
+        throw new MediaUploadError('Business not found', 404);
+      }
+      if (business.userId !== profileId) {
+        throw new MediaUploadError('You can only upload media for your own business', 403);
+      }
+      return;
+    }
+
+    if (resourceType === 'post') {
+      const [post] = await this.db
+        .select({ postByUserId: postUpdates.postByUserId, businessOwnerId: businessDetails.userId })
+        .from(postUpdates)
+        .leftJoin(businessDetails, eq(businessDetails.id, postUpdates.postByBusinessId))
+        .where(eq(postUpdates.id, resourceId))
+        .limit(1);
+
+      if (!post) {
+        throw new MediaUploadError('Post not found', 404);
+      }
+      if (post.postByUserId !== profileId && post.businessOwnerId !== profileId) {
+        throw new MediaUploadError('You can only upload images to your own posts', 403);
+      }
+      return;
+    }
+
+    if (resourceType === 'news') {
+      const [article] = await this.db
+        .select({ createdBy: news.createdBy })
+        .from(news)
+        .where(eq(news.id, resourceId))
+        .limit(1);
+
+      if (!article) {
+        throw new MediaUploadError('News article not found', 404);
+      }
+
+      const [author] = await this.db
+        .select({ id: authUsers.id, role: authUsers.role })
+        .from(user)
+        .innerJoin(authUsers, eq(authUsers.id, user.userAuthId))
+        .where(eq(user.id, profileId))
+        .limit(1);
+
+      if (!author || (article.createdBy !== author.id && !hasRole(author, 'editor'))) {
+        throw new MediaUploadError('You can only upload media to your own articles', 403);
+      }
+      return;
+    }
+
+    throw new MediaUploadError(`Uploads are not available for ${resourceType}`, 400);
+  }
+
+  context(
+    authUserId: string,
+    profileId: string,
+    resourceType: MediaResourceType,
+    resourceId: string,
+    tag: MediaTag,
+    uploadMethod: 'direct' | 'tus'
+  ): UploadContext {
+    return {
+      resourceType,
+      resourceId,
+      tag,
+      authUserId,
+      actualUserId: profileId,
+      ...(resourceType === 'business' && { businessId: resourceId }),
+      metadata: {
+        uploadMethod,
+      },
+    };
+  }
+
+  /**
+   * The context to create the media record with, once the file is in: a post's first image is featured
+   */
+  async placement(context: UploadContext): Promise<UploadContext> {
+    if (context.resourceType === 'post' && context.tag === 'gallery') {
+      const existing = await this.uploadHelper.getExistingMedia('post', context.resourceId);
+      if (!existing.some(record => record.kind === 'image')) {
+        return { ...context, tag: 'featured_image' };
+      }
+    }
+    return context;
+  }
+
+  // What the multipart routes do after an upload: point the resource at its new media
+  async applyToResource(resourceType: MediaResourceType, resourceId: string, tag: MediaTag, mediaId: string): Promise<void> {
+    if (resourceType === 'user_profile') {
+      await this.db
+        .update(user)
+        .set(tag === 'profile_pic' ? { profilePic: mediaId, updatedAt: new Date() } : { banner: mediaId, updatedAt: new Date() })
+        .where(eq(user.id, resourceId));
+    } else if (resourceType === 'business') {
+      await this.db
+        .update(businessDetails)
+        .set(tag === 'logo' ? { logo: mediaId, updatedAt: new Date() } : { banner: mediaId, updatedAt: new Date() })
+        .where(eq(businessDetails.id, resourceId));
+    } else if (resourceType === 'post') {
+      await this.uploadHelper.mediaService.syncPostReferences(resourceId);
+    }
+  }
+}
@@ -0,0 +1,167 @@
+import { eq, and, ne, lte, inArray, desc, sql, type SQL } from 'drizzle-orm';
+import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { user } from '../models/user';
+import { professions } from '../models/professions';
+import { specialization } from '../models/specialization';
+import { connections } from '../models/connections';
+import { mentorshipProfiles } from '../models/mentorship_profiles';
+import { mentorships } from '../models/mentorships';
+
+// Mentors graduated at least this many years before their mentees
+export const MIN_SENIORITY_GAP = 1;
+
+// Points per criterion; mentors are ranked by the total
+const MATCH_POINTS = {
+  profession: 3,
+  specialization: 2,
+  city: 1,
+  // A seniority gap in the ideal range, or any other gap
+  idealSeniority: 2,
+  seniority: 1,
+  // Per shared topic, up to MAX_TOPIC_POINTS
+  topic: 1,
+};
+const MAX_TOPIC_POINTS = 3;
+// Years between the mentee's and the mentor's graduation that make for the best pairing
+const IDEAL_SENIORITY_GAP = { min: 3, max: 10 };
+
+/**
+ * What mentors are matched against; the mentee's own profile and program topics
+ */
+export interface MenteeCriteria {
+  id: string;
+  graduationYear: number;
+  professionId: string | null;
+  specializationId: string | null;
+  currentCity: string;
+  topics: string[];
+}
+
+/**
+ * Ranks available mentors for a mentee by profession and specialization overlap,
+ * city, seniority gap and shared topics. All member IDs are profile (`user` table) IDs.
+ */
+export class MentorMatchingService {
+  constructor(private db: NodePgDatabase<any>) {}
+
+  /**
+   * Mentors taking mentees, senior to the mentee, with an open spot, not blocked either way
+   * and not already requested by or mentoring the mentee; best match first
+   */
+  async rankMentors(mentee: MenteeCriteria, options: {
+    // Only mentors offering this topic
+    topic?: string | undefined;
+    limit?: number | undefined;
+    offset?: number | undefined;
+  } = {}) {
+    const limit = options.limit || 20;
+    const offset = options.offset || 0;
+
+    const activeMentees = sql<number>`(SELECT count(*)::int FROM ${mentorships} WHERE ${mentorships.mentorId} = ${user.id} AND ${mentorships.status} = 'active')`;
+    const seniorityGap = sql<number>`(${mentee.graduationYear}::int - ${user.graduationYear})`;
+
+    const sameProfession = mentee.professionId
+      ? sql<boolean>`coalesce(${user.professionId} = ${mentee.professionId}, false)`
+      : sql<boolean>`false`;
+    const sameSpecialization = mentee.specializationId
+      ? sql<boolean>`coalesce(${user.specializationId} = ${mentee.specializationId}, false)`
+      : sql<boolean>`false`;
+    const sameCity = sql<boolean>`(lower(${user.currentCity}) = lower(${mentee.currentCity}))`;
+    const sharedTopics = mentee.topics.length > 0
+      ? sql<string[]>`ARRAY(SELECT unnest(${mentorshipProfiles.topics}) INTERSECT SELECT unnest(ARRAY[${sql.join(mentee.topics.map(topic => sql`${topic}`), sql`, `)}]::text[]))`
+      : sql<string[]>`'{}'::text[]`;
+
+    const score = sql<number>`(
+      CASE WHEN ${sameProfession} THEN ${MATCH_POINTS.profession} ELSE 0 END +
+      CASE WHEN ${sameSpecialization} THEN ${MATCH_POINTS.specialization} ELSE 0 END +
+      CASE WHEN ${sameCity} THEN ${MATCH_POINTS.city} ELSE 0 END +
+      CASE WHEN ${seniorityGap} BETWEEN ${IDEAL_SENIORITY_GAP.min} AND ${IDEAL_SENIORITY_GAP.max}
+        THEN ${MATCH_POINTS.idealSeniority}::int ELSE ${MATCH_POINTS.seniority}::int END +
+      LEAST(cardinality(${sharedTopics}), ${MAX_TOPIC_POINTS}) * ${MATCH_POINTS.topic}
+    )`;
+
+    const blocked = sql`EXISTS (SELECT 1 FROM ${connections} WHERE ${connections.type} = 'block' AND (
+      (${connections.userId} = ${mentee.id} AND ${connections.targetId} = ${user.id}) OR
+      (${connections.userId} = ${user.id} AND ${connections.targetId} = ${mentee.id})
+    ))`;
+
+    const alreadyPaired = sql`EXISTS (SELECT 1 FROM ${mentorships} WHERE ${mentorships.mentorId} = ${user.id}
+      AND ${mentorships.menteeId} = ${mentee.id} AND ${mentorships.status} IN ('requested', 'active'))`;
+
+    const conditions: (SQL | undefined)[] = [
+      inArray(mentorshipProfiles.role, ['mentor', 'both']),
+      eq(mentorshipProfiles.available, true),
+      ne(user.id, mentee.id),
+      lte(user.graduationYear, mentee.graduationYear - MIN_SENIORITY_GAP),
+      sql`${activeMentees} < ${mentorshipProfiles.capacity}`,
+      sql`NOT ${blocked}`,
+      sql`NOT ${alreadyPaired}`,
+      options.topic ? sql`${options.topic.trim().toLowerCase()} = ANY(${mentorshipProfiles.topics})` : undefined,
+    ];
+    const whereClause = and(...conditions);
+
+    const [countResult] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(mentorshipProfiles)
+      .innerJoin(user, eq(user.id, mentorshipProfiles.userId))
+      .where(whereClause);
+
+    const rows = await this.db
+      .select({
+        mentor: {
+          id: user.id,
+          firstName: user.firstName,
+          lastName: user.lastName,
+          graduationYear: user.graduationYear,
+          currentCity: user.currentCity,
+          organization: user.organization,
+          profilePic: user.profilePic,
+        },
+        profession: professions.name,
+        specialization: specialization.name,
+        topics: mentorshipProfiles.topics,
+        bio: mentorshipProfiles.bio,
+        capacity: mentorshipProfiles.capacity,
+        activeMentees,
+        score,
+        sameProfession,
+        sameSpecialization,
+        sameCity,
+        seniorityGap,
+        sharedTopics,
+      })
+      .from(mentorshipProfiles)
+      .innerJoin(user, eq(user.id, mentorshipProfiles.userId))
+      .leftJoin(professions, eq(professions.id, user.professionId))
+      .leftJoin(specialization, eq(specialization.id, user.specializationId))
+      .where(whereClause)
+      // Best match first, then mentors with the most room
+      .orderBy(desc(score), sql`${mentorshipProfiles.capacity} - ${activeMentees} DESC`, user.id)
+      .limit(limit)
+      .offset(offset);
+
+    return {
+      data: rows.map(r => ({
+        ...r.mentor,
+        profession: r.profession,
+        specialization: r.specialization,
+        mentorship: {
+          topics: r.topics,
+          bio: r.bio,
+          openSpots: r.capacity - r.activeMentees,
+        },
+        match: {
+          score: r.score,
+          sameProfession: r.sameProfession,
+          sameSpecialization: r.sameSpecialization,
+          sameCity: r.sameCity,
+          seniorityGap: r.seniorityGap,
+          sharedTopics: r.sharedTopics,
+        },
+      })),
+      total: countResult?.count || 0,
+      limit,
+      offset,
+    };
+  }
+}
@@ -0,0 +1,560 @@
+import { eq, and, or, desc, sql, inArray, type SQL } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { user } from '../models/user';
+import { connections } from '../models/connections';
+import { mentorshipProfiles, type MentorshipProfile, type MentorshipRole } from '../models/mentorship_profiles';
+import { mentorships, type Mentorship, type MentorshipStatus } from '../models/mentorships';
+import { mentorshipSessions, type MentorshipSession } from '../models/mentorship_sessions';
+import { MentorMatchingService, MIN_SENIORITY_GAP } from './mentorMatchingService';
+import { appEvents } from '../utils/appEvents';
+
+type Transaction = Parameters<Parameters<NodePgDatabase<any>['transaction']>[0]>[0];
+
+export class MentorshipError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message);
+    this.name = 'MentorshipError';
+  }
+}
+
+interface Paging {
+  limit?: number | undefined;
+  offset?: number | undefined;
+}
+
+export interface MentorshipProfileInput {
+  role?: MentorshipRole | undefined;
+  topics?: string[] | undefined;
+  capacity?: number | undefined;
+  bio?: string | null | undefined;
+  available?: boolean | undefined;
+}
+
+export interface SessionInput {
+  heldAt: Date;
+  durationMinutes?: number | null | undefined;
+  notes: string;
+}
+
+// Requests a mentee may have waiting for an answer at once
+const MAX_PENDING_REQUESTS = 3;
+
+const memberColumns = {
+  id: user.id,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  graduationYear: user.graduationYear,
+  currentCity: user.currentCity,
+  profilePic: user.profilePic,
+};
+
+// Trimmed, lowercased and deduplicated, so topics match across members
+const normalizeTopics = (topics: string[]): string[] =>
+  [...new Set(topics.map(topic => topic.trim().toLowerCase()).filter(Boolean))];
+
+/**
+ * The alumni mentorship program: members opt in as mentors, mentees or both,
+ * mentees request mentors, and both sides keep notes on their sessions.
+ * All member IDs are profile (`user` table) IDs.
+ */
+export class MentorshipService {
+  private matching: MentorMatchingService;
+
+  constructor(private db: NodePgDatabase<any>) {
+    this.matching = new MentorMatchingService(db);
+  }
+
+  // Program profile
+
+  async getProfile(profileId: string): Promise<(MentorshipProfile & { activeMentees: number }) | null> {
+    const [profile] = await this.db
+      .select()
+      .from(mentorshipProfiles)
+      .where(eq(mentorshipProfiles.userId, profileId))
+      .limit(1);
+
+    if (!profile) return null;
+
+    return { ...profile, activeMentees: await this.countActiveMentees(this.db, profileId) };
+  }
+
+  /**
+   * Join the program or change how the member takes part. Lowering the capacity
+   * doesn't end existing mentorships; the mentor just takes no new ones until below it.
+   */
+  async updateProfile(profileId: string, data: MentorshipProfileInput) {
+    const changes: Partial<Omit<MentorshipProfile, 'id' | 'userId' | 'createdAt' | 'updatedAt'>> = {};
+    if (data.role !== undefined) changes.role = data.role;
+    if (data.topics !== undefined) changes.topics = normalizeTopics(data.topics);
+    if (data.capacity !== undefined) changes.capacity = data.capacity;
+    if (data.bio !== undefined) changes.bio = data.bio;
+    if (data.available !== undefined) changes.available = data.available;
+
+    const [existing] = await this.db
+      .select({ id: mentorshipProfiles.id })
+      .from(mentorshipProfiles)
+      .where(eq(mentorshipProfiles.userId, profileId))
+      .limit(1);
+
+    if (existing) {
+      await this.db
+        .update(mentorshipProfiles)
+        .set({ ...changes, updatedAt: new Date() })
+        .where(eq(mentorshipProfiles.id, existing.id));
+    } else {
+      if (!changes.role) {
+        throw new MentorshipError('Choose whether you join as a mentor, a mentee or both', 400);
+      }
+
+      await this.db
+        .insert(mentorshipProfiles)
+        .values({ userId: profileId, ...changes, role: changes.role })
+        .onConflictDoNothing();
+    }
+
+    return (await this.getProfile(profileId))!;
+  }
+
+  // Matching
+
+  /**
+   * Mentors ranked for the member, who must be in the program as a mentee
+   */
+  async suggestMentors(profileId: string, options: { topic?: string | undefined } & Paging) {
+    const [mentee] = await this.db
+      .select({
+        graduationYear: user.graduationYear,
+        professionId: user.professionId,
+        specializationId: user.specializationId,
+        currentCity: user.currentCity,
+        role: mentorshipProfiles.role,
+        topics: mentorshipProfiles.topics,
+      })
+      .from(user)
+      .leftJoin(mentorshipProfiles, eq(mentorshipProfiles.userId, user.id))
+      .where(eq(user.id, profileId))
+      .limit(1);
+
+    if (!mentee?.role || mentee.role === 'mentor') {
+      throw new MentorshipError('Join the mentorship program as a mentee first', 400);
+    }
+
+    return this.matching.rankMentors({ id: profileId, ...mentee, topics: mentee.topics || [] }, options);
+  }
+
+  // Requests
+
+  async request(menteeId: string, data: {
+    mentorId: string;
+    message?: string | undefined;
+    topics?: string[] | undefined;
+  }): Promise<Mentorship> {
+    if (data.mentorId === menteeId) {
+      throw new MentorshipError('You cannot mentor yourself', 400);
+    }
+
+    const mentee = await this.getProfile(menteeId);
+    if (!mentee || mentee.role === 'mentor') {
+      throw new MentorshipError('Join the mentorship program as a mentee first', 400);
+    }
+
+    if (await this.isBlocked(menteeId, data.mentorId)) {
+      throw new MentorshipError('Mentor not found', 404);
+    }
+
+    const mentorship = await this.db.transaction(async (tx) => {
+      const mentor = await this.lockMentor(tx, data.mentorId);
+
+      if (!mentor.available) {
+        throw new MentorshipError('This mentor is not taking mentees right now', 409);
+      }
+
+      const years = new Map((await tx
+        .select({ id: user.id, graduationYear: user.graduationYear })
+        .from(user)
+        .where(inArray(user.id, [data.mentorId, menteeId]))).map(m => [m.id, m.graduationYear]));
+
+      if ((years.get(menteeId) || 0) - (years.get(data.mentorId) || Infinity) < MIN_SENIORITY_GAP) {
+        throw new MentorshipError('Mentors must have graduated before you', 400);
+      }
+
+      const open = await tx
+        .select({ mentorId: mentorships.mentorId, status: mentorships.status })
+        .from(mentorships)
+        .where(and(eq(mentorships.menteeId, menteeId), inArray(mentorships.status, ['requested', 'active'])));
+
+      if (open.some(m => m.mentorId === data.mentorId)) {
+        throw new MentorshipError('You already have a mentorship with this mentor', 409);
+      }
+      if (open.filter(m => m.status === 'requested').length >= MAX_PENDING_REQUESTS) {
+        throw new MentorshipError(`You can have at most ${MAX_PENDING_REQUESTS} requests waiting for an answer`, 409);
+      }
+      if ((await this.countActiveMentees(tx, data.mentorId)) >= mentor.capacity) {
+        throw new MentorshipError('This mentor has no open spots', 409);
+      }
+
+      const [created] = await tx
+        .insert(mentorships)
+        .values({
+          mentorId: data.mentorId,
+          menteeId,
+          message: data.message || null,
+          topics: normalizeTopics(data.topics || mentee.topics),
+        })
+        .returning();
+
+      return created!;
+    });
+
+    appEvents.emit('mentorship.requested', { mentorship });
+
+    return mentorship;
+  }
+
+  /**
+   * The mentor takes the mentee on, if they still have an open spot
+   */
+  async accept(profileId: string, mentorshipId: string): Promise<Mentorship> {
+    const mentorship = await this.db.transaction(async (tx) => {
+      const mentor = await this.lockMentor(tx, profileId);
+      const existing = await this.findForMentor(tx, profileId, mentorshipId);
+
+      if (existing.status !== 'requested') {
+        throw new MentorshipError('This request has already been answered', 409);
+      }
+      if ((await this.countActiveMentees(tx, profileId)) >= mentor.capacity) {
+        throw new MentorshipError('You have no open spots; raise your capacity or end a mentorship first', 409);
+      }
+
+      return this.setStatus(tx, existing.id, { status: 'active', respondedAt: new Date() });
+    });
+
+    appEvents.emit('mentorship.responded', { mentorship });
+
+    return mentorship;
+  }
+
+  async decline(profileId: string, mentorshipId: string): Promise<Mentorship> {
+    const existing = await this.findForMentor(this.db, profileId, mentorshipId);
+
+    if (existing.status !== 'requested') {
+      throw new MentorshipError('This request has already been answered', 409);
+    }
+
+    const mentorship = await this.setStatus(this.db, existing.id, { status: 'declined', respondedAt: new Date() });
+    appEvents.emit('mentorship.responded', { mentorship });
+
+    return mentorship;
+  }
+
+  /**
+   * Either side ends an active mentorship; the mentee may also withdraw a request
+   * the mentor hasn't answered
+   */
+  async end(profileId: string, mentorshipId: string, reason?: string | undefined): Promise<Mentorship> {
+    const existing = await this.findForParticipant(profileId, mentorshipId);
+    const now = new Date();
+
+    if (existing.status === 'requested' && existing.menteeId === profileId) {
+      return this.setStatus(this.db, existing.id, { status: 'cancelled', endedAt: now, endedBy: profileId });
+    }
+    if (existing.status !== 'active') {
+      throw new MentorshipError('This mentorship is not active', 409);
+    }
+
+    const mentorship = await this.setStatus(this.db, existing.id, {
+      status: 'ended',
+      endedAt: now,
+      endedBy: profileId,
+      endReason: reason || null,
+    });
+    appEvents.emit('mentorship.ended', { mentorship, endedBy: profileId });
+
+    return mentorship;
+  }
+
+  /**
+   * The member's mentorships on either side, newest first
+   */
+  async list(profileId: string, filters: {
+    // Only mentorships where the member is the mentor, or the mentee
+    role?: 'mentor' | 'mentee' | undefined;
+    status?: MentorshipStatus | undefined;
+  } & Paging) {
+    const limit = filters.limit || 20;
+    const offset = filters.offset || 0;
+
+    const sides: Record<'mentor' | 'mentee', SQL> = {
+      mentor: eq(mentorships.mentorId, profileId),
+      mentee: eq(mentorships.menteeId, profileId),
+    };
+    const whereClause = and(
+      filters.role ? sides[filters.role] : or(sides.mentor, sides.mentee),
+      filters.status ? eq(mentorships.status, filters.status) : undefined
+    );
+
+    const [countResult] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(mentorships)
+      .where(whereClause);
+
+    const page = await this.db
+      .select({ id: mentorships.id })
+      .from(mentorships)
+      .where(whereClause)
+      .orderBy(desc(mentorships.updatedAt), mentorships.id)
+      .limit(limit)
+      .offset(offset);
+
+    return {
+      data: await this.withMembers(page.map(m => m.id)),
+      total: countResult?.count || 0,
+      limit,
+      offset,
+    };
+  }
+
+  async get(profileId: string, mentorshipId: string) {
+    const existing = await this.findForParticipant(profileId, mentorshipId);
+    const [mentorship] = await this.withMembers([existing.id]);
+
+    const [sessions] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(mentorshipSessions)
+      .where(eq(mentorshipSessions.mentorshipId, existing.id));
+
+    return {
+      ...mentorship!,
+      role: existing.mentorId === profileId ? 'mentor' as const : 'mentee' as const,
+      sessionCount: sessions?.count || 0,
+    };
+  }
+
+  // Session notes
+
+  async listSessions(profileId: string, mentorshipId: string, paging: Paging) {
+    await this.findForParticipant(profileId, mentorshipId);
+    const limit = paging.limit || 20;
+    const offset = paging.offset || 0;
+    const whereClause = eq(mentorshipSessions.mentorshipId, mentorshipId);
+
+    const [countResult] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(mentorshipSessions)
+      .where(whereClause);
+
+    const rows = await this.db
+      .select({ session: mentorshipSessions, author: memberColumns })
+      .from(mentorshipSessions)
+      .leftJoin(user, eq(user.id, mentorshipSessions.authorId))
+      .where(whereClause)
+      .orderBy(desc(mentorshipSessions.heldAt), desc(mentorshipSessions.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    return {
+      data: rows.map(r => ({ ...r.session, author: r.author })),
+      total: countResult?.count || 0,
+      limit,
+      offset,
+    };
+  }
+
+  /**
+   * Either side records a session; only while the mentorship is active
+   */
+  async addSession(profileId: string, mentorshipId: string, data: SessionInput): Promise<MentorshipSession> {
+    const mentorship = await this.findForParticipant(profileId, mentorshipId);
+
+    if (mentorship.status !== 'active') {
+      throw new MentorshipError('Sessions can only be added to an active mentorship', 409);
+    }
+
+    const [session] = await this.db
+      .insert(mentorshipSessions)
+      .values({
+        mentorshipId,
+        authorId: profileId,
+        heldAt: data.heldAt,
+        durationMinutes: data.durationMinutes ?? null,
+        notes: data.notes,
+      })
+      .returning();
+
+    return session!;
+  }
+
+  async updateSession(
+    profileId: string,
+    mentorshipId: string,
+    sessionId: string,
+    data: Partial<SessionInput>
+  ): Promise<MentorshipSession> {
+    await this.findOwnSession(profileId, mentorshipId, sessionId);
+
+    const changes: Partial<Pick<MentorshipSession, 'heldAt' | 'durationMinutes' | 'notes'>> = {};
+    if (data.heldAt !== undefined) changes.heldAt = data.heldAt;
+    if (data.durationMinutes !== undefined) changes.durationMinutes = data.durationMinutes;
+    if (data.notes !== undefined) changes.notes = data.notes;
+
+    const [session] = await this.db
+      .update(mentorshipSessions)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(mentorshipSessions.id, sessionId))
+      .returning();
+
+    return session!;
+  }
+
+  async deleteSession(profileId: string, mentorshipId: string, sessionId: string): Promise<void> {
+    await this.findOwnSession(profileId, mentorshipId, sessionId);
+    await this.db.delete(mentorshipSessions).where(eq(mentorshipSessions.id, sessionId));
+  }
+
+  // Serializes requests to and acceptances by a mentor, so their capacity can't be exceeded
+  private async lockMentor(tx: Transaction, mentorId: string): Promise<MentorshipProfile> {
+    const [mentor] = await tx
+      .select()
+      .from(mentorshipProfiles)
+      .where(eq(mentorshipProfiles.userId, mentorId))
+      .for('update');
+
+    if (!mentor || mentor.role === 'mentee') {
+      throw new MentorshipError('Mentor not found', 404);
+    }
+
+    return mentor;
+  }
+
+  private async countActiveMentees(executor: Transaction | NodePgDatabase<any>, mentorId: string): Promise<number> {
+    const [result] = await executor
+      .select({ count: sql<number>`count(*)::int` })
+      .from(mentorships)
+      .where(and(eq(mentorships.mentorId, mentorId), eq(mentorships.status, 'active')));
+
+    return result?.count || 0;
+  }
+
+  private async isBlocked(profileId: string, otherId: string): Promise<boolean> {
+    const [row] = await this.db
+      .select({ id: connections.id })
+      .from(connections)
+      .where(and(
+        eq(connections.type, 'block'),
+        or(
+          and(eq(connections.userId, profileId), eq(connections.targetId, otherId)),
+          and(eq(connections.userId, otherId), eq(connections.targetId, profileId))
+        )
+      ))
+      .limit(1);
+
+    return !!row;
+  }
+
+  /**
+   * Mentorships with both members, in the order of the IDs
+   */
+  private async withMembers(ids: string[]) {
+    if (ids.length === 0) return [];
+
+    const mentor = alias(user, 'mentor');
+    const mentee = alias(user, 'mentee');
+
+    const rows = await this.db
+      .select({
+        mentorship: mentorships,
+        mentor: {
+          id: mentor.id,
+          firstName: mentor.firstName,
+          lastName: mentor.lastName,
+          graduationYear: mentor.graduationYear,
+          currentCity: mentor.currentCity,
+          profilePic: mentor.profilePic,
+        },
+        mentee: {
+          id: mentee.id,
+          firstName: mentee.firstName,
+          lastName: mentee.lastName,
+          graduationYear: mentee.graduationYear,
+          currentCity: mentee.currentCity,
+          profilePic: mentee.profilePic,
+        },
+      })
+      .from(mentorships)
+      .innerJoin(mentor, eq(mentor.id, mentorships.mentorId))
+      .innerJoin(mentee, eq(mentee.id, mentorships.menteeId))
+      .where(inArray(mentorships.id, ids));
+
+    const byId = new Map(rows.map(r => [r.mentorship.id, { ...r.mentorship, mentor: r.mentor, mentee: r.mentee }]));
+    return ids.map(id => byId.get(id)!).filter(Boolean);
+  }
+
+  private async setStatus(
+    executor: Transaction | NodePgDatabase<any>,
+    mentorshipId: string,
+    changes: Partial<Pick<Mentorship, 'status' | 'respondedAt' | 'endedAt' | 'endedBy' | 'endReason'>>
+  ): Promise<Mentorship> {
+    const [updated] = await executor
+      .update(mentorships)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(mentorships.id, mentorshipId))
+      .returning();
+
+    return updated!;
+  }
+
+  private async findForParticipant(profileId: string, mentorshipId: string): Promise<Mentorship> {
+    const [mentorship] = await this.db
+      .select()
+      .from(mentorships)
+      .where(and(
+        eq(mentorships.id, mentorshipId),
+        or(eq(mentorships.mentorId, profileId), eq(mentorships.menteeId, profileId))
+      ))
+      .limit(1);
+
+    if (!mentorship) {
+      throw new MentorshipError('Mentorship not found', 404);
+    }
+
+    return mentorship;
+  }
+
+  private async findForMentor(
+    executor: Transaction | NodePgDatabase<any>,
+    profileId: string,
+    mentorshipId: string
+  ): Promise<Mentorship> {
+    const [mentorship] = await executor
+      .select()
+      .from(mentorships)
+      .where(and(eq(mentorships.id, mentorshipId), eq(mentorships.mentorId, profileId)))
+      .limit(1);
+
+    if (!mentorship) {
+      throw new MentorshipError('Mentorship request not found', 404);
+    }
+
+    return mentorship;
+  }
+
+  private async findOwnSession(profileId: string, mentorshipId: string, sessionId: string): Promise<MentorshipSession> {
+    await this.findForParticipant(profileId, mentorshipId);
+
+    const [session] = await this.db
+      .select()
+      .from(mentorshipSessions)
+      .where(and(eq(mentorshipSessions.id, sessionId), eq(mentorshipSessions.mentorshipId, mentorshipId)))
+      .limit(1);
+
+    if (!session) {
+      throw new MentorshipError('Session not found', 404);
+    }
+    if (session.authorId !== profileId) {
+      throw new MentorshipError('Only the author can change these notes', 403);
+    }
+
+    return session;
+  }
+}
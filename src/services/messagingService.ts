@@ -0,0 +1,654 @@
+import { eq, and, or, desc, asc, sql, inArray, notInArray, ne, gt, isNull } from 'drizzle-orm';
+import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { user } from '../models/user';
+import { media } from '../models/media';
+import { conversations, type Conversation } from '../models/conversations';
+import { conversationParticipants, type ConversationParticipant } from '../models/conversation_participants';
+import { messages, type Message } from '../models/messages';
+import type { NotificationHub } from './notificationHub';
+import type { PushService } from './pushService';
+import { ConnectionService } from './connectionService';
+import type { MediaAccessService } from './mediaAccess';
+
+export const MAX_GROUP_SIZE = 20;
+const PUSH_EXCERPT_LENGTH = 120;
+
+export class MessagingError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message);
+    this.name = 'MessagingError';
+  }
+}
+
+interface Paging {
+  limit?: number | undefined;
+  offset?: number | undefined;
+}
+
+const senderColumns = {
+  id: user.id,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  profilePic: user.profilePic,
+};
+
+/**
+ * One-to-one and small group conversations between member profiles.
+ * All user IDs are profile (`user` table) IDs. Live events are published to
+ * participants' auth user IDs on the messaging hub:
+ * conversation, message, message_attachments, read, typing.
+ */
+export class MessagingService {
+  private connectionService: ConnectionService;
+
+  constructor(
+    private db: NodePgDatabase<any>,
+    private hub?: NotificationHub,
+    private push?: PushService,
+    // Signs attachment URLs; without it only public attachments are listed
+    private mediaAccess?: MediaAccessService
+  ) {
+    this.connectionService = new ConnectionService(db);
+  }
+
+  // Conversations
+
+  /**
+   * Start a conversation. With one other member this is their direct
+   * conversation, created on first use; with more it is a new group.
+   */
+  async startConversation(profileId: string, participantIds: string[], title?: string) {
+    const others = [...new Set(participantIds)].filter(id => id !== profileId);
+
+    if (others.length === 0) {
+      throw new MessagingError('Add at least one other member', 400);
+    }
+    if (others.length + 1 > MAX_GROUP_SIZE) {
+      throw new MessagingError(`Groups are limited to ${MAX_GROUP_SIZE} members`, 400);
+    }
+
+    await this.assertCanAdd(profileId, others);
+
+    if (others.length === 1) {
+      const directKey = [profileId, others[0]!].sort().join(':');
+
+      const conversationId = await this.db.transaction(async (tx) => {
+        const [created] = await tx
+          .insert(conversations)
+          .values({ type: 'direct', directKey, createdBy: profileId })
+          .onConflictDoNothing()
+          .returning({ id: conversations.id });
+
+        if (!created) {
+          const [existing] = await tx
+            .select({ id: conversations.id })
+            .from(conversations)
+            .where(eq(conversations.directKey, directKey))
+            .limit(1);
+          return { id: existing!.id, created: false };
+        }
+
+        await tx.insert(conversationParticipants).values([
+          { conversationId: created.id, userId: profileId, role: 'member' },
+          { conversationId: created.id, userId: others[0]!, role: 'member' },
+        ]);
+        return { id: created.id, created: true };
+      });
+
+      const conversation = await this.getConversation(profileId, conversationId.id);
+      if (conversationId.created) {
+        await this.publish(others, 'conversation', conversation);
+      }
+      return { conversation, created: conversationId.created };
+    }
+
+    const conversationId = await this.db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(conversations)
+        .values({ type: 'group', title: title || null, createdBy: profileId })
+        .returning({ id: conversations.id });
+
+      await tx.insert(conversationParticipants).values([
+        { conversationId: created!.id, userId: profileId, role: 'owner' as const },
+        ...others.map(userId => ({ conversationId: created!.id, userId, role: 'member' as const })),
+      ]);
+      return created!.id;
+    });
+
+    const conversation = await this.getConversation(profileId, conversationId);
+    await this.publish(others, 'conversation', conversation);
+    return { conversation, created: true };
+  }
+
+  async getConversation(profileId: string, conversationId: string) {
+    await this.getParticipant(conversationId, profileId);
+
+    const [conversation] = await this.db
+      .select()
+      .from(conversations)
+      .where(eq(conversations.id, conversationId))
+      .limit(1);
+
+    const [withParticipants] = await this.withParticipants([conversation!]);
+    return withParticipants!;
+  }
+
+  /**
+   * The member's conversations, most recently active first, with the last
+   * message and unread count for each
+   */
+  async listConversations(profileId: string, paging: Paging = {}) {
+    const limit = paging.limit || 20;
+    const offset = paging.offset || 0;
+
+    const membership = eq(conversationParticipants.userId, profileId);
+
+    const [countResult] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(conversationParticipants)
+      .where(membership);
+
+    const rows = await this.db
+      .select({ conversation: conversations })
+      .from(conversationParticipants)
+      .innerJoin(conversations, eq(conversations.id, conversationParticipants.conversationId))
+      .where(membership)
+      .orderBy(desc(sql`coalesce(${conversations.lastMessageAt}, ${conversations.createdAt})`))
+      .limit(limit)
+      .offset(offset);
+
+    const list = await this.withParticipants(rows.map(r => r.conversation));
+    const conversationIds = list.map(c => c.id);
+    const blockedIds = await this.connectionService.getBlockedIds(profileId);
+
+    const lastMessages = conversationIds.length > 0
+      ? await this.db
+        .selectDistinctOn([messages.conversationId])
+        .from(messages)
+        .where(and(
+          inArray(messages.conversationId, conversationIds),
+          blockedIds.length > 0 ? notInArray(messages.senderId, blockedIds) : undefined
+        ))
+        .orderBy(messages.conversationId, desc(messages.createdAt))
+      : [];
+    const lastMessageMap = new Map(lastMessages.map(m => [m.conversationId, m]));
+
+    const unreadCounts = conversationIds.length > 0
+      ? await this.db
+        .select({ conversationId: messages.conversationId, count: sql<number>`count(*)::int` })
+        .from(messages)
+        .innerJoin(conversationParticipants, and(
+          eq(conversationParticipants.conversationId, messages.conversationId),
+          eq(conversationParticipants.userId, profileId)
+        ))
+        .where(and(
+          inArray(messages.conversationId, conversationIds),
+          ne(messages.senderId, profileId),
+          or(isNull(conversationParticipants.lastReadAt), gt(messages.createdAt, conversationParticipants.lastReadAt)),
+          blockedIds.length > 0 ? notInArray(messages.senderId, blockedIds) : undefined
+        ))
+        .groupBy(messages.conversationId)
+      : [];
+    const unreadMap = new Map(unreadCounts.map(u => [u.conversationId, u.count]));
+
+    return {
+      data: list.map(conversation => ({
+        ...conversation,
+        lastMessage: lastMessageMap.get(conversation.id) || null,
+        unreadCount: unreadMap.get(conversation.id) || 0,
+      })),
+      total: countResult?.count || 0,
+      limit,
+      offset,
+    };
+  }
+
+  async renameGroup(profileId: string, conversationId: string, title: string | null) {
+    await this.assertGroupOwner(conversationId, profileId);
+
+    await this.db
+      .update(conversations)
+      .set({ title, updatedAt: new Date() })
+      .where(eq(conversations.id, conversationId));
+
+    const conversation = await this.getConversation(profileId, conversationId);
+    await this.publish(conversation.participants.map(p => p.id), 'conversation', conversation);
+    return conversation;
+  }
+
+  async addParticipants(profileId: string, conversationId: string, userIds: string[]) {
+    await this.assertGroupOwner(conversationId, profileId);
+
+    const current = await this.getParticipantIds(conversationId);
+    const added = [...new Set(userIds)].filter(id => !current.includes(id));
+
+    if (current.length + added.length > MAX_GROUP_SIZE) {
+      throw new MessagingError(`Groups are limited to ${MAX_GROUP_SIZE} members`, 400);
+    }
+
+    if (added.length > 0) {
+      await this.assertCanAdd(profileId, added);
+      await this.db
+        .insert(conversationParticipants)
+        .values(added.map(userId => ({ conversationId, userId, role: 'member' as const })))
+        .onConflictDoNothing();
+    }
+
+    const conversation = await this.getConversation(profileId, conversationId);
+    await this.publish(conversation.participants.map(p => p.id), 'conversation', conversation);
+    return conversation;
+  }
+
+  /**
+   * Remove a member from a group (owner only), or leave it. When the owner
+   * leaves, the longest-standing member becomes owner; an empty group is deleted.
+   */
+  async removeParticipant(profileId: string, conversationId: string, targetId: string): Promise<void> {
+    const participant = await this.getParticipant(conversationId, profileId);
+    const conversation = await this.findConversation(conversationId);
+
+    if (conversation.type !== 'group') {
+      throw new MessagingError('Members cannot be removed from a direct conversation', 400);
+    }
+    if (targetId !== profileId && participant.role !== 'owner') {
+      throw new MessagingError('Only the group owner can remove members', 403);
+    }
+
+    const [removed] = await this.db
+      .delete(conversationParticipants)
+      .where(and(
+        eq(conversationParticipants.conversationId, conversationId),
+        eq(conversationParticipants.userId, targetId)
+      ))
+      .returning();
+
+    if (!removed) {
+      throw new MessagingError('Member not found in this conversation', 404);
+    }
+
+    const [nextOwner] = await this.db
+      .select()
+      .from(conversationParticipants)
+      .where(eq(conversationParticipants.conversationId, conversationId))
+      .orderBy(asc(conversationParticipants.joinedAt))
+      .limit(1);
+
+    if (!nextOwner) {
+      await this.db.delete(conversations).where(eq(conversations.id, conversationId));
+      return;
+    }
+
+    if (removed.role === 'owner') {
+      await this.db
+        .update(conversationParticipants)
+        .set({ role: 'owner' })
+        .where(eq(conversationParticipants.id, nextOwner.id));
+    }
+
+    const updated = await this.getConversation(nextOwner.userId, conversationId);
+    await this.publish([...updated.participants.map(p => p.id), targetId], 'conversation', updated);
+  }
+
+  // Messages
+
+  /**
+   * Message history, newest first. Pass the oldest message ID already loaded
+   * as `before` to fetch the next page. Messages from members the reader has
+   * blocked are left out.
+   */
+  async listMessages(profileId: string, conversationId: string, options: { before?: string | undefined; limit?: number | undefined } = {}) {
+    await this.getParticipant(conversationId, profileId);
+    const limit = options.limit || 30;
+
+    let cursor: Message | null = null;
+    if (options.before) {
+      cursor = await this.findMessage(conversationId, options.before);
+    }
+
+    const blockedIds = await this.connectionService.getBlockedIds(profileId);
+
+    const rows = await this.db
+      .select({ message: messages, sender: senderColumns })
+      .from(messages)
+      .leftJoin(user, eq(user.id, messages.senderId))
+      .where(and(
+        eq(messages.conversationId, conversationId),
+        cursor ? sql`(${messages.createdAt}, ${messages.id}) < (${cursor.createdAt}, ${cursor.id})` : undefined,
+        blockedIds.length > 0 ? notInArray(messages.senderId, blockedIds) : undefined
+      ))
+      .orderBy(desc(messages.createdAt), desc(messages.id))
+      .limit(limit + 1);
+
+    const page = rows.slice(0, limit);
+    const attachments = await this.getAttachments(page.map(r => r.message.id));
+
+    return {
+      data: page.map(({ message, sender }) => ({
+        ...message,
+        sender,
+        attachments: attachments.get(message.id) || [],
+      })),
+      hasMore: rows.length > limit,
+    };
+  }
+
+  async sendMessage(profileId: string, conversationId: string, content: string | null) {
+    await this.getParticipant(conversationId, profileId);
+    const conversation = await this.findConversation(conversationId);
+    const participantIds = await this.getParticipantIds(conversationId);
+    const recipientIds = participantIds.filter(id => id !== profileId);
+
+    if (conversation.type === 'direct' && recipientIds[0] && await this.connectionService.isBlocked(profileId, recipientIds[0])) {
+      throw new MessagingError('You cannot message this member', 403);
+    }
+
+    const created = await this.db.transaction(async (tx) => {
+      const [message] = await tx
+        .insert(messages)
+        .values({ conversationId, senderId: profileId, content })
+        .returning();
+
+      await tx
+        .update(conversations)
+        .set({ lastMessageAt: message!.createdAt, updatedAt: new Date() })
+        .where(eq(conversations.id, conversationId));
+
+      // The sender has read everything up to their own message
+      await tx
+        .update(conversationParticipants)
+        .set({ lastReadMessageId: message!.id, lastReadAt: message!.createdAt })
+        .where(and(
+          eq(conversationParticipants.conversationId, conversationId),
+          eq(conversationParticipants.userId, profileId)
+        ));
+
+      return message!;
+    });
+
+    const [sender] = await this.db.select(senderColumns).from(user).where(eq(user.id, profileId)).limit(1);
+    const message = { ...created, sender: sender || null, attachments: [] };
+
+    // Members who blocked the sender don't receive the message live
+    const blockedBy = await this.connectionService.getBlockedByIds(profileId, recipientIds);
+    const deliverTo = recipientIds.filter(id => !blockedBy.includes(id));
+
+    await this.publish([profileId, ...deliverTo], 'message', message);
+    await this.pushToOffline(deliverTo, {
+      title: conversation.type === 'group' && conversation.title
+        ? conversation.title
+        : `${sender?.firstName || ''} ${sender?.lastName || ''}`.trim() || 'New message',
+      body: content ? this.excerpt(content) : 'Sent an attachment',
+      data: { type: 'message', conversationId, messageId: created.id },
+    });
+
+    return message;
+  }
+
+  /**
+   * Check that a message can take attachments: it must be the member's own
+   */
+  async assertOwnMessage(profileId: string, conversationId: string, messageId: string): Promise<void> {
+    await this.getParticipant(conversationId, profileId);
+    const message = await this.findMessage(conversationId, messageId);
+
+    if (message.senderId !== profileId) {
+      throw new MessagingError('You can only attach files to your own messages', 403);
+    }
+  }
+
+  /**
+   * Tell participants that attachments were uploaded for a message
+   */
+  async announceAttachments(conversationId: string, messageId: string) {
+    const attachments = (await this.getAttachments([messageId])).get(messageId) || [];
+    await this.publish(await this.getParticipantIds(conversationId), 'message_attachments', {
+      conversationId,
+      messageId,
+      attachments,
+    });
+    return attachments;
+  }
+
+  // Receipts and typing
+
+  /**
+   * Move the member's read receipt forward to a message (the latest if omitted)
+   */
+  async markRead(profileId: string, conversationId: string, messageId?: string) {
+    const participant = await this.getParticipant(conversationId, profileId);
+
+    let target: Message | null = null;
+    if (messageId) {
+      target = await this.findMessage(conversationId, messageId);
+    } else {
+      const [latest] = await this.db
+        .select()
+        .from(messages)
+        .where(eq(messages.conversationId, conversationId))
+        .orderBy(desc(messages.createdAt), desc(messages.id))
+        .limit(1);
+      target = latest || null;
+    }
+
+    if (!target || (participant.lastReadAt && participant.lastReadAt >= target.createdAt)) {
+      return { lastReadMessageId: participant.lastReadMessageId, lastReadAt: participant.lastReadAt };
+    }
+
+    await this.db
+      .update(conversationParticipants)
+      .set({ lastReadMessageId: target.id, lastReadAt: target.createdAt })
+      .where(eq(conversationParticipants.id, participant.id));
+
+    const receipt = { lastReadMessageId: target.id, lastReadAt: target.createdAt };
+    await this.publish(await this.getParticipantIds(conversationId), 'read', {
+      conversationId,
+      userId: profileId,
+      ...receipt,
+    });
+
+    return receipt;
+  }
+
+  async setTyping(profileId: string, conversationId: string, isTyping: boolean): Promise<void> {
+    await this.getParticipant(conversationId, profileId);
+    const others = (await this.getParticipantIds(conversationId)).filter(id => id !== profileId);
+
+    await this.publish(others, 'typing', { conversationId, userId: profileId, isTyping });
+  }
+
+  // Helpers
+
+  private async getParticipant(conversationId: string, profileId: string): Promise<ConversationParticipant> {
+    const [participant] = await this.db
+      .select()
+      .from(conversationParticipants)
+      .where(and(
+        eq(conversationParticipants.conversationId, conversationId),
+        eq(conversationParticipants.userId, profileId)
+      ))
+      .limit(1);
+
+    if (!participant) {
+      throw new MessagingError('Conversation not found', 404);
+    }
+    return participant;
+  }
+
+  private async getParticipantIds(conversationId: string): Promise<string[]> {
+    const rows = await this.db
+      .select({ userId: conversationParticipants.userId })
+      .from(conversationParticipants)
+      .where(eq(conversationParticipants.conversationId, conversationId));
+
+    return rows.map(r => r.userId);
+  }
+
+  private async findConversation(conversationId: string): Promise<Conversation> {
+    const [conversation] = await this.db
+      .select()
+      .from(conversations)
+      .where(eq(conversations.id, conversationId))
+      .limit(1);
+
+    if (!conversation) {
+      throw new MessagingError('Conversation not found', 404);
+    }
+    return conversation;
+  }
+
+  private async findMessage(conversationId: string, messageId: string): Promise<Message> {
+    const [message] = await this.db
+      .select()
+      .from(messages)
+      .where(and(eq(messages.id, messageId), eq(messages.conversationId, conversationId)))
+      .limit(1);
+
+    if (!message) {
+      throw new MessagingError('Message not found', 404);
+    }
+    return message;
+  }
+
+  private async assertGroupOwner(conversationId: string, profileId: string): Promise<void> {
+    const participant = await this.getParticipant(conversationId, profileId);
+    const conversation = await this.findConversation(conversationId);
+
+    if (conversation.type !== 'group') {
+      throw new MessagingError('Only group conversations can be changed', 400);
+    }
+    if (participant.role !== 'owner') {
+      throw new MessagingError('Only the group owner can change the group', 403);
+    }
+  }
+
+  /**
+   * Every member must exist, and nobody can be added by a member they have
+   * blocked or been blocked by
+   */
+  private async assertCanAdd(profileId: string, userIds: string[]): Promise<void> {
+    const found = await this.db.select({ id: user.id }).from(user).where(inArray(user.id, userIds));
+    if (found.length !== userIds.length) {
+      throw new MessagingError('User not found', 404);
+    }
+
+    for (const userId of userIds) {
+      if (await this.connectionService.isBlocked(profileId, userId)) {
+        throw new MessagingError('You cannot message this member', 403);
+      }
+    }
+  }
+
+  private async withParticipants(list: Conversation[]) {
+    const conversationIds = list.map(c => c.id);
+
+    const participants = conversationIds.length > 0
+      ? await this.db
+        .select({
+          conversationId: conversationParticipants.conversationId,
+          ...senderColumns,
+          role: conversationParticipants.role,
+          lastReadMessageId: conversationParticipants.lastReadMessageId,
+          lastReadAt: conversationParticipants.lastReadAt,
+          joinedAt: conversationParticipants.joinedAt,
+        })
+        .from(conversationParticipants)
+        .innerJoin(user, eq(user.id, conversationParticipants.userId))
+        .where(inArray(conversationParticipants.conversationId, conversationIds))
+        .orderBy(asc(conversationParticipants.joinedAt))
+      : [];
+
+    return list.map(conversation => ({
+      id: conversation.id,
+      type: conversation.type,
+      title: conversation.title,
+      createdBy: conversation.createdBy,
+      lastMessageAt: conversation.lastMessageAt,
+      createdAt: conversation.createdAt,
+      participants: participants
+        .filter(p => p.conversationId === conversation.id)
+        .map(({ conversationId, ...participant }) => participant),
+    }));
+  }
+
+  private async getAttachments(messageIds: string[]) {
+    const attachments = new Map<string, Array<{
+      id: string;
+      url: string;
+      thumbnailUrl: string | null;
+      expiresAt: Date | null;
+      position: number;
+    }>>();
+    if (messageIds.length === 0) return attachments;
+
+    const rows = await this.db
+      .select({
+        id: media.id,
+        resourceId: media.resourceId,
+        cloudflareId: media.cloudflareId,
+        privacy: media.privacy,
+        url: media.url,
+        variants: media.variants,
+        thumbnailUrl: media.thumbnailUrl,
+        position: media.position,
+      })
+      .from(media)
+      .where(and(
+        eq(media.resourceType, 'message'),
+        inArray(media.resourceId, messageIds),
+        this.mediaAccess ? undefined : eq(media.privacy, 'public')
+      ))
+      .orderBy(asc(media.position));
+
+    // Callers have checked that the reader is in the conversation
+    rows.forEach(row => {
+      const urls = this.mediaAccess
+        ? this.mediaAccess.urls(row)
+        : { url: row.variants?.['public'] || row.url, thumbnailUrl: row.thumbnailUrl, expiresAt: null };
+      const list = attachments.get(row.resourceId) || [];
+      list.push({
+        id: row.id,
+        url: urls.url,
+        thumbnailUrl: urls.thumbnailUrl,
+        expiresAt: urls.expiresAt,
+        position: row.position,
+      });
+      attachments.set(row.resourceId, list);
+    });
+
+    return attachments;
+  }
+
+  private async getAuthUserIds(profileIds: string[]): Promise<string[]> {
+    if (profileIds.length === 0) return [];
+
+    const rows = await this.db
+      .select({ userAuthId: user.userAuthId })
+      .from(user)
+      .where(inArray(user.id, profileIds));
+
+    return rows.map(r => r.userAuthId).filter((id): id is string => !!id);
+  }
+
+  private async publish(profileIds: string[], event: string, payload: unknown): Promise<void> {
+    if (!this.hub) return;
+
+    const authUserIds = await this.getAuthUserIds([...new Set(profileIds)]);
+    authUserIds.forEach(authUserId => this.hub!.publish(authUserId, event, payload));
+  }
+
+  // Members without an open socket get a push notification instead
+  private async pushToOffline(profileIds: string[], content: { title: string; body: string; data: Record<string, any> }) {
+    if (!this.push) return;
+
+    const authUserIds = await this.getAuthUserIds(profileIds);
+    for (const authUserId of authUserIds) {
+      if (!this.hub?.isConnected(authUserId)) {
+        await this.push.enqueue(authUserId, content);
+      }
+    }
+  }
+
+  private excerpt(content: string): string {
+    return content.length > PUSH_EXCERPT_LENGTH ? `${content.slice(0, PUSH_EXCERPT_LENGTH - 1)}…` : content;
+  }
+}
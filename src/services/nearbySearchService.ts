@@ -0,0 +1,232 @@
+import { sql, and, eq, like, type SQL, type AnyColumn } from 'drizzle-orm';
+import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { user } from '../models/user';
+import { businessDetails } from '../models/business_details';
+import { media } from '../models/media';
+import { professions } from '../models/professions';
+import { specialization } from '../models/specialization';
+import { COORDINATE_DECIMALS, type Coordinates } from '../utils/geo';
+
+export class NearbySearchError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message);
+    this.name = 'NearbySearchError';
+  }
+}
+
+export type NearbyType = 'users' | 'businesses' | 'doctors';
+
+// Distance support, checked once per service: PostGIS when installed, otherwise earthdistance (cube)
+type GeoBackend = 'postgis' | 'earthdistance';
+
+interface NearbyOptions extends Coordinates {
+  radiusKm: number;
+  limit?: number | undefined;
+  offset?: number | undefined;
+}
+
+export interface NearbyUser {
+  id: string;
+  firstName: string;
+  lastName: string;
+  profilePic: string | null;
+  currentCity: string;
+  organization: string | null;
+  profession: string | null;
+  specialization: string | null;
+  latitude: number;
+  longitude: number;
+  distanceKm: number;
+}
+
+export interface NearbyBusiness {
+  id: string;
+  companyName: string;
+  category: string | null;
+  location: string | null;
+  logo: string | null;
+  latitude: number;
+  longitude: number;
+  distanceKm: number;
+}
+
+/**
+ * A row's coordinate, rounded. Filtering, ordering and distances all use rounded
+ * coordinates, so neither the results nor a series of radius probes reveal exact positions.
+ * The expressions must match the indexes in src/db/geo_indexes.sql.
+ */
+function rounded(column: AnyColumn): SQL<number> {
+  return sql<number>`round(${column}, ${sql.raw(String(COORDINATE_DECIMALS))})::float8`;
+}
+
+/**
+ * "Near me" search over members, doctors and businesses within a radius, nearest first
+ */
+export class NearbySearchService {
+  private backend: Promise<GeoBackend | null> | null = null;
+
+  constructor(private db: NodePgDatabase<any>) {}
+
+  async search(type: NearbyType, options: NearbyOptions): Promise<{ data: NearbyUser[] | NearbyBusiness[]; total: number }> {
+    return type === 'businesses'
+      ? this.nearbyBusinesses(options)
+      : this.nearbyUsers(options, type === 'doctors');
+  }
+
+  private async nearbyUsers(options: NearbyOptions, doctorsOnly: boolean) {
+    const lat = rounded(user.latitude);
+    const lng = rounded(user.longitude);
+    const { within, distance } = await this.requireRadius(user.latitude, user.longitude, options);
+
+    const conditions = [
+      eq(user.visibilityPreference, true),
+      sql`${user.latitude} IS NOT NULL AND ${user.longitude} IS NOT NULL`,
+      within,
+    ];
+
+    if (doctorsOnly) {
+      // Same definition of "doctor" as the doctor directory
+      conditions.push(sql`${user.professionId} IN (SELECT ${professions.id} FROM ${professions} WHERE ${like(professions.name, '%Doctor%')})`);
+    }
+
+    const whereClause = and(...conditions);
+
+    const [countResult] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(user)
+      .where(whereClause);
+
+    const results = await this.db
+      .select({
+        id: user.id,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        profilePic: media.url,
+        currentCity: user.currentCity,
+        organization: user.organization,
+        profession: professions.name,
+        specialization: specialization.name,
+        latitude: lat,
+        longitude: lng,
+        distanceKm: sql<number>`round((${distance} / 1000)::numeric, 1)::float8`,
+      })
+      .from(user)
+      .leftJoin(professions, eq(user.professionId, professions.id))
+      .leftJoin(specialization, eq(user.specializationId, specialization.id))
+      .leftJoin(media, sql`${user.profilePic}::text = ${media.id}::text`)
+      .where(whereClause)
+      .orderBy(sql`${distance}`, user.id)
+      .limit(options.limit || 20)
+      .offset(options.offset || 0);
+
+    return {
+      data: results as NearbyUser[],
+      total: countResult?.count || 0,
+    };
+  }
+
+  private async nearbyBusinesses(options: NearbyOptions) {
+    const lat = rounded(businessDetails.latitude);
+    const lng = rounded(businessDetails.longitude);
+    const { within, distance } = await this.requireRadius(businessDetails.latitude, businessDetails.longitude, options);
+
+    const whereClause = and(
+      sql`${businessDetails.latitude} IS NOT NULL AND ${businessDetails.longitude} IS NOT NULL`,
+      within
+    );
+
+    const [countResult] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(businessDetails)
+      .where(whereClause);
+
+    const results = await this.db
+      .select({
+        id: businessDetails.id,
+        companyName: businessDetails.companyName,
+        category: businessDetails.category,
+        location: businessDetails.location,
+        logo: media.url,
+        latitude: lat,
+        longitude: lng,
+        distanceKm: sql<number>`round((${distance} / 1000)::numeric, 1)::float8`,
+      })
+      .from(businessDetails)
+      .leftJoin(media, sql`${businessDetails.logo}::text = ${media.id}::text`)
+      .where(whereClause)
+      .orderBy(sql`${distance}`, businessDetails.id)
+      .limit(options.limit || 20)
+      .offset(options.offset || 0);
+
+    return {
+      data: results as NearbyBusiness[],
+      total: countResult?.count || 0,
+    };
+  }
+
+  /**
+   * Radius filter and distance in metres between the (rounded) position in the given
+   * columns and a centre. Null when the database has neither PostGIS nor earthdistance.
+   */
+  async radiusCondition(
+    latitude: AnyColumn,
+    longitude: AnyColumn,
+    options: Coordinates & { radiusKm: number }
+  ): Promise<{ within: SQL; distance: SQL<number> } | null> {
+    const lat = rounded(latitude);
+    const lng = rounded(longitude);
+    const radius = options.radiusKm * 1000;
+    const backend = await this.geoBackend();
+
+    if (backend === 'postgis') {
+      const point = sql`ST_SetSRID(ST_MakePoint(${lng}, ${lat}), 4326)::geography`;
+      const centre = sql`ST_SetSRID(ST_MakePoint(${options.longitude}::float8, ${options.latitude}::float8), 4326)::geography`;
+
+      return {
+        within: sql`ST_DWithin(${point}, ${centre}, ${radius})`,
+        distance: sql<number>`ST_Distance(${point}, ${centre})`,
+      };
+    }
+
+    if (backend === 'earthdistance') {
+      const point = sql`ll_to_earth(${lat}, ${lng})`;
+      const centre = sql`ll_to_earth(${options.latitude}::float8, ${options.longitude}::float8)`;
+
+      // earth_box is a cube that can use the GiST index but overshoots the circle, so check the distance too
+      return {
+        within: sql`earth_box(${centre}, ${radius}::float8) @> ${point} AND earth_distance(${point}, ${centre}) <= ${radius}::float8`,
+        distance: sql<number>`earth_distance(${point}, ${centre})`,
+      };
+    }
+
+    return null;
+  }
+
+  private async requireRadius(latitude: AnyColumn, longitude: AnyColumn, options: NearbyOptions) {
+    const condition = await this.radiusCondition(latitude, longitude, options);
+    if (!condition) {
+      throw new NearbySearchError('Nearby search is not available', 503);
+    }
+    return condition;
+  }
+
+  private geoBackend(): Promise<GeoBackend | null> {
+    if (!this.backend) {
+      this.backend = this.db
+        .execute(sql`SELECT extname FROM pg_extension WHERE extname IN ('postgis', 'earthdistance')`)
+        .then((result) => {
+          const installed = result.rows.map((row: any) => row.extname);
+          if (installed.includes('postgis')) return 'postgis';
+          if (installed.includes('earthdistance')) return 'earthdistance';
+          return null;
+        })
+        .catch((error) => {
+          // Check again next time rather than caching a failed lookup
+          this.backend = null;
+          throw error;
+        });
+    }
+
+    return this.backend;
+  }
+}
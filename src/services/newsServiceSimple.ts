@@ -4,6 +4,7 @@ import { authUsers } from '../models/authUser';
 import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
 import { user } from '../models/user';
 import { ResourceDescriptor, UniversalMediaHelper } from './UniversalMediaHelper';
+import { cursorKey, cursorOrderBy, cursorPage, cursorWhere, pageWindow, type Cursor } from '../utils/cursor';
 
 export class NewsServiceSimple {
   private mediaHelper: UniversalMediaHelper;
@@ -110,7 +111,9 @@ export class NewsServiceSimple {
     createdBy?: string;
     limit?: number;
     offset?: number;
+    cursor?: Cursor | undefined;
   }) {
+    const window = pageWindow(filters);
     const conditions = [];
 
     // Search query
@@ -150,19 +153,22 @@ export class NewsServiceSimple {
     const count = countResult[0]?.count || 0;
 
     // Get paginated results with author info
-    const results = await this.db
+    const rows = await this.db
       .select({
         article: news,
         author: authUsers,
         userpic: user,
+        cursorKey: cursorKey(news),
       })
       .from(news)
       .leftJoin(authUsers, eq(news.createdBy, authUsers.id))
       .leftJoin(user, eq(authUsers.id, user.userAuthId))
-      .where(whereClause)
-      .limit(filters.limit || 10)
-      .offset(filters.offset || 0)
-      .orderBy(desc(news.publishedAt));
+      .where(and(whereClause, cursorWhere(news, window.cursor)))
+      .limit(window.fetch)
+      .offset(window.offset)
+      .orderBy(...cursorOrderBy(news, window.cursor));
+
+    const { rows: results, ...page } = cursorPage(rows, window, (r) => ({ createdAt: r.cursorKey, id: r.article.id }));
 
       
     const descriptors: ResourceDescriptor[] = [];
@@ -200,8 +206,7 @@ export class NewsServiceSimple {
         } : null,
       })),
       total: count,
-      limit: filters.limit || 10,
-      offset: filters.offset || 0,
+      ...page,
     };
   }
 
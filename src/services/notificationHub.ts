@@ -0,0 +1,42 @@
+export type HubListener = (event: string, payload: unknown) => void;
+
+/**
+ * Fan-out of live events to connected clients (SSE streams), keyed by auth user ID.
+ * Connections are held in memory, so a client only receives events raised on the
+ * instance it is connected to.
+ */
+export class NotificationHub {
+  private listeners: Map<string, Set<HubListener>> = new Map();
+
+  subscribe(authUserId: string, listener: HubListener): () => void {
+    if (!this.listeners.has(authUserId)) {
+      this.listeners.set(authUserId, new Set());
+    }
+    this.listeners.get(authUserId)!.add(listener);
+
+    return () => {
+      const userListeners = this.listeners.get(authUserId);
+      if (!userListeners) return;
+      userListeners.delete(listener);
+      if (userListeners.size === 0) {
+        this.listeners.delete(authUserId);
+      }
+    };
+  }
+
+  publish(authUserId: string, event: string, payload: unknown): void {
+    this.listeners.get(authUserId)?.forEach(listener => listener(event, payload));
+  }
+
+  isConnected(authUserId: string): boolean {
+    return this.listeners.has(authUserId);
+  }
+
+  get connectionCount(): number {
+    let count = 0;
+    this.listeners.forEach(userListeners => {
+      count += userListeners.size;
+    });
+    return count;
+  }
+}
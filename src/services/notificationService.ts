@@ -0,0 +1,610 @@
+import { eq, and, desc, isNull, sql, inArray } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { authUsers } from '../models/authUser';
+import { user } from '../models/user';
+import { postUpdates } from '../models/post_updates';
+import { businessDetails } from '../models/business_details';
+import { comments, type Comment } from '../models/comments';
+import { commentReplies, type CommentReply } from '../models/comment_replies';
+import { news } from '../models/news';
+import {
+  notifications,
+  notificationTypes,
+  type Notification,
+  type NotificationType,
+} from '../models/notifications';
+import { notificationPreferences } from '../models/notification_preferences';
+import type { NotificationHub } from './notificationHub';
+import type { PushService } from './pushService';
+import type { SavedSearch } from '../models/saved_searches';
+import type { BloodRequest } from '../models/blood_requests';
+import type { Event } from '../models/events';
+import type { Group } from '../models/groups';
+import type { JobPosting } from '../models/job_postings';
+import type { JobApplication } from '../models/job_applications';
+import type { Mentorship } from '../models/mentorships';
+
+const EXCERPT_LENGTH = 120;
+
+export class NotificationService {
+  constructor(
+    private db: NodePgDatabase<any>,
+    private hub?: NotificationHub,
+    private push?: PushService
+  ) {}
+
+  /**
+   * Store a notification, push it to the recipient's live streams and queue
+   * a push notification for their devices. Skipped when the recipient is the actor or has disabled the type.
+   */
+  async create(data: {
+    recipientId: string;
+    actorId: string | null;
+    type: NotificationType;
+    resourceType: string;
+    resourceId: string;
+    data?: Record<string, any>;
+  }): Promise<Notification | null> {
+    if (data.recipientId === data.actorId) return null;
+    if (!(await this.isEnabled(data.recipientId, data.type))) return null;
+
+    const [created] = await this.db
+      .insert(notifications)
+      .values({
+        recipientId: data.recipientId,
+        actorId: data.actorId,
+        type: data.type,
+        resourceType: data.resourceType,
+        resourceId: data.resourceId,
+        data: data.data || null,
+      })
+      .returning();
+
+    if (created && (this.hub || this.push)) {
+      const [withActor] = await this.withActors([created]);
+
+      if (this.hub) {
+        this.hub.publish(data.recipientId, 'notification', withActor);
+        this.hub.publish(data.recipientId, 'unread_count', { count: await this.getUnreadCount(data.recipientId) });
+      }
+
+      if (this.push && withActor) {
+        await this.push.enqueue(data.recipientId, {
+          body: this.pushText(created, withActor.actor?.name || null),
+          data: {
+            notificationId: created.id,
+            type: created.type,
+            resourceType: created.resourceType,
+            resourceId: created.resourceId,
+          },
+        });
+      }
+    }
+
+    return created || null;
+  }
+
+  // Event handlers
+
+  async notifyComment(comment: Comment): Promise<void> {
+    if (!comment.postUpdatesId) return;
+
+    const recipientId = await this.getPostOwnerAuthId(comment.postUpdatesId);
+    const actorId = await this.getProfileAuthId(comment.userProfileId);
+    if (!recipientId) return;
+
+    await this.create({
+      recipientId,
+      actorId,
+      type: 'comment',
+      resourceType: 'post',
+      resourceId: comment.postUpdatesId,
+      data: { commentId: comment.id, excerpt: this.excerpt(comment.content) },
+    });
+  }
+
+  async notifyReply(reply: CommentReply, comment: Comment): Promise<void> {
+    const recipientId = await this.getProfileAuthId(comment.userProfileId);
+    const actorId = await this.getProfileAuthId(reply.userProfileId);
+    if (!recipientId) return;
+
+    await this.create({
+      recipientId,
+      actorId,
+      type: 'reply',
+      resourceType: 'comment',
+      resourceId: comment.id,
+      data: { replyId: reply.id, postId: comment.postUpdatesId, excerpt: this.excerpt(reply.content) },
+    });
+  }
+
+  async notifyFavourite(actorProfileId: string, likedType: string, likedTypeId: string): Promise<void> {
+    const recipientId = await this.getContentOwnerAuthId(likedType, likedTypeId);
+    const actorId = await this.getProfileAuthId(actorProfileId);
+    if (!recipientId) return;
+
+    await this.create({
+      recipientId,
+      actorId,
+      type: 'like',
+      resourceType: likedType,
+      resourceId: likedTypeId,
+    });
+  }
+
+  async notifyBloodRequest(request: BloodRequest, donorIds: string[]): Promise<void> {
+    const actorId = await this.getProfileAuthId(request.requesterId);
+
+    for (const donorId of donorIds) {
+      const recipientId = await this.getProfileAuthId(donorId);
+      if (!recipientId) continue;
+
+      await this.create({
+        recipientId,
+        actorId,
+        type: 'blood_request',
+        resourceType: 'blood_request',
+        resourceId: request.id,
+        data: {
+          bloodGroup: request.bloodGroup,
+          hospital: request.hospital,
+          city: request.city,
+          urgency: request.urgency,
+        },
+      });
+    }
+  }
+
+  async notifyBloodAccepted(request: BloodRequest, donorId: string): Promise<void> {
+    const recipientId = await this.getProfileAuthId(request.requesterId);
+    const actorId = await this.getProfileAuthId(donorId);
+    if (!recipientId) return;
+
+    await this.create({
+      recipientId,
+      actorId,
+      type: 'blood_response',
+      resourceType: 'blood_request',
+      resourceId: request.id,
+      data: { bloodGroup: request.bloodGroup, donorId },
+    });
+  }
+
+  async notifyEventReminder(event: Event, attendeeIds: string[]): Promise<void> {
+    await this.notifyAttendees(event, attendeeIds, null, 'event_reminder');
+  }
+
+  async notifyEventPromoted(event: Event, userIds: string[]): Promise<void> {
+    await this.notifyAttendees(event, userIds, null, 'event_waitlist');
+  }
+
+  async notifyEventCancelled(event: Event, cancelledBy: string, attendeeIds: string[]): Promise<void> {
+    const actorId = await this.getProfileAuthId(cancelledBy);
+    await this.notifyAttendees(event, attendeeIds, actorId, 'event_cancelled');
+  }
+
+  async notifyGroupInvite(group: Group, userId: string, invitedBy: string): Promise<void> {
+    const actorId = await this.getProfileAuthId(invitedBy);
+    await this.notifyGroupMembers(group, [userId], actorId, 'group_invite');
+  }
+
+  async notifyGroupRequest(group: Group, userId: string, moderatorIds: string[]): Promise<void> {
+    const actorId = await this.getProfileAuthId(userId);
+    await this.notifyGroupMembers(group, moderatorIds, actorId, 'group_request');
+  }
+
+  async notifyGroupApproved(group: Group, userId: string, approvedBy: string): Promise<void> {
+    const actorId = await this.getProfileAuthId(approvedBy);
+    await this.notifyGroupMembers(group, [userId], actorId, 'group_approved');
+  }
+
+  async notifyJobApplication(job: JobPosting, application: JobApplication): Promise<void> {
+    const recipientId = await this.getBusinessOwnerAuthId(job.businessId);
+    const actorId = await this.getProfileAuthId(application.applicantId);
+    if (!recipientId) return;
+
+    await this.create({
+      recipientId,
+      actorId,
+      type: 'job_application',
+      resourceType: 'job_application',
+      resourceId: application.id,
+      data: { jobId: job.id, title: job.title },
+    });
+  }
+
+  async notifyJobApplicationStatus(job: JobPosting, application: JobApplication): Promise<void> {
+    const recipientId = await this.getProfileAuthId(application.applicantId);
+    if (!recipientId) return;
+
+    await this.create({
+      recipientId,
+      actorId: null,
+      type: 'job_application_status',
+      resourceType: 'job_application',
+      resourceId: application.id,
+      data: { jobId: job.id, title: job.title, status: application.status },
+    });
+  }
+
+  async notifyMentorshipRequest(mentorship: Mentorship): Promise<void> {
+    const recipientId = await this.getProfileAuthId(mentorship.mentorId);
+    const actorId = await this.getProfileAuthId(mentorship.menteeId);
+    if (!recipientId) return;
+
+    await this.create({
+      recipientId,
+      actorId,
+      type: 'mentorship_request',
+      resourceType: 'mentorship',
+      resourceId: mentorship.id,
+      data: { topics: mentorship.topics },
+    });
+  }
+
+  async notifyMentorshipResponse(mentorship: Mentorship): Promise<void> {
+    const recipientId = await this.getProfileAuthId(mentorship.menteeId);
+    const actorId = await this.getProfileAuthId(mentorship.mentorId);
+    if (!recipientId) return;
+
+    await this.create({
+      recipientId,
+      actorId,
+      type: 'mentorship_response',
+      resourceType: 'mentorship',
+      resourceId: mentorship.id,
+      data: { status: mentorship.status },
+    });
+  }
+
+  async notifyMentorshipEnded(mentorship: Mentorship, endedBy: string): Promise<void> {
+    const otherId = endedBy === mentorship.mentorId ? mentorship.menteeId : mentorship.mentorId;
+    const recipientId = await this.getProfileAuthId(otherId);
+    const actorId = await this.getProfileAuthId(endedBy);
+    if (!recipientId) return;
+
+    await this.create({
+      recipientId,
+      actorId,
+      type: 'mentorship_ended',
+      resourceType: 'mentorship',
+      resourceId: mentorship.id,
+    });
+  }
+
+  /**
+   * Alert for a saved search with new matches; `matches` lists the newest few
+   */
+  async notifySavedSearch(search: SavedSearch, count: number, matches: Array<{ id: string; label: string }>): Promise<void> {
+    await this.create({
+      recipientId: search.authUserId,
+      actorId: null,
+      type: 'saved_search',
+      resourceType: 'saved_search',
+      resourceId: search.id,
+      data: { name: search.name, kind: search.kind, count, matches },
+    });
+  }
+
+  // Inbox
+
+  async list(recipientId: string, filters: {
+    unreadOnly?: boolean | undefined;
+    limit?: number | undefined;
+    offset?: number | undefined;
+  }) {
+    const whereClause = filters.unreadOnly
+      ? and(eq(notifications.recipientId, recipientId), isNull(notifications.readAt))
+      : eq(notifications.recipientId, recipientId);
+
+    const [countResult] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(whereClause);
+
+    const results = await this.db
+      .select()
+      .from(notifications)
+      .where(whereClause)
+      .orderBy(desc(notifications.createdAt))
+      .limit(filters.limit || 20)
+      .offset(filters.offset || 0);
+
+    return {
+      data: await this.withActors(results),
+      total: countResult?.count || 0,
+      limit: filters.limit || 20,
+      offset: filters.offset || 0,
+    };
+  }
+
+  async getUnreadCount(recipientId: string): Promise<number> {
+    const [result] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(and(eq(notifications.recipientId, recipientId), isNull(notifications.readAt)));
+
+    return result?.count || 0;
+  }
+
+  async markRead(recipientId: string, notificationId: string): Promise<boolean> {
+    const [updated] = await this.db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(
+        eq(notifications.id, notificationId),
+        eq(notifications.recipientId, recipientId),
+        isNull(notifications.readAt)
+      ))
+      .returning({ id: notifications.id });
+
+    if (updated) {
+      this.hub?.publish(recipientId, 'unread_count', { count: await this.getUnreadCount(recipientId) });
+    }
+
+    return !!updated;
+  }
+
+  async markAllRead(recipientId: string): Promise<number> {
+    const updated = await this.db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.recipientId, recipientId), isNull(notifications.readAt)))
+      .returning({ id: notifications.id });
+
+    if (updated.length > 0) {
+      this.hub?.publish(recipientId, 'unread_count', { count: 0 });
+    }
+
+    return updated.length;
+  }
+
+  async delete(recipientId: string, notificationId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(notifications)
+      .where(and(eq(notifications.id, notificationId), eq(notifications.recipientId, recipientId)))
+      .returning({ id: notifications.id });
+
+    return deleted.length > 0;
+  }
+
+  // Preferences
+
+  /**
+   * Preferences for every notification type; types without a stored row are enabled
+   */
+  async getPreferences(authUserId: string): Promise<Record<NotificationType, boolean>> {
+    const rows = await this.db
+      .select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.authUserId, authUserId));
+
+    const preferences = Object.fromEntries(notificationTypes.map(type => [type, true])) as Record<NotificationType, boolean>;
+    rows.forEach(row => {
+      preferences[row.type] = row.enabled;
+    });
+
+    return preferences;
+  }
+
+  async updatePreferences(
+    authUserId: string,
+    updates: Partial<Record<NotificationType, boolean>>
+  ): Promise<Record<NotificationType, boolean>> {
+    const entries = Object.entries(updates).filter(([type, enabled]) =>
+      (notificationTypes as readonly string[]).includes(type) && typeof enabled === 'boolean'
+    ) as Array<[NotificationType, boolean]>;
+
+    for (const [type, enabled] of entries) {
+      await this.db
+        .insert(notificationPreferences)
+        .values({ authUserId, type, enabled })
+        .onConflictDoUpdate({
+          target: [notificationPreferences.authUserId, notificationPreferences.type],
+          set: { enabled, updatedAt: new Date() },
+        });
+    }
+
+    return this.getPreferences(authUserId);
+  }
+
+  private async isEnabled(authUserId: string, type: NotificationType): Promise<boolean> {
+    const [preference] = await this.db
+      .select({ enabled: notificationPreferences.enabled })
+      .from(notificationPreferences)
+      .where(and(eq(notificationPreferences.authUserId, authUserId), eq(notificationPreferences.type, type)))
+      .limit(1);
+
+    return preference?.enabled ?? true;
+  }
+
+  /**
+   * Attach the actor's name and avatar for display
+   */
+  private async withActors(rows: Notification[]) {
+    const actorIds = [...new Set(rows.map(r => r.actorId).filter((id): id is string => !!id))];
+    const actor = alias(authUsers, 'actor');
+
+    const actors = actorIds.length > 0
+      ? await this.db
+        .select({ id: actor.id, name: actor.name, avatar: actor.avatar, profileId: user.id })
+        .from(actor)
+        .leftJoin(user, eq(user.userAuthId, actor.id))
+        .where(inArray(actor.id, actorIds))
+      : [];
+    const actorMap = new Map(actors.map(a => [a.id, a]));
+
+    return rows.map(row => ({
+      ...row,
+      actor: row.actorId ? actorMap.get(row.actorId) || null : null,
+    }));
+  }
+
+  private async getProfileAuthId(profileId: string | null): Promise<string | null> {
+    if (!profileId) return null;
+
+    const [profile] = await this.db
+      .select({ userAuthId: user.userAuthId })
+      .from(user)
+      .where(eq(user.id, profileId))
+      .limit(1);
+
+    return profile?.userAuthId || null;
+  }
+
+  private async getBusinessOwnerAuthId(businessId: string | null): Promise<string | null> {
+    if (!businessId) return null;
+
+    const [business] = await this.db
+      .select({ userId: businessDetails.userId })
+      .from(businessDetails)
+      .where(eq(businessDetails.id, businessId))
+      .limit(1);
+
+    return this.getProfileAuthId(business?.userId || null);
+  }
+
+  private async getPostOwnerAuthId(postId: string): Promise<string | null> {
+    const [post] = await this.db
+      .select({ postByUserId: postUpdates.postByUserId, postByBusinessId: postUpdates.postByBusinessId })
+      .from(postUpdates)
+      .where(eq(postUpdates.id, postId))
+      .limit(1);
+
+    if (!post) return null;
+    if (post.postByUserId) return this.getProfileAuthId(post.postByUserId);
+    return this.getBusinessOwnerAuthId(post.postByBusinessId);
+  }
+
+  private async getContentOwnerAuthId(likedType: string, likedTypeId: string): Promise<string | null> {
+    switch (likedType) {
+      case 'post':
+        return this.getPostOwnerAuthId(likedTypeId);
+      case 'comment': {
+        const [comment] = await this.db
+          .select({ userProfileId: comments.userProfileId })
+          .from(comments)
+          .where(eq(comments.id, likedTypeId))
+          .limit(1);
+        return this.getProfileAuthId(comment?.userProfileId || null);
+      }
+      case 'reply': {
+        const [reply] = await this.db
+          .select({ userProfileId: commentReplies.userProfileId })
+          .from(commentReplies)
+          .where(eq(commentReplies.id, likedTypeId))
+          .limit(1);
+        return this.getProfileAuthId(reply?.userProfileId || null);
+      }
+      case 'business':
+        return this.getBusinessOwnerAuthId(likedTypeId);
+      case 'user':
+        return this.getProfileAuthId(likedTypeId);
+      case 'news': {
+        const [article] = await this.db
+          .select({ createdBy: news.createdBy })
+          .from(news)
+          .where(eq(news.id, likedTypeId))
+          .limit(1);
+        return article?.createdBy || null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  private async notifyAttendees(
+    event: Event,
+    profileIds: string[],
+    actorId: string | null,
+    type: 'event_reminder' | 'event_waitlist' | 'event_cancelled'
+  ): Promise<void> {
+    for (const profileId of profileIds) {
+      const recipientId = await this.getProfileAuthId(profileId);
+      if (!recipientId) continue;
+
+      await this.create({
+        recipientId,
+        actorId,
+        type,
+        resourceType: 'event',
+        resourceId: event.id,
+        data: { title: event.title, startsAt: event.startsAt.toISOString() },
+      });
+    }
+  }
+
+  private async notifyGroupMembers(
+    group: Group,
+    profileIds: string[],
+    actorId: string | null,
+    type: 'group_invite' | 'group_request' | 'group_approved'
+  ): Promise<void> {
+    for (const profileId of profileIds) {
+      const recipientId = await this.getProfileAuthId(profileId);
+      if (!recipientId) continue;
+
+      await this.create({
+        recipientId,
+        actorId,
+        type,
+        resourceType: 'group',
+        resourceId: group.id,
+        data: { name: group.name },
+      });
+    }
+  }
+
+  private pushText(notification: Notification, actorName: string | null): string {
+    const actor = actorName || 'Someone';
+    const excerpt = notification.data?.['excerpt'] ? `: ${notification.data['excerpt']}` : '';
+
+    switch (notification.type) {
+      case 'comment':
+        return `${actor} commented on your post${excerpt}`;
+      case 'reply':
+        return `${actor} replied to your comment${excerpt}`;
+      case 'like':
+        return `${actor} liked your ${notification.resourceType}`;
+      case 'blood_request': {
+        const urgency = notification.data?.['urgency'] === 'normal' ? '' : `${notification.data?.['urgency'] === 'critical' ? 'Critical' : 'Urgent'}: `;
+        return `${urgency}${notification.data?.['bloodGroup']} blood needed at ${notification.data?.['hospital']}, ${notification.data?.['city']}`;
+      }
+      case 'blood_response':
+        return `${actor} can donate for your ${notification.data?.['bloodGroup']} blood request`;
+      case 'event_reminder':
+        return `Reminder: ${notification.data?.['title']} starts soon`;
+      case 'event_waitlist':
+        return `A spot opened up - you're going to ${notification.data?.['title']}`;
+      case 'event_cancelled':
+        return `${notification.data?.['title']} has been cancelled`;
+      case 'group_invite':
+        return `${actor} invited you to join ${notification.data?.['name']}`;
+      case 'group_request':
+        return `${actor} asked to join ${notification.data?.['name']}`;
+      case 'group_approved':
+        return `You're now a member of ${notification.data?.['name']}`;
+      case 'job_application':
+        return `${actor} applied for ${notification.data?.['title']}`;
+      case 'job_application_status':
+        return `Your application for ${notification.data?.['title']} is now ${notification.data?.['status']}`;
+      case 'mentorship_request':
+        return `${actor} asked you to be their mentor`;
+      case 'mentorship_response':
+        return notification.data?.['status'] === 'active'
+          ? `${actor} accepted your mentorship request`
+          : `${actor} declined your mentorship request`;
+      case 'mentorship_ended':
+        return `${actor} ended your mentorship`;
+      case 'saved_search': {
+        const count = notification.data?.['count'] || 0;
+        return `${count} new ${count === 1 ? 'match' : 'matches'} for your saved search "${notification.data?.['name']}"`;
+      }
+    }
+  }
+
+  private excerpt(content: string): string {
+    return content.length > EXCERPT_LENGTH ? `${content.slice(0, EXCERPT_LENGTH - 1)}…` : content;
+  }
+}
@@ -3,9 +3,14 @@ import { postUpdates, type PostUpdate, type NewPostUpdate } from '../models/post
 import { user } from '../models/user';
 import { businessDetails } from '../models/business_details';
 import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { GroupService } from './groupService';
 
 export class PostService {
-  constructor(private db: NodePgDatabase<any>) {}
+  private groupService: GroupService;
+
+  constructor(private db: NodePgDatabase<any>) {
+    this.groupService = new GroupService(db);
+  }
 
   async findById(id: string): Promise<PostUpdate | null> {
     const [post] = await this.db
@@ -17,6 +22,31 @@ export class PostService {
     return post || null;
   }
 
+  /**
+   * A post the viewer may see. Posts in groups that aren't open are only visible to the
+   * group's members, so for everyone else they look missing.
+   */
+  async findVisibleById(id: string, profileId: string | null | undefined): Promise<PostUpdate | null> {
+    const post = await this.findById(id);
+    if (!post) return null;
+
+    if (post.groupId && !(profileId && await this.groupService.canViewContent(profileId, post.groupId))) {
+      return null;
+    }
+
+    return post;
+  }
+
+  /**
+   * Throws a GroupError unless the member may comment on the post: anyone who can see it,
+   * except in groups, where only active members can
+   */
+  async assertCanComment(post: PostUpdate, profileId: string): Promise<void> {
+    if (post.groupId) {
+      await this.groupService.assertCanPost(profileId, post.groupId);
+    }
+  }
+
   async create(data: NewPostUpdate): Promise<PostUpdate> {
     const [newPost] = await this.db
       .insert(postUpdates)
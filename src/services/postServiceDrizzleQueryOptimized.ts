@@ -1,16 +1,20 @@
-import { eq, and, desc, sql, inArray, or, ilike } from 'drizzle-orm';
+import { eq, and, sql, inArray, or, ilike, isNull, ne } from 'drizzle-orm';
 import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
 import { postUpdates } from '../models/post_updates';
 import { favourites } from '../models/favourites';
 import { ResourceDescriptor, UniversalMediaHelper } from './UniversalMediaHelper';
 import { filterValidUUIDs} from '../utils/uuidValidator';
 import { sanitizeField } from '../utils/sanitizedData';
+import { ConnectionService } from './connectionService';
+import { cursorKey, cursorOrderBy, cursorPage, cursorWhere, emptyPage, pageWindow, type Cursor } from '../utils/cursor';
 
 
 export class PostServiceDrizzleQueryOptimized {
    private mediaHelper: UniversalMediaHelper;
+   private connectionService: ConnectionService;
   constructor(private db: NodePgDatabase<any>) {
     this.mediaHelper = new UniversalMediaHelper(db);
+    this.connectionService = new ConnectionService(db);
   }
 
 
@@ -26,6 +30,7 @@ export class PostServiceDrizzleQueryOptimized {
         featured: true,
         postByBusinessId: true,
         postByUserId: true,
+        groupId: true,
         videoUrl: true,
         backgroundTheme: true,
         feeling: true,
@@ -188,15 +193,28 @@ export class PostServiceDrizzleQueryOptimized {
     businessId?: string | undefined;
     limit?: number | undefined;
     offset?: number | undefined;
+    cursor?: Cursor | undefined;
     location?: string | undefined;
+    // Posts by any of these profiles or businesses
+    authorUserIds?: string[] | undefined;
+    authorBusinessIds?: string[] | undefined;
+    // A group's posts; without it, group posts stay out of the list
+    groupId?: string | undefined;
   }, currentUserId?: string) {
-    const limit = filters.limit || 10;
-    const offset = filters.offset || 0;
+    const window = pageWindow(filters);
 
     // Build where conditions
     const conditions = [];
+    conditions.push(filters.groupId ? eq(postUpdates.groupId, filters.groupId) : isNull(postUpdates.groupId));
     if (filters.status) {
       conditions.push(ilike(postUpdates.status, `%${filters.status}%`));
+    } else {
+      // Posts waiting for their video only show to their author
+      conditions.push(or(
+        isNull(postUpdates.status),
+        ne(postUpdates.status, 'processing'),
+        currentUserId ? eq(postUpdates.postByUserId, currentUserId) : undefined
+      ));
     }
     if (filters.featured !== undefined) {
       conditions.push(eq(postUpdates.featured, filters.featured));
@@ -210,12 +228,25 @@ export class PostServiceDrizzleQueryOptimized {
     if (filters.location) {
       conditions.push(ilike(postUpdates.location, `%${filters.location}%`));
     }
+    if (filters.authorUserIds || filters.authorBusinessIds) {
+      const authorConditions = [];
+      if (filters.authorUserIds?.length) {
+        authorConditions.push(inArray(postUpdates.postByUserId, filters.authorUserIds));
+      }
+      if (filters.authorBusinessIds?.length) {
+        authorConditions.push(inArray(postUpdates.postByBusinessId, filters.authorBusinessIds));
+      }
+      if (authorConditions.length === 0) {
+        return { data: [], total: 0, ...emptyPage(window) };
+      }
+      conditions.push(or(...authorConditions));
+    }
 
     const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
 
     // Get posts with relations using query API with specific columns
-    const posts = await this.db.query.postUpdates.findMany({
-      where: whereClause,
+    const results = await this.db.query.postUpdates.findMany({
+      where: and(whereClause, cursorWhere(postUpdates, window.cursor)),
       columns: {
         id: true,
         content: true,
@@ -224,12 +255,16 @@ export class PostServiceDrizzleQueryOptimized {
         featured: true,
         postByBusinessId: true,
         postByUserId: true,
+        groupId: true,
         videoUrl: true,
         backgroundTheme: true,
         feeling: true,
         createdAt: true,
         updatedAt: true,
       },
+      extras: (table: typeof postUpdates) => ({
+        cursorKey: cursorKey(table).as('cursor_key'),
+      }),
       with: {
         postByUser: {
           columns: {
@@ -259,11 +294,13 @@ export class PostServiceDrizzleQueryOptimized {
           },
         },
       },
-      orderBy: desc(postUpdates.publishedAt),
-      limit,
-      offset,
+      orderBy: cursorOrderBy(postUpdates, window.cursor),
+      limit: window.fetch,
+      offset: window.offset,
     });
 
+    const { rows: posts, ...page } = cursorPage(results, window, (post: any) => ({ createdAt: post.cursorKey, id: post.id }));
+
     // Get total count
      const countResult = await this.db
       .select({ count: sql<number>`count(*)::int` })
@@ -370,6 +407,7 @@ console.log('descriptions', descriptors)
 
       return {
         ...post,
+        cursorKey: undefined,
         content: post.content || '', // Ensure content is included with fallback
         featuredImage: featuredImage?.url || null,
         images: galleryImages.map((img:any, index:any) => ({
@@ -403,8 +441,7 @@ console.log('descriptions', descriptors)
     return {
       data: transformedPosts,
       total: count,
-      limit,
-      offset,
+      ...page,
     };
   }
 
@@ -458,11 +495,36 @@ console.log('descriptions', descriptors)
       .where(eq(postUpdates.id, id));
   }
 
-  async getUserFeed(userId: string, options: { limit?: number | undefined; offset?: number | undefined } = {}) {
+  /**
+   * Posts by a member. In "following" mode, the member's network instead: posts by
+   * members they follow or are connected with, and by businesses they follow.
+   */
+  async getUserFeed(
+    userId: string,
+    options: {
+      limit?: number | undefined;
+      offset?: number | undefined;
+      cursor?: Cursor | undefined;
+      mode?: 'user' | 'following' | undefined;
+    } = {},
+    currentUserId?: string
+  ) {
+    const { mode = 'user', ...paging } = options;
+
+    if (mode === 'following') {
+      const { userIds, businessIds } = await this.connectionService.getFeedSources(userId);
+      return this.list({
+        authorUserIds: userIds,
+        authorBusinessIds: businessIds,
+        status: 'published',
+        ...paging,
+      }, currentUserId);
+    }
+
     return this.list({
       userId,
       status: 'published',
-      ...options,
-    });
+      ...paging,
+    }, currentUserId);
   }
 }
\ No newline at end of file
@@ -0,0 +1,358 @@
+import { eq, and, ne, gt, lte, lt, inArray, asc } from 'drizzle-orm';
+import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import type { FastifyBaseLogger } from 'fastify';
+import { sessions } from '../models/sessions';
+import { pushTokens } from '../models/push_tokens';
+import { pushMessages, type PushMessage } from '../models/push_messages';
+
+// Expo limits: 100 messages per send request, 1000 ids per receipts request
+const SEND_CHUNK_SIZE = 100;
+const RECEIPT_CHUNK_SIZE = 1000;
+const SEND_BATCH_SIZE = 500;
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+// A claimed message is left to its sender this long; after that, another run takes it over
+const SEND_LEASE_MS = 5 * 60 * 1000;
+// Receipts are ready roughly 15 minutes after sending and kept for 24 hours
+const RECEIPT_DELAY_MS = 15 * 60 * 1000;
+const RECEIPT_TTL_MS = 24 * 60 * 60 * 1000;
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface PushContent {
+  title?: string;
+  body: string;
+  data?: Record<string, any>;
+}
+
+export interface PushHttpResponse {
+  status: number;
+  body: any;
+}
+
+/**
+ * Minimal JSON-over-HTTP client used to talk to the Expo push API.
+ * Inject a different implementation (or point EXPO_PUSH_API_URL at a stub server) in tests.
+ */
+export interface PushHttpClient {
+  post(url: string, body: unknown, headers: Record<string, string>): Promise<PushHttpResponse>;
+}
+
+export class FetchPushHttpClient implements PushHttpClient {
+  async post(url: string, body: unknown, headers: Record<string, string>): Promise<PushHttpResponse> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+        ...headers,
+      },
+      body: JSON.stringify(body),
+    });
+
+    const text = await response.text();
+    let parsed: any = null;
+    try {
+      parsed = text ? JSON.parse(text) : null;
+    } catch {
+      parsed = { raw: text };
+    }
+
+    return { status: response.status, body: parsed };
+  }
+}
+
+interface ExpoTicket {
+  status: 'ok' | 'error';
+  id?: string;
+  message?: string;
+  details?: { error?: string };
+}
+
+type ExpoReceipt = Omit<ExpoTicket, 'id'>;
+
+export function isExpoPushToken(token: string): boolean {
+  return /^Expo(nent)?PushToken\[[^\]]+\]$/.test(token);
+}
+
+export class PushService {
+  constructor(
+    private db: NodePgDatabase<any>,
+    private http: PushHttpClient,
+    private options: { apiUrl: string; accessToken?: string },
+    private log?: FastifyBaseLogger
+  ) {}
+
+  // Tokens
+
+  /**
+   * Attach a push token to a session, replacing the session's previous token
+   * and taking the token over from any other session that had it
+   */
+  async registerToken(authUserId: string, sessionId: string, token: string): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx
+        .delete(pushTokens)
+        .where(and(eq(pushTokens.sessionId, sessionId), ne(pushTokens.token, token)));
+
+      await tx
+        .insert(pushTokens)
+        .values({ authUserId, sessionId, token })
+        .onConflictDoUpdate({
+          target: pushTokens.token,
+          set: { authUserId, sessionId, updatedAt: new Date() },
+        });
+    });
+  }
+
+  async removeSessionToken(sessionId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(pushTokens)
+      .where(eq(pushTokens.sessionId, sessionId))
+      .returning({ id: pushTokens.id });
+
+    return deleted.length > 0;
+  }
+
+  async getUserTokens(authUserId: string) {
+    return this.db
+      .select({ token: pushTokens.token, sessionId: pushTokens.sessionId, updatedAt: pushTokens.updatedAt })
+      .from(pushTokens)
+      .where(eq(pushTokens.authUserId, authUserId));
+  }
+
+  // Sending
+
+  /**
+   * Queue a message for every device the user is signed in on.
+   * Returns the number of messages queued.
+   */
+  async enqueue(authUserId: string, content: PushContent): Promise<number> {
+    const tokens = await this.db
+      .select({ token: pushTokens.token })
+      .from(pushTokens)
+      .innerJoin(sessions, eq(sessions.id, pushTokens.sessionId))
+      .where(and(
+        eq(pushTokens.authUserId, authUserId),
+        eq(sessions.isActive, true),
+        gt(sessions.expiresAt, new Date())
+      ));
+
+    if (tokens.length === 0) return 0;
+
+    await this.db.insert(pushMessages).values(tokens.map(({ token }) => ({
+      authUserId,
+      token,
+      title: content.title || null,
+      body: content.body,
+      data: content.data || null,
+    })));
+
+    return tokens.length;
+  }
+
+  /**
+   * Send due pending messages to Expo in chunks. Failed requests are retried
+   * with exponential backoff; tokens Expo reports as unregistered are pruned.
+   * Messages are claimed first, so overlapping runs and other instances never
+   * send the same one; claims of a run that died lapse after SEND_LEASE_MS.
+   */
+  async sendPending(): Promise<{ sent: number; failed: number; retried: number }> {
+    const now = new Date();
+    const claimable = this.db
+      .select({ id: pushMessages.id })
+      .from(pushMessages)
+      .where(and(inArray(pushMessages.status, ['pending', 'sending']), lte(pushMessages.nextAttemptAt, now)))
+      .orderBy(asc(pushMessages.nextAttemptAt))
+      .limit(SEND_BATCH_SIZE)
+      .for('update', { skipLocked: true });
+
+    const due = await this.db
+      .update(pushMessages)
+      .set({ status: 'sending', nextAttemptAt: new Date(now.getTime() + SEND_LEASE_MS), updatedAt: now })
+      .where(inArray(pushMessages.id, claimable))
+      .returning();
+
+    const result = { sent: 0, failed: 0, retried: 0 };
+
+    for (const chunk of this.chunk(due, SEND_CHUNK_SIZE)) {
+      let tickets: ExpoTicket[];
+      try {
+        const response = await this.http.post(
+          `${this.options.apiUrl}/send`,
+          chunk.map(message => ({
+            to: message.token,
+            title: message.title || undefined,
+            body: message.body,
+            data: message.data || undefined,
+            sound: 'default',
+          })),
+          this.authHeaders()
+        );
+
+        if (response.status < 200 || response.status >= 300 || !Array.isArray(response.body?.data)) {
+          throw new Error(`Expo push API responded with ${response.status}: ${JSON.stringify(response.body)}`);
+        }
+        tickets = response.body.data;
+      } catch (error) {
+        this.log?.warn({ err: error }, 'Push send request failed');
+        for (const message of chunk) {
+          const outcome = await this.retryOrFail(message, error instanceof Error ? error.message : String(error));
+          result[outcome]++;
+        }
+        continue;
+      }
+
+      for (const [index, message] of chunk.entries()) {
+        const ticket = tickets[index];
+
+        if (ticket?.status === 'ok' && ticket.id) {
+          await this.updateMessage(message.id, { status: 'sent', ticketId: ticket.id, sentAt: new Date(), error: null });
+          result.sent++;
+        } else if (ticket?.details?.error === 'MessageRateExceeded') {
+          result[await this.retryOrFail(message, ticket.message || 'MessageRateExceeded')]++;
+        } else {
+          await this.fail(message, ticket);
+          result.failed++;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Fetch receipts for messages sent at least 15 minutes ago and record the outcome
+   */
+  async checkReceipts(): Promise<{ delivered: number; failed: number; retried: number }> {
+    const now = Date.now();
+    const awaiting = await this.db
+      .select()
+      .from(pushMessages)
+      .where(and(eq(pushMessages.status, 'sent'), lte(pushMessages.sentAt, new Date(now - RECEIPT_DELAY_MS))))
+      .orderBy(asc(pushMessages.sentAt))
+      .limit(RECEIPT_CHUNK_SIZE * 5);
+
+    const result = { delivered: 0, failed: 0, retried: 0 };
+
+    for (const chunk of this.chunk(awaiting, RECEIPT_CHUNK_SIZE)) {
+      let receipts: Record<string, ExpoReceipt>;
+      try {
+        const response = await this.http.post(
+          `${this.options.apiUrl}/getReceipts`,
+          { ids: chunk.map(message => message.ticketId) },
+          this.authHeaders()
+        );
+
+        if (response.status < 200 || response.status >= 300 || !response.body?.data) {
+          throw new Error(`Expo push API responded with ${response.status}: ${JSON.stringify(response.body)}`);
+        }
+        receipts = response.body.data;
+      } catch (error) {
+        // These messages are asked about again on the next run
+        this.log?.warn({ err: error }, 'Push receipts request failed');
+        continue;
+      }
+
+      for (const message of chunk) {
+        const receipt = receipts[message.ticketId!];
+
+        if (!receipt) {
+          // Not ready yet; give up once Expo has discarded it
+          if (message.sentAt && now - message.sentAt.getTime() > RECEIPT_TTL_MS) {
+            await this.updateMessage(message.id, { status: 'failed', error: 'Receipt unavailable' });
+            result.failed++;
+          }
+        } else if (receipt.status === 'ok') {
+          await this.updateMessage(message.id, { status: 'delivered' });
+          result.delivered++;
+        } else if (receipt.details?.error === 'MessageRateExceeded') {
+          result[await this.retryOrFail(message, receipt.message || 'MessageRateExceeded')]++;
+        } else {
+          await this.fail(message, receipt);
+          result.failed++;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Drop finished messages older than a week
+   */
+  async cleanupMessages(): Promise<number> {
+    const deleted = await this.db
+      .delete(pushMessages)
+      .where(and(
+        inArray(pushMessages.status, ['delivered', 'failed']),
+        lt(pushMessages.updatedAt, new Date(Date.now() - RETENTION_MS))
+      ))
+      .returning({ id: pushMessages.id });
+
+    return deleted.length;
+  }
+
+  private async retryOrFail(message: PushMessage, error: string): Promise<'retried' | 'failed'> {
+    const attempts = message.attempts + 1;
+
+    if (attempts >= MAX_ATTEMPTS) {
+      await this.updateMessage(message.id, { status: 'failed', attempts, error });
+      return 'failed';
+    }
+
+    await this.updateMessage(message.id, {
+      status: 'pending',
+      attempts,
+      error,
+      ticketId: null,
+      sentAt: null,
+      nextAttemptAt: new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (attempts - 1)),
+    });
+    return 'retried';
+  }
+
+  private async fail(message: PushMessage, ticket: ExpoReceipt | undefined): Promise<void> {
+    const errorCode = ticket?.details?.error;
+
+    if (errorCode === 'DeviceNotRegistered') {
+      await this.pruneToken(message.token);
+    }
+
+    await this.updateMessage(message.id, {
+      status: 'failed',
+      error: errorCode || ticket?.message || 'Missing push ticket',
+    });
+  }
+
+  /**
+   * Forget a token Expo no longer accepts, along with its queued messages
+   */
+  private async pruneToken(token: string): Promise<void> {
+    await this.db.delete(pushTokens).where(eq(pushTokens.token, token));
+    await this.db
+      .update(pushMessages)
+      .set({ status: 'failed', error: 'DeviceNotRegistered', updatedAt: new Date() })
+      .where(and(eq(pushMessages.token, token), eq(pushMessages.status, 'pending')));
+
+    this.log?.info({ token }, 'Pruned unregistered push token');
+  }
+
+  private async updateMessage(id: string, updates: Partial<PushMessage>): Promise<void> {
+    await this.db
+      .update(pushMessages)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(pushMessages.id, id));
+  }
+
+  private authHeaders(): Record<string, string> {
+    return this.options.accessToken ? { 'Authorization': `Bearer ${this.options.accessToken}` } : {};
+  }
+
+  private chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+      chunks.push(items.slice(i, i + size));
+    }
+    return chunks;
+  }
+}
@@ -0,0 +1,346 @@
+import { createWriteStream, promises as fs } from 'fs';
+import path from 'path';
+import { Transform, type Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { eq, and, gt, lt, isNull, isNotNull, inArray, sql } from 'drizzle-orm';
+import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import type { FastifyInstance } from 'fastify';
+import { resumableUploads, type ResumableUpload } from '../models/resumable_uploads';
+import { mediaResourceTypeEnum, mediaTagEnum, type MediaResourceType, type MediaTag } from '../models/media';
+import { UniversalImageUploadHelper } from './universalMediaUploader';
+import { MediaUploadTargets, MediaUploadError } from './mediaUploadTargets';
+import { VideoService } from './videoService';
+
+// Abandoned uploads are removed this long after their last PATCH
+export const RESUMABLE_UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+// Unfinished uploads a member can have at once
+const MAX_OPEN_UPLOADS = 20;
+// Completed uploads are kept this long so clients can still look up their media
+const COMPLETED_UPLOAD_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Parses a tus Upload-Metadata header: comma-separated `key base64value` pairs, the value optional
+ */
+export function parseUploadMetadata(header: string | undefined): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  if (!header) {
+    return metadata;
+  }
+
+  for (const pair of header.split(',')) {
+    const [key, value, ...rest] = pair.trim().split(' ');
+    if (!key || rest.length > 0 || key in metadata) {
+      throw new MediaUploadError('Invalid Upload-Metadata header', 400);
+    }
+    metadata[key] = value ? Buffer.from(value, 'base64').toString('utf8') : '';
+  }
+  return metadata;
+}
+
+export function formatUploadMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => (value ? `${key} ${Buffer.from(value, 'utf8').toString('base64')}` : key))
+    .join(',');
+}
+
+/**
+ * Resumable uploads over the tus protocol (creation, expiration and termination extensions).
+ * Received bytes are appended to a file in TUS_UPLOAD_DIR; once all of them are in, the file is
+ * uploaded as the multipart routes (users-media, posts-media, business-media) would upload it,
+ * or handed to VideoService for video targets.
+ */
+export class ResumableUploadService {
+  private db: NodePgDatabase<any>;
+  private uploadHelper: UniversalImageUploadHelper;
+  private targets: MediaUploadTargets;
+  private videoService: VideoService;
+  private directory: string;
+  // Uploads with a PATCH in progress on this instance. Across instances, only the PATCH that
+  // finds the offset unchanged gets to advance it
+  private static writing = new Set<string>();
+
+  constructor(private fastify: FastifyInstance) {
+    this.db = fastify.db;
+    this.uploadHelper = new UniversalImageUploadHelper(fastify);
+    this.targets = new MediaUploadTargets(this.db, this.uploadHelper);
+    this.videoService = new VideoService(fastify);
+    this.directory = path.resolve(fastify.config.TUS_UPLOAD_DIR);
+  }
+
+  /**
+   * Creates an upload from the client's Upload-Length and Upload-Metadata. The metadata must name
+   * the resourceType, resourceId and tag to upload to, and the filetype; filename is optional.
+   */
+  async create(profileId: string, length: number, metadata: Record<string, string>) {
+    const { resourceType, resourceId, tag, filetype, filename } = metadata;
+
+    if (!resourceType || !resourceId || !tag || !filetype) {
+      throw new MediaUploadError('Upload-Metadata must include resourceType, resourceId, tag and filetype', 400);
+    }
+    if (!(mediaResourceTypeEnum.enumValues as readonly string[]).includes(resourceType)
+      || !(mediaTagEnum.enumValues as readonly string[]).includes(tag)) {
+      throw new MediaUploadError(`Uploads are not available for ${resourceType} ${tag}`, 400);
+    }
+    if (!UUID_PATTERN.test(resourceId)) {
+      throw new MediaUploadError('resourceId must be a UUID', 400);
+    }
+
+    const target = { resourceType: resourceType as MediaResourceType, resourceId, tag: tag as MediaTag };
+    const { options } = this.targets.resolve(target.resourceType, target.tag);
+    await this.targets.authorize(profileId, target.resourceType, target.resourceId);
+    this.targets.checkFile(options, filetype, length);
+    if (length === 0) {
+      throw new MediaUploadError('Upload-Length must be greater than 0', 400);
+    }
+
+    const [open] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(resumableUploads)
+      .where(and(
+        eq(resumableUploads.userId, profileId),
+        isNull(resumableUploads.completedAt),
+        gt(resumableUploads.expiresAt, new Date())
+      ));
+    if ((open?.count || 0) >= MAX_OPEN_UPLOADS) {
+      throw new MediaUploadError('Too many uploads in progress; finish or wait for some to expire', 429);
+    }
+
+    const [upload] = await this.db
+      .insert(resumableUploads)
+      .values({
+        userId: profileId,
+        ...target,
+        filename: filename || `${tag}-${Date.now()}.${filetype.split('/')[1]}`,
+        mimeType: filetype,
+        length,
+        metadata,
+        expiresAt: new Date(Date.now() + RESUMABLE_UPLOAD_TTL_MS),
+      })
+      .returning();
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.filePath(upload!.id), '');
+
+    return upload!;
+  }
+
+  /**
+   * The member's upload; expired ones are gone (410) even before the cleanup job removes them
+   */
+  async get(profileId: string, uploadId: string): Promise<ResumableUpload> {
+    const [upload] = await this.db
+      .select()
+      .from(resumableUploads)
+      .where(and(eq(resumableUploads.id, uploadId), eq(resumableUploads.userId, profileId)))
+      .limit(1);
+
+    if (!upload) {
+      throw new MediaUploadError('Upload not found', 404);
+    }
+    if (!upload.completedAt && upload.expiresAt < new Date()) {
+      throw new MediaUploadError('This upload has expired', 410);
+    }
+    return upload;
+  }
+
+  /**
+   * Writes a PATCH body at `offset`, which must be where the upload stands. When the last byte is
+   * in, the file is processed and the media created. A body that stops early still counts up to
+   * where it stopped, so the client can resume from there.
+   */
+  async append(authUserId: string, profileId: string, uploadId: string, offset: number, body: Readable) {
+    const upload = await this.get(profileId, uploadId);
+
+    if (upload.completedAt) {
+      throw new MediaUploadError('This upload is already complete', 409);
+    }
+    if (offset !== upload.offset) {
+      throw new MediaUploadError(`Upload-Offset ${offset} does not match the current offset ${upload.offset}`, 409);
+    }
+    if (ResumableUploadService.writing.has(upload.id)) {
+      throw new MediaUploadError('This upload is being written to by another request', 423);
+    }
+
+    ResumableUploadService.writing.add(upload.id);
+    try {
+      const remaining = upload.length - upload.offset;
+      let written = 0;
+      let streamError: unknown = null;
+
+      const limit = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          if (written + chunk.length > remaining) {
+            callback(new MediaUploadError('The body goes past Upload-Length', 413));
+            return;
+          }
+          written += chunk.length;
+          callback(null, chunk);
+        },
+      });
+
+      try {
+        await pipeline(body, limit, createWriteStream(this.filePath(upload.id), { flags: 'r+', start: upload.offset }));
+      } catch (error) {
+        streamError = error;
+      }
+
+      const [updated] = await this.db
+        .update(resumableUploads)
+        .set({
+          offset: upload.offset + written,
+          expiresAt: new Date(Date.now() + RESUMABLE_UPLOAD_TTL_MS),
+          updatedAt: new Date(),
+        })
+        .where(and(eq(resumableUploads.id, upload.id), eq(resumableUploads.offset, upload.offset)))
+        .returning();
+
+      if (!updated) {
+        throw new MediaUploadError('This upload was written to by another request', 409);
+      }
+      if (streamError) {
+        throw streamError;
+      }
+      if (updated.offset < updated.length) {
+        return { upload: updated, media: null };
+      }
+
+      return await this.complete(authUserId, profileId, updated);
+    } finally {
+      ResumableUploadService.writing.delete(upload.id);
+    }
+  }
+
+  /**
+   * Termination: removes the upload and what was received. Media from a completed upload stays.
+   */
+  async terminate(profileId: string, uploadId: string): Promise<void> {
+    const upload = await this.get(profileId, uploadId);
+    if (ResumableUploadService.writing.has(upload.id)) {
+      throw new MediaUploadError('This upload is being written to by another request', 423);
+    }
+
+    await this.db.delete(resumableUploads).where(eq(resumableUploads.id, upload.id));
+    await this.removeFile(upload.id);
+  }
+
+  /**
+   * The media a completed upload created, or null while it is in progress
+   */
+  async media(upload: ResumableUpload) {
+    const record = upload.mediaId ? await this.uploadHelper.mediaService.findById(upload.mediaId) : null;
+    if (!record) {
+      return null;
+    }
+    if (record.kind === 'video') {
+      return this.videoService.describe(record);
+    }
+
+    return {
+      id: record.id,
+      url: record.url,
+      thumbnailUrl: record.thumbnailUrl || '',
+      filename: record.filename,
+      size: record.size,
+      tag: record.tag,
+      position: record.position,
+    };
+  }
+
+  /**
+   * Removes abandoned uploads with their partial files, and old completed uploads
+   */
+  async cleanupExpired(): Promise<number> {
+    const now = Date.now();
+
+    const expired = await this.db
+      .select({ id: resumableUploads.id })
+      .from(resumableUploads)
+      .where(and(isNull(resumableUploads.completedAt), lt(resumableUploads.expiresAt, new Date(now))))
+      .limit(100);
+
+    for (const upload of expired) {
+      await this.removeFile(upload.id);
+    }
+
+    if (expired.length > 0) {
+      await this.db.delete(resumableUploads).where(inArray(resumableUploads.id, expired.map(u => u.id)));
+    }
+
+    const finished = await this.db
+      .delete(resumableUploads)
+      .where(and(isNotNull(resumableUploads.completedAt), lt(resumableUploads.completedAt, new Date(now - COMPLETED_UPLOAD_RETENTION_MS))))
+      .returning({ id: resumableUploads.id });
+
+    return expired.length + finished.length;
+  }
+
+  // Hands the finished file to the upload pipeline, or to the transcoder for videos. If that fails
+  // the upload stays at its full offset, and an empty PATCH at that offset tries again.
+  private async complete(authUserId: string, profileId: string, upload: ResumableUpload) {
+    // Ownership may have changed since the upload was created
+    await this.targets.authorize(profileId, upload.resourceType, upload.resourceId);
+
+    const { kind, options } = this.targets.resolve(upload.resourceType, upload.tag);
+    if (kind === 'video') {
+      const video = await this.videoService.attach(
+        authUserId,
+        profileId,
+        upload.resourceType,
+        upload.resourceId,
+        { path: this.filePath(upload.id), size: upload.length, filename: upload.filename, mimetype: upload.mimeType },
+        'tus'
+      );
+      return { upload: await this.markCompleted(upload.id, video.id), media: video };
+    }
+
+    const context = this.targets.context(authUserId, profileId, upload.resourceType, upload.resourceId, upload.tag, 'tus');
+    const buffer = await fs.readFile(this.filePath(upload.id));
+
+    const placed = await this.targets.placement(context);
+    let result;
+    try {
+      result = await this.uploadHelper.uploadSingle({ buffer, filename: upload.filename, mimetype: upload.mimeType }, placed, options);
+    } catch (error) {
+      throw new MediaUploadError(error instanceof Error ? error.message : 'Failed to process upload', 422);
+    }
+
+    await this.targets.applyToResource(upload.resourceType, upload.resourceId, upload.tag, result.id);
+
+    return {
+      upload: await this.markCompleted(upload.id, result.id),
+      media: {
+        id: result.id,
+        url: result.url,
+        thumbnailUrl: result.thumbnailUrl,
+        filename: result.filename,
+        size: result.size,
+        tag: placed.tag,
+        position: result.position,
+      },
+    };
+  }
+
+  private async markCompleted(uploadId: string, mediaId: string): Promise<ResumableUpload> {
+    const [completed] = await this.db
+      .update(resumableUploads)
+      .set({ completedAt: new Date(), mediaId, updatedAt: new Date() })
+      .where(eq(resumableUploads.id, uploadId))
+      .returning();
+    await this.removeFile(uploadId);
+    return completed!;
+  }
+
+  private filePath(uploadId: string): string {
+    return path.join(this.directory, uploadId);
+  }
+
+  private async removeFile(uploadId: string): Promise<void> {
+    try {
+      await fs.rm(this.filePath(uploadId), { force: true });
+    } catch (error) {
+      this.fastify.log.warn({ err: error, uploadId }, 'Failed to delete resumable upload file');
+    }
+  }
+}
@@ -0,0 +1,146 @@
+import { eq, desc, sql } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { authUsers, type AuthUser, type Role } from '../models/authUser';
+import { roleChanges } from '../models/role_changes';
+
+export class RoleError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message);
+    this.name = 'RoleError';
+  }
+}
+
+export class RoleService {
+  constructor(private db: NodePgDatabase<any>) {}
+
+  async listUsersByRole(filters: {
+    role?: Role | undefined;
+    limit?: number | undefined;
+    offset?: number | undefined;
+  }) {
+    const whereClause = filters.role ? eq(authUsers.role, filters.role) : undefined;
+
+    const [countResult] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(authUsers)
+      .where(whereClause);
+
+    const results = await this.db
+      .select({
+        id: authUsers.id,
+        email: authUsers.email,
+        name: authUsers.name,
+        role: authUsers.role,
+        isActive: authUsers.isActive,
+        updatedAt: authUsers.updatedAt,
+      })
+      .from(authUsers)
+      .where(whereClause)
+      .orderBy(authUsers.name)
+      .limit(filters.limit || 20)
+      .offset(filters.offset || 0);
+
+    return {
+      data: results,
+      total: countResult?.count || 0,
+      limit: filters.limit || 20,
+      offset: filters.offset || 0,
+    };
+  }
+
+  /**
+   * Set a user's role and record who made the change.
+   * Returns null when the target user does not exist. Refuses (409) to demote the last admin,
+   * as that would lock everyone out of the admin API.
+   */
+  async setRole(
+    authUserId: string,
+    newRole: Role,
+    changedBy: string,
+    reason?: string
+  ): Promise<AuthUser | null> {
+    return this.db.transaction(async (tx) => {
+      // Locked first, so concurrent demotions wait for each other and see the admins that are left
+      const admins = newRole === 'admin'
+        ? []
+        : await tx
+          .select({ id: authUsers.id })
+          .from(authUsers)
+          .where(eq(authUsers.role, 'admin'))
+          .orderBy(authUsers.id)
+          .for('update');
+
+      const [existing] = await tx
+        .select()
+        .from(authUsers)
+        .where(eq(authUsers.id, authUserId))
+        .limit(1)
+        .for('update');
+
+      if (!existing) return null;
+      if (existing.role === newRole) return existing;
+      if (existing.role === 'admin' && admins.length <= 1) {
+        throw new RoleError('Cannot remove the last admin', 409);
+      }
+
+      const [updated] = await tx
+        .update(authUsers)
+        .set({ role: newRole, updatedAt: new Date() })
+        .where(eq(authUsers.id, authUserId))
+        .returning();
+
+      await tx.insert(roleChanges).values({
+        authUserId,
+        previousRole: existing.role,
+        newRole,
+        changedBy,
+        reason: reason || null,
+      });
+
+      return updated!;
+    });
+  }
+
+  async getRole(authUserId: string): Promise<Role | null> {
+    const [result] = await this.db
+      .select({ role: authUsers.role })
+      .from(authUsers)
+      .where(eq(authUsers.id, authUserId))
+      .limit(1);
+
+    return result?.role || null;
+  }
+
+  async countAdmins(): Promise<number> {
+    const [result] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(authUsers)
+      .where(eq(authUsers.role, 'admin'));
+
+    return result?.count || 0;
+  }
+
+  async getHistory(authUserId: string) {
+    const changer = alias(authUsers, 'changer');
+
+    const results = await this.db
+      .select({
+        change: roleChanges,
+        changedBy: {
+          id: changer.id,
+          name: changer.name,
+          email: changer.email,
+        },
+      })
+      .from(roleChanges)
+      .leftJoin(changer, eq(roleChanges.changedBy, changer.id))
+      .where(eq(roleChanges.authUserId, authUserId))
+      .orderBy(desc(roleChanges.createdAt));
+
+    return results.map(r => ({
+      ...r.change,
+      changedBy: r.changedBy?.id ? r.changedBy : null,
+    }));
+  }
+}
@@ -0,0 +1,286 @@
+import { eq, and, desc, asc, lte, sql } from 'drizzle-orm';
+import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import type { FastifyBaseLogger } from 'fastify';
+import {
+  savedSearches,
+  type SavedSearch,
+  type SavedSearchKind,
+  type SavedSearchFrequency,
+} from '../models/saved_searches';
+import { UserProfileServiceSimple } from './userProfileServiceSimple';
+import { SearchServiceEnhanced } from './searchServiceEnhanced';
+import type { NotificationService } from './notificationService';
+import {
+  MemberFilterQuery,
+  DoctorFilterQuery,
+  BusinessSearchFilterQuery,
+  memberListFilters,
+  doctorListFilters,
+  type MemberFilters,
+  type DoctorFilters,
+} from '../utils/searchFilters';
+
+const MAX_SAVED_SEARCHES = 25;
+const RUN_BATCH_SIZE = 100;
+// Matches listed in an alert; the count covers all of them
+const PREVIEW_SIZE = 5;
+
+const FREQUENCY_INTERVAL_MS: Record<Exclude<SavedSearchFrequency, 'off'>, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Filters kept for each kind; anything else in a request is dropped
+const FILTER_FIELDS: Record<SavedSearchKind, string[]> = {
+  members: Object.keys(MemberFilterQuery),
+  doctors: Object.keys(DoctorFilterQuery),
+  businesses: Object.keys(BusinessSearchFilterQuery),
+};
+
+export class SavedSearchError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message);
+    this.name = 'SavedSearchError';
+  }
+}
+
+export interface SavedSearchMatch {
+  id: string;
+  label: string;
+}
+
+interface Paging {
+  limit?: number | undefined;
+  offset?: number | undefined;
+}
+
+/**
+ * Named member, doctor and business searches, re-run on a schedule to alert
+ * their owners about records created since the previous run.
+ * Owners are auth user IDs, like notifications.
+ */
+export class SavedSearchService {
+  private userProfileService: UserProfileServiceSimple;
+  private searchService: SearchServiceEnhanced;
+
+  constructor(
+    private db: NodePgDatabase<any>,
+    private notificationService?: NotificationService,
+    private log?: FastifyBaseLogger
+  ) {
+    this.userProfileService = new UserProfileServiceSimple(db);
+    this.searchService = new SearchServiceEnhanced(db);
+  }
+
+  async list(authUserId: string, paging: Paging) {
+    const [countResult] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(savedSearches)
+      .where(eq(savedSearches.authUserId, authUserId));
+
+    const results = await this.db
+      .select()
+      .from(savedSearches)
+      .where(eq(savedSearches.authUserId, authUserId))
+      .orderBy(desc(savedSearches.createdAt))
+      .limit(paging.limit || 20)
+      .offset(paging.offset || 0);
+
+    return {
+      data: results,
+      total: countResult?.count || 0,
+      limit: paging.limit || 20,
+      offset: paging.offset || 0,
+    };
+  }
+
+  async get(authUserId: string, id: string): Promise<SavedSearch> {
+    const [search] = await this.db
+      .select()
+      .from(savedSearches)
+      .where(and(eq(savedSearches.id, id), eq(savedSearches.authUserId, authUserId)))
+      .limit(1);
+
+    if (!search) {
+      throw new SavedSearchError('Saved search not found', 404);
+    }
+
+    return search;
+  }
+
+  async create(authUserId: string, data: {
+    name: string;
+    kind: SavedSearchKind;
+    filters: Record<string, any>;
+    frequency?: SavedSearchFrequency | undefined;
+  }): Promise<SavedSearch> {
+    const [countResult] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(savedSearches)
+      .where(eq(savedSearches.authUserId, authUserId));
+
+    if ((countResult?.count || 0) >= MAX_SAVED_SEARCHES) {
+      throw new SavedSearchError(`You can save up to ${MAX_SAVED_SEARCHES} searches`, 409);
+    }
+
+    const now = new Date();
+    const frequency = data.frequency || 'weekly';
+
+    const [created] = await this.db
+      .insert(savedSearches)
+      .values({
+        authUserId,
+        name: data.name,
+        kind: data.kind,
+        filters: this.cleanFilters(data.kind, data.filters),
+        frequency,
+        lastRunAt: now,
+        nextRunAt: this.nextRunAt(frequency, now),
+      })
+      .returning();
+
+    return created!;
+  }
+
+  /**
+   * Rename, change filters or change frequency. The kind is fixed once saved.
+   */
+  async update(authUserId: string, id: string, data: {
+    name?: string | undefined;
+    filters?: Record<string, any> | undefined;
+    frequency?: SavedSearchFrequency | undefined;
+  }): Promise<SavedSearch> {
+    const search = await this.get(authUserId, id);
+    const now = new Date();
+    const changes: Partial<SavedSearch> = { updatedAt: now };
+
+    if (data.name !== undefined) changes.name = data.name;
+    if (data.filters !== undefined) changes.filters = this.cleanFilters(search.kind, data.filters);
+    if (data.frequency !== undefined && data.frequency !== search.frequency) {
+      changes.frequency = data.frequency;
+      changes.nextRunAt = this.nextRunAt(data.frequency, now);
+      // Turning alerts back on starts from now rather than alerting on everything since they were turned off
+      if (search.frequency === 'off') changes.lastRunAt = now;
+    }
+
+    const [updated] = await this.db
+      .update(savedSearches)
+      .set(changes)
+      .where(eq(savedSearches.id, search.id))
+      .returning();
+
+    return updated!;
+  }
+
+  async delete(authUserId: string, id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(savedSearches)
+      .where(and(eq(savedSearches.id, id), eq(savedSearches.authUserId, authUserId)))
+      .returning({ id: savedSearches.id });
+
+    return deleted.length > 0;
+  }
+
+  /**
+   * Records matching the search created since its last alert
+   */
+  async newMatches(search: SavedSearch, limit: number = PREVIEW_SIZE): Promise<{ total: number; matches: SavedSearchMatch[] }> {
+    const createdAfter = search.lastRunAt;
+
+    switch (search.kind) {
+      case 'members': {
+        const result = await this.userProfileService.list({
+          ...memberListFilters(search.filters as MemberFilters),
+          createdAfter,
+          sort: 'recent',
+          limit,
+        });
+        return { total: result.total, matches: result.data.map((profile: any) => this.memberMatch(profile)) };
+      }
+      case 'doctors': {
+        const result = await this.userProfileService.listDoctors({
+          ...doctorListFilters(search.filters as DoctorFilters),
+          createdAfter,
+          sort: 'recent',
+          limit,
+        });
+        return { total: result.total, matches: result.data.map((profile: any) => this.memberMatch(profile)) };
+      }
+      case 'businesses': {
+        const result = await this.searchService.searchBusinesses(search.filters['query'] || '', limit, {
+          corrections: false,
+          createdAfter,
+        });
+        return {
+          total: result.total,
+          matches: result.businesses.map(business => ({ id: business.id, label: business.companyName })),
+        };
+      }
+    }
+  }
+
+  /**
+   * Scheduled job: alert owners of due searches about new matches and schedule the next run
+   */
+  async runDue(): Promise<{ run: number; alerted: number; failed: number }> {
+    const due = await this.db
+      .select()
+      .from(savedSearches)
+      .where(lte(savedSearches.nextRunAt, new Date()))
+      .orderBy(asc(savedSearches.nextRunAt))
+      .limit(RUN_BATCH_SIZE);
+
+    const result = { run: 0, alerted: 0, failed: 0 };
+
+    for (const search of due) {
+      const startedAt = new Date();
+
+      try {
+        const { total, matches } = await this.newMatches(search);
+
+        if (total > 0) {
+          await this.notificationService?.notifySavedSearch(search, total, matches);
+          result.alerted++;
+        }
+
+        await this.db
+          .update(savedSearches)
+          .set({ lastRunAt: startedAt, nextRunAt: this.nextRunAt(search.frequency, startedAt) })
+          .where(eq(savedSearches.id, search.id));
+        result.run++;
+      } catch (error) {
+        // Try again next period; new matches keep accumulating since lastRunAt
+        this.log?.warn({ err: error, savedSearchId: search.id }, 'Saved search run failed');
+        await this.db
+          .update(savedSearches)
+          .set({ nextRunAt: this.nextRunAt(search.frequency, startedAt) })
+          .where(eq(savedSearches.id, search.id));
+        result.failed++;
+      }
+    }
+
+    return result;
+  }
+
+  private cleanFilters(kind: SavedSearchKind, filters: Record<string, any>): Record<string, any> {
+    const cleaned = Object.fromEntries(
+      Object.entries(filters).filter(([key, value]) =>
+        FILTER_FIELDS[kind].includes(key) && value !== undefined && value !== null && value !== ''
+      )
+    );
+
+    if (kind === 'businesses' && typeof cleaned['query'] !== 'string') {
+      throw new SavedSearchError('Business searches need a query', 400);
+    }
+
+    return cleaned;
+  }
+
+  private nextRunAt(frequency: SavedSearchFrequency, from: Date): Date | null {
+    return frequency === 'off' ? null : new Date(from.getTime() + FREQUENCY_INTERVAL_MS[frequency]);
+  }
+
+  private memberMatch(profile: { id: string; firstName: string; lastName: string }): SavedSearchMatch {
+    return { id: profile.id, label: `${profile.firstName} ${profile.lastName}` };
+  }
+}
@@ -1,4 +1,4 @@
-import { sql, like, or, and, eq, inArray, ilike } from 'drizzle-orm';
+import { sql, like, or, and, eq, gt, inArray, ilike, isNull, type SQL } from 'drizzle-orm';
 import { user } from '../models/user';
 import { businessDetails } from '../models/business_details';
 import { postUpdates } from '../models/post_updates';
@@ -6,8 +6,93 @@ import { news } from '../models/news';
 import { media } from '../models/media';
 import { professions } from '../models/professions';
 import { specialization } from '../models/specialization';
+import { cities } from '../models/cities';
+import { jobPostings, type JobEmploymentType } from '../models/job_postings';
+import { openJobConditions } from './jobService';
 import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
 import type { SimpleMediaField } from '../utils/mediaHelpers';
+import type { JobFilters } from '../utils/searchFilters';
+
+// ts_headline marks matches with these private use characters, so the text can be
+// HTML-escaped before they are turned into <mark> tags (see headline)
+const MARK_START = '\uE000';
+const MARK_END = '\uE001';
+const HEADLINE_ALL = `StartSel=${MARK_START}, StopSel=${MARK_END}, HighlightAll=true`;
+const HEADLINE_FRAGMENTS = `StartSel=${MARK_START}, StopSel=${MARK_END}, MaxFragments=2, MaxWords=20, MinWords=8, FragmentDelimiter=" … "`;
+
+// pg_trgm thresholds, applied per transaction. Low enough for typos like "Hyderbad" -> "Hyderabad"
+const SIMILARITY_THRESHOLD = 0.3;
+const WORD_SIMILARITY_THRESHOLD = 0.4;
+// Statement timeouts: suggestions are typeahead, so they give up early and return nothing
+const SUGGESTIONS_TIMEOUT_MS = 250;
+const FUZZY_TIMEOUT_MS = 2000;
+const MAX_CORRECTED_WORDS = 5;
+
+/**
+ * A ts_headline snippet as safe HTML: the stored text is escaped, and the only markup
+ * is the <mark> around matches. Marker characters already in the text are dropped.
+ */
+function headline(config: 'simple' | 'english', document: SQL, q: SQL, options: string): SQL<string | null> {
+  const highlighted = sql`ts_headline(${sql.raw(`'${config}'`)}, translate(${document}, ${MARK_START + MARK_END}, ''), ${q}, ${options})`;
+  const escaped = sql`replace(replace(replace(replace(replace(${highlighted}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;'), '''', '&#39;')`;
+  return sql<string | null>`replace(replace(${escaped}, ${MARK_START}, '<mark>'), ${MARK_END}, '</mark>')`;
+}
+
+export type SuggestionType = 'users' | 'businesses' | 'professions' | 'specializations' | 'cities';
+
+export interface Suggestion {
+  type: 'user' | 'business' | 'profession' | 'specialization' | 'city';
+  id: string;
+  label: string;
+  subtitle: string | null;
+  score: number;
+}
+
+interface SearchOptions {
+  // Work out a "did you mean" correction when nothing matches; globalSearch does it once for all types
+  corrections?: boolean;
+  // Only records created after this, exact matches only (saved search alerts)
+  createdAfter?: Date;
+}
+
+/**
+ * Turn free text into a tsquery where every word must match as a prefix,
+ * e.g. "jo smi" -> "jo:* & smi:*". Returns null when nothing searchable remains.
+ */
+export function toPrefixQuery(query: string): string | null {
+  const words = query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .slice(0, 10);
+
+  return words.length > 0 ? words.map(word => `${word}:*`).join(' & ') : null;
+}
+
+/*
+ * Weighted document vectors. These must stay identical to the expression
+ * indexes in src/db/search_indexes.sql, or Postgres won't use the indexes.
+ */
+
+function userSearchVector() {
+  return sql`(setweight(to_tsvector('simple', coalesce(${user.firstName}, '') || ' ' || coalesce(${user.lastName}, '')), 'A') || setweight(to_tsvector('simple', coalesce(${user.organization}, '')), 'B') || setweight(to_tsvector('simple', coalesce(${user.currentCity}, '')), 'C') || setweight(to_tsvector('simple', coalesce(${user.graduationYear}::text, '')), 'D'))`;
+}
+
+function businessSearchVector() {
+  return sql`(setweight(to_tsvector('simple', coalesce(${businessDetails.companyName}, '')), 'A') || setweight(to_tsvector('simple', coalesce(${businessDetails.category}, '') || ' ' || coalesce(${businessDetails.subCategory}, '')), 'B') || setweight(to_tsvector('simple', coalesce(${businessDetails.location}, '')), 'C') || setweight(to_tsvector('simple', coalesce(${businessDetails.description}, '')), 'D'))`;
+}
+
+function postSearchVector() {
+  return sql`(setweight(to_tsvector('english', coalesce(${postUpdates.content}, '')), 'A') || setweight(to_tsvector('english', coalesce(${postUpdates.location}, '')), 'C'))`;
+}
+
+function newsSearchVector() {
+  return sql`(setweight(to_tsvector('english', coalesce(${news.title}, '')), 'A') || setweight(to_tsvector('english', coalesce(${news.summary}, '')), 'B') || setweight(to_tsvector('english', coalesce(${news.content}, '')), 'C'))`;
+}
+
+function jobSearchVector() {
+  return sql`(setweight(to_tsvector('english', coalesce(${jobPostings.title}, '')), 'A') || setweight(to_tsvector('english', coalesce(${jobPostings.city}, '')), 'B') || setweight(to_tsvector('english', coalesce(${jobPostings.description}, '')), 'C'))`;
+}
 
 export class SearchServiceEnhanced {
   constructor(private db: NodePgDatabase<any>) {}
@@ -21,7 +106,7 @@ export class SearchServiceEnhanced {
     };
   }
 
-  async searchUsers(query: string, limit: number = 10): Promise<{
+  async searchUsers(query: string, limit: number = 10, options: SearchOptions = {}): Promise<{
     users: Array<{
       id: string;
       firstName: string;
@@ -33,9 +118,37 @@ export class SearchServiceEnhanced {
       specialization: string | null;
       graduationYear: number | null;
       bloodGroup: string | null;
+      snippet: string | null;
     }>,
       total: number;
+      didYouMean: string | null;
+      matchedFullText: boolean;
   }> {
+    const tsQuery = toPrefixQuery(query);
+    if (!tsQuery) return { users: [], total: 0, didYouMean: null, matchedFullText: false };
+
+    const q = sql`to_tsquery('simple', ${tsQuery})`;
+    const vector = userSearchVector();
+    // Profession and specialization live in other tables, so they match without ranking
+    const whereClause = and(
+      eq(user.visibilityPreference, true),
+      or(
+        sql`${vector} @@ ${q}`,
+        sql`${user.professionId} IN (SELECT ${professions.id} FROM ${professions} WHERE to_tsvector('simple', ${professions.name}) @@ ${q})`,
+        sql`${user.specializationId} IN (SELECT ${specialization.id} FROM ${specialization} WHERE to_tsvector('simple', ${specialization.name}) @@ ${q})`
+      )
+    );
+
+    const [countResult] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(user)
+      .where(whereClause);
+
+    if (!countResult?.count) {
+      const fuzzy = await this.fuzzyUsers(query, limit);
+      return { ...fuzzy, didYouMean: await this.correctionFor(query, options), matchedFullText: false };
+    }
+
     const results = await this.db
       .select({
         user: {
@@ -50,27 +163,15 @@ export class SearchServiceEnhanced {
         },
         profession: professions.name,
         specialization: specialization.name,
-        media: media.url
+        media: media.url,
+        snippet: headline('simple', sql`concat_ws(' · ', ${user.firstName} || ' ' || ${user.lastName}, ${user.organization}, ${user.currentCity})`, q, HEADLINE_ALL),
       })
       .from(user)
       .leftJoin(professions, eq(user.professionId, professions.id))
       .leftJoin(specialization, eq(user.specializationId, specialization.id))
       .leftJoin(media, sql`${user.profilePic}::text = ${media.id}::text`)
-      .where(
-        and(
-          eq(user.visibilityPreference, true),
-          or(
-            sql`${user.firstName} ILIKE ${'%' + query + '%'}`,
-            sql`${user.lastName} ILIKE ${'%' + query + '%'}`,
-            sql`${user.organization} ILIKE ${'%' + query + '%'}`,
-            sql`${user.currentCity} ILIKE ${'%' + query + '%'}`,
-            sql`${user.graduationYear}::text ILIKE ${'%' + query + '%'}`,
-            sql`${user.bloodGroup} ILIKE ${'%' + query + '%'}`,
-            sql`${professions.name} ILIKE ${'%' + query + '%'}`,
-            sql`${specialization.name} ILIKE ${'%' + query + '%'}`
-          )
-        )
-      )
+      .where(whereClause)
+      .orderBy(sql`ts_rank(${vector}, ${q}) DESC`, user.firstName, user.lastName, user.id)
       .limit(limit);
 
     return {
@@ -84,51 +185,76 @@ export class SearchServiceEnhanced {
         profession: r.profession,
         specialization: r.specialization,
         graduationYear: r.user.graduationYear,
-        bloodGroup: r.user.bloodGroup
+        bloodGroup: r.user.bloodGroup,
+        snippet: r.snippet,
       })),
-      total: results.length
+      total: countResult.count,
+      didYouMean: null,
+      matchedFullText: true,
     };
   }
 
-  async searchBusinesses(query: string, limit: number = 10): Promise<{
+  async searchBusinesses(query: string, limit: number = 10, options: SearchOptions = {}): Promise<{
     businesses: Array<{
       id: string;
       companyName: string;
       category: string | null;
       location: string | null;
       logo: string | null;
+      snippet: string | null;
     }>;
     total: number;
+    didYouMean: string | null;
+    matchedFullText: boolean;
   }> {
+    const tsQuery = toPrefixQuery(query);
+    if (!tsQuery) return { businesses: [], total: 0, didYouMean: null, matchedFullText: false };
+
+    const q = sql`to_tsquery('simple', ${tsQuery})`;
+    const vector = businessSearchVector();
+    const whereClause = and(
+      sql`${vector} @@ ${q}`,
+      options.createdAfter ? gt(businessDetails.createdAt, options.createdAfter) : undefined
+    );
+
+    const [countResult] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(businessDetails)
+      .where(whereClause);
+
+    if (!countResult?.count && options.createdAfter) {
+      return { businesses: [], total: 0, didYouMean: null, matchedFullText: false };
+    }
+
+    if (!countResult?.count) {
+      const fuzzy = await this.fuzzyBusinesses(query, limit);
+      return { ...fuzzy, didYouMean: await this.correctionFor(query, options), matchedFullText: false };
+    }
+
     const results = await this.db
       .select({
         id: businessDetails.id,
         companyName: businessDetails.companyName,
         category: businessDetails.category,
         location: businessDetails.location,
-        logo: media.url
+        logo: media.url,
+        snippet: headline('simple', sql`concat_ws(' · ', ${businessDetails.companyName}, ${businessDetails.category}, ${businessDetails.location}, ${businessDetails.description})`, q, HEADLINE_FRAGMENTS),
       })
       .from(businessDetails)
       .leftJoin(media, sql`${businessDetails.logo}::text = ${media.id}::text`)
-      .where(
-        or(
-          sql`${businessDetails.companyName} ILIKE ${'%' + query + '%'}`,
-          sql`${businessDetails.category}::text ILIKE ${'%' + query + '%'}`,
-          sql`${businessDetails.name} ILIKE ${'%' + query + '%'}`
-        )
-      )
+      .where(whereClause)
+      .orderBy(sql`ts_rank(${vector}, ${q}) DESC`, businessDetails.companyName, businessDetails.id)
       .limit(limit);
 
     return {
-      businesses: results.map(r => ({
-        ...r,
-        logo:r.logo
-      })),
-      total: results.length
+      businesses: results,
+      total: countResult.count,
+      didYouMean: null,
+      matchedFullText: true,
     };
   }
 
-  async searchPosts(query: string, limit: number = 10): Promise<{
+  async searchPosts(query: string, limit: number = 10, options: SearchOptions = {}): Promise<{
     posts: Array<{
       id: string;
       content: string;
@@ -139,9 +265,33 @@ export class SearchServiceEnhanced {
         lastName: string;
       } | null;
       publishedAt: Date | null;
+      snippet: string | null;
     }>;
     postscount: number;
+    didYouMean: string | null;
+    matchedFullText: boolean;
   }> {
+    const tsQuery = toPrefixQuery(query);
+    if (!tsQuery) return { posts: [], postscount: 0, didYouMean: null, matchedFullText: false };
+
+    const q = sql`to_tsquery('english', ${tsQuery})`;
+    const vector = postSearchVector();
+    const whereClause = and(
+      eq(postUpdates.status, 'published'),
+      // Group posts are only found inside their group
+      isNull(postUpdates.groupId),
+      sql`${vector} @@ ${q}`
+    );
+
+    const [countResult] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(postUpdates)
+      .where(whereClause);
+
+    if (!countResult?.count) {
+      return { posts: [], postscount: 0, didYouMean: await this.correctionFor(query, options), matchedFullText: false };
+    }
+
     const results = await this.db
       .select({
         post: {
@@ -155,18 +305,14 @@ export class SearchServiceEnhanced {
           firstName: user.firstName,
           lastName: user.lastName,
         },
+        snippet: headline('english', sql`${postUpdates.content}`, q, HEADLINE_FRAGMENTS),
       })
       .from(postUpdates)
       .leftJoin(user, eq(user.id, postUpdates.postByUserId))
       .leftJoin(media, sql`${postUpdates.featuredImage}::text = ${media.id}::text`)
-      .where(
-        and(
-          eq(postUpdates.status, 'published'),
-          sql`${postUpdates.content} ILIKE ${'%' + query + '%'}`,
-        )
-      )
-      .limit(limit)
-      .orderBy(sql`${postUpdates.publishedAt} DESC`);
+      .where(whereClause)
+      .orderBy(sql`ts_rank(${vector}, ${q}) DESC`, sql`${postUpdates.publishedAt} DESC`)
+      .limit(limit);
 
     return {
       posts: results.map(r => ({
@@ -175,12 +321,15 @@ export class SearchServiceEnhanced {
         featuredImage: r.post.featuredImage,
         postByUser: r.postByUser,
         publishedAt: r.post.publishedAt,
+        snippet: r.snippet,
       })),
-      postscount: results.length,
+      postscount: countResult.count,
+      didYouMean: null,
+      matchedFullText: true,
     };
   }
 
-  async searchNews(query: string, limit: number = 10): Promise<{
+  async searchNews(query: string, limit: number = 10, options: SearchOptions = {}): Promise<{
     articles: Array<{
       id: string;
       title: string;
@@ -188,9 +337,31 @@ export class SearchServiceEnhanced {
       publishedAt: Date | null;
       featured: boolean | null;
       category: Array<string> | null;
+      snippet: string | null;
     }>;
     newscount: number;
+    didYouMean: string | null;
+    matchedFullText: boolean;
   }> {
+    const tsQuery = toPrefixQuery(query);
+    if (!tsQuery) return { articles: [], newscount: 0, didYouMean: null, matchedFullText: false };
+
+    const q = sql`to_tsquery('english', ${tsQuery})`;
+    const vector = newsSearchVector();
+    const whereClause = and(
+      eq(news.status, 'published'),
+      sql`${vector} @@ ${q}`
+    );
+
+    const [countResult] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(news)
+      .where(whereClause);
+
+    if (!countResult?.count) {
+      return { articles: [], newscount: 0, didYouMean: await this.correctionFor(query, options), matchedFullText: false };
+    }
+
     const results = await this.db
       .select({
         id: news.id,
@@ -198,32 +369,104 @@ export class SearchServiceEnhanced {
         summary: news.summary,
         publishedAt: news.publishedAt,
         featured: news.featured,
-        category: news.category
+        category: news.category,
+        snippet: headline('english', sql`${news.summary} || ' ' || ${news.content}`, q, HEADLINE_FRAGMENTS),
       })
       .from(news)
-      .where(
-        and(
-          eq(news.status, 'published'),
-          or(
-            sql`${news.title} ILIKE ${'%' + query + '%'}`,
-            sql`${news.content} ILIKE ${'%' + query + '%'}`,
-            sql`${news.summary} ILIKE ${'%' + query + '%'}`,
-            sql`${news.category}::text ILIKE ${'%' + query + '%'}`
-          )
-        )
-      )
-      .limit(limit)
-      .orderBy(sql`${news.publishedAt} DESC`);
+      .where(whereClause)
+      .orderBy(sql`ts_rank(${vector}, ${q}) DESC`, sql`${news.publishedAt} DESC`)
+      .limit(limit);
 
     return { articles: results,
-      newscount: results.length
+      newscount: countResult.count,
+      didYouMean: null,
+      matchedFullText: true,
      };
   }
 
+  /**
+   * Open jobs by title, city, description, profession, specialization or company,
+   * narrowed by the job board filters
+   */
+  async searchJobs(query: string, limit: number = 10, options: SearchOptions = {}, filters: JobFilters = {}): Promise<{
+    jobs: Array<{
+      id: string;
+      title: string;
+      city: string | null;
+      remote: boolean;
+      employmentType: JobEmploymentType;
+      salaryMin: number | null;
+      salaryMax: number | null;
+      salaryCurrency: string;
+      expiresAt: Date;
+      business: { id: string; companyName: string };
+      profession: string | null;
+      snippet: string | null;
+    }>;
+    total: number;
+    didYouMean: string | null;
+    matchedFullText: boolean;
+  }> {
+    const tsQuery = toPrefixQuery(query);
+    if (!tsQuery) return { jobs: [], total: 0, didYouMean: null, matchedFullText: false };
+
+    const q = sql`to_tsquery('english', ${tsQuery})`;
+    const vector = jobSearchVector();
+    // Profession, specialization and company live in other tables, so they match without ranking
+    const whereClause = and(
+      ...openJobConditions(filters),
+      options.createdAfter ? gt(jobPostings.createdAt, options.createdAfter) : undefined,
+      or(
+        sql`${vector} @@ ${q}`,
+        sql`${jobPostings.professionId} IN (SELECT ${professions.id} FROM ${professions} WHERE to_tsvector('english', ${professions.name}) @@ ${q})`,
+        sql`${jobPostings.specializationId} IN (SELECT ${specialization.id} FROM ${specialization} WHERE to_tsvector('english', ${specialization.name}) @@ ${q})`,
+        sql`${jobPostings.businessId} IN (SELECT ${businessDetails.id} FROM ${businessDetails} WHERE to_tsvector('simple', ${businessDetails.companyName}) @@ to_tsquery('simple', ${tsQuery}))`
+      )
+    );
+
+    const [countResult] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(jobPostings)
+      .where(whereClause);
+
+    if (!countResult?.count) {
+      return { jobs: [], total: 0, didYouMean: await this.correctionFor(query, options), matchedFullText: false };
+    }
+
+    const results = await this.db
+      .select({
+        id: jobPostings.id,
+        title: jobPostings.title,
+        city: jobPostings.city,
+        remote: jobPostings.remote,
+        employmentType: jobPostings.employmentType,
+        salaryMin: jobPostings.salaryMin,
+        salaryMax: jobPostings.salaryMax,
+        salaryCurrency: jobPostings.salaryCurrency,
+        expiresAt: jobPostings.expiresAt,
+        business: { id: businessDetails.id, companyName: businessDetails.companyName },
+        profession: professions.name,
+        snippet: headline('english', sql`concat_ws(' · ', ${jobPostings.title}, ${jobPostings.city}, ${jobPostings.description})`, q, HEADLINE_FRAGMENTS),
+      })
+      .from(jobPostings)
+      .innerJoin(businessDetails, eq(businessDetails.id, jobPostings.businessId))
+      .leftJoin(professions, eq(professions.id, jobPostings.professionId))
+      .where(whereClause)
+      .orderBy(sql`ts_rank(${vector}, ${q}) DESC`, sql`${jobPostings.createdAt} DESC`)
+      .limit(limit);
+
+    return {
+      jobs: results,
+      total: countResult.count,
+      didYouMean: null,
+      matchedFullText: true,
+    };
+  }
+
   async globalSearch(
     query: string,
     options: {
-      types?: ('users' | 'businesses' | 'posts' | 'news')[];
+      types?: ('users' | 'businesses' | 'posts' | 'news' | 'jobs')[];
       limit?: number;
     } = {}
   ): Promise<{
@@ -232,15 +475,18 @@ export class SearchServiceEnhanced {
       businesses?: any[];
       posts?: any[];
       news?: any[];
+      jobs?: any[];
     };
     totals: {
       users: number;
       businesses: number;
       posts: number;
       news: number;
+      jobs: number;
     };
+    didYouMean: string | null;
   }> {
-    const searchTypes = options.types || ['users', 'businesses', 'posts', 'news'];
+    const searchTypes = options.types || ['users', 'businesses', 'posts', 'news', 'jobs'];
     const limit = options.limit || 5;
     const results: any = {};
     const totals = {
@@ -248,36 +494,278 @@ export class SearchServiceEnhanced {
       businesses: 0,
       posts: 0,
       news: 0,
+      jobs: 0,
     };
+    const noCorrections = { corrections: false };
+    let matchedFullText = false;
 
     // Search users
     if (searchTypes.includes('users')) {
-      const userResults = await this.searchUsers(query, limit);
+      const userResults = await this.searchUsers(query, limit, noCorrections);
+      matchedFullText ||= userResults.matchedFullText;
       results.users = userResults.users;
-      totals.users = userResults.users.length;
+      totals.users = userResults.total;
     }
 
     // Search businesses
     if (searchTypes.includes('businesses')) {
-      const businessResults = await this.searchBusinesses(query, limit);
+      const businessResults = await this.searchBusinesses(query, limit, noCorrections);
+      matchedFullText ||= businessResults.matchedFullText;
       results.businesses = businessResults.businesses;
-      totals.businesses = businessResults.businesses.length;
+      totals.businesses = businessResults.total;
     }
 
     // Search posts
     if (searchTypes.includes('posts')) {
-      const postResults = await this.searchPosts(query, limit);
+      const postResults = await this.searchPosts(query, limit, noCorrections);
+      matchedFullText ||= postResults.matchedFullText;
       results.posts = postResults.posts;
-      totals.posts = postResults.posts.length;
+      totals.posts = postResults.postscount;
     }
 
     // Search news
     if (searchTypes.includes('news')) {
-      const newsResults = await this.searchNews(query, limit);
+      const newsResults = await this.searchNews(query, limit, noCorrections);
+      matchedFullText ||= newsResults.matchedFullText;
       results.news = newsResults.articles;
-      totals.news = newsResults.articles.length;
+      totals.news = newsResults.newscount;
     }
 
-    return { results, totals };
+    // Search jobs
+    if (searchTypes.includes('jobs')) {
+      const jobResults = await this.searchJobs(query, limit, noCorrections);
+      matchedFullText ||= jobResults.matchedFullText;
+      results.jobs = jobResults.jobs;
+      totals.jobs = jobResults.total;
+    }
+
+    const didYouMean = matchedFullText ? null : await this.correctionFor(query);
+
+    return { results, totals, didYouMean };
+  }
+
+  // Typo tolerance (pg_trgm)
+
+  /**
+   * Mixed-type typeahead: members, businesses, professions, specializations and cities
+   * whose names resemble the query, best first. Prefix matches rank above fuzzy ones.
+   * Gives up after SUGGESTIONS_TIMEOUT_MS and returns nothing rather than holding up typing.
+   */
+  async getSuggestions(query: string, options: { types?: SuggestionType[] | undefined; limit?: number | undefined } = {}): Promise<Suggestion[]> {
+    const term = query.trim();
+    if (!term) return [];
+
+    const types = options.types?.length ? options.types : ['users', 'businesses', 'professions', 'specializations', 'cities'];
+    const limit = options.limit || 8;
+    const prefix = `${term.replace(/[\\%_]/g, '\\$&')}%`;
+
+    const fullName = sql`(${user.firstName} || ' ' || ${user.lastName})`;
+    const candidate = (label: SQL) => ({
+      where: sql`(${term} <% ${label} OR ${label} ILIKE ${prefix})`,
+      score: sql`word_similarity(${term}, ${label}) + CASE WHEN ${label} ILIKE ${prefix} THEN 0.5 ELSE 0 END`,
+    });
+
+    const parts: SQL[] = [];
+    if (types.includes('users')) {
+      const { where, score } = candidate(fullName);
+      parts.push(sql`(SELECT 'user' AS type, ${user.id}::text AS id, ${fullName} AS label, ${user.currentCity} AS subtitle, ${score} AS score
+        FROM ${user} WHERE ${user.visibilityPreference} = true AND ${where} ORDER BY score DESC LIMIT ${limit})`);
+    }
+    if (types.includes('businesses')) {
+      const { where, score } = candidate(sql`${businessDetails.companyName}`);
+      parts.push(sql`(SELECT 'business' AS type, ${businessDetails.id}::text AS id, ${businessDetails.companyName} AS label, ${businessDetails.category} AS subtitle, ${score} AS score
+        FROM ${businessDetails} WHERE ${where} ORDER BY score DESC LIMIT ${limit})`);
+    }
+    if (types.includes('professions')) {
+      const { where, score } = candidate(sql`${professions.name}`);
+      parts.push(sql`(SELECT 'profession' AS type, ${professions.id}::text AS id, ${professions.name} AS label, NULL AS subtitle, ${score} AS score
+        FROM ${professions} WHERE ${where} ORDER BY score DESC LIMIT ${limit})`);
+    }
+    if (types.includes('specializations')) {
+      const { where, score } = candidate(sql`${specialization.name}`);
+      parts.push(sql`(SELECT 'specialization' AS type, ${specialization.id}::text AS id, ${specialization.name} AS label, NULL AS subtitle, ${score} AS score
+        FROM ${specialization} WHERE ${where} ORDER BY score DESC LIMIT ${limit})`);
+    }
+    if (types.includes('cities')) {
+      const { where, score } = candidate(sql`${cities.name}`);
+      parts.push(sql`(SELECT 'city' AS type, ${cities.id}::text AS id, ${cities.name} AS label, ${cities.stateCode} AS subtitle, ${score} AS score
+        FROM ${cities} WHERE ${where} ORDER BY score DESC LIMIT ${limit})`);
+    }
+
+    return this.withTrigram(SUGGESTIONS_TIMEOUT_MS, [], async (tx) => {
+      const result = await tx.execute(sql`SELECT * FROM (${sql.join(parts, sql` UNION ALL `)}) AS suggestions ORDER BY score DESC, label LIMIT ${limit}`);
+
+      return result.rows.map((row: any) => ({
+        type: row.type,
+        id: row.id,
+        label: row.label,
+        subtitle: row.subtitle ?? null,
+        score: Number(row.score),
+      }));
+    });
+  }
+
+  /**
+   * Corrected query built from the closest known name, profession, specialization,
+   * city or company for each word, e.g. "cardiolgy hyderbad" -> "Cardiology Hyderabad".
+   * Null when nothing better is known.
+   */
+  async didYouMean(query: string): Promise<string | null> {
+    const words = query.trim().split(/\s+/).filter(Boolean).slice(0, MAX_CORRECTED_WORDS);
+    if (words.length === 0) return null;
+
+    const corrected = await this.withTrigram(FUZZY_TIMEOUT_MS, null, async (tx) => {
+      const replacements: string[] = [];
+
+      for (const word of words) {
+        const result = await tx.execute<{ candidate: string | null }>(sql`
+          SELECT candidate FROM (
+            SELECT ${professions.name} AS candidate FROM ${professions} WHERE ${professions.name} % ${word}
+            UNION ALL SELECT ${specialization.name} FROM ${specialization} WHERE ${specialization.name} % ${word}
+            UNION ALL SELECT ${cities.name} FROM ${cities} WHERE ${cities.name} % ${word}
+            UNION ALL SELECT ${user.firstName} FROM ${user} WHERE ${user.firstName} % ${word}
+            UNION ALL SELECT ${user.lastName} FROM ${user} WHERE ${user.lastName} % ${word}
+            UNION ALL SELECT ${businessDetails.companyName} FROM ${businessDetails} WHERE ${businessDetails.companyName} % ${word}
+          ) AS candidates
+          ORDER BY similarity(candidate, ${word}) DESC, candidate
+          LIMIT 1
+        `);
+
+        replacements.push(result.rows[0]?.candidate ?? word);
+      }
+
+      return replacements;
+    });
+
+    if (!corrected) return null;
+
+    const suggestion = corrected.join(' ');
+    return suggestion.toLowerCase() === words.join(' ').toLowerCase() ? null : suggestion;
+  }
+
+  private async correctionFor(query: string, options: SearchOptions = {}): Promise<string | null> {
+    return options.corrections === false ? null : this.didYouMean(query);
+  }
+
+  /**
+   * Members whose name, organization, city, profession or specialization resembles the query
+   */
+  private async fuzzyUsers(query: string, limit: number) {
+    const term = query.trim();
+    const fullName = sql`(${user.firstName} || ' ' || ${user.lastName})`;
+    const professionMatch = sql`${user.professionId} IN (SELECT ${professions.id} FROM ${professions} WHERE ${term} <% ${professions.name})`;
+    const specializationMatch = sql`${user.specializationId} IN (SELECT ${specialization.id} FROM ${specialization} WHERE ${term} <% ${specialization.name})`;
+    const whereClause = and(
+      eq(user.visibilityPreference, true),
+      or(
+        sql`${term} <% ${fullName}`,
+        sql`${term} <% ${user.organization}`,
+        sql`${term} <% ${user.currentCity}`,
+        professionMatch,
+        specializationMatch
+      )
+    );
+    const score = sql`greatest(word_similarity(${term}, ${fullName}), word_similarity(${term}, coalesce(${user.organization}, '')), word_similarity(${term}, ${user.currentCity}), word_similarity(${term}, coalesce(${professions.name}, '')), word_similarity(${term}, coalesce(${specialization.name}, '')))`;
+
+    return this.withTrigram(FUZZY_TIMEOUT_MS, { users: [], total: 0 }, async (tx) => {
+      const [countResult] = await tx
+        .select({ count: sql<number>`count(*)::int` })
+        .from(user)
+        .where(whereClause);
+
+      const results = await tx
+        .select({
+          user: {
+            id: user.id,
+            firstName: user.firstName,
+            lastName: user.lastName,
+            currentCity: user.currentCity,
+            organization: user.organization,
+            graduationYear: user.graduationYear,
+            bloodGroup: user.bloodGroup
+          },
+          profession: professions.name,
+          specialization: specialization.name,
+          media: media.url,
+        })
+        .from(user)
+        .leftJoin(professions, eq(user.professionId, professions.id))
+        .leftJoin(specialization, eq(user.specializationId, specialization.id))
+        .leftJoin(media, sql`${user.profilePic}::text = ${media.id}::text`)
+        .where(whereClause)
+        .orderBy(sql`${score} DESC`, user.id)
+        .limit(limit);
+
+      return {
+        users: results.map(r => ({
+          ...r.user,
+          profilePic: r.media,
+          profession: r.profession,
+          specialization: r.specialization,
+          snippet: null,
+        })),
+        total: countResult?.count || 0,
+      };
+    });
+  }
+
+  /**
+   * Businesses whose name, category or location resembles the query
+   */
+  private async fuzzyBusinesses(query: string, limit: number) {
+    const term = query.trim();
+    const whereClause = or(
+      sql`${term} <% ${businessDetails.companyName}`,
+      sql`${term} <% ${businessDetails.category}`,
+      sql`${term} <% ${businessDetails.location}`
+    );
+    const score = sql`greatest(word_similarity(${term}, ${businessDetails.companyName}), word_similarity(${term}, coalesce(${businessDetails.category}, '')), word_similarity(${term}, coalesce(${businessDetails.location}, '')))`;
+
+    return this.withTrigram(FUZZY_TIMEOUT_MS, { businesses: [], total: 0 }, async (tx) => {
+      const [countResult] = await tx
+        .select({ count: sql<number>`count(*)::int` })
+        .from(businessDetails)
+        .where(whereClause);
+
+      const results = await tx
+        .select({
+          id: businessDetails.id,
+          companyName: businessDetails.companyName,
+          category: businessDetails.category,
+          location: businessDetails.location,
+          logo: media.url,
+        })
+        .from(businessDetails)
+        .leftJoin(media, sql`${businessDetails.logo}::text = ${media.id}::text`)
+        .where(whereClause)
+        .orderBy(sql`${score} DESC`, businessDetails.id)
+        .limit(limit);
+
+      return {
+        businesses: results.map(r => ({ ...r, snippet: null })),
+        total: countResult?.count || 0,
+      };
+    });
+  }
+
+  /**
+   * Run trigram queries with this module's similarity thresholds and a statement timeout.
+   * A timed-out query yields the fallback instead of an error.
+   */
+  private async withTrigram<T>(timeoutMs: number, fallback: T, run: (tx: NodePgDatabase<any>) => Promise<T>): Promise<T> {
+    try {
+      return await this.db.transaction(async (tx) => {
+        await tx.execute(sql`SELECT
+          set_config('statement_timeout', ${String(timeoutMs)}, true),
+          set_config('pg_trgm.similarity_threshold', ${String(SIMILARITY_THRESHOLD)}, true),
+          set_config('pg_trgm.word_similarity_threshold', ${String(WORD_SIMILARITY_THRESHOLD)}, true)`);
+
+        return run(tx);
+      });
+    } catch (error) {
+      // query_canceled: the statement timeout fired
+      if (error instanceof Error && 'code' in error && error.code === '57014') return fallback;
+      throw error;
+    }
   }
 }
\ No newline at end of file
@@ -1,9 +1,9 @@
-import { eq, and, desc, gte, or } from 'drizzle-orm';
+import { eq, and, desc, gt, ne, lt, inArray } from 'drizzle-orm';
 import { authUsers } from '../models/authUser';
-import { user } from '../models/user';
+import { sessions, type SessionRecord } from '../models/sessions';
+import { refreshTokens } from '../models/refresh_tokens';
 import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
 import type { FastifyInstance } from 'fastify';
-import { randomBytes } from 'crypto';
 
 export interface Session {
   id: string;
@@ -21,24 +21,17 @@ export interface Session {
 
 export interface DeviceInfo {
   deviceId: string;
-  deviceName?: string;
-  deviceType?: string;
-  userAgent?: string;
-  ipAddress?: string;
+  deviceName?: string | undefined;
+  deviceType?: string | undefined;
+  userAgent?: string | undefined;
+  ipAddress?: string | undefined;
 }
 
 export class SessionService {
-  // In-memory session storage (in production, use Redis or similar)
-  private sessions: Map<string, Session> = new Map();
-  private userSessions: Map<string, Set<string>> = new Map();
-
   constructor(
     private db: NodePgDatabase<any>,
     private fastify: FastifyInstance
-  ) {
-    // Clean up expired sessions every 5 minutes
-    setInterval(() => this.cleanupExpiredSessions(), 5 * 60 * 1000);
-  }
+  ) {}
 
   /**
    * Create a new session for a user
@@ -48,32 +41,22 @@ export class SessionService {
     deviceInfo: DeviceInfo,
     expiryHours: number = 24
   ): Promise<Session> {
-    const sessionId = this.generateSessionId();
     const now = new Date();
     const expiresAt = new Date(now.getTime() + expiryHours * 60 * 60 * 1000);
 
-    const session: Session = {
-      id: sessionId,
-      userId,
-      deviceId: deviceInfo.deviceId,
-      deviceName: deviceInfo.deviceName,
-      deviceType: deviceInfo.deviceType,
-      ipAddress: deviceInfo.ipAddress,
-      userAgent: deviceInfo.userAgent,
-      lastActivity: now,
-      expiresAt,
-      isActive: true,
-      createdAt: now,
-    };
-
-    // Store session
-    this.sessions.set(sessionId, session);
-
-    // Track user sessions
-    if (!this.userSessions.has(userId)) {
-      this.userSessions.set(userId, new Set());
-    }
-    this.userSessions.get(userId)!.add(sessionId);
+    const [session] = await this.db
+      .insert(sessions)
+      .values({
+        authUserId: userId,
+        deviceId: deviceInfo.deviceId,
+        deviceName: deviceInfo.deviceName || null,
+        deviceType: deviceInfo.deviceType || null,
+        ipAddress: deviceInfo.ipAddress || null,
+        userAgent: deviceInfo.userAgent || null,
+        lastActivity: now,
+        expiresAt,
+      })
+      .returning();
 
     // Update last login in database
     await this.db
@@ -81,46 +64,46 @@ export class SessionService {
       .set({ lastLoginAt: now })
       .where(eq(authUsers.id, userId));
 
-    return session;
+    return this.toSession(session!);
   }
 
   /**
-   * Get session by ID
+   * Get an active session by ID
    */
   async getSession(sessionId: string): Promise<Session | null> {
-    const session = this.sessions.get(sessionId);
-    
-    if (!session || !session.isActive || session.expiresAt < new Date()) {
-      return null;
-    }
+    const [session] = await this.db
+      .update(sessions)
+      .set({ lastActivity: new Date() })
+      .where(and(this.activeCondition(), eq(sessions.id, sessionId)))
+      .returning();
 
-    // Update last activity
-    session.lastActivity = new Date();
-    this.sessions.set(sessionId, session);
+    return session ? this.toSession(session) : null;
+  }
 
-    return session;
+  /**
+   * Check whether a session can still authenticate requests
+   */
+  async isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+    const [session] = await this.db
+      .select({ id: sessions.id })
+      .from(sessions)
+      .where(and(this.activeCondition(), eq(sessions.id, sessionId), eq(sessions.authUserId, userId)))
+      .limit(1);
+
+    return !!session;
   }
 
   /**
    * Get all active sessions for a user
    */
   async getUserSessions(userId: string): Promise<Session[]> {
-    const sessionIds = this.userSessions.get(userId);
-    if (!sessionIds) return [];
-
-    const activeSessions: Session[] = [];
-    const now = new Date();
+    const results = await this.db
+      .select()
+      .from(sessions)
+      .where(and(this.activeCondition(), eq(sessions.authUserId, userId)))
+      .orderBy(desc(sessions.lastActivity));
 
-    for (const sessionId of sessionIds) {
-      const session = this.sessions.get(sessionId);
-      if (session && session.isActive && session.expiresAt > now) {
-        activeSessions.push(session);
-      }
-    }
-
-    return activeSessions.sort((a, b) => 
-      b.lastActivity.getTime() - a.lastActivity.getTime()
-    );
+    return results.map(session => this.toSession(session));
   }
 
   /**
@@ -141,33 +124,35 @@ export class SessionService {
   }> {
     const now = new Date();
     const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000);
-    
-    let sessions: Session[] = [];
-    
+
+    let userSessions: Session[] = [];
+
     if (userId) {
-      sessions = await this.getUserSessions(userId);
+      userSessions = await this.getUserSessions(userId);
     } else {
       // Get all sessions
-      sessions = Array.from(this.sessions.values()).filter(
-        s => s.isActive && s.expiresAt > now
-      );
+      const results = await this.db
+        .select()
+        .from(sessions)
+        .where(this.activeCondition());
+      userSessions = results.map(session => this.toSession(session));
     }
 
     const byDeviceType: Record<string, number> = {};
     let recentActivity = 0;
 
-    sessions.forEach(session => {
+    userSessions.forEach(session => {
       const type = session.deviceType || 'unknown';
       byDeviceType[type] = (byDeviceType[type] || 0) + 1;
-      
+
       if (session.lastActivity > oneHourAgo) {
         recentActivity++;
       }
     });
 
     return {
-      totalSessions: sessions.length,
-      activeSessions: sessions.filter(s => s.lastActivity > oneHourAgo).length,
+      totalSessions: userSessions.length,
+      activeSessions: userSessions.filter(s => s.lastActivity > oneHourAgo).length,
       byDeviceType,
       recentActivity,
     };
@@ -177,21 +162,10 @@ export class SessionService {
    * Revoke a specific session
    */
   async revokeSession(sessionId: string, userId: string): Promise<boolean> {
-    const session = this.sessions.get(sessionId);
-    
-    if (!session || session.userId !== userId) {
-      return false;
-    }
-
-    session.isActive = false;
-    this.sessions.set(sessionId, session);
-    
-    const userSessionIds = this.userSessions.get(userId);
-    if (userSessionIds) {
-      userSessionIds.delete(sessionId);
-    }
-
-    return true;
+    const revoked = await this.revokeWhere(
+      and(eq(sessions.id, sessionId), eq(sessions.authUserId, userId))!
+    );
+    return revoked > 0;
   }
 
   /**
@@ -201,74 +175,53 @@ export class SessionService {
     userId: string,
     currentSessionId: string
   ): Promise<number> {
-    const sessionIds = this.userSessions.get(userId);
-    if (!sessionIds) return 0;
-
-    let revokedCount = 0;
-
-    for (const sessionId of sessionIds) {
-      if (sessionId !== currentSessionId) {
-        const session = this.sessions.get(sessionId);
-        if (session && session.isActive) {
-          session.isActive = false;
-          this.sessions.set(sessionId, session);
-          revokedCount++;
-        }
-      }
-    }
-
-    return revokedCount;
+    return this.revokeWhere(
+      and(eq(sessions.authUserId, userId), ne(sessions.id, currentSessionId))!
+    );
   }
 
   /**
    * Revoke all sessions for a user
    */
   async revokeAllSessions(userId: string): Promise<number> {
-    const sessionIds = this.userSessions.get(userId);
-    if (!sessionIds) return 0;
-
-    let revokedCount = 0;
-
-    for (const sessionId of sessionIds) {
-      const session = this.sessions.get(sessionId);
-      if (session && session.isActive) {
-        session.isActive = false;
-        this.sessions.set(sessionId, session);
-        revokedCount++;
-      }
-    }
-
-    this.userSessions.delete(userId);
-    return revokedCount;
+    return this.revokeWhere(eq(sessions.authUserId, userId));
   }
 
   /**
    * Extend session expiry
    */
   async extendSession(sessionId: string, additionalHours: number): Promise<Session | null> {
-    const session = this.sessions.get(sessionId);
-    
-    if (!session || !session.isActive) {
+    const existing = await this.getSession(sessionId);
+    if (!existing) {
       return null;
     }
 
     const now = new Date();
-    session.expiresAt = new Date(
-      Math.max(session.expiresAt.getTime(), now.getTime()) + 
+    const expiresAt = new Date(
+      Math.max(existing.expiresAt.getTime(), now.getTime()) +
       additionalHours * 60 * 60 * 1000
     );
-    session.lastActivity = now;
-    
-    this.sessions.set(sessionId, session);
-    return session;
+
+    const [session] = await this.db
+      .update(sessions)
+      .set({ expiresAt, lastActivity: now })
+      .where(eq(sessions.id, sessionId))
+      .returning();
+
+    return session ? this.toSession(session) : null;
   }
 
   /**
    * Get device-specific sessions
    */
   async getDeviceSessions(userId: string, deviceId: string): Promise<Session[]> {
-    const userSessions = await this.getUserSessions(userId);
-    return userSessions.filter(s => s.deviceId === deviceId);
+    const results = await this.db
+      .select()
+      .from(sessions)
+      .where(and(this.activeCondition(), eq(sessions.authUserId, userId), eq(sessions.deviceId, deviceId)))
+      .orderBy(desc(sessions.lastActivity));
+
+    return results.map(session => this.toSession(session));
   }
 
   /**
@@ -278,29 +231,28 @@ export class SessionService {
     sessionId: string,
     deviceInfo: Partial<DeviceInfo>
   ): Promise<Session | null> {
-    const session = this.sessions.get(sessionId);
-    
-    if (!session || !session.isActive) {
-      return null;
-    }
+    const updates: Partial<SessionRecord> = { lastActivity: new Date() };
+
+    if (deviceInfo.deviceName !== undefined) updates.deviceName = deviceInfo.deviceName;
+    if (deviceInfo.deviceType !== undefined) updates.deviceType = deviceInfo.deviceType;
+    if (deviceInfo.userAgent !== undefined) updates.userAgent = deviceInfo.userAgent;
+    if (deviceInfo.ipAddress !== undefined) updates.ipAddress = deviceInfo.ipAddress;
+
+    const [session] = await this.db
+      .update(sessions)
+      .set(updates)
+      .where(and(this.activeCondition(), eq(sessions.id, sessionId)))
+      .returning();
 
-    if (deviceInfo.deviceName !== undefined) session.deviceName = deviceInfo.deviceName;
-    if (deviceInfo.deviceType !== undefined) session.deviceType = deviceInfo.deviceType;
-    if (deviceInfo.userAgent !== undefined) session.userAgent = deviceInfo.userAgent;
-    if (deviceInfo.ipAddress !== undefined) session.ipAddress = deviceInfo.ipAddress;
-    
-    session.lastActivity = new Date();
-    this.sessions.set(sessionId, session);
-    
-    return session;
+    return session ? this.toSession(session) : null;
   }
 
   /**
    * Check if user has active sessions
    */
   async hasActiveSessions(userId: string): Promise<boolean> {
-    const sessions = await this.getUserSessions(userId);
-    return sessions.length > 0;
+    const userSessions = await this.getUserSessions(userId);
+    return userSessions.length > 0;
   }
 
   /**
@@ -311,7 +263,7 @@ export class SessionService {
     mostActiveDevice: { deviceId: string; deviceName?: string; sessionCount: number } | null;
     averageSessionDuration: number;
   }> {
-    const sessions = await this.getUserSessions(userId);
+    const userSessions = await this.getUserSessions(userId);
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - days);
 
@@ -319,17 +271,17 @@ export class SessionService {
     const dailyActivity: Record<string, { sessions: Set<string>; devices: Set<string> }> = {};
     const deviceActivity: Record<string, number> = {};
 
-    sessions.forEach(session => {
+    userSessions.forEach(session => {
       if (session.createdAt >= cutoffDate) {
-        const dateKey = session.createdAt.toISOString().split('T')[0];
-        
+        const dateKey = session.createdAt.toISOString().split('T')[0]!;
+
         if (!dailyActivity[dateKey]) {
           dailyActivity[dateKey] = { sessions: new Set(), devices: new Set() };
         }
-        
+
         dailyActivity[dateKey].sessions.add(session.id);
         dailyActivity[dateKey].devices.add(session.deviceId);
-        
+
         deviceActivity[session.deviceId] = (deviceActivity[session.deviceId] || 0) + 1;
       }
     });
@@ -344,27 +296,27 @@ export class SessionService {
       .sort((a, b) => a.date.localeCompare(b.date));
 
     // Find most active device
-    let mostActiveDevice = null;
+    let mostActiveDevice: { deviceId: string; deviceName?: string; sessionCount: number } | null = null;
     let maxActivity = 0;
-    
+
     for (const [deviceId, count] of Object.entries(deviceActivity)) {
       if (count > maxActivity) {
         maxActivity = count;
-        const deviceSession = sessions.find(s => s.deviceId === deviceId);
+        const deviceSession = userSessions.find(s => s.deviceId === deviceId);
         mostActiveDevice = {
           deviceId,
-          deviceName: deviceSession?.deviceName,
+          ...(deviceSession?.deviceName && { deviceName: deviceSession.deviceName }),
           sessionCount: count,
         };
       }
     }
 
     // Calculate average session duration (in minutes)
-    const sessionDurations = sessions.map(session => {
+    const sessionDurations = userSessions.map(session => {
       const duration = session.lastActivity.getTime() - session.createdAt.getTime();
       return duration / (1000 * 60); // Convert to minutes
     });
-    
+
     const averageSessionDuration = sessionDurations.length > 0
       ? Math.round(sessionDurations.reduce((a, b) => a + b, 0) / sessionDurations.length)
       : 0;
@@ -377,37 +329,59 @@ export class SessionService {
   }
 
   /**
-   * Clean up expired sessions
+   * Delete expired sessions (should be run periodically)
    */
-  private cleanupExpiredSessions(): void {
-    const now = new Date();
-    let cleanedCount = 0;
-
-    for (const [sessionId, session] of this.sessions.entries()) {
-      if (!session.isActive || session.expiresAt < now) {
-        this.sessions.delete(sessionId);
-        
-        const userSessionIds = this.userSessions.get(session.userId);
-        if (userSessionIds) {
-          userSessionIds.delete(sessionId);
-          if (userSessionIds.size === 0) {
-            this.userSessions.delete(session.userId);
-          }
-        }
-        
-        cleanedCount++;
-      }
+  async cleanupExpiredSessions(): Promise<number> {
+    const deleted = await this.db
+      .delete(sessions)
+      .where(lt(sessions.expiresAt, new Date()))
+      .returning({ id: sessions.id });
+
+    if (deleted.length > 0) {
+      this.fastify.log.info(`Cleaned up ${deleted.length} expired sessions`);
     }
 
-    if (cleanedCount > 0) {
-      this.fastify.log.info(`Cleaned up ${cleanedCount} expired sessions`);
-    }
+    return deleted.length;
   }
 
   /**
-   * Generate a secure session ID
+   * Deactivate matching sessions and revoke their refresh token families
    */
-  private generateSessionId(): string {
-    return randomBytes(32).toString('hex');
+  private async revokeWhere(condition: ReturnType<typeof eq>): Promise<number> {
+    const now = new Date();
+    const revoked = await this.db
+      .update(sessions)
+      .set({ isActive: false, revokedAt: now })
+      .where(and(eq(sessions.isActive, true), condition))
+      .returning({ id: sessions.id });
+
+    if (revoked.length > 0) {
+      await this.db
+        .update(refreshTokens)
+        .set({ revokedAt: now })
+        .where(inArray(refreshTokens.familyId, revoked.map(s => s.id)));
+    }
+
+    return revoked.length;
+  }
+
+  private activeCondition() {
+    return and(eq(sessions.isActive, true), gt(sessions.expiresAt, new Date()));
+  }
+
+  private toSession(record: SessionRecord): Session {
+    return {
+      id: record.id,
+      userId: record.authUserId,
+      deviceId: record.deviceId,
+      ...(record.deviceName && { deviceName: record.deviceName }),
+      ...(record.deviceType && { deviceType: record.deviceType }),
+      ...(record.ipAddress && { ipAddress: record.ipAddress }),
+      ...(record.userAgent && { userAgent: record.userAgent }),
+      lastActivity: record.lastActivity,
+      expiresAt: record.expiresAt,
+      isActive: record.isActive,
+      createdAt: record.createdAt,
+    };
   }
-}
\ No newline at end of file
+}
@@ -1,7 +1,11 @@
-import { CloudflareImagesService } from '../services/cloudflareService';
+import type { MediaStorageProvider, StoredImage } from '../services/mediaStorage';
 import { MediaServiceNew } from '../services/mediaServiceNew';
+import { MediaAccessService } from '../services/mediaAccess';
 import type { FastifyInstance } from 'fastify';
-import type { Media, MediaResourceType, MediaTag } from '../models/media';
+import type { Media, MediaPrivacy, MediaResourceType, MediaTag } from '../models/media';
+
+// Every PDF starts with this
+const PDF_SIGNATURE = Buffer.from('%PDF-');
 
 // Types for upload configuration
 export interface UploadFile {
@@ -19,6 +23,8 @@ export interface UploadContext {
   businessId?: string;
   position?: number;
   metadata?: Record<string, any>;
+  // Defaults to public
+  privacy?: MediaPrivacy;
 }
 
 export interface UploadOptions {
@@ -41,14 +47,16 @@ export interface UploadResult {
 }
 
 export class UniversalImageUploadHelper {
-  private cloudflareService: CloudflareImagesService;
+  private storage: MediaStorageProvider;
   public mediaService: MediaServiceNew; 
+  private mediaAccess: MediaAccessService;
   private fastify: FastifyInstance;
 
   constructor(fastify: FastifyInstance) {
     this.fastify = fastify;
-    this.cloudflareService = new CloudflareImagesService(fastify);
+    this.storage = fastify.mediaStorage;
     this.mediaService = new MediaServiceNew(fastify.db);
+    this.mediaAccess = new MediaAccessService(fastify.db, fastify.mediaStorage);
   }
 
    // Upload a single image file
@@ -68,7 +76,7 @@ export class UniversalImageUploadHelper {
     // Determine position
     const position = await this.determinePosition(context, options?.replaceExisting||false,options.useGlobalPositioning);
 
-    // Upload to Cloudflare and create media record
+    // Upload to storage and create media record
     const result = await this.processUpload(file, context, position);
     
     return result;
@@ -170,7 +178,7 @@ export class UniversalImageUploadHelper {
   }
 
   // media types declaration 
-  static getPresetConfig(type: 'profile_pic' | 'banner' | 'post_image' | 'business_logo' | 'business_banner'): {
+  static getPresetConfig(type: 'profile_pic' | 'banner' | 'post_image' | 'business_logo' | 'business_banner' | 'message_attachment' | 'event_banner' | 'group_banner' | 'group_logo' | 'job_resume'): {
     context: Partial<UploadContext>;
     options: UploadOptions;
   } {
@@ -245,6 +253,81 @@ export class UniversalImageUploadHelper {
           }
         };
 
+      case 'message_attachment':
+        return {
+          context: {
+            resourceType: 'message',
+            tag: 'attachment',
+            privacy: 'owner'
+          },
+          options: {
+            maxFileSize: 10 * 1024 * 1024,
+            replaceExisting: false,
+            generateThumbnail: true,
+            allowedMimeTypes: ['image/jpeg', 'image/png', 'image/webp', 'image/gif']
+          }
+        };
+
+      case 'event_banner':
+        return {
+          context: {
+            resourceType: 'event',
+            tag: 'banner'
+          },
+          options: {
+            maxFileSize: 10 * 1024 * 1024,
+            replaceExisting: true,
+            generateThumbnail: true,
+            allowedMimeTypes: ['image/jpeg', 'image/png', 'image/webp']
+          }
+        };
+
+      case 'group_banner':
+        return {
+          context: {
+            resourceType: 'group',
+            tag: 'banner'
+          },
+          options: {
+            maxFileSize: 10 * 1024 * 1024,
+            replaceExisting: true,
+            generateThumbnail: true,
+            allowedMimeTypes: ['image/jpeg', 'image/png', 'image/webp']
+          }
+        };
+
+      case 'group_logo':
+        return {
+          context: {
+            resourceType: 'group',
+            tag: 'logo'
+          },
+          options: {
+            maxFileSize: 3 * 1024 * 1024,
+            replaceExisting: true,
+            generateThumbnail: true,
+            allowedMimeTypes: ['image/jpeg', 'image/png', 'image/webp']
+          }
+        };
+
+      // PDFs are stored as they are, without resized variants, where storage takes files
+      // other than images (see allowedMimeTypes); scans can be images
+      case 'job_resume':
+        return {
+          context: {
+            resourceType: 'job_application',
+            tag: 'attachment',
+            privacy: 'owner'
+          },
+          options: {
+            validateImageType: false,
+            maxFileSize: 10 * 1024 * 1024,
+            replaceExisting: true,
+            generateThumbnail: false,
+            allowedMimeTypes: ['application/pdf', 'image/jpeg', 'image/png', 'image/webp']
+          }
+        };
+
       default:
         return {
           context: {},
@@ -270,13 +353,8 @@ export class UniversalImageUploadHelper {
 
   const record = await this.mediaService.findById(mediaId);
   if (!record) return false;
-  // Delete from Cloudflare
-  try {
-    const deleted = await this.cloudflareService.deleteImage(record.cloudflareId);
-    console.log("Cloudflare delete success?", deleted);
-  } catch (error) {
-    this.fastify.log.warn(`Failed to delete Cloudflare image ${record.cloudflareId}:`, error);
-  }
+  // Delete from storage
+  await this.deleteStored(record);
 
   // Delete from DB
     return await this.mediaService.delete(mediaId);
@@ -291,14 +369,9 @@ export class UniversalImageUploadHelper {
     // Get all media first
     const existingMedia = await this.mediaService.getByResource(resourceType, resourceId, tag);
   
-    // Delete from Cloudflare
+    // Delete from storage
     for (const record of existingMedia) {
-      try {
-        const deleted = await this.cloudflareService.deleteImage(record.cloudflareId);
-        console.log("Cloudflare delete success?", deleted);
-      } catch (error) {
-        this.fastify.log.warn(`Failed to delete Cloudflare image ${record.cloudflareId}:`, error);
-      }
+      await this.deleteStored(record);
     }
   
     // Delete from DB
@@ -306,6 +379,20 @@ export class UniversalImageUploadHelper {
   }
 
   // Private helper methods
+
+  // Videos are kept by the transcoder, images by media storage
+  private async deleteStored(record: Media): Promise<void> {
+    try {
+      if (record.kind === 'video') {
+        await this.fastify.videoTranscoder.delete(record.cloudflareId);
+      } else {
+        await this.storage.delete(record.cloudflareId);
+      }
+    } catch (error) {
+      this.fastify.log.warn(`Failed to delete stored ${record.kind} ${record.cloudflareId}:`, error);
+    }
+  }
+
   private validateUploadOptions(file: UploadFile, options: UploadOptions): void {
     // Validate file size
     if (options.maxFileSize && file.buffer.length > options.maxFileSize) {
@@ -323,10 +410,22 @@ export class UniversalImageUploadHelper {
     }
 
     // Validate specific mime types
-    if (options.allowedMimeTypes && !options.allowedMimeTypes.includes(file.mimetype)) {
-      throw new Error(`File type ${file.mimetype} not allowed. Allowed types: ${options.allowedMimeTypes.join(', ')}`);
+    const allowedMimeTypes = this.allowedMimeTypes(options);
+    if (allowedMimeTypes && !allowedMimeTypes.includes(file.mimetype)) {
+      throw new Error(`File type ${file.mimetype} not allowed. Allowed types: ${allowedMimeTypes.join(', ')}`);
+    }
+
+    // Images are checked by storage; PDFs are stored as they are, so check them here
+    if (file.mimetype === 'application/pdf' && !file.buffer.subarray(0, PDF_SIGNATURE.length).equals(PDF_SIGNATURE)) {
+      throw new Error('The uploaded file is not a PDF');
     }
   }
+
+  // The preset's types that the active storage can keep; only images where it stores nothing else
+  private allowedMimeTypes(options: UploadOptions): string[] | undefined {
+    return options.allowedMimeTypes?.filter(type => type.startsWith('image/') || this.storage.storesFiles);
+  }
+
   private async replaceExistingMedia(context: UploadContext): Promise<void> {
     try {
 
@@ -337,11 +436,7 @@ export class UniversalImageUploadHelper {
     );
 
      for (const record of existingMedia) {
-      try {
-        await this.cloudflareService.deleteImage(record.cloudflareId);
-      } catch (error) {
-        this.fastify.log.warn(`Failed to delete Cloudflare image ${record.cloudflareId}:`, error);
-      }
+      await this.deleteStored(record);
     }
       await this.mediaService.deleteByResource(
         context.resourceType,
@@ -385,6 +480,39 @@ export class UniversalImageUploadHelper {
     return Math.max(...existingMedia.map(m => m.position || 0)) + 1;
   }
 
+  /**
+   * Create the media record for an image that is already in storage (a direct upload),
+   * replacing and positioning it as uploadSingle would
+   */
+  async attachStored(
+    stored: StoredImage,
+    file: { filename?: string | undefined; mimetype: string; size: number },
+    context: UploadContext,
+    options: UploadOptions = {}
+  ): Promise<UploadResult> {
+    if (options.replaceExisting) {
+      await this.replaceExistingMedia(context);
+    }
+
+    const position = await this.determinePosition(context, options.replaceExisting || false, options.useGlobalPositioning);
+
+    return this.createRecord(stored, file, context, position);
+  }
+
+  // What storage keeps with the file, for cleanup and stats
+  buildStorageMetadata(file: { filename?: string | undefined; mimetype: string }, context: UploadContext): Record<string, any> {
+    return {
+      resourceType: context.resourceType,
+      resourceId: context.resourceId,
+      tag: context.tag,
+      originalName: file.filename || 'unknown',
+      mimetype: file.mimetype,
+      ...(context.actualUserId && { userId: context.actualUserId }),
+      ...(context.businessId && { businessId: context.businessId }),
+      ...context.metadata
+    };
+  }
+
   private async processUpload(
     file: UploadFile,
     context: UploadContext,
@@ -393,61 +521,49 @@ export class UniversalImageUploadHelper {
     // Clean filename
     const cleanFilename = file.filename || `${context.tag}-${Date.now()}.${file.mimetype.split('/')[1]}`;
 
-    // Upload to Cloudflare
-    let uploadResponse;
-    try {
-      // Try simple upload first
-      uploadResponse = await this.cloudflareService.uploadImageSimple(file.buffer, cleanFilename);
-    } catch (simpleError) {
-      // If simple fails, try with metadata
-      const metadata = {
-        resourceType: context.resourceType,
-        resourceId: context.resourceId,
-        tag: context.tag,
-        originalName: file.filename || 'unknown',
-        mimetype: file.mimetype,
-        ...(context.actualUserId && { userId: context.actualUserId }),
-        ...(context.businessId && { businessId: context.businessId }),
-        ...context.metadata
-      };
+    // Upload to storage; only images go through the image pipeline
+    const metadata = this.buildStorageMetadata(file, context);
+    const storeOptions = { private: (context.privacy || 'public') !== 'public' };
+    const stored = file.mimetype.startsWith('image/')
+      ? await this.storage.upload(file.buffer, cleanFilename, file.mimetype, metadata, storeOptions)
+      : await this.storage.uploadFile(file.buffer, cleanFilename, file.mimetype, metadata, storeOptions);
 
-      uploadResponse = await this.cloudflareService.uploadImage(
-        file.buffer,
-        cleanFilename,
-        metadata
-      );
-    }
-    if (!uploadResponse.success) {
-      throw new Error(`Cloudflare upload failed: ${JSON.stringify(uploadResponse.errors)}`);
-    }
-    // Generate URLs
-    const deliveryUrl = this.cloudflareService.getDeliveryUrl(uploadResponse.result.id);
-    const thumbnailUrl = this.cloudflareService.getDeliveryUrl(uploadResponse.result.id, 'thumbnail');
+    return this.createRecord(stored, { ...file, size: file.buffer.length }, context, position);
+  }
 
+  private async createRecord(
+    stored: StoredImage,
+    file: { filename?: string | undefined; mimetype: string; size: number },
+    context: UploadContext,
+    position: number
+  ): Promise<UploadResult> {
     // Create media record
     const mediaRecord = await this.mediaService.create({
-      cloudflareId: uploadResponse.result.id,
-      filename: uploadResponse.result.filename,
+      cloudflareId: stored.id,
+      privacy: context.privacy || 'public',
+      filename: stored.filename,
       originalFilename: file.filename||'',
       mimeType: file.mimetype,
-      size: file.buffer.length,
-      url: deliveryUrl,
-      thumbnailUrl: thumbnailUrl,
+      size: file.size,
+      url: stored.url,
+      thumbnailUrl: stored.thumbnailUrl,
       resourceType: context.resourceType,
       resourceId: context.resourceId,
       tag: context.tag,
       position: position,
-      variants: { public: deliveryUrl, thumbnail: thumbnailUrl },
+      variants: stored.variants,
       metadata: {
         ...context.metadata,
         originalUploadContext: context.resourceType
       },
       authUserId: context.authUserId
     });
+    // Signed for media that isn't public; the uploader may always see it
+    const urls = this.mediaAccess.urls(mediaRecord);
     return {
       id: mediaRecord.id,
-      url: mediaRecord.url,
-      thumbnailUrl: mediaRecord.thumbnailUrl || "",
+      url: urls.url,
+      thumbnailUrl: urls.thumbnailUrl || "",
       cloudflareId: mediaRecord.cloudflareId,
       filename: mediaRecord.filename,
       size: mediaRecord.size,
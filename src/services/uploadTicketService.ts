@@ -0,0 +1,252 @@
+import { eq, and, gt, lt, isNull, isNotNull, inArray, sql } from 'drizzle-orm';
+import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import type { FastifyInstance } from 'fastify';
+import { uploadTickets, type UploadTicket } from '../models/upload_tickets';
+import type { MediaResourceType, MediaTag } from '../models/media';
+import { UniversalImageUploadHelper } from './universalMediaUploader';
+import { MediaUploadTargets, MediaUploadError } from './mediaUploadTargets';
+import { DirectUploadError, type MediaStorageProvider } from './mediaStorage';
+
+// How long the client has to upload the file and finalize
+export const UPLOAD_TICKET_TTL_MS = 15 * 60 * 1000;
+// Unfinished tickets a member can hold at once
+const MAX_OPEN_TICKETS = 20;
+// Finalized tickets are kept this long so a retried finalize still gets its media
+const COMPLETED_TICKET_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export interface UploadTicketInput {
+  resourceType: MediaResourceType;
+  resourceId: string;
+  tag: MediaTag;
+  // Declared by the client; the file must match on finalize
+  mimeType: string;
+  size: number;
+  filename?: string | undefined;
+}
+
+/**
+ * Direct-to-storage uploads. A ticket reserves an image ID with the storage provider and hands the
+ * client a short-lived URL to send the file to; finalizing checks the file and creates the media row
+ * as the multipart routes (users-media, posts-media, business-media) would.
+ */
+export class UploadTicketService {
+  private db: NodePgDatabase<any>;
+  private storage: MediaStorageProvider;
+  private uploadHelper: UniversalImageUploadHelper;
+  private targets: MediaUploadTargets;
+
+  constructor(private fastify: FastifyInstance) {
+    this.db = fastify.db;
+    this.storage = fastify.mediaStorage;
+    this.uploadHelper = new UniversalImageUploadHelper(fastify);
+    this.targets = new MediaUploadTargets(this.db, this.uploadHelper);
+  }
+
+  async create(authUserId: string, profileId: string, input: UploadTicketInput) {
+    const { kind, options } = this.targets.resolve(input.resourceType, input.tag);
+    if (kind === 'video') {
+      // Videos go to the transcoder, not to media storage
+      throw new MediaUploadError('Videos are uploaded with POST /api/media/videos or tus (/api/media/tus)', 400);
+    }
+    await this.targets.authorize(profileId, input.resourceType, input.resourceId);
+    this.targets.checkFile(options, input.mimeType, input.size);
+    const maxFileSize = options.maxFileSize!;
+
+    const [open] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(uploadTickets)
+      .where(and(
+        eq(uploadTickets.userId, profileId),
+        isNull(uploadTickets.completedAt),
+        gt(uploadTickets.expiresAt, new Date())
+      ));
+    if ((open?.count || 0) >= MAX_OPEN_TICKETS) {
+      throw new MediaUploadError('Too many uploads in progress; finish or wait for some to expire', 429);
+    }
+
+    const context = this.targets.context(authUserId, profileId, input.resourceType, input.resourceId, input.tag, 'direct');
+    const filename = input.filename || `${input.tag}-${Date.now()}.${input.mimeType.split('/')[1]}`;
+    const expiresAt = new Date(Date.now() + UPLOAD_TICKET_TTL_MS);
+
+    const upload = await this.storage.createDirectUpload({
+      mimeType: input.mimeType,
+      maxFileSize,
+      expiresAt,
+      metadata: this.uploadHelper.buildStorageMetadata({ filename: input.filename, mimetype: input.mimeType }, context),
+    });
+
+    const [ticket] = await this.db
+      .insert(uploadTickets)
+      .values({
+        userId: profileId,
+        storageId: upload.id,
+        resourceType: input.resourceType,
+        resourceId: input.resourceId,
+        tag: input.tag,
+        filename,
+        mimeType: input.mimeType,
+        size: input.size,
+        maxFileSize,
+        expiresAt,
+      })
+      .returning();
+
+    return {
+      id: ticket!.id,
+      resourceType: ticket!.resourceType,
+      resourceId: ticket!.resourceId,
+      tag: ticket!.tag,
+      maxFileSize,
+      expiresAt,
+      upload: {
+        method: upload.method,
+        url: upload.url,
+        headers: upload.headers,
+        ...(upload.field && { field: upload.field }),
+      },
+    };
+  }
+
+  /**
+   * Checks the uploaded file and creates its media record. Safe to retry: a finalized ticket
+   * returns the same media.
+   */
+  async finalize(authUserId: string, profileId: string, ticketId: string) {
+    const [ticket] = await this.db
+      .select()
+      .from(uploadTickets)
+      .where(and(eq(uploadTickets.id, ticketId), eq(uploadTickets.userId, profileId)))
+      .limit(1);
+
+    if (!ticket) {
+      throw new MediaUploadError('Upload ticket not found', 404);
+    }
+    if (ticket.completedAt) {
+      return this.finalized(ticket);
+    }
+    if (ticket.expiresAt < new Date()) {
+      throw new MediaUploadError('This upload ticket has expired', 410);
+    }
+
+    // Claimed first so concurrent finalizes can't create two media rows
+    const [claimed] = await this.db
+      .update(uploadTickets)
+      .set({ completedAt: new Date() })
+      .where(and(eq(uploadTickets.id, ticket.id), isNull(uploadTickets.completedAt)))
+      .returning();
+    if (!claimed) {
+      throw new MediaUploadError('This upload is already being finalized', 409);
+    }
+
+    try {
+      // Ownership may have changed since the ticket was issued
+      await this.targets.authorize(profileId, ticket.resourceType, ticket.resourceId);
+
+      // An earlier attempt failed after creating the media row: finish with that row, as inserting
+      // the same storage ID again would fail
+      if (ticket.mediaId) {
+        await this.targets.applyToResource(ticket.resourceType, ticket.resourceId, ticket.tag, ticket.mediaId);
+        return await this.finalized(ticket);
+      }
+
+      const { options } = this.targets.resolve(ticket.resourceType, ticket.tag);
+      const context = this.targets.context(authUserId, profileId, ticket.resourceType, ticket.resourceId, ticket.tag, 'direct');
+
+      const completed = await this.storage.completeDirectUpload(ticket.storageId, {
+        mimeType: ticket.mimeType,
+        maxFileSize: ticket.maxFileSize,
+        filename: ticket.filename,
+        metadata: this.uploadHelper.buildStorageMetadata({ filename: ticket.filename, mimetype: ticket.mimeType }, context),
+      });
+      if (!completed) {
+        throw new MediaUploadError('The file has not been uploaded yet', 409);
+      }
+
+      const placed = await this.targets.placement(context);
+      const result = await this.uploadHelper.attachStored(
+        completed.image,
+        { filename: ticket.filename, mimetype: completed.mimeType, size: completed.size },
+        placed,
+        options
+      );
+
+      // Recorded before anything else can fail, so a retry finds the row
+      await this.db
+        .update(uploadTickets)
+        .set({ mediaId: result.id })
+        .where(eq(uploadTickets.id, ticket.id));
+
+      await this.targets.applyToResource(ticket.resourceType, ticket.resourceId, ticket.tag, result.id);
+
+      return {
+        id: result.id,
+        url: result.url,
+        thumbnailUrl: result.thumbnailUrl,
+        filename: result.filename,
+        size: result.size,
+        tag: placed.tag,
+        position: result.position,
+      };
+    } catch (error) {
+      // Lets the client upload again, or retry, while the ticket lasts; mediaId is kept
+      await this.db
+        .update(uploadTickets)
+        .set({ completedAt: null })
+        .where(eq(uploadTickets.id, ticket.id));
+
+      if (error instanceof DirectUploadError) {
+        throw new MediaUploadError(error.message, error.statusCode);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Removes expired tickets with whatever was uploaded for them, and old finalized tickets
+   */
+  async cleanupExpired(): Promise<number> {
+    const now = Date.now();
+
+    const expired = await this.db
+      .select({ id: uploadTickets.id, storageId: uploadTickets.storageId })
+      .from(uploadTickets)
+      .where(and(isNull(uploadTickets.completedAt), lt(uploadTickets.expiresAt, new Date(now))))
+      .limit(100);
+
+    for (const ticket of expired) {
+      try {
+        await this.storage.delete(ticket.storageId);
+      } catch (error) {
+        this.fastify.log.warn({ err: error, storageId: ticket.storageId }, 'Failed to delete abandoned direct upload');
+      }
+    }
+
+    if (expired.length > 0) {
+      await this.db.delete(uploadTickets).where(inArray(uploadTickets.id, expired.map(t => t.id)));
+    }
+
+    const finished = await this.db
+      .delete(uploadTickets)
+      .where(and(isNotNull(uploadTickets.completedAt), lt(uploadTickets.completedAt, new Date(now - COMPLETED_TICKET_RETENTION_MS))))
+      .returning({ id: uploadTickets.id });
+
+    return expired.length + finished.length;
+  }
+
+  private async finalized(ticket: UploadTicket) {
+    const record = ticket.mediaId ? await this.uploadHelper.mediaService.findById(ticket.mediaId) : null;
+    if (!record) {
+      throw new MediaUploadError('This upload ticket was already used', 409);
+    }
+
+    return {
+      id: record.id,
+      url: record.url,
+      thumbnailUrl: record.thumbnailUrl || '',
+      filename: record.filename,
+      size: record.size,
+      tag: record.tag,
+      position: record.position,
+    };
+  }
+}
@@ -1,10 +1,14 @@
-import { eq, and, or, like, sql, inArray, gte, lte, ilike } from 'drizzle-orm';
+import { eq, and, or, like, sql, inArray, gt, gte, lte, ilike } from 'drizzle-orm';
 import { user, type User, type NewUser } from '../models/user';
 import { authUsers } from '../models/authUser';
 import { specialization } from '../models/specialization';
 import { professions } from '../models/professions';
 import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
 import { UniversalMediaHelper } from './UniversalMediaHelper';
+import { cursorKey, cursorOrderBy, cursorPage, cursorWhere, emptyPage, pageWindow, type Cursor } from '../utils/cursor';
+
+// 'name' is alphabetical and offset-only; 'recent' is newest first and supports cursors
+export type UserListSort = 'name' | 'recent';
 
 export interface UserProfileSimple extends Omit<User, 'profilePic' | 'banner'> {
   profilePic: any;
@@ -94,6 +98,7 @@ export class UserProfileServiceSimple {
         email: fullData.authUser.email,
         name: fullData.authUser.name,
         provider: fullData.authUser.provider,
+        role: fullData.authUser.role,
       } : undefined,
     };
   }
@@ -176,8 +181,15 @@ export class UserProfileServiceSimple {
     } | undefined;
     limit?: number | undefined;
     offset?: number | undefined;
+    cursor?: Cursor | undefined;
+    sort?: UserListSort | undefined;
+    // Only members who joined after this, e.g. new matches for a saved search
+    createdAfter?: Date | undefined;
     currentUserId?: string | undefined; // To check if viewing own data
   }) {
+    const window = pageWindow(filters);
+    // A cursor only makes sense in the order it was issued for
+    const recent = filters.sort === 'recent' || !!window.cursor;
     const conditions = [];
 
     if (filters.query) {
@@ -231,6 +243,10 @@ export class UserProfileServiceSimple {
       conditions.push(inArray(user.specializationId, filters.specializationIds));
     }
 
+    if (filters.createdAfter) {
+      conditions.push(gt(user.createdAt, filters.createdAfter));
+    }
+
     // No visibility filter - show all users
     const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
 
@@ -245,21 +261,26 @@ export class UserProfileServiceSimple {
     const count = countResult?.[0]?.count ?? 0;
 
     // Get users with related data and auth user info
-    const results = await this.db
+    const rows = await this.db
       .select({
         user: user,
         profession: professions,
         specialization: specialization,
         authUser: authUsers,
+        cursorKey: cursorKey(user),
       })
       .from(user)
       .innerJoin(authUsers, eq(user.userAuthId, authUsers.id))
       .leftJoin(professions, eq(user.professionId, professions.id))
       .leftJoin(specialization, eq(user.specializationId, specialization.id))
-      .where(whereClause)
-      .limit(filters.limit || 10)
-      .offset(filters.offset || 0)
-      .orderBy(user.firstName, user.lastName);
+      .where(and(whereClause, cursorWhere(user, window.cursor)))
+      .limit(window.fetch)
+      .offset(window.offset)
+      .orderBy(...(recent ? cursorOrderBy(user, window.cursor) : [user.firstName, user.lastName, user.id]));
+
+    const { rows: results, ...page } = recent
+      ? cursorPage(rows, window, (r) => ({ createdAt: r.cursorKey, id: r.user.id }))
+      : { ...emptyPage(window), rows: rows.slice(0, window.limit) };
 
 
     const allMediaIds = results.reduce((ids: string[], result) => {
@@ -358,16 +379,18 @@ export class UserProfileServiceSimple {
     return {
       data: profiles,
       total: count,
-      limit: filters.limit || 10,
-      offset: filters.offset || 0,
+      ...page,
     };
   }
 
   async listDoctors(filters: {
-    specializationIds?: string[];
-    cities?: string[] ;
+    specializationIds?: string[] | undefined;
+    cities?: string[] | undefined;
     limit?: number;
     offset?: number;
+    cursor?: Cursor | undefined;
+    sort?: UserListSort | undefined;
+    createdAfter?: Date | undefined;
     currentUserId?: string;
   }) {
     // First, get the "Doctor" profession ID
@@ -381,8 +404,7 @@ export class UserProfileServiceSimple {
       return {
         data: [],
         total: 0,
-        limit: filters.limit || 10,
-        offset: filters.offset || 0,
+        ...emptyPage(pageWindow(filters)),
       };
     }
 
@@ -393,6 +415,9 @@ export class UserProfileServiceSimple {
       locations: filters.cities ? { cities: filters.cities } : undefined,
       limit: filters.limit,
       offset: filters.offset,
+      cursor: filters.cursor,
+      sort: filters.sort,
+      createdAfter: filters.createdAfter,
       currentUserId: filters.currentUserId,
     });
   }
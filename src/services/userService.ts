@@ -1,10 +1,18 @@
 import { eq, and } from 'drizzle-orm';
-import { authUsers, type AuthUser, type NewAuthUser } from '../models/authUser';
+import { authUsers, type AuthUser, type AuthProvider, type NewAuthUser } from '../models/authUser';
 import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { authIdentities, type AuthIdentity } from '../models/auth_identities';
 import { withRetry } from '../utils/dbRetry';
 
+export class AccountLinkError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message);
+    this.name = 'AccountLinkError';
+  }
+}
+
 export class UserService {
-  constructor(private db: NodePgDatabase<typeof import('../models/authUser')>) {}
+  constructor(private db: NodePgDatabase<any>) {}
 
   async findByEmail(email: string): Promise<AuthUser | null> {
     const [user] = await this.db
@@ -16,15 +24,16 @@ export class UserService {
     return user || null;
   }
 
-  async findByProviderId(provider: 'google' | 'apple', providerId: string): Promise<AuthUser | null> {
+  async findByProviderId(provider: AuthProvider, providerId: string): Promise<AuthUser | null> {
     return withRetry(async () => {
-      const [user] = await this.db
-        .select()
-        .from(authUsers)
-        .where(and(eq(authUsers.provider, provider), eq(authUsers.providerId, providerId)))
+      const [linked] = await this.db
+        .select({ user: authUsers })
+        .from(authIdentities)
+        .innerJoin(authUsers, eq(authIdentities.authUserId, authUsers.id))
+        .where(and(eq(authIdentities.provider, provider), eq(authIdentities.providerId, providerId)))
         .limit(1);
       
-      return user || null;
+      return linked?.user || null;
     });
   }
 
@@ -35,12 +44,27 @@ export class UserService {
     providerId: string;
     avatar?: string;
   }): Promise<{ user: AuthUser; isNewUser: boolean }> {
-    // First check by provider ID
+    // First check by linked identity
     let existingUser = await this.findByProviderId(userData.provider, userData.providerId);
     
-    // If not found by provider ID, check by email
+    // If not found by identity, check by email and link the identity to that account
     if (!existingUser) {
       existingUser = await this.findByEmail(userData.email);
+      if (existingUser && !(await this.hasIdentity(existingUser.id, userData.provider))) {
+        await this.db
+          .insert(authIdentities)
+          .values({
+            authUserId: existingUser.id,
+            provider: userData.provider,
+            providerId: userData.providerId,
+            email: userData.email,
+          })
+          .onConflictDoNothing();
+      } else if (existingUser) {
+        // The address belongs to an account that already has a different identity from this
+        // provider; keep them apart rather than silently replacing the linked identity
+        throw new Error(`This email is already linked to another ${userData.provider} account`);
+      }
     }
     
     if (existingUser) {
@@ -50,12 +74,13 @@ export class UserService {
         updatedAt: new Date(),
       };
       
-      // Update provider info if user exists with email but different provider
-      if (!existingUser.providerId || existingUser.provider !== userData.provider) {
-        updates.provider = userData.provider;
-        updates.providerId = userData.providerId;
+      // The provider has verified the address. A password set before the address was
+      // verified may belong to someone else, so drop it.
+      if (!existingUser.emailVerified) {
+        updates.emailVerified = true;
+        updates.passwordHash = null;
       }
-      
+
       // Update avatar if it has changed
       if (userData.avatar && userData.avatar !== existingUser.avatar) {
         updates.avatar = userData.avatar;
@@ -71,26 +96,123 @@ export class UserService {
         .set(updates)
         .where(eq(authUsers.id, existingUser.id))
         .returning();
+
+      await this.touchIdentity(userData.provider, userData.providerId);
       
       return { user: updatedUser!, isNewUser: false };
     }
 
-    // Create new user
-    const [newUser] = await this.db
-      .insert(authUsers)
-      .values({
-        email: userData.email,
-        name: userData.name,
+    // Create new user with its first identity
+    const newUser = await this.db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(authUsers)
+        .values({
+          email: userData.email,
+          name: userData.name,
+          provider: userData.provider,
+          providerId: userData.providerId,
+          avatar: userData.avatar,
+          isActive: true,
+          emailVerified: true, // OAuth providers verify emails
+          lastLoginAt: new Date(),
+        })
+        .returning();
+
+      await tx.insert(authIdentities).values({
+        authUserId: created!.id,
         provider: userData.provider,
         providerId: userData.providerId,
-        avatar: userData.avatar,
-        isActive: true,
-        emailVerified: true, // OAuth providers verify emails
-        lastLoginAt: new Date(),
+        email: userData.email,
+        lastUsedAt: new Date(),
+      });
+
+      return created!;
+    });
+    
+    return { user: newUser, isNewUser: true };
+  }
+
+  async listIdentities(authUserId: string): Promise<AuthIdentity[]> {
+    return this.db
+      .select()
+      .from(authIdentities)
+      .where(eq(authIdentities.authUserId, authUserId))
+      .orderBy(authIdentities.createdAt);
+  }
+
+  /**
+   * Link a provider identity to an existing account
+   */
+  async linkIdentity(
+    authUserId: string,
+    identity: { provider: 'google' | 'apple'; providerId: string; email?: string | undefined }
+  ): Promise<AuthIdentity> {
+    const owner = await this.findByProviderId(identity.provider, identity.providerId);
+    if (owner && owner.id !== authUserId) {
+      throw new AccountLinkError(`This ${identity.provider} account is linked to another user`, 409);
+    }
+
+    const [current] = await this.db
+      .select()
+      .from(authIdentities)
+      .where(and(eq(authIdentities.authUserId, authUserId), eq(authIdentities.provider, identity.provider)))
+      .limit(1);
+
+    if (current) {
+      if (current.providerId === identity.providerId) return current;
+      throw new AccountLinkError(`A different ${identity.provider} account is already linked; unlink it first`, 409);
+    }
+
+    const [linked] = await this.db
+      .insert(authIdentities)
+      .values({
+        authUserId,
+        provider: identity.provider,
+        providerId: identity.providerId,
+        email: identity.email || null,
       })
       .returning();
-    
-    return { user: newUser!, isNewUser: true };
+
+    return linked!;
+  }
+
+  /**
+   * Remove a provider identity. The account must keep at least one way to sign in.
+   */
+  async unlinkIdentity(authUserId: string, provider: 'google' | 'apple'): Promise<void> {
+    const account = await this.findById(authUserId);
+    if (!account) {
+      throw new AccountLinkError('User not found', 404);
+    }
+
+    const identities = await this.listIdentities(authUserId);
+    const target = identities.find(identity => identity.provider === provider);
+    if (!target) {
+      throw new AccountLinkError(`No ${provider} account is linked`, 404);
+    }
+
+    if (identities.length === 1 && !account.passwordHash) {
+      throw new AccountLinkError('Cannot unlink the only sign-in method', 409);
+    }
+
+    await this.db.delete(authIdentities).where(eq(authIdentities.id, target.id));
+  }
+
+  private async hasIdentity(authUserId: string, provider: AuthProvider): Promise<boolean> {
+    const [identity] = await this.db
+      .select({ id: authIdentities.id })
+      .from(authIdentities)
+      .where(and(eq(authIdentities.authUserId, authUserId), eq(authIdentities.provider, provider)))
+      .limit(1);
+
+    return !!identity;
+  }
+
+  private async touchIdentity(provider: AuthProvider, providerId: string): Promise<void> {
+    await this.db
+      .update(authIdentities)
+      .set({ lastUsedAt: new Date() })
+      .where(and(eq(authIdentities.provider, provider), eq(authIdentities.providerId, providerId)));
   }
 
   async findById(id: string): Promise<AuthUser | null> {
@@ -0,0 +1,339 @@
+import { eq, and, lt, sql } from 'drizzle-orm';
+import type { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import type { FastifyInstance } from 'fastify';
+import { media, type Media, type MediaResourceType } from '../models/media';
+import { postUpdates } from '../models/post_updates';
+import { news } from '../models/news';
+import { UniversalImageUploadHelper } from './universalMediaUploader';
+import { MediaUploadTargets, MediaUploadError } from './mediaUploadTargets';
+import type { VideoProcessingResult, VideoTranscoder } from './videoTranscoder';
+
+// Status of a published post or article while its video is processed; it is published again once ready
+export const VIDEO_PROCESSING_STATUS = 'processing';
+// Videos still processing after this are marked failed
+const PROCESSING_TIMEOUT_MS = 24 * 60 * 60 * 1000;
+// The sync job leaves the webhook this long to report before asking the transcoder
+const SYNC_GRACE_MS = 2 * 60 * 1000;
+
+// A received file on disk; the transcoder copies or sends it, so the caller removes it afterwards
+export interface VideoFile {
+  path: string;
+  size: number;
+  filename?: string | undefined;
+  mimetype: string;
+}
+
+/**
+ * Videos for posts and news articles. Uploads go to the transcoder and get a `video` media record
+ * that stays `processing` until the transcoder reports back. A published post or article is
+ * marked `processing` meanwhile, so it drops out of feeds, and published again when the video is
+ * ready; if processing fails it becomes a draft.
+ */
+export class VideoService {
+  private db: NodePgDatabase<any>;
+  private transcoder: VideoTranscoder;
+  private uploadHelper: UniversalImageUploadHelper;
+  private targets: MediaUploadTargets;
+
+  constructor(private fastify: FastifyInstance) {
+    this.db = fastify.db;
+    this.transcoder = fastify.videoTranscoder;
+    this.uploadHelper = new UniversalImageUploadHelper(fastify);
+    this.targets = new MediaUploadTargets(this.db, this.uploadHelper);
+  }
+
+  /**
+   * Checks a multipart upload before its file is read: the resource takes videos, the member may
+   * upload to it, and the declared type is allowed
+   */
+  async authorizeUpload(profileId: string, resourceType: MediaResourceType, resourceId: string, mimeType: string): Promise<void> {
+    const { kind, options } = this.targets.resolve(resourceType, 'video');
+    if (kind !== 'video') {
+      throw new MediaUploadError(`Videos are not available for ${resourceType}`, 400);
+    }
+    await this.targets.authorize(profileId, resourceType, resourceId);
+    this.targets.checkFile(options, mimeType, 0);
+  }
+
+  /**
+   * Replaces the resource's video with a received multipart file, once authorizeUpload has passed
+   */
+  async upload(authUserId: string, profileId: string, resourceType: MediaResourceType, resourceId: string, file: VideoFile) {
+    const { options } = this.targets.resolve(resourceType, 'video');
+    this.targets.checkFile(options, file.mimetype, file.size);
+    if (file.size === 0) {
+      throw new MediaUploadError('Empty file uploaded', 400);
+    }
+
+    return this.attach(authUserId, profileId, resourceType, resourceId, file, 'multipart');
+  }
+
+  /**
+   * Sends an already checked and authorized file to the transcoder and replaces the resource's video
+   */
+  async attach(
+    authUserId: string,
+    profileId: string,
+    resourceType: MediaResourceType,
+    resourceId: string,
+    file: VideoFile,
+    uploadMethod: 'multipart' | 'tus'
+  ) {
+    const filename = file.filename || `video-${Date.now()}.${file.mimetype.split('/')[1]}`;
+    const previous = await this.uploadHelper.mediaService.getByResource(resourceType, resourceId, 'video');
+
+    // Before submitting, so a fast transcoder can't report back before the resource is waiting for it
+    const held = await this.holdResource(resourceType, resourceId);
+
+    let record: Media | undefined;
+    try {
+      const videoId = await this.transcoder.submit(file.path, filename, file.mimetype, {
+        resourceType,
+        resourceId,
+        userId: profileId,
+      });
+
+      [record] = await this.db
+        .insert(media)
+        .values({
+          cloudflareId: videoId,
+          kind: 'video',
+          processingStatus: 'processing',
+          filename,
+          originalFilename: file.filename || null,
+          mimeType: file.mimetype,
+          size: file.size,
+          url: '',
+          resourceType,
+          resourceId,
+          tag: 'video',
+          position: 0,
+          authUserId,
+          metadata: { uploadMethod },
+        })
+        .returning();
+    } catch (error) {
+      if (held) {
+        await this.restoreResource(resourceType, resourceId, held);
+      }
+      throw error;
+    }
+
+    for (const old of previous) {
+      await this.uploadHelper.deleteMedia(old.id);
+    }
+
+    return this.describe(record!);
+  }
+
+  /**
+   * The video's processing status, for whoever may upload to its resource. While processing,
+   * the transcoder is asked directly in case its notification went missing.
+   */
+  async getStatus(profileId: string, mediaId: string) {
+    let record = await this.findVideo(mediaId);
+    if (!record) {
+      throw new MediaUploadError('Video not found', 404);
+    }
+    await this.targets.authorize(profileId, record.resourceType, record.resourceId);
+
+    if (record.processingStatus === 'processing') {
+      const result = await this.transcoder.getStatus(record.cloudflareId);
+      if (result) {
+        record = (await this.applyResult(result)) || record;
+      }
+    }
+
+    return this.describe(record);
+  }
+
+  /**
+   * Records what the transcoder reported and publishes or reverts the post or article. Results
+   * for unknown or already finished videos are ignored, so notifications can arrive more than once.
+   */
+  async applyResult(result: VideoProcessingResult): Promise<Media | null> {
+    if (result.state === 'processing') {
+      return null;
+    }
+
+    const [record] = await this.db
+      .update(media)
+      .set(result.state === 'ready'
+        ? {
+          processingStatus: 'ready',
+          url: result.playbackUrl || '',
+          thumbnailUrl: result.posterUrl || null,
+          variants: result.renditions || null,
+          duration: result.duration ?? null,
+          width: result.width ?? null,
+          height: result.height ?? null,
+        }
+        : { processingStatus: 'failed' })
+      .where(and(eq(media.cloudflareId, result.id), eq(media.kind, 'video'), eq(media.processingStatus, 'processing')))
+      .returning();
+
+    if (!record) {
+      return null;
+    }
+
+    if (result.state === 'failed') {
+      // Kept on the record for the status endpoint
+      const [failed] = await this.db
+        .update(media)
+        .set({ metadata: { ...record.metadata, error: result.error || 'Processing failed' } })
+        .where(eq(media.id, record.id))
+        .returning();
+      await this.revertResource(record.resourceType, record.resourceId);
+      this.fastify.log.warn({ mediaId: record.id, error: result.error }, 'Video processing failed');
+      return failed || record;
+    }
+
+    await this.setResourceVideo(record.resourceType, record.resourceId, record.url);
+    await this.publishResource(record.resourceType, record.resourceId);
+    return record;
+  }
+
+  /**
+   * Asks the transcoder about videos still processing, for when notifications don't arrive, and
+   * fails those that have taken too long
+   */
+  async syncProcessing(): Promise<number> {
+    const now = Date.now();
+
+    const pending = await this.db
+      .select()
+      .from(media)
+      .where(and(eq(media.kind, 'video'), eq(media.processingStatus, 'processing'), lt(media.uploadedAt, new Date(now - SYNC_GRACE_MS))))
+      .limit(50);
+
+    let updated = 0;
+    for (const record of pending) {
+      try {
+        let result = await this.transcoder.getStatus(record.cloudflareId);
+        if (!result) {
+          result = { id: record.cloudflareId, state: 'failed', error: 'The transcoder has no record of this video' };
+        } else if (result.state === 'processing' && record.uploadedAt.getTime() < now - PROCESSING_TIMEOUT_MS) {
+          result = { id: record.cloudflareId, state: 'failed', error: 'Processing timed out' };
+        }
+
+        if (await this.applyResult(result)) {
+          updated++;
+        }
+      } catch (error) {
+        this.fastify.log.warn({ err: error, mediaId: record.id }, 'Failed to check video processing status');
+      }
+    }
+
+    return updated;
+  }
+
+  describe(record: Media) {
+    const ready = record.processingStatus === 'ready';
+
+    return {
+      id: record.id,
+      resourceType: record.resourceType,
+      resourceId: record.resourceId,
+      status: record.processingStatus,
+      url: ready ? record.url : null,
+      posterUrl: record.thumbnailUrl,
+      renditions: ready ? record.variants : null,
+      duration: record.duration,
+      width: record.width,
+      height: record.height,
+      filename: record.filename,
+      size: record.size,
+      error: record.processingStatus === 'failed' ? record.metadata?.['error'] || null : null,
+      uploadedAt: record.uploadedAt,
+    };
+  }
+
+  private async findVideo(mediaId: string): Promise<Media | null> {
+    const [record] = await this.db
+      .select()
+      .from(media)
+      .where(and(eq(media.id, mediaId), eq(media.kind, 'video')))
+      .limit(1);
+    return record || null;
+  }
+
+  // The resource's own videoUrl column, which clients already read
+  private async setResourceVideo(resourceType: MediaResourceType, resourceId: string, url: string | null): Promise<void> {
+    if (resourceType === 'post') {
+      await this.db
+        .update(postUpdates)
+        .set({ videoUrl: url, updatedAt: new Date() })
+        .where(eq(postUpdates.id, resourceId));
+    } else if (resourceType === 'news') {
+      await this.db
+        .update(news)
+        .set({ videoUrl: url, updatedAt: new Date() })
+        .where(eq(news.id, resourceId));
+    }
+  }
+
+  // Clears the resource's video and takes it out of feeds if published; returns what it was
+  private async holdResource(resourceType: MediaResourceType, resourceId: string) {
+    const table = resourceType === 'post' ? postUpdates : resourceType === 'news' ? news : null;
+    if (!table) return null;
+
+    const [current] = await this.db
+      .select({ status: table.status, videoUrl: table.videoUrl })
+      .from(table)
+      .where(eq(table.id, resourceId))
+      .limit(1);
+    if (!current) return null;
+
+    await this.db
+      .update(table)
+      .set({
+        videoUrl: null,
+        ...(current.status === 'published' && { status: VIDEO_PROCESSING_STATUS }),
+        updatedAt: new Date(),
+      })
+      .where(eq(table.id, resourceId));
+
+    return current;
+  }
+
+  private async restoreResource(
+    resourceType: MediaResourceType,
+    resourceId: string,
+    previous: { status: string | null; videoUrl: string | null }
+  ): Promise<void> {
+    const table = resourceType === 'post' ? postUpdates : news;
+    await this.db
+      .update(table)
+      .set({ ...previous, updatedAt: new Date() })
+      .where(eq(table.id, resourceId));
+  }
+
+  // Keeps publishedAt of a resource that was published before its video was replaced
+  private async publishResource(resourceType: MediaResourceType, resourceId: string): Promise<void> {
+    if (resourceType === 'post') {
+      await this.db
+        .update(postUpdates)
+        .set({ status: 'published', publishedAt: sql`coalesce(${postUpdates.publishedAt}, now())`, updatedAt: new Date() })
+        .where(and(eq(postUpdates.id, resourceId), eq(postUpdates.status, VIDEO_PROCESSING_STATUS)));
+    } else if (resourceType === 'news') {
+      await this.db
+        .update(news)
+        .set({ status: 'published', publishedAt: sql`coalesce(${news.publishedAt}, now())`, updatedAt: new Date() })
+        .where(and(eq(news.id, resourceId), eq(news.status, VIDEO_PROCESSING_STATUS)));
+    }
+  }
+
+  private async revertResource(resourceType: MediaResourceType, resourceId: string): Promise<void> {
+    if (resourceType === 'post') {
+      await this.db
+        .update(postUpdates)
+        .set({ status: 'draft', updatedAt: new Date() })
+        .where(and(eq(postUpdates.id, resourceId), eq(postUpdates.status, VIDEO_PROCESSING_STATUS)));
+    } else if (resourceType === 'news') {
+      await this.db
+        .update(news)
+        .set({ status: 'draft', updatedAt: new Date() })
+        .where(and(eq(news.id, resourceId), eq(news.status, VIDEO_PROCESSING_STATUS)));
+    }
+  }
+}
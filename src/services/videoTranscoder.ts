@@ -0,0 +1,390 @@
+import { promises as fs, createReadStream, openAsBlob } from 'fs';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { randomUUID, createHmac, timingSafeEqual } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import type { Readable } from 'stream';
+
+const execFileAsync = promisify(execFile);
+
+export type VideoTranscoderName = 'cloudflare_stream' | 'ffmpeg';
+
+// Upload limits for videos, whichever way they are uploaded
+export const MAX_VIDEO_SIZE = 200 * 1024 * 1024;
+export const VIDEO_MIME_TYPES = ['video/mp4', 'video/quicktime', 'video/webm'];
+
+/**
+ * Where a video stands with the transcoder. Everything but id and state is only set once ready
+ * (or failed, for error).
+ */
+export interface VideoProcessingResult {
+  // The transcoder's video ID
+  id: string;
+  state: 'processing' | 'ready' | 'failed';
+  // What players should load: an HLS manifest, or an MP4
+  playbackUrl?: string | undefined;
+  posterUrl?: string | undefined;
+  // Rendition name -> URL
+  renditions?: Record<string, string> | undefined;
+  // In seconds
+  duration?: number | undefined;
+  width?: number | undefined;
+  height?: number | undefined;
+  error?: string | undefined;
+}
+
+export type VideoProcessingListener = (result: VideoProcessingResult) => Promise<void>;
+
+/**
+ * Turns uploaded videos into something streamable: reads the duration and size, picks a poster
+ * frame and produces renditions. Swap the implementation with VIDEO_TRANSCODER. Processing runs
+ * in the background; results arrive at POST /api/media/videos/callback (parseCallback), through
+ * onProcessed for transcoders running in the API process, or by polling getStatus.
+ */
+export interface VideoTranscoder {
+  readonly name: VideoTranscoderName;
+  // Takes the file at filePath (copied or sent, so it can be removed afterwards) and starts processing;
+  // returns the video ID
+  submit(filePath: string, filename: string, mimeType: string, metadata?: Record<string, string>): Promise<string>;
+  // null if the transcoder doesn't know the video
+  getStatus(id: string): Promise<VideoProcessingResult | null>;
+  delete(id: string): Promise<void>;
+  // A notification sent to the callback URL; null unless it is genuine and about a video
+  parseCallback(body: Buffer, headers: IncomingHttpHeaders): VideoProcessingResult | null;
+  onProcessed(listener: VideoProcessingListener): void;
+}
+
+export interface CloudflareStreamConfig {
+  accountId: string;
+  apiToken: string;
+  // Signs webhook notifications; see https://developers.cloudflare.com/stream/manage-video-library/using-webhooks/
+  webhookSecret: string;
+}
+
+// Stream's video object, as returned by the API and sent to the webhook
+interface StreamVideo {
+  uid: string;
+  status?: { state?: string; errorReasonText?: string };
+  duration?: number;
+  input?: { width?: number; height?: number };
+  thumbnail?: string;
+  playback?: { hls?: string; dash?: string };
+}
+
+// Webhook notifications older than this are refused, so a captured one can't be replayed later
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+const streamResult = (video: StreamVideo): VideoProcessingResult => {
+  const state = video.status?.state;
+  if (state === 'error') {
+    return { id: video.uid, state: 'failed', error: video.status?.errorReasonText || 'Cloudflare Stream could not process the video' };
+  }
+  if (state !== 'ready') {
+    return { id: video.uid, state: 'processing' };
+  }
+
+  const renditions: Record<string, string> = {};
+  if (video.playback?.hls) renditions['hls'] = video.playback.hls;
+  if (video.playback?.dash) renditions['dash'] = video.playback.dash;
+
+  return {
+    id: video.uid,
+    state: 'ready',
+    playbackUrl: video.playback?.hls,
+    posterUrl: video.thumbnail,
+    renditions,
+    duration: video.duration,
+    width: video.input?.width,
+    height: video.input?.height,
+  };
+};
+
+/**
+ * Cloudflare Stream. Stream encodes adaptive HLS and DASH renditions itself and notifies the
+ * account's webhook URL, which should be set to POST /api/media/videos/callback.
+ */
+export class CloudflareStreamTranscoder implements VideoTranscoder {
+  readonly name = 'cloudflare_stream' as const;
+  private baseUrl: string;
+
+  constructor(private config: CloudflareStreamConfig) {
+    this.baseUrl = `https://api.cloudflare.com/client/v4/accounts/${config.accountId}/stream`;
+  }
+
+  async submit(filePath: string, filename: string, mimeType: string, metadata?: Record<string, string>): Promise<string> {
+    const form = new FormData();
+    form.append('file', await openAsBlob(filePath, { type: mimeType }), filename);
+
+    const { result } = await this.request<StreamVideo>('POST', '', form);
+
+    await this.request('POST', `/${result.uid}`, JSON.stringify({
+      meta: { name: filename, app: 'sarvail', ...metadata },
+    }));
+
+    return result.uid;
+  }
+
+  async getStatus(id: string): Promise<VideoProcessingResult | null> {
+    const response = await this.request<StreamVideo>('GET', `/${encodeURIComponent(id)}`, undefined, true);
+    return response ? streamResult(response.result) : null;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.request('DELETE', `/${encodeURIComponent(id)}`, undefined, true);
+  }
+
+  parseCallback(body: Buffer, headers: IncomingHttpHeaders): VideoProcessingResult | null {
+    // Webhook-Signature: time=<unix seconds>,sig1=<hex HMAC-SHA256 of "<time>.<body>">
+    const header = headers['webhook-signature'];
+    if (typeof header !== 'string' || !this.config.webhookSecret) return null;
+
+    const parts = Object.fromEntries(header.split(',').map(part => part.split('=') as [string, string]));
+    const time = Number(parts['time']);
+    const signature = parts['sig1'];
+    if (!time || !signature || Math.abs(Date.now() / 1000 - time) > WEBHOOK_TOLERANCE_SECONDS) return null;
+
+    const expected = createHmac('sha256', this.config.webhookSecret)
+      .update(`${parts['time']}.`)
+      .update(body)
+      .digest('hex');
+    if (signature.length !== expected.length || !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+      return null;
+    }
+
+    try {
+      const video = JSON.parse(body.toString('utf8')) as StreamVideo;
+      return video.uid ? streamResult(video) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Results come in through the webhook
+  onProcessed(): void {}
+
+  private async request<T>(method: 'GET' | 'POST' | 'DELETE', pathname: string, body?: FormData | string): Promise<{ result: T }>;
+  private async request<T>(method: 'GET' | 'POST' | 'DELETE', pathname: string, body: FormData | string | undefined, allowMissing: true): Promise<{ result: T } | null>;
+  private async request<T>(method: 'GET' | 'POST' | 'DELETE', pathname: string, body?: FormData | string, allowMissing = false): Promise<{ result: T } | null> {
+    const response = await fetch(`${this.baseUrl}${pathname}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${this.config.apiToken}`,
+        ...(typeof body === 'string' && { 'Content-Type': 'application/json' }),
+      },
+      ...(body && { body }),
+    });
+
+    if (response.status === 404 && allowMissing) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Cloudflare Stream ${method} ${pathname || '/'} failed with ${response.status}: ${await response.text()}`);
+    }
+
+    return method === 'DELETE' ? { result: undefined as T } : await response.json() as { result: T };
+  }
+}
+
+export interface FfmpegConfig {
+  directory: string;
+  publicUrl: string;
+  ffmpegPath: string;
+  ffprobePath: string;
+}
+
+// MP4 renditions, largest first; those taller than the source are skipped, except the smallest
+const FFMPEG_RENDITIONS = [
+  { name: '720p', height: 720 },
+  { name: '360p', height: 360 },
+];
+
+// A run past these is killed and the video marked failed, so one bad file can't hold up the queue
+const FFPROBE_TIMEOUT_MS = 60 * 1000;
+const FFMPEG_TIMEOUT_MS = 30 * 60 * 1000;
+// Output runs with -v error are small; more than this fails the run
+const EXEC_MAX_BUFFER = 10 * 1024 * 1024;
+
+const VIDEO_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Local ffmpeg, for development and tests. Each video gets a directory <directory>/<id> with the
+ * original, a poster.jpg, an MP4 per rendition and a status.json once done. Videos are processed
+ * one at a time in the API process. Files are served by GET /api/media/videos/files/:id/:file.
+ */
+export class FfmpegTranscoder implements VideoTranscoder {
+  readonly name = 'ffmpeg' as const;
+  private publicUrl: string;
+  private listeners: VideoProcessingListener[] = [];
+  // Videos queued or being processed by this process
+  private pending = new Set<string>();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private config: FfmpegConfig) {
+    this.publicUrl = config.publicUrl.replace(/\/+$/, '');
+  }
+
+  async submit(filePath: string, filename: string, mimeType: string, metadata?: Record<string, string>): Promise<string> {
+    const id = randomUUID();
+    const directory = this.pathFor(id);
+
+    await fs.mkdir(directory, { recursive: true });
+    await fs.copyFile(filePath, path.join(directory, 'original'));
+    await fs.writeFile(path.join(directory, 'meta.json'), JSON.stringify({ filename, mimeType, meta: metadata || {} }));
+
+    this.enqueue(id);
+    return id;
+  }
+
+  async getStatus(id: string): Promise<VideoProcessingResult | null> {
+    if (!VIDEO_ID_PATTERN.test(id)) return null;
+
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.pathFor(id), 'status.json'), 'utf8'));
+    } catch {
+      // Not processed yet
+    }
+
+    try {
+      await fs.access(path.join(this.pathFor(id), 'original'));
+    } catch {
+      return null;
+    }
+
+    // Submitted before a restart; pick it up again
+    if (!this.pending.has(id)) {
+      this.enqueue(id);
+    }
+    return { id, state: 'processing' };
+  }
+
+  async delete(id: string): Promise<void> {
+    await fs.rm(this.pathFor(id), { recursive: true, force: true });
+  }
+
+  // Nothing is sent over HTTP; results go to onProcessed listeners
+  parseCallback(): VideoProcessingResult | null {
+    return null;
+  }
+
+  onProcessed(listener: VideoProcessingListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * A processed file for GET /api/media/videos/files/:id/:file; null if there is none
+   */
+  async open(id: string, file: string): Promise<{ stream: (range?: { start: number; end: number }) => Readable; size: number; mimeType: string } | null> {
+    if (!VIDEO_ID_PATTERN.test(id) || !/^(poster\.jpg|\d+p\.mp4)$/.test(file)) return null;
+
+    const filePath = path.join(this.pathFor(id), file);
+    try {
+      const stats = await fs.stat(filePath);
+      return {
+        stream: range => createReadStream(filePath, range),
+        size: stats.size,
+        mimeType: file.endsWith('.jpg') ? 'image/jpeg' : 'video/mp4',
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  private enqueue(id: string): void {
+    this.pending.add(id);
+    this.queue = this.queue
+      .then(() => this.process(id))
+      .finally(() => this.pending.delete(id));
+  }
+
+  private async process(id: string): Promise<void> {
+    const directory = this.pathFor(id);
+    let result: VideoProcessingResult;
+
+    try {
+      result = await this.transcode(id, directory);
+    } catch (error) {
+      result = { id, state: 'failed', error: error instanceof Error ? error.message : 'Processing failed' };
+    }
+
+    try {
+      await fs.writeFile(path.join(directory, 'status.json'), JSON.stringify(result));
+    } catch {
+      // Deleted while processing
+      return;
+    }
+
+    for (const listener of this.listeners) {
+      await listener(result).catch(() => undefined);
+    }
+  }
+
+  private async transcode(id: string, directory: string): Promise<VideoProcessingResult> {
+    const original = path.join(directory, 'original');
+
+    const stdout = await this.run(this.config.ffprobePath, [
+      '-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', original,
+    ], FFPROBE_TIMEOUT_MS);
+    const probe = JSON.parse(stdout) as {
+      format?: { duration?: string };
+      streams?: Array<{ codec_type?: string; width?: number; height?: number }>;
+    };
+    const video = probe.streams?.find(stream => stream.codec_type === 'video');
+    if (!video?.width || !video.height) {
+      return { id, state: 'failed', error: 'The file has no video stream' };
+    }
+    const duration = Number(probe.format?.duration) || 0;
+
+    // A frame a second in, or halfway through shorter videos
+    await this.run(this.config.ffmpegPath, [
+      '-y', '-v', 'error', '-ss', String(Math.min(1, duration / 2)), '-i', original,
+      '-frames:v', '1', '-vf', 'scale=640:-2', path.join(directory, 'poster.jpg'),
+    ], FFMPEG_TIMEOUT_MS);
+
+    const renditions: Record<string, string> = {};
+    const targets = FFMPEG_RENDITIONS.filter((rendition, index) =>
+      rendition.height <= video.height! || index === FFMPEG_RENDITIONS.length - 1);
+    for (const rendition of targets) {
+      const file = `${rendition.name}.mp4`;
+      await this.run(this.config.ffmpegPath, [
+        '-y', '-v', 'error', '-i', original,
+        '-vf', `scale=-2:${Math.min(rendition.height, video.height)}`,
+        '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '23', '-pix_fmt', 'yuv420p',
+        '-c:a', 'aac', '-b:a', '128k', '-movflags', '+faststart',
+        path.join(directory, file),
+      ], FFMPEG_TIMEOUT_MS);
+      renditions[rendition.name] = `${this.publicUrl}/${id}/${file}`;
+    }
+
+    return {
+      id,
+      state: 'ready',
+      playbackUrl: Object.values(renditions)[0],
+      posterUrl: `${this.publicUrl}/${id}/poster.jpg`,
+      renditions,
+      duration,
+      width: video.width,
+      height: video.height,
+    };
+  }
+
+  // Runs ffprobe or ffmpeg and returns its output; throws if it fails or runs past the timeout
+  private async run(command: string, args: string[], timeout: number): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync(command, args, { timeout, maxBuffer: EXEC_MAX_BUFFER });
+      return stdout;
+    } catch (error) {
+      if (error instanceof Error && 'killed' in error && error.killed) {
+        throw new Error(`${path.basename(command)} timed out after ${timeout / 1000} seconds`);
+      }
+      throw error;
+    }
+  }
+
+  private pathFor(id: string): string {
+    if (!VIDEO_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid video ID: ${id}`);
+    }
+    return path.join(this.config.directory, id);
+  }
+}
@@ -9,8 +9,40 @@ export const AppleAuthBody = Type.Object({
   authorizationCode: Type.Optional(Type.String()),
 });
 
+const Email = Type.String({ format: 'email', maxLength: 320 });
+const Password = Type.String({ minLength: 8, maxLength: 128 });
+
+export const EmailRegisterBody = Type.Object({
+  email: Email,
+  password: Password,
+  name: Type.String({ minLength: 1, maxLength: 100 }),
+});
+
+export const EmailLoginBody = Type.Object({
+  email: Email,
+  password: Type.String({ minLength: 1, maxLength: 128 }),
+});
+
+export const EmailOnlyBody = Type.Object({
+  email: Email,
+});
+
+export const EmailTokenBody = Type.Object({
+  token: Type.String({ minLength: 1 }),
+});
+
+export const PasswordResetBody = Type.Object({
+  token: Type.String({ minLength: 1 }),
+  password: Password,
+});
+
 export type GoogleAuthRequest = Static<typeof GoogleAuthBody>;
 export type AppleAuthRequest = Static<typeof AppleAuthBody>;
+export type EmailRegisterRequest = Static<typeof EmailRegisterBody>;
+export type EmailLoginRequest = Static<typeof EmailLoginBody>;
+export type EmailOnlyRequest = Static<typeof EmailOnlyBody>;
+export type EmailTokenRequest = Static<typeof EmailTokenBody>;
+export type PasswordResetRequest = Static<typeof PasswordResetBody>;
 
 export interface TokenPayload {
   iss: string;
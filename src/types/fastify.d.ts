@@ -1,5 +1,6 @@
 import { JWT } from '@fastify/jwt';
 import { User } from '../models/user';
+import type { Role } from '../models/authUser';
 
 declare module 'fastify' {
   interface FastifyInstance {
@@ -7,10 +8,12 @@ declare module 'fastify' {
       PORT: number;
       HOST: string;
       NODE_ENV: string;
+      API_URL: string;
       DATABASE_URL: string;
       JWT_SECRET: string;
       JWT_EXPIRES_IN: string;
       GOOGLE_CLIENT_ID: string;
+      GOOGLE_CLIENT_SECRET: string;
       APPLE_CLIENT_ID: string;
       APPLE_TEAM_ID: string;
       APPLE_KEY_ID: string;
@@ -18,11 +21,49 @@ declare module 'fastify' {
       CLOUDFLARE_ACCOUNT_ID: string;
       CLOUDFLARE_IMAGES_API_TOKEN: string;
       CLOUDFLARE_IMAGES_ACCOUNT_HASH: string;
+      CLOUDFLARE_IMAGES_SIGNING_KEY: string;
+      STORAGE_PROVIDER: 'cloudflare' | 's3' | 'local';
+      S3_ENDPOINT: string;
+      S3_REGION: string;
+      S3_BUCKET: string;
+      S3_ACCESS_KEY_ID: string;
+      S3_SECRET_ACCESS_KEY: string;
+      S3_PUBLIC_URL: string;
+      LOCAL_STORAGE_DIR: string;
+      LOCAL_STORAGE_URL: string;
+      TUS_UPLOAD_DIR: string;
+      VIDEO_TRANSCODER: 'cloudflare_stream' | 'ffmpeg';
+      CLOUDFLARE_STREAM_API_TOKEN: string;
+      CLOUDFLARE_STREAM_WEBHOOK_SECRET: string;
+      FFMPEG_PATH: string;
+      FFPROBE_PATH: string;
+      VIDEO_LOCAL_DIR: string;
+      VIDEO_LOCAL_URL: string;
+      APP_LINK_URL: string;
+      MAIL_TRANSPORT: 'console' | 'file' | 'http';
+      MAIL_FROM: string;
+      MAIL_FILE_DIR: string;
+      MAIL_HTTP_URL: string;
+      MAIL_HTTP_API_KEY: string;
+      JOBS_ENABLED: boolean;
+      ACCOUNT_DELETION_GRACE_DAYS: number;
+      BLOOD_DONATION_COOLDOWN_DAYS: number;
+      EVENT_REMINDER_HOURS: number;
+      EXPO_PUSH_API_URL: string;
+      EXPO_ACCESS_TOKEN: string;
+      CURSOR_SECRET: string;
     };
     authenticate: (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
+    requireRole: (...roles: Role[]) => (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
   }
 
   interface FastifyRequest {
     user?: User;
   }
+
+  interface FastifyContextConfig {
+    // A single-purpose token `authenticate` accepts on this route besides access tokens.
+    // Stream tickets may also be passed as ?ticket=.
+    tokenType?: 'stream';
+  }
 }
\ No newline at end of file
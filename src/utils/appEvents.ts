@@ -0,0 +1,67 @@
+import { EventEmitter } from 'events';
+import type { Comment } from '../models/comments';
+import type { CommentReply } from '../models/comment_replies';
+import type { BloodRequest } from '../models/blood_requests';
+import type { Event } from '../models/events';
+import type { Group } from '../models/groups';
+import type { JobPosting } from '../models/job_postings';
+import type { JobApplication } from '../models/job_applications';
+import type { Mentorship } from '../models/mentorships';
+
+/**
+ * Domain events raised by services. Listeners (notifications, push, ...) subscribe
+ * in their plugin so services don't need to know who reacts to them.
+ */
+export interface AppEventMap {
+  'comment.created': { comment: Comment };
+  'reply.created': { reply: CommentReply; comment: Comment };
+  'favourite.created': { userId: string; likedType: string; likedTypeId: string };
+  // donorIds: profiles matched as compatible, eligible donors
+  'blood_request.created': { request: BloodRequest; donorIds: string[] };
+  'blood_request.accepted': { request: BloodRequest; donorId: string };
+  // attendeeIds: profiles going (or maybe going) to the event
+  'event.reminder': { event: Event; attendeeIds: string[] };
+  // userIds: profiles moved from the waitlist to going
+  'event.promoted': { event: Event; userIds: string[] };
+  'event.cancelled': { event: Event; cancelledBy: string; attendeeIds: string[] };
+  'group.invited': { group: Group; userId: string; invitedBy: string };
+  // moderatorIds: the group's active owners and moderators
+  'group.requested': { group: Group; userId: string; moderatorIds: string[] };
+  'group.approved': { group: Group; userId: string; approvedBy: string };
+  'job.applied': { job: JobPosting; application: JobApplication };
+  'job.application_status': { job: JobPosting; application: JobApplication };
+  'mentorship.requested': { mentorship: Mentorship };
+  // The mentor accepted or declined; see mentorship.status
+  'mentorship.responded': { mentorship: Mentorship };
+  'mentorship.ended': { mentorship: Mentorship; endedBy: string };
+}
+
+class AppEventBus {
+  private emitter = new EventEmitter();
+
+  emit<K extends keyof AppEventMap>(event: K, payload: AppEventMap[K]): void {
+    this.emitter.emit(event, payload);
+  }
+
+  /**
+   * Listeners run asynchronously; a failing listener never breaks the request that raised the event.
+   * Its errors go to onError, usually the app logger
+   */
+  on<K extends keyof AppEventMap>(
+    event: K,
+    listener: (payload: AppEventMap[K]) => Promise<void> | void,
+    onError: (error: unknown) => void
+  ): () => void {
+    const wrapped = (payload: AppEventMap[K]) => {
+      Promise.resolve()
+        .then(() => listener(payload))
+        .catch(onError);
+    };
+    this.emitter.on(event, wrapped);
+    return () => {
+      this.emitter.off(event, wrapped);
+    };
+  }
+}
+
+export const appEvents = new AppEventBus();
@@ -0,0 +1,128 @@
+import { createHash, createHmac } from 'crypto';
+
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  region: string;
+  service: string;
+}
+
+const sha256 = (data: string | Buffer): string => createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string): Buffer => createHmac('sha256', key).update(data).digest();
+
+// RFC 3986, as AWS expects; encodeURIComponent leaves !'()* alone
+const encodeRfc3986 = (value: string): string =>
+  encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+interface CanonicalRequest {
+  method: string;
+  url: URL;
+  // Lowercased names, normalized values
+  headers: Record<string, string>;
+  payloadHash: string;
+}
+
+const canonicalHeaders = (headers: Record<string, string> = {}, host: string): Record<string, string> => {
+  const canonical: Record<string, string> = {};
+  Object.entries(headers).forEach(([name, value]) => {
+    canonical[name.toLowerCase()] = value.trim().replace(/\s+/g, ' ');
+  });
+  canonical['host'] = host;
+  return canonical;
+};
+
+// Signs the canonical form of a request; returns the scope, signed header list and signature
+function sign(request: CanonicalRequest, credentials: AwsCredentials, amzDate: string) {
+  const date = amzDate.slice(0, 8);
+  const headerNames = Object.keys(request.headers).sort();
+  const signedHeaders = headerNames.join(';');
+
+  const query = [...request.url.searchParams.entries()]
+    .map(([name, value]) => [encodeRfc3986(name), encodeRfc3986(value)] as const)
+    .sort(([a, aValue], [b, bValue]) => (a === b ? (aValue < bValue ? -1 : 1) : a < b ? -1 : 1))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    request.url.pathname || '/',
+    query,
+    headerNames.map(name => `${name}:${request.headers[name]}\n`).join(''),
+    signedHeaders,
+    request.payloadHash,
+  ].join('\n');
+
+  const scope = `${date}/${credentials.region}/${credentials.service}/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, date), credentials.region), credentials.service), 'aws4_request');
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return { scope, signedHeaders, signature };
+}
+
+const toAmzDate = (now: Date): string => now.toISOString().replace(/[-:]|\.\d{3}/g, '');
+
+/**
+ * Signs a request with AWS Signature Version 4 (header-based) and returns the headers to send,
+ * including `authorization`. The URL's path must already be encoded. Works with S3 and
+ * S3-compatible stores such as MinIO or R2.
+ */
+export function signAwsRequest(
+  request: {
+    method: string;
+    url: URL;
+    headers?: Record<string, string> | undefined;
+    body?: Buffer | string | undefined;
+  },
+  credentials: AwsCredentials,
+  now: Date = new Date()
+): Record<string, string> {
+  const amzDate = toAmzDate(now);
+  const payloadHash = sha256(request.body ?? '');
+
+  const headers = canonicalHeaders(request.headers, request.url.host);
+  headers['x-amz-date'] = amzDate;
+  headers['x-amz-content-sha256'] = payloadHash;
+
+  const { scope, signedHeaders, signature } = sign({ method: request.method, url: request.url, headers, payloadHash }, credentials, amzDate);
+
+  // fetch sets Host itself
+  const { host, ...rest } = headers;
+  return {
+    ...rest,
+    authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+/**
+ * A presigned URL (query-string SigV4) that lets anyone holding it make this one request until it
+ * expires. Headers passed here are signed, so the caller must send them unchanged; the body is not.
+ */
+export function presignAwsUrl(
+  request: {
+    method: string;
+    url: URL;
+    headers?: Record<string, string> | undefined;
+  },
+  credentials: AwsCredentials,
+  expiresInSeconds: number,
+  now: Date = new Date()
+): string {
+  const amzDate = toAmzDate(now);
+  const headers = canonicalHeaders(request.headers, request.url.host);
+
+  const url = new URL(request.url);
+  url.searchParams.set('X-Amz-Algorithm', 'AWS4-HMAC-SHA256');
+  url.searchParams.set('X-Amz-Credential', `${credentials.accessKeyId}/${amzDate.slice(0, 8)}/${credentials.region}/${credentials.service}/aws4_request`);
+  url.searchParams.set('X-Amz-Date', amzDate);
+  // AWS caps presigned URLs at 7 days
+  url.searchParams.set('X-Amz-Expires', String(Math.min(Math.max(Math.floor(expiresInSeconds), 1), 604800)));
+  url.searchParams.set('X-Amz-SignedHeaders', Object.keys(headers).sort().join(';'));
+
+  const { signature } = sign({ method: request.method, url, headers, payloadHash: 'UNSIGNED-PAYLOAD' }, credentials, amzDate);
+  url.searchParams.set('X-Amz-Signature', signature);
+
+  // URLSearchParams encodes like application/x-www-form-urlencoded; AWS wants RFC 3986
+  return `${url.origin}${url.pathname}?${[...url.searchParams.entries()].map(([name, value]) => `${encodeRfc3986(name)}=${encodeRfc3986(value)}`).join('&')}`;
+}
@@ -0,0 +1,30 @@
+/**
+ * ABO/Rh groups and red cell compatibility: which donor groups a recipient can receive from
+ */
+
+export const bloodGroups = ['O-', 'O+', 'A-', 'A+', 'B-', 'B+', 'AB-', 'AB+'] as const;
+
+export type BloodGroup = typeof bloodGroups[number];
+
+const COMPATIBLE_DONORS: Record<BloodGroup, BloodGroup[]> = {
+  'O-': ['O-'],
+  'O+': ['O-', 'O+'],
+  'A-': ['O-', 'A-'],
+  'A+': ['O-', 'O+', 'A-', 'A+'],
+  'B-': ['O-', 'B-'],
+  'B+': ['O-', 'O+', 'B-', 'B+'],
+  'AB-': ['O-', 'A-', 'B-', 'AB-'],
+  'AB+': [...bloodGroups],
+};
+
+/**
+ * "o+", " AB- " -> "O+", "AB-"; null for anything that isn't a blood group
+ */
+export function normalizeBloodGroup(value: string | null | undefined): BloodGroup | null {
+  const normalized = value?.trim().toUpperCase().replace(/\s+/g, '');
+  return (bloodGroups as readonly string[]).includes(normalized || '') ? normalized as BloodGroup : null;
+}
+
+export function compatibleDonorGroups(recipient: BloodGroup): BloodGroup[] {
+  return COMPATIBLE_DONORS[recipient];
+}
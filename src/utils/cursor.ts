@@ -0,0 +1,230 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { sql, asc, desc, type SQL, type AnyColumn } from 'drizzle-orm';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { Type } from '@sinclair/typebox';
+
+/**
+ * Opaque, signed keyset cursors for newest-first lists.
+ *
+ * A cursor points at a row by its (created_at, id) pair. "next" pages continue with
+ * older rows, "prev" pages return newer rows (including ones created since the
+ * first page was loaded), so feeds neither skip nor repeat rows while they change.
+ */
+
+export type CursorDirection = 'next' | 'prev';
+
+export interface CursorKey {
+  // created_at as Postgres text, so microseconds survive the round trip
+  createdAt: string;
+  id: string;
+}
+
+export interface Cursor extends CursorKey {
+  direction: CursorDirection;
+}
+
+export interface KeysetColumns {
+  createdAt: AnyColumn;
+  id: AnyColumn;
+}
+
+export interface PageOptions {
+  limit?: number | undefined;
+  offset?: number | undefined;
+  cursor?: Cursor | undefined;
+}
+
+export interface PageWindow {
+  limit: number;
+  offset: number;
+  cursor?: Cursor | undefined;
+  // Rows to fetch: one extra tells whether another page follows
+  fetch: number;
+}
+
+export interface PageMeta {
+  limit: number;
+  offset?: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+export class CursorError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'CursorError';
+  }
+}
+
+let cursorSecret: string | null = null;
+
+export function setCursorSecret(secret: string): void {
+  cursorSecret = secret;
+}
+
+function sign(payload: string): string {
+  if (!cursorSecret) {
+    throw new Error('Cursor secret is not configured');
+  }
+  return createHmac('sha256', cursorSecret).update(payload).digest('base64url');
+}
+
+export function encodeCursor(key: CursorKey, direction: CursorDirection): string {
+  const payload = Buffer.from(JSON.stringify({ t: key.createdAt, i: key.id, d: direction })).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+export function decodeCursor(cursor: string): Cursor {
+  const [payload, signature, ...rest] = cursor.split('.');
+  if (!payload || !signature || rest.length > 0) {
+    throw new CursorError('Invalid cursor');
+  }
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new CursorError('Invalid cursor');
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    throw new CursorError('Invalid cursor');
+  }
+
+  if (
+    typeof parsed?.t !== 'string' ||
+    typeof parsed?.i !== 'string' ||
+    (parsed?.d !== 'next' && parsed?.d !== 'prev')
+  ) {
+    throw new CursorError('Invalid cursor');
+  }
+
+  return { createdAt: parsed.t, id: parsed.i, direction: parsed.d };
+}
+
+/**
+ * Decode an optional `cursor` query parameter; undefined when absent
+ */
+export function parseCursor(cursor: string | undefined): Cursor | undefined {
+  return cursor ? decodeCursor(cursor) : undefined;
+}
+
+/**
+ * preHandler rejecting tampered or malformed `cursor` query parameters,
+ * so handlers can decode them without further checks
+ */
+export async function validateCursor(request: FastifyRequest, reply: FastifyReply) {
+  try {
+    parseCursor((request.query as { cursor?: string } | undefined)?.cursor);
+  } catch (error) {
+    if (error instanceof CursorError) {
+      return reply.code(error.statusCode).send({
+        success: false,
+        error: error.message,
+      });
+    }
+    throw error;
+  }
+}
+
+// Querystring and response fields shared by cursor-paginated list routes
+export const CursorQuery = {
+  cursor: Type.Optional(Type.String()),
+};
+
+export const CursorPageFields = {
+  offset: Type.Optional(Type.Integer()),
+  nextCursor: Type.Union([Type.String(), Type.Null()]),
+  prevCursor: Type.Union([Type.String(), Type.Null()]),
+};
+
+/**
+ * Selects created_at as text for building cursors from result rows
+ */
+export function cursorKey(columns: KeysetColumns): SQL<string> {
+  return sql<string>`${columns.createdAt}::text`;
+}
+
+/**
+ * Rows on the requested side of the cursor; undefined without a cursor
+ */
+export function cursorWhere(columns: KeysetColumns, cursor: Cursor | undefined): SQL | undefined {
+  if (!cursor) return undefined;
+
+  return cursor.direction === 'next'
+    ? sql`(${columns.createdAt}, ${columns.id}) < (${cursor.createdAt}::timestamptz, ${cursor.id})`
+    : sql`(${columns.createdAt}, ${columns.id}) > (${cursor.createdAt}::timestamptz, ${cursor.id})`;
+}
+
+/**
+ * Newest first; "prev" pages are read oldest first from the cursor and reversed by cursorPage
+ */
+export function cursorOrderBy(columns: KeysetColumns, cursor: Cursor | undefined): SQL[] {
+  return cursor?.direction === 'prev'
+    ? [asc(columns.createdAt), asc(columns.id)]
+    : [desc(columns.createdAt), desc(columns.id)];
+}
+
+export function pageWindow(options: PageOptions, defaultLimit = 10): PageWindow {
+  const limit = options.limit || defaultLimit;
+
+  return {
+    limit,
+    // A cursor replaces the offset
+    offset: options.cursor ? 0 : options.offset || 0,
+    cursor: options.cursor,
+    fetch: limit + 1,
+  };
+}
+
+/**
+ * Page metadata for lists short-circuited before querying
+ */
+export function emptyPage(window: PageWindow): PageMeta {
+  return {
+    limit: window.limit,
+    ...(window.cursor ? {} : { offset: window.offset }),
+    nextCursor: null,
+    prevCursor: null,
+  };
+}
+
+/**
+ * Trim a page fetched with pageWindow and work out its cursors. Offset pages
+ * get cursors too, so clients can switch to cursors after the first request.
+ * prevCursor is always set while the page has an anchor row, so clients can
+ * poll it for rows created since.
+ */
+export function cursorPage<T>(
+  rows: T[],
+  window: PageWindow,
+  keyOf: (row: T) => CursorKey
+): PageMeta & { rows: T[] } {
+  const { limit, offset, cursor } = window;
+  const hasMore = rows.length > limit;
+  const page = rows.slice(0, limit);
+
+  if (cursor?.direction === 'prev') {
+    page.reverse();
+  }
+
+  const first = page[0];
+  const last = page[page.length - 1];
+  const firstKey = first ? keyOf(first) : cursor;
+  const lastKey = last ? keyOf(last) : cursor;
+
+  const nextCursor = cursor?.direction === 'prev'
+    ? lastKey ? encodeCursor(lastKey, 'next') : null
+    : hasMore && lastKey ? encodeCursor(lastKey, 'next') : null;
+  const prevCursor = firstKey ? encodeCursor(firstKey, 'prev') : null;
+
+  return {
+    rows: page,
+    limit,
+    ...(cursor ? {} : { offset }),
+    nextCursor,
+    prevCursor,
+  };
+}
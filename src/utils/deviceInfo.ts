@@ -0,0 +1,20 @@
+import type { FastifyRequest } from 'fastify';
+import { randomUUID } from 'crypto';
+import type { DeviceInfo } from '../services/sessionService';
+
+const headerValue = (value: string | string[] | undefined): string | undefined =>
+  (Array.isArray(value) ? value[0] : value) || undefined;
+
+/**
+ * Build session device info from request headers.
+ * Clients should send a stable `x-device-id` so sessions can be grouped per device.
+ */
+export function getDeviceInfo(request: FastifyRequest): DeviceInfo {
+  return {
+    deviceId: headerValue(request.headers['x-device-id'])?.slice(0, 255) || randomUUID(),
+    deviceName: headerValue(request.headers['x-device-name'])?.slice(0, 255),
+    deviceType: headerValue(request.headers['x-device-type'])?.slice(0, 50),
+    userAgent: headerValue(request.headers['user-agent']),
+    ipAddress: request.ip,
+  };
+}
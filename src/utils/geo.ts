@@ -0,0 +1,58 @@
+/**
+ * Coordinates parsed from free-text locations
+ */
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+// Two decimals is roughly 1 km: enough for "near me", too coarse to find a house
+export const COORDINATE_DECIMALS = 2;
+
+const NUMBER = '([+-]?\\d{1,3}(?:\\.\\d+)?)';
+
+// "POINT(78.4867 17.385)": WKT puts longitude first
+const WKT_POINT = new RegExp(`POINT\\s*\\(\\s*${NUMBER}\\s+${NUMBER}\\s*\\)`, 'i');
+// Map links: ".../@17.385,78.4867,15z", "?q=17.385,78.4867", "?ll=...", "?query=..."
+const MAP_LINK = new RegExp(`(?:@|[?&](?:q|ll|query|center)=)${NUMBER}\\s*(?:,|%2C)\\s*${NUMBER}`, 'i');
+// "17.385° N, 78.4867° E"
+const HEMISPHERES = new RegExp(`${NUMBER}\\s*°?\\s*([NS])\\s*,?\\s*${NUMBER}\\s*°?\\s*([EW])`, 'i');
+// "17.385, 78.4867", "(17.385,78.4867)", "geo:17.385,78.4867"
+const PAIR = new RegExp(`${NUMBER}\\s*,\\s*${NUMBER}`);
+
+function toCoordinates(latitude: number, longitude: number): Coordinates | null {
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  // 0,0 is the usual placeholder for "unknown", not a location
+  if (latitude === 0 && longitude === 0) return null;
+
+  return { latitude, longitude };
+}
+
+/**
+ * Coordinates from a free-text geolocation: "lat,lng" pairs, geo: URIs, map links,
+ * WKT points or degrees with hemispheres. Null when nothing usable is found.
+ */
+export function parseGeolocation(value: string | null | undefined): Coordinates | null {
+  if (!value) return null;
+  const text = value.trim();
+
+  const point = WKT_POINT.exec(text);
+  if (point) return toCoordinates(Number(point[2]), Number(point[1]));
+
+  const link = MAP_LINK.exec(text);
+  if (link) return toCoordinates(Number(link[1]), Number(link[2]));
+
+  const hemispheres = HEMISPHERES.exec(text);
+  if (hemispheres) {
+    const latitude = Math.abs(Number(hemispheres[1])) * (hemispheres[2]!.toUpperCase() === 'S' ? -1 : 1);
+    const longitude = Math.abs(Number(hemispheres[3])) * (hemispheres[4]!.toUpperCase() === 'W' ? -1 : 1);
+    return toCoordinates(latitude, longitude);
+  }
+
+  const pair = PAIR.exec(text);
+  if (pair) return toCoordinates(Number(pair[1]), Number(pair[2]));
+
+  return null;
+}
@@ -8,10 +8,12 @@ export interface SimpleMediaField {
 }
 
 /**
- * Transform media record to simple format with /public variant
+ * Transform media record to simple format with /public variant. Only public media has a
+ * permanent URL to show.
  */
 export function transformToSimpleMedia(mediaRecord: any): SimpleMediaField | null {
   if (!mediaRecord?.id || !mediaRecord?.url) return null;
+  if (mediaRecord.privacy && mediaRecord.privacy !== 'public') return null;
   
   // Ensure URL uses /public variant
   const baseUrl = mediaRecord.url.replace(/\/\w+$/, '');
@@ -9,10 +9,15 @@ export interface MediaField {
 }
 
 /**
- * Transform a single media ID to a media object with URLs
+ * Transform a single media ID to a media object with URLs. Media that isn't public keeps its ID
+ * but no URLs; those are signed per viewer by MediaAccessService.
  */
 export function transformMediaField(mediaRecord: any): MediaField | null {
   if (!mediaRecord) return null;
+
+  if (mediaRecord.privacy && mediaRecord.privacy !== 'public') {
+    return { id: mediaRecord.id, url: null, thumbnailUrl: null, variants: null };
+  }
   
   return {
     id: mediaRecord.id,
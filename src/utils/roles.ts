@@ -0,0 +1,12 @@
+import type { Role } from '../models/authUser';
+
+/**
+ * Check whether an auth user holds one of the given roles.
+ * Admins implicitly satisfy every role requirement.
+ */
+export function hasRole(authUser: { role?: string | null } | null | undefined, ...roles: Role[]): boolean {
+  const role = authUser?.role;
+  if (!role) return false;
+  if (role === 'admin') return true;
+  return (roles as string[]).includes(role);
+}
@@ -0,0 +1,107 @@
+import { Type } from '@sinclair/typebox';
+import { jobEmploymentTypes, type JobEmploymentType } from '../models/job_postings';
+
+/**
+ * Filter querystrings of the member directory, the doctor directory, business search and the job board.
+ * Shared by those routes and by saved searches, which store the same fields and re-run them.
+ */
+
+export const MemberFilterQuery = {
+  query: Type.Optional(Type.String()),
+  bloodGroup: Type.Optional(Type.String()),
+  professions: Type.Optional(Type.String()), // comma-separated IDs
+  specializations: Type.Optional(Type.String()), // comma-separated IDs
+  yearMin: Type.Optional(Type.Integer()),
+  yearMax: Type.Optional(Type.Integer()),
+  cities: Type.Optional(Type.String()), // comma-separated
+  states: Type.Optional(Type.String()), // comma-separated
+  countries: Type.Optional(Type.String()), // comma-separated
+};
+
+export const DoctorFilterQuery = {
+  specializations: Type.Optional(Type.String()), // comma-separated IDs
+  cities: Type.Optional(Type.String()), // comma-separated
+};
+
+export const BusinessSearchFilterQuery = {
+  query: Type.String({ minLength: 1 }),
+};
+
+// Job board and job search; jobs are always open and unexpired
+export const JobFilterQuery = {
+  businessId: Type.Optional(Type.String({ format: 'uuid' })),
+  professionId: Type.Optional(Type.String({ format: 'uuid' })),
+  specializationId: Type.Optional(Type.String({ format: 'uuid' })),
+  city: Type.Optional(Type.String()),
+  remote: Type.Optional(Type.Boolean()),
+  employmentType: Type.Optional(Type.Union(jobEmploymentTypes.map(type => Type.Literal(type)))),
+  // Jobs whose range reaches at least this much
+  salaryMin: Type.Optional(Type.Integer({ minimum: 0 })),
+};
+
+export interface MemberFilters {
+  query?: string;
+  bloodGroup?: string;
+  professions?: string;
+  specializations?: string;
+  yearMin?: number;
+  yearMax?: number;
+  cities?: string;
+  states?: string;
+  countries?: string;
+}
+
+export interface DoctorFilters {
+  specializations?: string;
+  cities?: string;
+}
+
+export interface BusinessSearchFilters {
+  query: string;
+}
+
+export interface JobFilters {
+  businessId?: string | undefined;
+  professionId?: string | undefined;
+  specializationId?: string | undefined;
+  city?: string | undefined;
+  remote?: boolean | undefined;
+  employmentType?: JobEmploymentType | undefined;
+  salaryMin?: number | undefined;
+}
+
+function splitList(value: string | undefined): string[] | undefined {
+  return value?.split(',').filter(Boolean);
+}
+
+/**
+ * Member directory filters in the shape UserProfileServiceSimple.list expects
+ */
+export function memberListFilters(filters: MemberFilters) {
+  return {
+    query: filters.query,
+    bloodGroup: filters.bloodGroup,
+    professionIds: splitList(filters.professions),
+    specializationIds: splitList(filters.specializations),
+    yearRange: filters.yearMin && filters.yearMax ? { min: filters.yearMin, max: filters.yearMax } : undefined,
+    locations: {
+      cities: splitList(filters.cities),
+      states: splitList(filters.states),
+      countries: splitList(filters.countries),
+    } as {
+      cities?: string[];
+      states?: string[];
+      countries?: string[];
+    },
+  };
+}
+
+/**
+ * Doctor directory filters in the shape UserProfileServiceSimple.listDoctors expects
+ */
+export function doctorListFilters(filters: DoctorFilters) {
+  return {
+    specializationIds: splitList(filters.specializations),
+    cities: splitList(filters.cities),
+  };
+}
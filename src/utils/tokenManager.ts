@@ -1,103 +1,159 @@
 import { FastifyInstance } from 'fastify';
-import { randomBytes } from 'crypto';
+import { randomBytes, createHash } from 'crypto';
+import { and, eq, isNull, lt } from 'drizzle-orm';
+import { authUsers } from '../models/authUser';
+import { refreshTokens } from '../models/refresh_tokens';
+import { sessions } from '../models/sessions';
+import { SessionService, type DeviceInfo } from '../services/sessionService';
 
 export interface TokenPair {
   accessToken: string;
   refreshToken: string;
 }
 
-export interface RefreshTokenData {
-  userId: string;
-  tokenId: string;
-  expiresAt: Date;
-}
-
-// In-memory storage for refresh tokens (in production, use Redis or database)
-const refreshTokenStore = new Map<string, RefreshTokenData>();
+const REFRESH_TOKEN_TTL_DAYS = 30;
 
 export class TokenManager {
-  constructor(private fastify: FastifyInstance) {}
+  private sessionService: SessionService;
+
+  constructor(private fastify: FastifyInstance) {
+    this.sessionService = new SessionService(fastify.db, fastify);
+  }
+
+  /**
+   * Start a new session for the device and generate its access and refresh tokens
+   */
+  async generateTokenPair(userId: string, email: string, deviceInfo: DeviceInfo): Promise<TokenPair> {
+    const session = await this.sessionService.createSession(userId, deviceInfo, REFRESH_TOKEN_TTL_DAYS * 24);
+    const { tokens } = await this.issueTokenPair(userId, email, session.id);
+    return tokens;
+  }
 
   /**
-   * Generate access and refresh tokens
+   * The session ID is used as the refresh token family, so rotation stays within one session
    */
-  generateTokenPair(userId: string, email: string): TokenPair {
+  private async issueTokenPair(
+    userId: string,
+    email: string,
+    sessionId: string
+  ): Promise<{ tokens: TokenPair; refreshTokenRowId: string }> {
     // Generate access token (short-lived)
     const accessToken = this.fastify.jwt.sign(
-      { userId, email },
+      { userId, email, sessionId },
       { expiresIn: '1h' } // 1 hour
     );
 
     // Generate refresh token (long-lived)
     const tokenId = randomBytes(32).toString('hex');
     const refreshToken = this.fastify.jwt.sign(
-      { userId, tokenId, type: 'refresh' },
-      { expiresIn: '30d' } // 30 days
+      { userId, sessionId, tokenId, type: 'refresh' },
+      { expiresIn: `${REFRESH_TOKEN_TTL_DAYS}d` }
     );
 
-    // Store refresh token data
     const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 30);
-    
-    refreshTokenStore.set(tokenId, {
-      userId,
-      tokenId,
-      expiresAt,
-    });
-
-    return { accessToken, refreshToken };
+    expiresAt.setDate(expiresAt.getDate() + REFRESH_TOKEN_TTL_DAYS);
+
+    const [stored] = await this.fastify.db
+      .insert(refreshTokens)
+      .values({
+        authUserId: userId,
+        tokenHash: this.hashToken(refreshToken),
+        familyId: sessionId,
+        expiresAt,
+      })
+      .returning({ id: refreshTokens.id });
+
+    return { tokens: { accessToken, refreshToken }, refreshTokenRowId: stored!.id };
   }
 
   /**
-   * Verify and refresh access token
+   * Verify a refresh token and rotate it.
+   * A token that was already rotated or revoked is treated as stolen: its whole family is revoked.
    */
   async refreshAccessToken(refreshToken: string): Promise<TokenPair | null> {
     try {
       // Verify refresh token
-      const decoded = this.fastify.jwt.verify(refreshToken) as any;
-      
+      const decoded = this.fastify.jwt.verify<{ userId: string; type?: string }>(refreshToken);
+
       if (decoded.type !== 'refresh') {
         throw new Error('Invalid token type');
       }
 
-      // Check if refresh token exists in store
-      const tokenData = refreshTokenStore.get(decoded.tokenId);
+      const [tokenData] = await this.fastify.db
+        .select()
+        .from(refreshTokens)
+        .where(eq(refreshTokens.tokenHash, this.hashToken(refreshToken)))
+        .limit(1);
+
       if (!tokenData) {
         throw new Error('Refresh token not found');
       }
 
-      // Check if refresh token is expired
-      if (new Date() > tokenData.expiresAt) {
-        refreshTokenStore.delete(decoded.tokenId);
-        throw new Error('Refresh token expired');
+      if (tokenData.authUserId !== decoded.userId) {
+        throw new Error('Invalid refresh token');
       }
 
-      // Verify user ID matches
-      if (tokenData.userId !== decoded.userId) {
-        throw new Error('Invalid refresh token');
+      if (tokenData.rotatedAt || tokenData.revokedAt) {
+        await this.revokeFamily(tokenData.familyId);
+        this.fastify.log.warn(
+          { authUserId: tokenData.authUserId, familyId: tokenData.familyId },
+          'Refresh token reuse detected, token family revoked'
+        );
+        throw new Error('Refresh token reuse detected');
+      }
+
+      if (new Date() > tokenData.expiresAt) {
+        throw new Error('Refresh token expired');
       }
 
       // Get user from database to ensure they still exist
-      const { authUsers } = await import('../models/authUser');
-      const { eq } = await import('drizzle-orm');
-      
       const [authUser] = await this.fastify.db
         .select()
         .from(authUsers)
-        .where(eq(authUsers.id, decoded.userId))
+        .where(eq(authUsers.id, tokenData.authUserId))
         .limit(1);
 
-      if (!authUser) {
+      if (!authUser || !authUser.isActive) {
         throw new Error('User not found');
       }
 
-      // Generate new token pair
-      const newTokens = this.generateTokenPair(authUser.id, authUser.email);
+      const sessionActive = await this.sessionService.isSessionActive(tokenData.familyId, authUser.id);
+      if (!sessionActive) {
+        throw new Error('Session expired or revoked');
+      }
+
+      // Claim the token; if a concurrent request rotated it first this is a reuse
+      const [claimed] = await this.fastify.db
+        .update(refreshTokens)
+        .set({ rotatedAt: new Date() })
+        .where(and(eq(refreshTokens.id, tokenData.id), isNull(refreshTokens.rotatedAt)))
+        .returning();
 
-      // Revoke old refresh token
-      refreshTokenStore.delete(decoded.tokenId);
+      if (!claimed) {
+        await this.revokeFamily(tokenData.familyId);
+        throw new Error('Refresh token reuse detected');
+      }
 
-      return newTokens;
+      const { tokens, refreshTokenRowId } = await this.issueTokenPair(
+        authUser.id,
+        authUser.email,
+        tokenData.familyId
+      );
+
+      await this.fastify.db
+        .update(refreshTokens)
+        .set({ replacedById: refreshTokenRowId })
+        .where(eq(refreshTokens.id, tokenData.id));
+
+      // Sliding expiry: the session lives as long as its newest refresh token
+      const expiresAt = new Date();
+      expiresAt.setDate(expiresAt.getDate() + REFRESH_TOKEN_TTL_DAYS);
+      await this.fastify.db
+        .update(sessions)
+        .set({ expiresAt, lastActivity: new Date() })
+        .where(eq(sessions.id, tokenData.familyId));
+
+      return tokens;
     } catch (error) {
       this.fastify.log.error('Refresh token error:', error);
       return null;
@@ -105,32 +161,64 @@ export class TokenManager {
   }
 
   /**
-   * Revoke refresh token
+   * Revoke the family a refresh token belongs to
    */
-  revokeRefreshToken(tokenId: string): boolean {
-    return refreshTokenStore.delete(tokenId);
+  async revokeRefreshToken(refreshToken: string): Promise<boolean> {
+    const [tokenData] = await this.fastify.db
+      .select({ familyId: refreshTokens.familyId })
+      .from(refreshTokens)
+      .where(eq(refreshTokens.tokenHash, this.hashToken(refreshToken)))
+      .limit(1);
+
+    if (!tokenData) return false;
+
+    await this.revokeFamily(tokenData.familyId);
+    return true;
   }
 
   /**
-   * Revoke all refresh tokens for a user
+   * Revoke every token issued from the same login, and the session itself
    */
-  revokeAllUserTokens(userId: string): void {
-    for (const [tokenId, data] of refreshTokenStore.entries()) {
-      if (data.userId === userId) {
-        refreshTokenStore.delete(tokenId);
-      }
-    }
+  async revokeFamily(familyId: string): Promise<void> {
+    const now = new Date();
+    await this.fastify.db
+      .update(refreshTokens)
+      .set({ revokedAt: now })
+      .where(and(eq(refreshTokens.familyId, familyId), isNull(refreshTokens.revokedAt)));
+
+    await this.fastify.db
+      .update(sessions)
+      .set({ isActive: false, revokedAt: now })
+      .where(and(eq(sessions.id, familyId), eq(sessions.isActive, true)));
   }
 
   /**
-   * Clean up expired tokens (should be run periodically)
+   * Revoke all sessions and refresh tokens for a user
    */
-  cleanupExpiredTokens(): void {
-    const now = new Date();
-    for (const [tokenId, data] of refreshTokenStore.entries()) {
-      if (now > data.expiresAt) {
-        refreshTokenStore.delete(tokenId);
-      }
-    }
+  async revokeAllUserTokens(userId: string): Promise<void> {
+    await this.sessionService.revokeAllSessions(userId);
+    await this.fastify.db
+      .update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(refreshTokens.authUserId, userId), isNull(refreshTokens.revokedAt)));
+  }
+
+  /**
+   * Clean up expired tokens (should be run periodically).
+   * Revoked rows are kept until expiry so reuse of a stolen token is still detected.
+   */
+  async cleanupExpiredTokens(): Promise<number> {
+    const deleted = await this.fastify.db
+      .delete(refreshTokens)
+      .where(lt(refreshTokens.expiresAt, new Date()))
+      .returning({ id: refreshTokens.id });
+
+    await this.sessionService.cleanupExpiredSessions();
+
+    return deleted.length;
   }
-}
\ No newline at end of file
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}